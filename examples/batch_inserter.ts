@@ -0,0 +1,50 @@
+import { createClient } from '@clickhouse/client' // or '@clickhouse/client-web'
+
+// This example demonstrates how to insert the rows that arrive one at a time (e.g., events from a message queue)
+// without creating too many small parts on the server. The client buffers the rows, and sends them in batches,
+// when the batch has `max_rows` rows, or `max_bytes` of data, or `flush_interval_ms` have passed since its first row.
+// See also `async_insert.ts` for the server-side batching.
+void (async () => {
+  const tableName = 'batch_inserter'
+  const client = createClient()
+  await client.command({
+    query: `
+      CREATE OR REPLACE TABLE ${tableName}
+      (id UInt64, name String)
+      ENGINE MergeTree()
+      ORDER BY (id)
+    `,
+  })
+
+  type Row = { id: number; name: string }
+  const inserter = client.createBatchInserter<Row>({
+    table: tableName,
+    format: 'JSONEachRow',
+    max_rows: 1000,
+    max_bytes: 1024 * 1024,
+    flush_interval_ms: 500,
+    // up to 2 inserts in flight; if both are still running when the next batch is full,
+    // `add` will not resolve until one of them is finished
+    concurrency: 2,
+    on_flush: ({ rows, query_id }) => {
+      console.info(`Inserted ${rows} rows, query_id: ${query_id}`)
+    },
+    on_error: (err, rows) => {
+      // the failed rows are not sent again automatically
+      console.error(`Failed to insert ${rows.length} rows`, err)
+    },
+  })
+
+  for (let id = 0; id < 2500; id++) {
+    await inserter.add({ id, name: `name_${id}` })
+  }
+  // sends the remaining rows and waits for all the inserts in flight
+  await inserter.close()
+
+  const rs = await client.query({
+    query: `SELECT count() AS count FROM ${tableName}`,
+    format: 'JSONEachRow',
+  })
+  console.info(await rs.json())
+  await client.close()
+})()
@@ -0,0 +1,50 @@
+import type { Endpoint } from '@clickhouse/client'
+import { createClient } from '@clickhouse/client' // or '@clickhouse/client-web'
+
+/**
+ * An example of the client configured with several endpoints, such as the replicas of a cluster
+ * (see the root docker-compose.cluster.yml file, where the nodes are available on the ports 8124 and 8125),
+ * instead of an external load balancer in front of them.
+ *
+ * Every endpoint gets its own connection pool. If a request fails with a connection error,
+ * the endpoint is marked as down, and the request is sent to another one (if it can be safely repeated).
+ * The endpoint is pinged in the background until it is up again.
+ */
+void (async () => {
+  const client = createClient({
+    // only the first URL can contain the credentials, the database and the parameters;
+    // these are applied to all the endpoints
+    url: [
+      'http://default:@localhost:8124/default?request_timeout=10000',
+      'http://localhost:8125',
+    ],
+    load_balancing: {
+      // 'round_robin' (default), 'random', 'least_in_flight' or 'first_healthy'
+      strategy: 'least_in_flight',
+      health_check_interval_ms: 1000,
+    },
+  })
+  for (let i = 0; i < 4; i++) {
+    const rs = await client.query({
+      query: 'SELECT hostName() AS host',
+      format: 'JSONEachRow',
+    })
+    console.info(await rs.json())
+  }
+  await client.close()
+
+  // a custom strategy: prefer the endpoints from the "local" zone
+  const customClient = createClient({
+    url: ['http://localhost:8124', 'http://localhost:8125'],
+    load_balancing: {
+      strategy: (endpoints: ReadonlyArray<Endpoint>) =>
+        endpoints.find((e) => e.url.port === '8125') ?? endpoints[0],
+    },
+  })
+  const rs = await customClient.query({
+    query: 'SELECT hostName() AS host',
+    format: 'JSONEachRow',
+  })
+  console.info(await rs.json())
+  await customClient.close()
+})()
@@ -0,0 +1,23 @@
+import { createClient, sql } from '@clickhouse/client' // or '@clickhouse/client-web'
+
+void (async () => {
+  const client = createClient()
+  const table = 'system.numbers'
+  const numbers = [1, 2, 3]
+  // Interpolated values are sent as query parameters; their types are inferred from the JS values:
+  // SELECT number FROM `system`.`numbers` WHERE number IN {p0:Array(Int64)} AND number < {p1:Int64} LIMIT 10
+  const where = sql`number IN ${numbers} AND number < ${10}`
+  const resultSet = await client.query({
+    query: sql`SELECT number FROM ${sql.identifier(table)} WHERE ${where} LIMIT 10`,
+    format: 'JSONEachRow',
+  })
+  console.info('Result:', await resultSet.json())
+
+  // The type can be specified explicitly when it cannot be inferred (e.g., UUID, Decimal, Date).
+  const resultSet2 = await client.query({
+    query: sql`SELECT ${sql.param('2024-01-01', 'Date')} AS date`,
+    format: 'JSONEachRow',
+  })
+  console.info('Result:', await resultSet2.json())
+  await client.close()
+})()
@@ -94,6 +94,36 @@ describe('abort request', () => {
       )
     })
 
+    it('should kill the query on the server with cancel_on_abort', async () => {
+      const cancellingClient = createTestClient({
+        cancel_on_abort: { enabled: true, mode: 'SYNC' },
+      })
+      const controller = new AbortController()
+      const query_id = guid()
+      const selectPromise = cancellingClient.query({
+        // runs for about a minute unless it is cancelled
+        query:
+          'SELECT sleepEachRow(1) FROM numbers(60) SETTINGS max_block_size = 1',
+        format: 'JSONCompactEachRow',
+        query_id,
+        abort_signal: controller.signal,
+      })
+      await assertActiveQueries(client, (queries) =>
+        queries.some((q) => q.query_id === query_id),
+      )
+
+      controller.abort()
+      await expectAsync(selectPromise).toBeRejectedWith(
+        jasmine.objectContaining({
+          message: jasmine.stringMatching('The user aborted a request'),
+        }),
+      )
+      await assertActiveQueries(client, (queries) =>
+        queries.every((q) => q.query_id !== query_id),
+      )
+      await cancellingClient.close()
+    })
+
     it('should cancel of the select queries while keeping the others', async () => {
       const controller = new AbortController()
       const results: number[] = []
@@ -131,15 +161,17 @@ describe('abort request', () => {
 
 async function assertActiveQueries(
   client: ClickHouseClient,
-  assertQueries: (queries: Array<{ query: string }>) => boolean,
+  assertQueries: (
+    queries: Array<{ query: string; query_id: string }>,
+  ) => boolean,
 ) {
   let isRunning = true
   while (isRunning) {
     const rs = await client.query({
-      query: 'SELECT query FROM system.processes',
+      query: 'SELECT query, query_id FROM system.processes',
       format: 'JSON',
     })
-    const queries = await rs.json<{ query: string }>()
+    const queries = await rs.json<{ query: string; query_id: string }>()
     if (assertQueries(queries.data)) {
       isRunning = false
     } else {
@@ -0,0 +1,58 @@
+import type { ClickHouseClient } from '@clickhouse/client-common'
+import { tableFromArrays, tableFromIPC, tableToIPC } from 'apache-arrow'
+import { createTestClient, guid } from '../utils'
+
+describe('Arrow formats', () => {
+  let client: ClickHouseClient
+  afterEach(async () => {
+    await client.close()
+  })
+  beforeEach(async () => {
+    client = createTestClient()
+  })
+
+  it('should return the results as record batches', async () => {
+    const rs = await client.query({
+      query: `SELECT toInt32(number) AS n FROM system.numbers LIMIT 300`,
+      format: 'ArrowStream',
+      clickhouse_settings: {
+        max_block_size: '100',
+      },
+    })
+    const values: number[] = []
+    for await (const batch of rs.recordBatches()) {
+      values.push(
+        ...tableFromIPC(batch)
+          .toArray()
+          .map(({ n }) => n),
+      )
+    }
+    expect(values).toEqual([...Array(300).keys()])
+  })
+
+  it('should insert multiple Arrow inputs', async () => {
+    const tableName = `arrow_format_test_${guid()}`
+    await client.command({
+      query: `CREATE TABLE ${tableName} (id Int32, s String) ENGINE MergeTree ORDER BY id`,
+    })
+    await client.insert({
+      table: tableName,
+      format: 'ArrowStream',
+      values: [
+        tableToIPC(
+          tableFromArrays({ id: new Int32Array([1, 2]), s: ['foo', 'bar'] }),
+        ),
+        tableToIPC(tableFromArrays({ id: new Int32Array([3]), s: ['qaz'] })),
+      ],
+    })
+    const rs = await client.query({
+      query: `SELECT * FROM ${tableName} ORDER BY id`,
+      format: 'JSONEachRow',
+    })
+    expect(await rs.json()).toEqual([
+      { id: 1, s: 'foo' },
+      { id: 2, s: 'bar' },
+      { id: 3, s: 'qaz' },
+    ])
+  })
+})
@@ -0,0 +1,56 @@
+import {
+  ClickHouseError,
+  type ClickHouseClient,
+} from '@clickhouse/client-common'
+import { createSimpleTable } from '../fixtures/simple_table'
+import { createTestClient, guid } from '../utils'
+
+describe('createBatchInserter', () => {
+  let client: ClickHouseClient
+  let tableName: string
+
+  beforeEach(async () => {
+    client = createTestClient()
+    tableName = `batch_inserter_test_${guid()}`
+    await createSimpleTable(client, tableName)
+  })
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('inserts the rows in batches', async () => {
+    const on_flush = jasmine.createSpy('on_flush')
+    const inserter = client.createBatchInserter({
+      table: tableName,
+      max_rows: 10,
+      concurrency: 2,
+      on_flush,
+    })
+    for (let id = 0; id < 25; id++) {
+      await inserter.add({ id, name: `name_${id}`, sku: [id % 256] })
+    }
+    await inserter.close()
+
+    // with concurrency, the inserts could finish in any order
+    const batches = on_flush.calls.allArgs().map(([result]) => result.rows)
+    expect(batches.sort()).toEqual([10, 10, 5])
+    const rs = await client.query({
+      query: `SELECT count() AS count FROM ${tableName}`,
+      format: 'JSONEachRow',
+    })
+    expect(await rs.json()).toEqual([{ count: '25' }])
+  })
+
+  it('reports the failed inserts', async () => {
+    const on_error = jasmine.createSpy('on_error')
+    const inserter = client.createBatchInserter({
+      table: tableName,
+      on_error,
+    })
+    await inserter.add({ id: 'foo' })
+    await inserter.close()
+    expect(on_error).toHaveBeenCalledOnceWith(jasmine.any(ClickHouseError), [
+      { id: 'foo' },
+    ])
+  })
+})
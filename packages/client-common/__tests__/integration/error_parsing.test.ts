@@ -1,5 +1,6 @@
 import type { ClickHouseClient } from '@clickhouse/client-common'
-import { createTestClient, getTestDatabaseName } from '../utils'
+import { UnknownTableError } from '@clickhouse/client-common'
+import { createTestClient, getTestDatabaseName, guid } from '../utils'
 
 describe('ClickHouse server errors parsing', () => {
   let client: ClickHouseClient
@@ -51,6 +52,25 @@ describe('ClickHouse server errors parsing', () => {
     )
   })
 
+  it('returns a typed error with the query_id and the HTTP status', async () => {
+    const query_id = guid()
+    const err = await client
+      .query({
+        query: 'SELECT * FROM unknown_table',
+        query_id,
+      })
+      .catch((err) => err)
+    expect(err).toBeInstanceOf(UnknownTableError)
+    expect(err).toEqual(
+      jasmine.objectContaining({
+        query_id,
+        http_status: 404,
+        isUserError: true,
+        isRetryable: false,
+      }),
+    )
+  })
+
   it('returns "syntax error" error', async () => {
     await expectAsync(
       client.query({
@@ -84,4 +104,25 @@ describe('ClickHouse server errors parsing', () => {
       }),
     )
   })
+
+  it('returns an error that occurred in the middle of a streamed response', async () => {
+    const rs = await client.query({
+      query:
+        'SELECT number, throwIf(number = 3) AS t FROM system.numbers LIMIT 10',
+      format: 'JSONEachRow',
+      clickhouse_settings: {
+        max_block_size: '1',
+        // otherwise, the response is not sent until the first block is complete
+        output_format_parallel_formatting: 0,
+      },
+    })
+    await expectAsync(rs.json()).toBeRejectedWith(
+      jasmine.objectContaining({
+        code: '395',
+        type: 'FUNCTION_THROW_IF_VALUE_IS_NON_ZERO',
+        query_id: rs.query_id,
+        rows_received: jasmine.any(Number),
+      }),
+    )
+  })
 })
@@ -0,0 +1,89 @@
+import type { ClickHouseClient } from '@clickhouse/client-common'
+import { createTestClient } from '../utils'
+
+describe('external tables', () => {
+  let client: ClickHouseClient
+  beforeEach(async () => {
+    client = createTestClient()
+  })
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should use the external tables in the query', async () => {
+    const rs = await client.query({
+      query: `
+        SELECT number, name
+        FROM numbers(10)
+        INNER JOIN names ON number = names.id
+        WHERE number IN ids
+        ORDER BY number
+      `,
+      format: 'JSONEachRow',
+      external_tables: [
+        {
+          name: 'ids',
+          structure: 'id UInt64',
+          values: [[1], [3], [5]],
+        },
+        {
+          name: 'names',
+          structure: 'id UInt64, name String',
+          format: 'JSONEachRow',
+          values: [
+            { id: 1, name: 'one' },
+            { id: 3, name: 'three' },
+            { id: 4, name: 'four' },
+          ],
+        },
+      ],
+    })
+    expect(await rs.json()).toEqual([
+      { number: '1', name: 'one' },
+      { number: '3', name: 'three' },
+    ])
+  })
+
+  it('should send the values in a binary format', async () => {
+    const rs = await client.query({
+      query: 'SELECT sum(id) AS total FROM ids',
+      format: 'JSONEachRow',
+      external_tables: [
+        {
+          name: 'ids',
+          structure: 'id UInt32',
+          format: 'RowBinary',
+          values: [[1], [2], [3]],
+        },
+      ],
+    })
+    expect(await rs.json()).toEqual([{ total: '6' }])
+  })
+
+  it('should send the values from an iterable', async () => {
+    function* ids() {
+      for (let i = 0; i < 1000; i++) {
+        yield [i]
+      }
+    }
+    const rs = await client.query({
+      query: 'SELECT count() AS count FROM ids',
+      format: 'JSONEachRow',
+      external_tables: [{ name: 'ids', structure: 'id UInt64', values: ids() }],
+    })
+    expect(await rs.json()).toEqual([{ count: '1000' }])
+  })
+
+  it('should not accept an invalid table name', async () => {
+    await expectAsync(
+      client.query({
+        query: 'SELECT 1',
+        external_tables: [
+          { name: 'my ids', structure: 'id UInt8', values: [] },
+        ],
+      }),
+    ).toBeRejectedWithError(
+      'Invalid external table name: my ids. Only letters, digits and underscores are allowed.',
+    )
+  })
+})
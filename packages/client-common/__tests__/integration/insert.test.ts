@@ -94,6 +94,29 @@ describe('insert', () => {
     await assertJsonValues(client, tableName)
   })
 
+  it('inserts values using RowBinary format with the schema from DESCRIBE TABLE', async () => {
+    await client.insert({
+      table: tableName,
+      values: jsonValues,
+      format: 'RowBinary',
+    })
+    await assertJsonValues(client, tableName)
+  })
+
+  it('inserts values using RowBinaryWithNamesAndTypes format with the provided schema', async () => {
+    await client.insert({
+      table: tableName,
+      values: jsonValues.map(({ id, name, sku }) => [id, name, sku]),
+      format: 'RowBinaryWithNamesAndTypes',
+      schema: [
+        { name: 'id', type: 'UInt64' },
+        { name: 'name', type: 'String' },
+        { name: 'sku', type: 'Array(UInt8)' },
+      ],
+    })
+    await assertJsonValues(client, tableName)
+  })
+
   it('can insert strings with non-ASCII symbols', async () => {
     const values = [
       { id: '42', name: '🅷🅴🅻🅻🅾', sku: [0, 1] },
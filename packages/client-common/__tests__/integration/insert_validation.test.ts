@@ -0,0 +1,86 @@
+import {
+  type ClickHouseClient,
+  InsertValidationError,
+} from '@clickhouse/client-common'
+import { createSimpleTable } from '../fixtures/simple_table'
+import { createTestClient, guid } from '../utils'
+
+describe('insert with validation', () => {
+  let client: ClickHouseClient
+  let tableName: string
+
+  beforeEach(async () => {
+    client = createTestClient()
+    tableName = `insert_validation_test_${guid()}`
+    await createSimpleTable(client, tableName)
+  })
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should insert the valid rows', async () => {
+    await client.insert({
+      table: tableName,
+      values: [{ id: '42', name: 'foo', sku: [1, 2] }],
+      format: 'JSONEachRow',
+      validate: true,
+    })
+    const rs = await client.query({
+      query: `SELECT * FROM ${tableName}`,
+      format: 'JSONEachRow',
+    })
+    expect(await rs.json()).toEqual([{ id: '42', name: 'foo', sku: [1, 2] }])
+  })
+
+  it('should not send the invalid rows', async () => {
+    const err = await client
+      .insert({
+        table: tableName,
+        values: [
+          { id: '42', name: 'foo', sku: [1, 2] },
+          { id: '43', name: 'bar', sku: [256], foo: 1 },
+        ],
+        format: 'JSONEachRow',
+        validate: true,
+      })
+      .catch((err) => err)
+    expect(err).toBeInstanceOf(InsertValidationError)
+    expect((err as InsertValidationError).failures).toEqual([
+      {
+        row: 1,
+        column: 'sku',
+        message: 'element 0: 256 is out of range of UInt8',
+      },
+      { row: 1, column: 'foo', message: 'unknown column' },
+    ])
+    const rs = await client.query({
+      query: `SELECT count() AS count FROM ${tableName}`,
+      format: 'JSONEachRow',
+    })
+    expect(await rs.json()).toEqual([{ count: '0' }])
+  })
+
+  it('should respect the columns to insert', async () => {
+    await expectAsync(
+      client.insert({
+        table: tableName,
+        values: [[42, 'foo']],
+        format: 'JSONCompactEachRow',
+        columns: ['id', 'name'],
+        validate: true,
+      }),
+    ).toBeResolved()
+    await expectAsync(
+      client.insert({
+        table: tableName,
+        values: [[42, 'foo', [1]]],
+        format: 'JSONCompactEachRow',
+        columns: ['id', 'name'],
+        validate: true,
+      }),
+    ).toBeRejectedWithError(
+      InsertValidationError,
+      /row 0: expected 2 values, got: 3/,
+    )
+  })
+})
@@ -0,0 +1,129 @@
+import {
+  type ClickHouseClient,
+  UnknownTableError,
+} from '@clickhouse/client-common'
+import { createTableWithFields } from '../fixtures/table_with_fields'
+import { createTestClient, getTestDatabaseName, guid } from '../utils'
+
+describe('Schema introspection', () => {
+  let client: ClickHouseClient
+  let tableName: string
+
+  beforeEach(async () => {
+    client = createTestClient()
+    tableName = `introspection_test_${guid()}`
+    await createTableWithFields(
+      client,
+      `name String DEFAULT 'foo' COMMENT 'The name', ` +
+        `name_length UInt64 MATERIALIZED length(name), ` +
+        `payload String CODEC(ZSTD(3))`,
+      {},
+      tableName,
+    )
+  })
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should list the databases', async () => {
+    const databases = await client.listDatabases()
+    expect(databases).toContain(
+      jasmine.objectContaining({ name: 'system', engine: jasmine.any(String) }),
+    )
+    expect(databases.map(({ name }) => name)).toContain(getTestDatabaseName())
+  })
+
+  it('should list the tables of the current database', async () => {
+    const tables = await client.listTables()
+    expect(tables).toContain(
+      jasmine.objectContaining({
+        database: getTestDatabaseName(),
+        name: tableName,
+        engine: jasmine.stringContaining('MergeTree'),
+        is_temporary: false,
+        total_rows: 0,
+      }),
+    )
+  })
+
+  it('should list the tables of another database', async () => {
+    const tables = await client.listTables('system')
+    expect(tables.map(({ name }) => name)).toContain('numbers')
+    expect(tables.every(({ database }) => database === 'system')).toBeTrue()
+  })
+
+  it('should describe the columns of the table', async () => {
+    const columns = await client.describeTable(
+      `${getTestDatabaseName()}.${tableName}`,
+    )
+    expect(columns).toEqual([
+      {
+        name: 'id',
+        type: 'UInt32',
+        default_kind: '',
+        default_expression: '',
+        codec: '',
+        comment: '',
+        is_in_partition_key: false,
+        is_in_sorting_key: true,
+        is_in_primary_key: true,
+      },
+      {
+        name: 'name',
+        type: 'String',
+        default_kind: 'DEFAULT',
+        default_expression: `'foo'`,
+        codec: '',
+        comment: 'The name',
+        is_in_partition_key: false,
+        is_in_sorting_key: false,
+        is_in_primary_key: false,
+      },
+      {
+        name: 'name_length',
+        type: 'UInt64',
+        default_kind: 'MATERIALIZED',
+        default_expression: 'length(name)',
+        codec: '',
+        comment: '',
+        is_in_partition_key: false,
+        is_in_sorting_key: false,
+        is_in_primary_key: false,
+      },
+      {
+        name: 'payload',
+        type: 'String',
+        default_kind: '',
+        default_expression: '',
+        codec: 'CODEC(ZSTD(3))',
+        comment: '',
+        is_in_partition_key: false,
+        is_in_sorting_key: false,
+        is_in_primary_key: false,
+      },
+    ])
+  })
+
+  it('should return the engine of the table', async () => {
+    const engine = await client.getTableEngine(tableName)
+    expect(engine).toEqual(
+      jasmine.objectContaining({
+        engine: jasmine.stringContaining('MergeTree'),
+        sorting_key: 'id',
+        primary_key: 'id',
+        partition_key: '',
+        sampling_key: '',
+      }),
+    )
+    expect(engine.settings['index_granularity']).toEqual('8192')
+  })
+
+  it('should throw if the table does not exist', async () => {
+    await expectAsync(
+      client.describeTable(`unknown_table_${guid()}`),
+    ).toBeRejectedWith(jasmine.any(UnknownTableError))
+    await expectAsync(
+      client.getTableEngine(`unknown_table_${guid()}`),
+    ).toBeRejectedWith(jasmine.any(UnknownTableError))
+  })
+})
@@ -0,0 +1,46 @@
+import type {
+  ClickHouseClient,
+  MiddlewareResponse,
+} from '@clickhouse/client-common'
+import { createTestClient } from '../utils'
+
+describe('middleware', () => {
+  let client: ClickHouseClient
+
+  beforeEach(() => {
+    client = createTestClient()
+  })
+
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should modify the settings of the requests', async () => {
+    client.use({
+      beforeRequest: ({ url }) => {
+        url.searchParams.set('log_comment', 'audited')
+      },
+    })
+    const rs = await client.query({
+      query: `SELECT getSetting('log_comment') AS comment`,
+      format: 'JSONEachRow',
+    })
+    expect(await rs.json()).toEqual([{ comment: 'audited' }])
+  })
+
+  it('should inspect the responses', async () => {
+    const responses: MiddlewareResponse[] = []
+    client.use({ afterResponse: (response) => void responses.push(response) })
+    const { query_id } = await client.command({
+      query: 'SELECT 1',
+    })
+    expect(responses.length).toEqual(1)
+    expect(responses[0].op).toEqual('Command')
+    expect(responses[0].response_headers['x-clickhouse-query-id']).toEqual(
+      query_id,
+    )
+    expect(responses[0].summary).toEqual(
+      jasmine.objectContaining({ read_rows: '1' }),
+    )
+  })
+})
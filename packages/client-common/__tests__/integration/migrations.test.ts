@@ -0,0 +1,101 @@
+import type {
+  ClickHouseClient,
+  Migration,
+  MigrationStatus,
+} from '@clickhouse/client-common'
+import { createTestClient, guid } from '../utils'
+
+describe('Migrations', () => {
+  let client: ClickHouseClient
+  let table: string
+  let migrations: Migration[]
+
+  beforeEach(async () => {
+    client = createTestClient()
+    const suffix = guid()
+    table = `schema_migrations_${suffix}`
+    migrations = [
+      {
+        version: '1',
+        name: 'create_events',
+        up: `
+          CREATE TABLE events_${suffix} {{on_cluster}} (id UInt64)
+          ENGINE = MergeTree ORDER BY id;
+          INSERT INTO events_${suffix} VALUES (1), (2);
+        `,
+        down: `DROP TABLE events_${suffix} {{on_cluster}}`,
+        checksum: 'create_events',
+      },
+      {
+        version: '2',
+        name: 'add_column',
+        up: async ({ run }) => {
+          await run(
+            `ALTER TABLE events_${suffix} {{on_cluster}} ADD COLUMN name String`,
+          )
+        },
+        down: `ALTER TABLE events_${suffix} {{on_cluster}} DROP COLUMN name`,
+      },
+    ]
+  })
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should apply and roll back the migrations', async () => {
+    const migrator = client.createMigrator({ migrations, table })
+    expect(states(await migrator.status())).toEqual([
+      ['1', 'pending'],
+      ['2', 'pending'],
+    ])
+
+    expect((await migrator.up()).length).toEqual(2)
+    expect(states(await migrator.status())).toEqual([
+      ['1', 'applied'],
+      ['2', 'applied'],
+    ])
+    // nothing to apply anymore
+    expect(await migrator.up()).toEqual([])
+
+    expect((await migrator.down()).map(({ version }) => version)).toEqual(['2'])
+    expect(states(await migrator.status())).toEqual([
+      ['1', 'applied'],
+      ['2', 'pending'],
+    ])
+
+    // can be applied again after it is rolled back
+    expect((await migrator.up()).map(({ version }) => version)).toEqual(['2'])
+    await migrator.down({ to: '0' })
+    expect(states(await migrator.status())).toEqual([
+      ['1', 'pending'],
+      ['2', 'pending'],
+    ])
+  })
+
+  it('should apply the migrations only once when run concurrently', async () => {
+    const [first, second] = await Promise.all([
+      client.createMigrator({ migrations, table }).up(),
+      client.createMigrator({ migrations, table }).up(),
+    ])
+    expect(first.length + second.length).toEqual(2)
+  })
+
+  it('should detect the modified migrations', async () => {
+    await client.createMigrator({ migrations, table }).up({ to: '1' })
+    const modified = client.createMigrator({
+      migrations: [{ ...migrations[0], checksum: 'changed' }, migrations[1]],
+      table,
+    })
+    expect(states(await modified.status())).toEqual([
+      ['1', 'modified'],
+      ['2', 'pending'],
+    ])
+    await expectAsync(modified.up()).toBeRejectedWithError(
+      /The applied migrations were modified: 1_create_events/,
+    )
+  })
+
+  function states(status: MigrationStatus[]) {
+    return status.map(({ version, state }) => [version, state])
+  }
+})
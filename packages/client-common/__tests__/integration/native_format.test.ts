@@ -0,0 +1,54 @@
+import type { ClickHouseClient, NativeBlock } from '@clickhouse/client-common'
+import { createSimpleTable } from '../fixtures/simple_table'
+import { assertJsonValues, jsonValues } from '../fixtures/test_data'
+import { createTestClient, guid } from '../utils'
+
+describe('Native format', () => {
+  let client: ClickHouseClient
+  afterEach(async () => {
+    await client.close()
+  })
+  beforeEach(async () => {
+    client = createTestClient()
+  })
+
+  it('should return the results column by column', async () => {
+    const rs = await client.query({
+      query: `
+        SELECT number AS n, toString(number) AS s, toLowCardinality(s) AS lc
+        FROM system.numbers LIMIT 3
+      `,
+      format: 'Native',
+    })
+    const blocks: NativeBlock[] = []
+    for await (const block of rs.blocks()) {
+      blocks.push(block)
+    }
+    const rows = blocks.reduce((sum, block) => sum + block.rows, 0)
+    expect(rows).toEqual(3)
+    const [block] = blocks.filter((b) => b.rows > 0)
+    expect(block.meta).toEqual([
+      { name: 'n', type: 'UInt64' },
+      { name: 's', type: 'String' },
+      { name: 'lc', type: 'String' },
+    ])
+    expect(block.columns[0]).toEqual(new BigUint64Array([0n, 1n, 2n]))
+    expect(block.columns[1]).toEqual(['0', '1', '2'])
+    expect(block.columns[2]).toEqual(['0', '1', '2'])
+  })
+
+  it('should insert columnar data', async () => {
+    const tableName = `native_format_test_${guid()}`
+    await createSimpleTable(client, tableName)
+    await client.insert({
+      table: tableName,
+      format: 'Native',
+      values: {
+        id: jsonValues.map(({ id }) => BigInt(id)),
+        name: jsonValues.map(({ name }) => name),
+        sku: jsonValues.map(({ sku }) => sku),
+      },
+    })
+    await assertJsonValues(client, tableName)
+  })
+})
@@ -0,0 +1,41 @@
+import type { ClickHouseClient } from '@clickhouse/client-common'
+import { createTestClient } from '../utils'
+
+describe('per-request overrides', () => {
+  let client: ClickHouseClient
+
+  beforeEach(() => {
+    client = createTestClient({ request_timeout: 500 })
+  })
+
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should override the database', async () => {
+    const rs = await client.query({
+      query: 'SELECT currentDatabase() AS db',
+      format: 'JSONEachRow',
+      database: 'system',
+    })
+    expect(await rs.json()).toEqual([{ db: 'system' }])
+  })
+
+  it('should override the request timeout', async () => {
+    await expectAsync(
+      client.command({ query: 'SELECT sleep(1)' }),
+    ).toBeRejectedWithError('Timeout error.')
+    await expectAsync(
+      client.command({ query: 'SELECT sleep(1)', request_timeout: 5_000 }),
+    ).toBeResolved()
+  })
+
+  it('should override the response compression', async () => {
+    const rs = await client.query({
+      query: 'SELECT number FROM system.numbers LIMIT 3',
+      format: 'CSV',
+      compression: { response: true },
+    })
+    expect(await rs.text()).toEqual('0\n1\n2\n')
+  })
+})
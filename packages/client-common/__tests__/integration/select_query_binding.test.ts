@@ -1,5 +1,5 @@
 import type { QueryParams } from '@clickhouse/client-common'
-import { type ClickHouseClient } from '@clickhouse/client-common'
+import { type ClickHouseClient, sql } from '@clickhouse/client-common'
 import { createTestClient } from '../utils'
 
 describe('select with query binding', () => {
@@ -333,4 +333,50 @@ describe('select with query binding', () => {
       expect(response).toBe('0\n1\n2\n')
     })
   })
+
+  describe('sql tagged template', () => {
+    it('should bind the interpolated values', async () => {
+      const rs = await client.query({
+        query: sql`
+          SELECT ${'foo'} AS s, ${[1, 2.5]} AS arr, ${new Date(Date.UTC(2024, 0, 1, 12, 0, 0, 123))} AS ts
+          FROM ${sql.identifier('system.one')}
+          WHERE dummy = ${sql.param(0, 'UInt8')}
+        `,
+        format: 'JSONEachRow',
+        clickhouse_settings: {
+          session_timezone: 'UTC',
+        },
+      })
+      expect(await rs.json()).toEqual([
+        { s: 'foo', arr: [1, 2.5], ts: '2024-01-01 12:00:00.123' },
+      ])
+    })
+
+    it('should work with command and exec', async () => {
+      await client.command({
+        query: sql`SELECT ${1}`,
+      })
+      const { stream } = await client.exec({
+        query: sql`SELECT ${'bar'} FORMAT CSV`,
+      })
+      let result = ''
+      const textDecoder = new TextDecoder()
+      // @ts-expect-error - ReadableStream (Web) or Stream.Readable (Node.js); same API.
+      for await (const chunk of stream) {
+        result += textDecoder.decode(chunk, { stream: true })
+      }
+      expect(result).toEqual('"bar"\n')
+    })
+
+    it('should not allow to override the bound parameters', async () => {
+      await expectAsync(
+        client.query({
+          query: sql`SELECT ${1}`,
+          query_params: { p0: 2 },
+        }),
+      ).toBeRejectedWith(
+        new Error('Query parameter p0 is already bound by the sql template'),
+      )
+    })
+  })
 })
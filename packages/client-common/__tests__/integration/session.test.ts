@@ -68,6 +68,53 @@ describe('sessions settings', () => {
     },
   )
 
+  describe('client.session()', () => {
+    whenOnEnv(TestEnv.LocalSingleNode).it(
+      'should send the requests one at a time',
+      async () => {
+        client = createTestClient()
+        const session = client.session({ timeout_s: 60, check: true })
+        const tableName = `temp_table_${guid()}`
+        // without the queue, the concurrent requests fail with SESSION_IS_LOCKED
+        const [, , rs] = await Promise.all([
+          session.command({ query: getTempTableDDL(tableName) }),
+          session.insert({
+            table: tableName,
+            values: [{ id: 42, name: 'foo' }],
+            format: 'JSONEachRow',
+          }),
+          session.query({
+            query: `SELECT * FROM ${tableName} ORDER BY id ASC`,
+            format: 'JSONEachRow',
+          }),
+        ])
+        expect(await rs.json()).toEqual([{ id: 42, name: 'foo' }])
+        await session.close()
+      },
+    )
+
+    whenOnEnv(TestEnv.LocalSingleNode).it(
+      'should drop the session state on close',
+      async () => {
+        client = createTestClient()
+        const session = client.session()
+        const tableName = `temp_table_${guid()}`
+        await session.command({ query: getTempTableDDL(tableName) })
+        await session.close()
+        await expectAsync(
+          session.command({ query: 'SELECT 1' }),
+        ).toBeRejectedWithError(`Session ${session.session_id} is closed.`)
+
+        // the same session ID starts a new session without the temporary table
+        const next = client.session({ session_id: session.session_id })
+        await expectAsync(
+          next.query({ query: `SELECT * FROM ${tableName}` }),
+        ).toBeRejectedWith(jasmine.objectContaining({ type: 'UNKNOWN_TABLE' }))
+        await next.close()
+      },
+    )
+  })
+
   function getTempTableDDL(tableName: string) {
     return `
       CREATE TEMPORARY TABLE ${tableName}
@@ -0,0 +1,83 @@
+import { type ClickHouseClient } from '@clickhouse/client-common'
+import { createTestClient } from '../utils'
+
+describe('Value conversion', () => {
+  let client: ClickHouseClient
+  beforeEach(async () => {
+    client = createTestClient({
+      value_converters: {
+        Decimal: (value) => Number(value),
+      },
+    })
+  })
+  afterEach(async () => {
+    await client.close()
+  })
+
+  const query = `
+    SELECT toUInt64('18446744073709551615') AS u64,
+           toDateTime64('2024-01-02 03:04:05.678', 3, 'UTC') AS dt64,
+           toDate('2024-02-29') AS d,
+           map(1, [toInt64(-1)]) AS m,
+           toDecimal64('1.25', 2) AS dec,
+           CAST(NULL AS Nullable(Int128)) AS n
+  `
+  const expected = {
+    u64: 18446744073709551615n,
+    dt64: new Date('2024-01-02T03:04:05.678Z'),
+    d: new Date('2024-02-29T00:00:00Z'),
+    m: new Map([[1, [-1n]]]),
+    dec: 1.25,
+    n: null,
+  }
+
+  it('should convert the values of the JSON format', async () => {
+    const rs = await client.query({
+      query,
+      format: 'JSON',
+      convert_values: true,
+    })
+    const { data } = await rs.json()
+    expect(data).toEqual([expected])
+  })
+
+  it('should convert the values of JSONCompactEachRowWithNamesAndTypes format', async () => {
+    const rs = await client.query({
+      query,
+      format: 'JSONCompactEachRowWithNamesAndTypes',
+      convert_values: true,
+    })
+    const rows = await rs.json<unknown[]>()
+    expect(rows.length).toEqual(3)
+    expect(rows[2]).toEqual(Object.values(expected))
+  })
+
+  it('should convert the values of JSONEachRow format with the schema', async () => {
+    const rs = await client.query({
+      query: `SELECT number AS n, toString(number) AS s FROM system.numbers LIMIT 2`,
+      format: 'JSONEachRow',
+      convert_values: true,
+      schema: [
+        { name: 'n', type: 'UInt64' },
+        { name: 's', type: 'String' },
+      ],
+    })
+    expect(await rs.json()).toEqual([
+      { n: 0n, s: '0' },
+      { n: 1n, s: '1' },
+    ])
+  })
+
+  it('should override the converters per query', async () => {
+    const rs = await client.query({
+      query: `SELECT toDecimal32('1.5', 1) AS dec`,
+      format: 'JSONEachRow',
+      convert_values: true,
+      schema: [{ name: 'dec', type: 'Decimal(9, 1)' }],
+      value_converters: {
+        Decimal: (value) => `${value}!`,
+      },
+    })
+    expect(await rs.json()).toEqual([{ dec: '1.5!' }])
+  })
+})
@@ -0,0 +1,106 @@
+import {
+  ArrowRecordBatchSplitter,
+  encodeArrowIPCStream,
+} from '@clickhouse/client-common'
+import {
+  Int32,
+  Table,
+  tableFromArrays,
+  tableFromIPC,
+  tableToIPC,
+  Utf8,
+  vectorFromArray,
+} from 'apache-arrow'
+
+describe('Arrow IPC', () => {
+  const table = makeTable([1, 2], ['foo', 'bar']).concat(
+    makeTable([3], ['qaz']),
+  )
+
+  it('should split a stream into the record batches', async () => {
+    const data = tableToIPC(table, 'stream')
+    const splitter = new ArrowRecordBatchSplitter()
+    const batches: Uint8Array[] = []
+    // feeding the data byte by byte
+    for (let i = 0; i < data.length; i++) {
+      batches.push(...splitter.split(data.subarray(i, i + 1)))
+    }
+    splitter.finish()
+    expect(batches.length).toEqual(2)
+    // every batch is a complete stream with the schema
+    expect(batches.map((batch) => tableFromIPC(batch).toArray())).toEqual([
+      [row(1, 'foo'), row(2, 'bar')],
+      [row(3, 'qaz')],
+    ])
+  })
+
+  it('should split a file into the record batches', async () => {
+    // the file format as written by ClickHouse: the magic string, the stream, and the footer
+    const magic = [0x41, 0x52, 0x52, 0x4f, 0x57, 0x31, 0, 0]
+    const stream = tableToIPC(table, 'stream')
+    const data = new Uint8Array([...magic, ...stream, 1, 2, 3, 4, ...magic])
+    const splitter = new ArrowRecordBatchSplitter()
+    const batches = splitter.split(data)
+    splitter.finish()
+    expect(batches.map((batch) => tableFromIPC(batch).numRows)).toEqual([2, 1])
+  })
+
+  it('should keep the dictionaries with every record batch', async () => {
+    const data = tableToIPC(tableFromArrays({ s: ['foo', 'bar', 'foo'] }))
+    const splitter = new ArrowRecordBatchSplitter()
+    const [batch] = splitter.split(data)
+    expect(tableFromIPC(batch).toArray()).toEqual([
+      jasmine.objectContaining({ s: 'foo' }),
+      jasmine.objectContaining({ s: 'bar' }),
+      jasmine.objectContaining({ s: 'foo' }),
+    ])
+  })
+
+  it('should combine multiple inputs into a single stream', async () => {
+    const data = encodeArrowIPCStream([
+      tableToIPC(table, 'stream'),
+      tableToIPC(makeTable([4], ['qux']), 'stream'),
+    ])
+    const result = tableFromIPC(data)
+    expect(result.schema.fields.map(({ name }) => name)).toEqual(['id', 's'])
+    expect(result.toArray()).toEqual([
+      row(1, 'foo'),
+      row(2, 'bar'),
+      row(3, 'qaz'),
+      row(4, 'qux'),
+    ])
+  })
+
+  it('should throw if the stream ended in the middle of a message', async () => {
+    const data = tableToIPC(table, 'stream')
+    const splitter = new ArrowRecordBatchSplitter()
+    const batches = splitter.split(data.subarray(0, data.length - 16))
+    expect(batches.length).toEqual(1)
+    expect(() => splitter.finish()).toThrowError(
+      /^Arrow stream ended unexpectedly with \d+ bytes of incomplete message data$/,
+    )
+  })
+
+  it('should throw on the inputs without a schema', async () => {
+    expect(() => encodeArrowIPCStream([{} as any])).toThrowError(
+      'Expected Arrow IPC data as Uint8Array, got object',
+    )
+    // apache-arrow JS writes the schema of a file only in its footer
+    expect(() =>
+      encodeArrowIPCStream([tableToIPC(table, 'file')]),
+    ).toThrowError(
+      'Arrow IPC data does not start with a schema message. Use the Arrow streaming format instead.',
+    )
+  })
+
+  function makeTable(ids: number[], strings: string[]) {
+    return new Table({
+      id: vectorFromArray(ids, new Int32()),
+      s: vectorFromArray(strings, new Utf8()),
+    })
+  }
+
+  function row(id: number, s: string) {
+    return jasmine.objectContaining({ id, s })
+  }
+})
@@ -0,0 +1,236 @@
+import type {
+  BatchInserterParams,
+  InsertParams,
+  InsertResult,
+  Logger,
+} from '@clickhouse/client-common'
+import {
+  BatchInserter,
+  ClickHouseLogLevel,
+  LogWriter,
+} from '@clickhouse/client-common'
+import { sleep, TestLogger } from '@test/utils'
+
+describe('BatchInserter', () => {
+  type Row = { id: number }
+
+  let insert: jasmine.Spy<
+    (params: InsertParams<never, Row>) => Promise<InsertResult>
+  >
+  let logger: Logger
+  beforeEach(() => {
+    insert = jasmine.createSpy('insert').and.callFake(async () => insertResult)
+    logger = new TestLogger()
+    spyOn(logger, 'error')
+  })
+
+  const insertResult: InsertResult = {
+    executed: true,
+    query_id: 'foo',
+    response_headers: {},
+  }
+
+  it('should send a batch when it has max_rows rows', async () => {
+    const inserter = makeInserter({ max_rows: 2 })
+    for (let id = 1; id <= 5; id++) {
+      await inserter.add({ id })
+    }
+    await sleep(0)
+    expect(insertedRows()).toEqual([
+      [{ id: 1 }, { id: 2 }],
+      [{ id: 3 }, { id: 4 }],
+    ])
+    expect(inserter.pendingRows).toEqual(1)
+
+    await inserter.close()
+    expect(insertedRows()).toEqual([
+      [{ id: 1 }, { id: 2 }],
+      [{ id: 3 }, { id: 4 }],
+      [{ id: 5 }],
+    ])
+    expect(inserter.pendingRows).toEqual(0)
+  })
+
+  it('should send a batch when it has max_bytes of data', async () => {
+    const inserter = makeInserter({ max_bytes: 100 })
+    await inserter.add({ id: 1, name: 'foo' } as Row)
+    await inserter.add({ id: 2, name: 'bar' } as Row)
+    await sleep(0)
+    expect(insertedRows()).toEqual([])
+    await inserter.add({ id: 3, name: 'a much longer name' } as Row)
+    await inserter.flush()
+    expect(insert).toHaveBeenCalledTimes(1)
+    expect((insertedRows()[0] as Row[]).length).toEqual(3)
+  })
+
+  it('should send a batch after flush_interval_ms', async () => {
+    const inserter = makeInserter({ flush_interval_ms: 10 })
+    await inserter.add({ id: 1 })
+    expect(insert).not.toHaveBeenCalled()
+    await sleep(50)
+    expect(insertedRows()).toEqual([[{ id: 1 }]])
+    await inserter.close()
+    expect(insert).toHaveBeenCalledTimes(1)
+  })
+
+  it('should wait for a free slot if the inserts fall behind', async () => {
+    const pending: Array<() => void> = []
+    insert.and.callFake(
+      () => new Promise((resolve) => pending.push(() => resolve(insertResult))),
+    )
+    const inserter = makeInserter({ max_rows: 1, concurrency: 2 })
+    await inserter.add({ id: 1 })
+    await inserter.add({ id: 2 })
+    let isAdded = false
+    const added = inserter.add({ id: 3 }).then(() => (isAdded = true))
+    await sleep(10)
+    expect(isAdded).toBeFalse()
+    expect(insert).toHaveBeenCalledTimes(2)
+
+    pending.shift()!()
+    await added
+    await sleep(0)
+    expect(insert).toHaveBeenCalledTimes(3)
+
+    const closed = inserter.close()
+    pending.forEach((resolve) => resolve())
+    await closed
+    expect(insertedRows()).toEqual([[{ id: 1 }], [{ id: 2 }], [{ id: 3 }]])
+  })
+
+  it('should wait for a free slot if the batch sent by the timer is waiting for it', async () => {
+    const pending: Array<() => void> = []
+    insert.and.callFake(
+      () => new Promise((resolve) => pending.push(() => resolve(insertResult))),
+    )
+    const inserter = makeInserter({ flush_interval_ms: 5, concurrency: 1 })
+    await inserter.add({ id: 1 })
+    await sleep(20)
+    await inserter.add({ id: 2 })
+    await sleep(20)
+    expect(insert).toHaveBeenCalledTimes(1)
+
+    let isAdded = false
+    const added = inserter.add({ id: 3 }).then(() => (isAdded = true))
+    await sleep(20)
+    expect(isAdded).toBeFalse()
+    expect(inserter.pendingRows).toEqual(0)
+
+    pending.shift()!()
+    await added
+    expect(inserter.pendingRows).toEqual(1)
+    await sleep(0)
+    expect(insert).toHaveBeenCalledTimes(2)
+
+    const closed = inserter.close()
+    pending.shift()!()
+    await sleep(0)
+    pending.shift()!()
+    await closed
+    expect(insertedRows()).toEqual([[{ id: 1 }], [{ id: 2 }], [{ id: 3 }]])
+  })
+
+  it('should report the results of the inserts', async () => {
+    const on_flush = jasmine.createSpy('on_flush')
+    const inserter = makeInserter({ on_flush })
+    await inserter.add({ id: 1 })
+    await inserter.add({ id: 2 })
+    await inserter.flush()
+    expect(on_flush).toHaveBeenCalledOnceWith({ ...insertResult, rows: 2 })
+  })
+
+  it('should report the failed inserts with the rows', async () => {
+    const err = new Error('Table is read-only')
+    insert.and.rejectWith(err)
+    const on_error = jasmine.createSpy('on_error')
+    const inserter = makeInserter({ on_error })
+    await inserter.add({ id: 1 })
+    await inserter.flush()
+    expect(on_error).toHaveBeenCalledOnceWith(err, [{ id: 1 }])
+    expect(logger.error).not.toHaveBeenCalled()
+  })
+
+  it('should log the failed inserts if there is no on_error callback', async () => {
+    insert.and.rejectWith(new Error('Table is read-only'))
+    const inserter = makeInserter({})
+    await inserter.add({ id: 1 })
+    await inserter.close()
+    expect(logger.error).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({
+        module: 'BatchInserter',
+        message: 'Failed to insert 1 rows into my_table.',
+      }),
+    )
+  })
+
+  it('should log the errors thrown by the callbacks', async () => {
+    const inserter = makeInserter({
+      on_flush: () => {
+        throw new Error('Oops')
+      },
+    })
+    await inserter.add({ id: 1 })
+    await inserter.close()
+    expect(logger.error).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({
+        message: 'on_flush callback has thrown an error.',
+      }),
+    )
+  })
+
+  it('should pass the insert params, but not the batching options', async () => {
+    const inserter = makeInserter({
+      max_rows: 100,
+      columns: ['id'],
+      clickhouse_settings: { async_insert: 1 },
+    })
+    await inserter.add({ id: 1 })
+    await inserter.close()
+    expect(insert).toHaveBeenCalledOnceWith({
+      table: 'my_table',
+      format: 'JSONEachRow',
+      columns: ['id'],
+      clickhouse_settings: { async_insert: 1 },
+      values: [{ id: 1 }],
+    })
+  })
+
+  it('should not accept rows after it is closed', async () => {
+    const inserter = makeInserter({})
+    await inserter.close()
+    await expectAsync(inserter.add({ id: 1 })).toBeRejectedWithError(
+      'Cannot add a row: BatchInserter is closed.',
+    )
+  })
+
+  it('should validate the options', async () => {
+    expect(() => makeInserter({ max_rows: 0 })).toThrowError(
+      'max_rows must be a positive number, got 0',
+    )
+    expect(() => makeInserter({ max_bytes: 0 })).toThrowError(
+      'max_bytes must be a positive number, got 0',
+    )
+    expect(() => makeInserter({ flush_interval_ms: -1 })).toThrowError(
+      'flush_interval_ms must be a non-negative number, got -1',
+    )
+    expect(() => makeInserter({ concurrency: 0 })).toThrowError(
+      'concurrency must be a positive number, got 0',
+    )
+  })
+
+  function makeInserter(params: Omit<BatchInserterParams<Row>, 'table'>) {
+    return new BatchInserter<Row>({
+      params: { table: 'my_table', ...params },
+      insert,
+      log_writer: new LogWriter(
+        logger,
+        'BatchInserterTest',
+        ClickHouseLogLevel.WARN,
+      ),
+    })
+  }
+
+  function insertedRows() {
+    return insert.calls.allArgs().map(([params]) => params.values)
+  }
+})
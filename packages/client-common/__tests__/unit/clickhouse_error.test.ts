@@ -0,0 +1,118 @@
+import {
+  AuthenticationFailedError,
+  ClickHouseError,
+  ClickHouseErrorCodes,
+  MemoryLimitExceededError,
+  parseError,
+  parseStreamError,
+  QuerySyntaxError,
+  ReadonlyError,
+  TimeoutExceededError,
+  TooManySimultaneousQueriesError,
+  UnknownTableError,
+} from '@clickhouse/client-common'
+
+describe('ClickHouseError', () => {
+  it('should create the subclasses for the well-known error codes', async () => {
+    const cases: Array<[string, typeof ClickHouseError]> = [
+      [ClickHouseErrorCodes.UNKNOWN_TABLE, UnknownTableError],
+      [ClickHouseErrorCodes.SYNTAX_ERROR, QuerySyntaxError],
+      [ClickHouseErrorCodes.TIMEOUT_EXCEEDED, TimeoutExceededError],
+      [ClickHouseErrorCodes.MEMORY_LIMIT_EXCEEDED, MemoryLimitExceededError],
+      [
+        ClickHouseErrorCodes.TOO_MANY_SIMULTANEOUS_QUERIES,
+        TooManySimultaneousQueriesError,
+      ],
+      [ClickHouseErrorCodes.READONLY, ReadonlyError],
+      [ClickHouseErrorCodes.AUTHENTICATION_FAILED, AuthenticationFailedError],
+    ]
+    for (const [code, ErrorClass] of cases) {
+      const error = parseError(
+        `Code: ${code}. DB::Exception: foo. (SOME_ERROR) `,
+      )
+      expect(error).toBeInstanceOf(ErrorClass)
+      expect(error).toBeInstanceOf(ClickHouseError)
+      expect(error).toBeInstanceOf(Error)
+    }
+  })
+
+  it('should map the server error codes to the subclasses and the flags', async () => {
+    // [code, class, isUserError, isRetryable]; the codes are from the ClickHouse source, not from ClickHouseErrorCodes
+    const cases: Array<[string, typeof ClickHouseError, boolean, boolean]> = [
+      ['6', ClickHouseError, true, false],
+      ['60', UnknownTableError, true, false],
+      ['62', QuerySyntaxError, true, false],
+      ['159', TimeoutExceededError, false, false],
+      // TOO_SLOW is not classified
+      ['160', ClickHouseError, false, false],
+      ['164', ReadonlyError, true, false],
+      ['202', TooManySimultaneousQueriesError, false, true],
+      ['209', ClickHouseError, false, true],
+      ['241', MemoryLimitExceededError, false, true],
+      ['252', ClickHouseError, false, true],
+      ['394', ClickHouseError, false, false],
+      ['396', ClickHouseError, true, false],
+      ['497', ClickHouseError, true, false],
+      ['516', AuthenticationFailedError, true, false],
+      ['999', ClickHouseError, false, true],
+    ]
+    for (const [code, ErrorClass, isUserError, isRetryable] of cases) {
+      const error = parseError(
+        `Code: ${code}. DB::Exception: foo. (SOME_ERROR) `,
+      ) as ClickHouseError
+      expect(error.constructor).withContext(code).toBe(ErrorClass)
+      expect(error.isUserError).withContext(code).toBe(isUserError)
+      expect(error.isRetryable).withContext(code).toBe(isRetryable)
+    }
+    expect(ClickHouseErrorCodes.TOO_MANY_ROWS_OR_BYTES).toBe('396')
+  })
+
+  it('should create the base class for the other error codes', async () => {
+    const error = parseError(
+      `Code: 395. DB::Exception: Value passed to 'throwIf' function is non-zero. (FUNCTION_THROW_IF_VALUE_IS_NON_ZERO) (version 24.3.1.2672 (official build))`,
+    ) as ClickHouseError
+    expect(error.constructor).toBe(ClickHouseError)
+    expect(error.isRetryable).toBeFalse()
+    expect(error.isUserError).toBeFalse()
+  })
+
+  it('should classify the user errors', async () => {
+    const error = parseError(
+      `Code: 60. DB::Exception: Table default.unknown_table does not exist. (UNKNOWN_TABLE) (version 24.3.1.2672 (official build))`,
+    ) as ClickHouseError
+    expect(error.isUserError).toBeTrue()
+    expect(error.isRetryable).toBeFalse()
+  })
+
+  it('should classify the retryable errors', async () => {
+    const error = parseError(
+      `Code: 202. DB::Exception: Too many simultaneous queries. Maximum: 100. (TOO_MANY_SIMULTANEOUS_QUERIES) (version 24.3.1.2672 (official build))`,
+    ) as ClickHouseError
+    expect(error.isRetryable).toBeTrue()
+    expect(error.isUserError).toBeFalse()
+  })
+
+  it('should include the query_id and the HTTP status', async () => {
+    const error = parseError(
+      `Code: 516. DB::Exception: default: Authentication failed: password is incorrect, or there is no user with such name. (AUTHENTICATION_FAILED) (version 24.3.1.2672 (official build))`,
+      { query_id: 'foo', http_status: 403 },
+    ) as ClickHouseError
+    expect(error).toBeInstanceOf(AuthenticationFailedError)
+    expect(error.query_id).toBe('foo')
+    expect(error.http_status).toBe(403)
+    expect(error.rows_received).toBeUndefined()
+  })
+
+  it('should look up the type by the code if it is not in the message', async () => {
+    const error = parseStreamError(
+      'Code: 241. DB::Exception: Memory limit (total) exceeded',
+      'foo',
+      10,
+    )
+    expect(error).toBeInstanceOf(MemoryLimitExceededError)
+    expect(error.type).toBe('MEMORY_LIMIT_EXCEEDED')
+    expect(error.isRetryable).toBeTrue()
+    expect(error.query_id).toBe('foo')
+    expect(error.http_status).toBeUndefined()
+  })
+})
@@ -0,0 +1,198 @@
+import type { IntrospectionQuery } from '../../src/introspection'
+import {
+  columnTypeToTypeScript,
+  generateTypeScript,
+  loadTableSchemas,
+  loadTypeGenerationOptions,
+} from '../../src/codegen'
+
+describe('TypeScript code generation', () => {
+  describe('columnTypeToTypeScript', () => {
+    it('should map the simple types', async () => {
+      const cases: Array<[string, string]> = [
+        ['Bool', 'boolean'],
+        ['UInt8', 'number'],
+        ['Int32', 'number'],
+        ['Float64', 'number'],
+        ['String', 'string'],
+        ['FixedString(16)', 'string'],
+        ['UUID', 'string'],
+        ['IPv6', 'string'],
+        ['Date32', 'string'],
+        ["DateTime('UTC')", 'string'],
+        ['DateTime64(3)', 'string'],
+        ['Nothing', 'null'],
+      ]
+      for (const [type, expected] of cases) {
+        expect(columnTypeToTypeScript(type)).withContext(type).toEqual(expected)
+      }
+    })
+
+    it('should map the 64-bit and wider integers depending on the quoting', async () => {
+      for (const type of ['UInt64', 'Int64', 'UInt128', 'Int256']) {
+        expect(columnTypeToTypeScript(type)).withContext(type).toEqual('string')
+        expect(columnTypeToTypeScript(type, { quote_64bit_integers: false }))
+          .withContext(type)
+          .toEqual('number')
+      }
+    })
+
+    it('should map the decimals depending on the quoting', async () => {
+      expect(columnTypeToTypeScript('Decimal(10, 2)')).toEqual('number')
+      expect(
+        columnTypeToTypeScript('Decimal64(4)', { quote_decimals: true }),
+      ).toEqual('string')
+    })
+
+    it('should map the enums to the unions of the string literals', async () => {
+      expect(columnTypeToTypeScript(`Enum8('foo' = 1, 'it\\'s' = 2)`)).toEqual(
+        `'foo' | 'it\\'s'`,
+      )
+    })
+
+    it('should map the composite types', async () => {
+      expect(
+        columnTypeToTypeScript('LowCardinality(Nullable(String))'),
+      ).toEqual('string | null')
+      expect(columnTypeToTypeScript('Array(Nullable(UInt64))')).toEqual(
+        'Array<string | null>',
+      )
+      expect(columnTypeToTypeScript('Map(String, Array(UInt8))')).toEqual(
+        'Record<string, Array<number>>',
+      )
+      expect(columnTypeToTypeScript('Tuple(String, Int64)')).toEqual(
+        '[string, string]',
+      )
+      expect(columnTypeToTypeScript('Point')).toEqual('[number, number]')
+    })
+
+    it('should map the named tuples depending on the settings', async () => {
+      const type = 'Tuple(id UInt32, `full name` String)'
+      expect(columnTypeToTypeScript(type)).toEqual(
+        `{ id: number; 'full name': string }`,
+      )
+      expect(
+        columnTypeToTypeScript(type, { named_tuples_as_objects: false }),
+      ).toEqual('[number, string]')
+      expect(columnTypeToTypeScript('Nested(a String, b UInt8)')).toEqual(
+        'Array<{ a: string; b: number }>',
+      )
+    })
+
+    it('should map the unsupported types to unknown', async () => {
+      expect(columnTypeToTypeScript('JSON')).toEqual('unknown')
+      expect(columnTypeToTypeScript('Array(Variant(String, UInt8))')).toEqual(
+        'unknown',
+      )
+    })
+  })
+
+  describe('generateTypeScript', () => {
+    it('should generate an interface per table', async () => {
+      const module = generateTypeScript([
+        {
+          name: 'page_views',
+          columns: [
+            { name: 'id', type: 'UInt64', default_kind: '', comment: '' },
+            {
+              name: 'url',
+              type: 'String',
+              default_kind: 'DEFAULT',
+              comment: 'The page */ URL',
+            },
+            {
+              name: 'url_length',
+              type: 'UInt32',
+              default_kind: 'MATERIALIZED',
+            },
+            { name: 'tags.name', type: 'Array(String)' },
+          ],
+        },
+        { name: '2024_events', columns: [{ name: 'ts', type: 'DateTime' }] },
+      ])
+      expect(module).toEqual(
+        [
+          '// This file is generated by clickhouse-js-codegen. Do not edit it manually.',
+          '',
+          '/** Table `page_views` */',
+          'export interface PageViews {',
+          '  /** `UInt64` */',
+          '  id: string',
+          '  /** The page *\\/ URL `String` */',
+          '  url: string',
+          '  /** `UInt32` */',
+          '  url_length?: number',
+          '  /** `Array(String)` */',
+          `  'tags.name': Array<string>`,
+          '}',
+          '',
+          '/** Table `2024_events` */',
+          'export interface Table2024Events {',
+          '  /** `DateTime` */',
+          '  ts: string',
+          '}',
+        ].join('\n'),
+      )
+    })
+
+    it('should not generate the same interface name twice', async () => {
+      const module = generateTypeScript([
+        { name: 'events_v2', columns: [] },
+        { name: 'events__v2', columns: [] },
+      ])
+      expect(module).toContain('export interface EventsV2 {')
+      expect(module).toContain('export interface EventsV22 {')
+    })
+  })
+
+  describe('loading the schemas', () => {
+    let query: jasmine.Spy<IntrospectionQuery>
+    beforeEach(() => {
+      query = jasmine.createSpy('query')
+    })
+
+    it('should group the columns by table', async () => {
+      query.and.resolveTo([
+        { table: 'a', name: 'id', type: 'UInt32' },
+        { table: 'a', name: 's', type: 'String' },
+        { table: 'b', name: 'x', type: 'Float64' },
+      ])
+      expect(await loadTableSchemas(query, 'my_db', ['a', 'b'])).toEqual([
+        {
+          name: 'a',
+          columns: [
+            { name: 'id', type: 'UInt32' },
+            { name: 's', type: 'String' },
+          ],
+        },
+        { name: 'b', columns: [{ name: 'x', type: 'Float64' }] },
+      ])
+      const { query: text, query_params } = query.calls
+        .mostRecent()
+        .args[0].toQuery()
+      expect(text).toContain(
+        'WHERE database = {p0:String} AND table IN ({p1:String}, {p2:String})',
+      )
+      expect(query_params).toEqual({ p0: 'my_db', p1: 'a', p2: 'b' })
+    })
+
+    it('should throw if some of the tables do not exist', async () => {
+      query.and.resolveTo([{ table: 'a', name: 'id', type: 'UInt32' }])
+      await expectAsync(
+        loadTableSchemas(query, undefined, ['a', 'b', 'c']),
+      ).toBeRejectedWithError('Tables not found in the current database: b, c')
+    })
+
+    it('should read the JSON output settings', async () => {
+      query.and.resolveTo([
+        { name: 'output_format_json_quote_64bit_integers', value: '0' },
+        { name: 'output_format_json_quote_decimals', value: '1' },
+      ])
+      expect(await loadTypeGenerationOptions(query)).toEqual({
+        quote_64bit_integers: false,
+        quote_decimals: true,
+        named_tuples_as_objects: true,
+      })
+    })
+  })
+})
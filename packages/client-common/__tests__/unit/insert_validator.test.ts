@@ -0,0 +1,175 @@
+import type { InsertValidationFailure } from '@clickhouse/client-common'
+import {
+  InsertValidationError,
+  InsertValuesValidator,
+} from '../../src/data_formatter'
+
+describe('InsertValuesValidator', () => {
+  function validate(
+    validator: InsertValuesValidator,
+    values: unknown,
+  ): InsertValidationFailure[] {
+    try {
+      validator.validateAll(values)
+      return []
+    } catch (err) {
+      expect(err).toBeInstanceOf(InsertValidationError)
+      return (err as InsertValidationError).failures
+    }
+  }
+
+  it('should accept valid rows', async () => {
+    const validator = new InsertValuesValidator('JSONEachRow', [
+      { name: 'i8', type: 'Int8', has_default: false },
+      { name: 'u64', type: 'UInt64', has_default: false },
+      { name: 'f', type: 'Float32', has_default: false },
+      { name: 'b', type: 'Bool', has_default: false },
+      { name: 'fs', type: 'FixedString(3)', has_default: false },
+      { name: 'uuid', type: 'UUID', has_default: false },
+      { name: 'ip', type: 'IPv4', has_default: false },
+      { name: 'dt', type: "DateTime64(3, 'UTC')", has_default: false },
+      { name: 'dec', type: 'Decimal(5, 2)', has_default: false },
+      { name: 'e', type: "Enum8('a' = 1, 'b' = 2)", has_default: false },
+      { name: 'arr', type: 'Array(Nullable(String))', has_default: false },
+      { name: 't', type: 'Tuple(a UInt8, b String)', has_default: false },
+      { name: 'm', type: 'Map(UInt16, Array(Int32))', has_default: false },
+      {
+        name: 'lc',
+        type: 'LowCardinality(Nullable(String))',
+        has_default: false,
+      },
+      { name: 'd', type: 'String', has_default: true },
+    ])
+    const row = {
+      i8: -128,
+      u64: '18446744073709551615',
+      f: 'inf',
+      b: true,
+      fs: 'abc',
+      uuid: '4d0b8dd4-3b2a-4e1e-9f38-6ac9a2ae3e8b',
+      ip: '127.0.0.1',
+      dt: '2024-01-02 03:04:05.678',
+      dec: '-123.45',
+      e: 'b',
+      arr: ['foo', null],
+      t: { a: 1, b: 'bar' },
+      m: { 65535: [-1] },
+    }
+    expect(validate(validator, [row, { ...row, e: 1, dec: 999 }])).toEqual([])
+  })
+
+  it('should report the failures with the row index and the column', async () => {
+    const validator = new InsertValuesValidator('JSONEachRow', [
+      { name: 'id', type: 'UInt32', has_default: false },
+      { name: 'e', type: "Enum8('a' = 1, 'b' = 2)", has_default: false },
+      { name: 'n', type: 'Nullable(String)', has_default: false },
+      { name: 'arr', type: 'Array(Int8)', has_default: true },
+    ])
+    expect(
+      validate(validator, [
+        { id: 1, e: 'a' },
+        { id: -1, e: 'c', n: 42, arr: [1, 128] },
+        { e: 3, foo: 'bar' },
+        { id: 2 ** 53, e: 'a', arr: 'foo' },
+      ]),
+    ).toEqual([
+      { row: 1, column: 'id', message: '-1 is out of range of UInt32' },
+      {
+        row: 1,
+        column: 'e',
+        message: `"c" is not a value of Enum8('a' = 1, 'b' = 2)`,
+      },
+      { row: 1, column: 'n', message: 'expected String, got: number 42' },
+      {
+        row: 1,
+        column: 'arr',
+        message: 'element 1: 128 is out of range of Int8',
+      },
+      {
+        row: 2,
+        column: 'id',
+        message: 'the value is missing, and the column has no default',
+      },
+      {
+        row: 2,
+        column: 'e',
+        message: `3 is not a value of Enum8('a' = 1, 'b' = 2)`,
+      },
+      { row: 2, column: 'foo', message: 'unknown column' },
+      {
+        row: 3,
+        column: 'id',
+        message:
+          '9007199254740992 is not a safe integer and might have lost its precision, use a string instead',
+      },
+      {
+        row: 3,
+        column: 'arr',
+        message: 'expected Array(Int8), got: "foo"',
+      },
+    ])
+  })
+
+  it('should validate the rows of the compact formats', async () => {
+    const validator = new InsertValuesValidator('JSONCompactEachRow', [
+      { name: 'id', type: 'Int64', has_default: false },
+      { name: 's', type: 'String', has_default: false },
+    ])
+    expect(
+      validate(validator, [[1, 'foo'], [2], { id: 3 }, [4n, 'bar']]),
+    ).toEqual([
+      { row: 1, message: 'expected 2 values, got: 1' },
+      { row: 2, message: 'expected an array, got: an object' },
+      {
+        row: 3,
+        column: 'id',
+        message:
+          'bigint values cannot be serialized as JSON, use a string instead: 4',
+      },
+    ])
+  })
+
+  it('should validate the rows of JSON and JSONObjectEachRow inputs', async () => {
+    const columns = [{ name: 'id', type: 'UInt8', has_default: false }]
+    expect(
+      validate(new InsertValuesValidator('JSON', columns), {
+        data: [{ id: 1 }, { id: 'foo' }],
+      }),
+    ).toEqual([{ row: 1, column: 'id', message: 'expected UInt8, got: "foo"' }])
+    expect(
+      validate(new InsertValuesValidator('JSONObjectEachRow', columns), {
+        a: { id: 1 },
+        b: { id: 1000 },
+      }),
+    ).toEqual([
+      { row: 1, column: 'id', message: '1000 is out of range of UInt8' },
+    ])
+  })
+
+  it('should count the rows across the calls', async () => {
+    const validator = new InsertValuesValidator('JSONEachRow', [
+      { name: 'id', type: 'UInt8', has_default: false },
+    ])
+    validator.validateNext({ id: 1 })
+    expect(() => validator.validateNext({ id: -1 })).toThrowError(
+      InsertValidationError,
+      'Insert values do not match the table schema:\n  row 1, column id: -1 is out of range of UInt8',
+    )
+  })
+
+  it('should limit the number of the failures in the message', async () => {
+    const validator = new InsertValuesValidator('JSONEachRow', [
+      { name: 'id', type: 'UInt8', has_default: false },
+    ])
+    const values = Array.from({ length: 12 }, () => ({ id: 'foo' }))
+    expect(() => validator.validateAll(values)).toThrowError(
+      /row 9, column id: expected UInt8, got: "foo"\n {2}\.\.\. and 2 more$/,
+    )
+  })
+
+  it('should throw if the format is not supported', async () => {
+    expect(() => new InsertValuesValidator('CSV', [])).toThrowError(
+      /Insert values validation is not supported for the CSV format/,
+    )
+  })
+})
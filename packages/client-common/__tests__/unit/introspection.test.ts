@@ -0,0 +1,160 @@
+import { UnknownTableError } from '@clickhouse/client-common'
+import type { IntrospectionQuery } from '../../src/introspection'
+import {
+  describeTable,
+  getTableEngine,
+  listTables,
+  parseEngineSettings,
+  parseTableName,
+} from '../../src/introspection'
+
+describe('Schema introspection', () => {
+  let query: jasmine.Spy<IntrospectionQuery>
+  beforeEach(() => {
+    query = jasmine.createSpy('query')
+  })
+
+  describe('parseTableName', () => {
+    it('should parse a table name with or without the database', async () => {
+      expect(parseTableName('my_table')).toEqual({
+        database: undefined,
+        name: 'my_table',
+      })
+      expect(parseTableName(' my_db.my_table ')).toEqual({
+        database: 'my_db',
+        name: 'my_table',
+      })
+    })
+
+    it('should parse the quoted parts', async () => {
+      expect(parseTableName('`my.db`.`my.table`')).toEqual({
+        database: 'my.db',
+        name: 'my.table',
+      })
+      expect(parseTableName('"my_db"."my table"')).toEqual({
+        database: 'my_db',
+        name: 'my table',
+      })
+    })
+
+    it('should throw on an invalid table name', async () => {
+      expect(() => parseTableName('`my_db`.`')).toThrowError(
+        'Invalid table name: `my_db`.`',
+      )
+    })
+  })
+
+  describe('parseEngineSettings', () => {
+    it('should parse the settings', async () => {
+      expect(
+        parseEngineSettings(
+          "MergeTree PARTITION BY toYYYYMM(ts) ORDER BY (id, ts) SETTINGS index_granularity = 8192, storage_policy = 'hot, cold', merge_with_ttl_timeout = 3600",
+        ),
+      ).toEqual({
+        index_granularity: '8192',
+        storage_policy: 'hot, cold',
+        merge_with_ttl_timeout: '3600',
+      })
+    })
+
+    it('should return no settings if there is no SETTINGS clause', async () => {
+      expect(parseEngineSettings('Memory')).toEqual({})
+    })
+  })
+
+  describe('queries', () => {
+    it('should convert the flags and the numbers in the list of tables', async () => {
+      query.and.resolveTo([
+        {
+          database: 'default',
+          name: 'events',
+          engine: 'MergeTree',
+          is_temporary: 0,
+          total_rows: '42',
+          total_bytes: '1024',
+          comment: '',
+        },
+        {
+          database: 'default',
+          name: 'events_view',
+          engine: 'View',
+          is_temporary: 0,
+          total_rows: null,
+          total_bytes: null,
+          comment: 'A view',
+        },
+      ])
+      expect(await listTables(query)).toEqual([
+        {
+          database: 'default',
+          name: 'events',
+          engine: 'MergeTree',
+          is_temporary: false,
+          total_rows: 42,
+          total_bytes: 1024,
+          comment: '',
+        },
+        {
+          database: 'default',
+          name: 'events_view',
+          engine: 'View',
+          is_temporary: false,
+          total_rows: null,
+          total_bytes: null,
+          comment: 'A view',
+        },
+      ])
+    })
+
+    it('should use parameter binding for the database and the table names', async () => {
+      query.and.resolveTo([{ name: 'id', is_in_primary_key: 1 }])
+      await describeTable(query, 'my_db.my_table')
+      const { query: text, query_params } = query.calls
+        .mostRecent()
+        .args[0].toQuery()
+      expect(text).toContain(
+        'WHERE database = {p0:String} AND table = {p1:String}',
+      )
+      expect(query_params).toEqual({ p0: 'my_db', p1: 'my_table' })
+
+      await listTables(query)
+      expect(query.calls.mostRecent().args[0].toQuery().query).toContain(
+        'WHERE database = currentDatabase()',
+      )
+    })
+
+    it('should throw if the table does not exist', async () => {
+      query.and.resolveTo([])
+      await expectAsync(describeTable(query, 'foo')).toBeRejectedWith(
+        jasmine.any(UnknownTableError),
+      )
+      await expectAsync(getTableEngine(query, 'foo')).toBeRejectedWithError(
+        'Table foo does not exist.',
+      )
+    })
+
+    it('should return the engine with the settings', async () => {
+      const engine_full =
+        'ReplacingMergeTree(version) ORDER BY id SETTINGS index_granularity = 8192'
+      query.and.resolveTo([
+        {
+          engine: 'ReplacingMergeTree',
+          engine_full,
+          partition_key: '',
+          sorting_key: 'id',
+          primary_key: 'id',
+          sampling_key: '',
+        },
+      ])
+      expect(await getTableEngine(query, 'foo')).toEqual({
+        engine: 'ReplacingMergeTree',
+        engine_full,
+        partition_key: '',
+        sorting_key: 'id',
+        primary_key: 'id',
+        sampling_key: '',
+        settings: { index_granularity: '8192' },
+      })
+    })
+  })
+})
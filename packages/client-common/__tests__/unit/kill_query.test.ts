@@ -0,0 +1,117 @@
+import type { ConnBaseQueryParams, Logger } from '@clickhouse/client-common'
+import {
+  ClickHouseLogLevel,
+  getCancelOnAbortSettings,
+  isAbortedOrTimedOut,
+  killQuery,
+  LogWriter,
+} from '@clickhouse/client-common'
+import { TestLogger } from '@test/utils'
+
+describe('Cancel on abort', () => {
+  describe('getCancelOnAbortSettings', () => {
+    it('should be disabled by default', async () => {
+      expect(getCancelOnAbortSettings(undefined)).toBeUndefined()
+      expect(getCancelOnAbortSettings({})).toBeUndefined()
+      expect(getCancelOnAbortSettings({ mode: 'SYNC' })).toBeUndefined()
+    })
+
+    it('should use the ASYNC mode by default', async () => {
+      expect(getCancelOnAbortSettings({ enabled: true })).toEqual({
+        mode: 'ASYNC',
+      })
+      expect(getCancelOnAbortSettings({ enabled: true, mode: 'SYNC' })).toEqual(
+        { mode: 'SYNC' },
+      )
+    })
+  })
+
+  describe('isAbortedOrTimedOut', () => {
+    it('should detect an aborted signal', async () => {
+      const controller = new AbortController()
+      expect(
+        isAbortedOrTimedOut(new Error('foo'), controller.signal),
+      ).toBeFalse()
+      controller.abort()
+      expect(
+        isAbortedOrTimedOut(new Error('foo'), controller.signal),
+      ).toBeTrue()
+    })
+
+    it('should detect a timeout', async () => {
+      expect(isAbortedOrTimedOut(new Error('Timeout error.'))).toBeTrue()
+      expect(isAbortedOrTimedOut(new Error('Syntax error'))).toBeFalse()
+    })
+  })
+
+  describe('killQuery', () => {
+    let logger: Logger
+    let logWriter: LogWriter
+    beforeEach(() => {
+      logger = new TestLogger()
+      logWriter = new LogWriter(logger, 'Connection', ClickHouseLogLevel.INFO)
+      spyOn(logger, 'info')
+      spyOn(logger, 'warn')
+    })
+
+    it('should send KILL QUERY with the query id as a parameter', async () => {
+      const run = jasmine
+        .createSpy<(params: ConnBaseQueryParams) => Promise<string>>('run')
+        .and.resolveTo('{"kill_status":"waiting"}\n')
+      await killQuery({
+        query_id: 'foo',
+        mode: 'SYNC',
+        auth: { username: 'bob', password: 'secret' },
+        http_headers: { 'X-Tenant': 'acme' },
+        run,
+        log_writer: logWriter,
+      })
+      expect(run).toHaveBeenCalledOnceWith({
+        query:
+          'KILL QUERY WHERE query_id = {query_id:String} SYNC FORMAT JSONEachRow',
+        query_params: { query_id: 'foo' },
+        auth: { username: 'bob', password: 'secret' },
+        http_headers: { 'X-Tenant': 'acme' },
+      })
+      expect(logger.info).toHaveBeenCalledOnceWith(
+        jasmine.objectContaining({
+          message:
+            'Query foo was cancelled after its request was aborted: waiting.',
+          args: { query_id: 'foo', mode: 'SYNC' },
+        }),
+      )
+    })
+
+    it('should log if the query is not running anymore', async () => {
+      await killQuery({
+        query_id: 'foo',
+        mode: 'ASYNC',
+        run: () => Promise.resolve(''),
+        log_writer: logWriter,
+      })
+      expect(logger.info).toHaveBeenCalledOnceWith(
+        jasmine.objectContaining({
+          message:
+            'Query foo was not cancelled after its request was aborted, as it is not running anymore.',
+        }),
+      )
+    })
+
+    it('should log a warning instead of throwing', async () => {
+      const err = new Error('Not enough privileges')
+      await killQuery({
+        query_id: 'foo',
+        mode: 'ASYNC',
+        run: () => Promise.reject(err),
+        log_writer: logWriter,
+      })
+      expect(logger.info).not.toHaveBeenCalled()
+      expect(logger.warn).toHaveBeenCalledOnceWith(
+        jasmine.objectContaining({
+          message: 'Failed to cancel query foo after its request was aborted.',
+          err,
+        }),
+      )
+    })
+  })
+})
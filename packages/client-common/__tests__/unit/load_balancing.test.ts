@@ -0,0 +1,248 @@
+import type {
+  Connection,
+  Endpoint,
+  LoadBalancingStrategyName,
+} from '@clickhouse/client-common'
+import {
+  ClickHouseLogLevel,
+  getRetrySettings,
+  LogWriter,
+} from '@clickhouse/client-common'
+import { sleep, TestLogger } from '@test/utils'
+import {
+  makeLoadBalancingStrategy,
+  MultiEndpointConnection,
+} from '../../src/load_balancing'
+
+describe('Load balancing', () => {
+  describe('strategies', () => {
+    const endpoints: Endpoint[] = [
+      { url: new URL('http://replica-1:8123'), healthy: true, in_flight: 2 },
+      { url: new URL('http://replica-2:8123'), healthy: true, in_flight: 0 },
+      { url: new URL('http://replica-3:8123'), healthy: true, in_flight: 1 },
+    ]
+
+    it('should select the endpoints in turns with round_robin', async () => {
+      const strategy = makeLoadBalancingStrategy('round_robin')
+      const selected = [1, 2, 3, 4].map(() => strategy(endpoints))
+      expect(selected).toEqual([
+        endpoints[0],
+        endpoints[1],
+        endpoints[2],
+        endpoints[0],
+      ])
+    })
+
+    it('should select the least loaded endpoint with least_in_flight', async () => {
+      const strategy = makeLoadBalancingStrategy('least_in_flight')
+      expect(strategy(endpoints)).toBe(endpoints[1])
+    })
+
+    it('should select the first endpoint with first_healthy', async () => {
+      const strategy = makeLoadBalancingStrategy('first_healthy')
+      expect(strategy(endpoints)).toBe(endpoints[0])
+      expect(strategy(endpoints.slice(1))).toBe(endpoints[1])
+    })
+
+    it('should select one of the endpoints with random', async () => {
+      const strategy = makeLoadBalancingStrategy('random')
+      for (let i = 0; i < 10; i++) {
+        expect(endpoints).toContain(strategy(endpoints))
+      }
+    })
+
+    it('should throw on an unknown strategy', async () => {
+      expect(() => makeLoadBalancingStrategy('foo' as any)).toThrowError(
+        'Unknown load balancing strategy: foo',
+      )
+    })
+  })
+
+  describe('MultiEndpointConnection', () => {
+    let connections: jasmine.SpyObj<Connection<unknown>>[]
+    let connection: MultiEndpointConnection<unknown>
+
+    beforeEach(() => {
+      connections = [1, 2, 3].map(() => makeConnectionSpy())
+      connection = makeConnection('round_robin')
+    })
+
+    afterEach(async () => {
+      await connection.close()
+    })
+
+    it('should distribute the requests between the endpoints', async () => {
+      for (let i = 0; i < 6; i++) {
+        await connection.query({ query: 'SELECT 1' })
+      }
+      for (const c of connections) {
+        expect(c.query).toHaveBeenCalledTimes(2)
+      }
+    })
+
+    it('should send a query to another endpoint after a connection error', async () => {
+      connection = makeConnection('first_healthy')
+      connections[0].query.and.rejectWith(errorWithCode('ECONNRESET'))
+      await connection.query({ query: 'SELECT 1' })
+      expect(connections[0].query).toHaveBeenCalledTimes(1)
+      expect(connections[1].query).toHaveBeenCalledTimes(1)
+
+      // the endpoint that is down is skipped
+      await connection.query({ query: 'SELECT 1' })
+      expect(connections[0].query).toHaveBeenCalledTimes(1)
+      expect(connections[1].query).toHaveBeenCalledTimes(2)
+    })
+
+    it('should probe the endpoint that is down until it is up again', async () => {
+      connection = makeConnection('first_healthy')
+      connections[0].command.and.rejectWith(errorWithCode('ECONNREFUSED'))
+      connections[0].ping.and.returnValues(
+        Promise.resolve({ success: false, error: new Error('Down') }),
+        Promise.resolve({ success: true }),
+      )
+      await connection.command({ query: 'SYSTEM FLUSH LOGS' })
+      expect(connections[1].command).toHaveBeenCalledTimes(1)
+
+      await sleep(50)
+      expect(connections[0].ping).toHaveBeenCalledTimes(2)
+      connections[0].command.and.resolveTo({} as any)
+      await connection.command({ query: 'SYSTEM FLUSH LOGS' })
+      expect(connections[0].command).toHaveBeenCalledTimes(2)
+      expect(connections[1].command).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not send an insert to another endpoint if it could have reached the server', async () => {
+      connection = makeConnection('first_healthy')
+      connections[0].insert.and.rejectWith(errorWithCode('ECONNRESET'))
+      await expectAsync(
+        connection.insert({ query: 'INSERT INTO t', values: '{}' }),
+      ).toBeRejectedWith(jasmine.objectContaining({ code: 'ECONNRESET' }))
+      expect(connections[1].insert).not.toHaveBeenCalled()
+
+      // the endpoint is still marked as down
+      await connection.insert({ query: 'INSERT INTO t', values: '{}' })
+      expect(connections[1].insert).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not send a stream to another endpoint', async () => {
+      connections[0].insert.and.rejectWith(errorWithCode('ECONNREFUSED'))
+      await expectAsync(
+        connection.insert({ query: 'INSERT INTO t', values: {} }),
+      ).toBeRejectedWith(jasmine.objectContaining({ code: 'ECONNREFUSED' }))
+      expect(connections[1].insert).not.toHaveBeenCalled()
+    })
+
+    it('should not send a request to another endpoint on other errors', async () => {
+      connections[0].query.and.rejectWith(new Error('Syntax error'))
+      await expectAsync(
+        connection.query({ query: 'SELEC 1' }),
+      ).toBeRejectedWithError('Syntax error')
+      expect(connections[1].query).not.toHaveBeenCalled()
+    })
+
+    it('should try the endpoints that are down if there are no healthy ones', async () => {
+      connection = makeConnection('first_healthy')
+      for (const c of connections) {
+        c.query.and.rejectWith(errorWithCode('ECONNREFUSED'))
+      }
+      await expectAsync(
+        connection.query({ query: 'SELECT 1' }),
+      ).toBeRejectedWith(jasmine.objectContaining({ code: 'ECONNREFUSED' }))
+      connections[1].query.and.resolveTo({} as any)
+      await connection.query({ query: 'SELECT 1' })
+      expect(connections[0].query).toHaveBeenCalledTimes(2)
+      expect(connections[1].query).toHaveBeenCalledTimes(2)
+      expect(connections[2].query).toHaveBeenCalledTimes(1)
+    })
+
+    it('should ping another endpoint if the first one is down', async () => {
+      connection = makeConnection('first_healthy')
+      connections[0].ping.and.resolveTo({
+        success: false,
+        error: errorWithCode('ECONNREFUSED'),
+      })
+      expect(await connection.ping()).toEqual({ success: true })
+      connections[1].ping.and.resolveTo({
+        success: false,
+        error: new Error('Authentication failed'),
+      })
+      expect(await connection.ping()).toEqual({
+        success: false,
+        error: new Error('Authentication failed'),
+      })
+    })
+
+    it('should count the requests in flight', async () => {
+      connection = makeConnection('least_in_flight')
+      let resolve: () => void = () => undefined
+      connections[0].query.and.returnValue(
+        new Promise((r) => (resolve = () => r({} as any))),
+      )
+      const pending = connection.query({ query: 'SELECT sleep(1)' })
+      await connection.query({ query: 'SELECT 1' })
+      await connection.query({ query: 'SELECT 1' })
+      expect(connections[0].query).toHaveBeenCalledTimes(1)
+      expect(connections[1].query).toHaveBeenCalledTimes(2)
+      resolve()
+      await pending
+    })
+
+    it('should pin a healthy endpoint', async () => {
+      connection = makeConnection('first_healthy')
+      connections[0].insert.and.rejectWith(errorWithCode('ECONNREFUSED'))
+      await expectAsync(
+        connection.insert({ query: 'INSERT INTO t', values: {} }),
+      ).toBeRejectedWith(jasmine.objectContaining({ code: 'ECONNREFUSED' }))
+      expect(connection.pin()).toBe(connections[1])
+      expect(connections[1].pin).toHaveBeenCalledTimes(1)
+    })
+
+    it('should close all the connections', async () => {
+      await connection.close()
+      for (const c of connections) {
+        expect(c.close).toHaveBeenCalledTimes(1)
+      }
+    })
+
+    function makeConnection(strategy: LoadBalancingStrategyName) {
+      return new MultiEndpointConnection({
+        endpoints: connections.map((connection, i) => ({
+          url: new URL(`http://replica-${i + 1}:8123`),
+          connection,
+        })),
+        strategy: makeLoadBalancingStrategy(strategy),
+        health_check_interval_ms: 10,
+        retry: getRetrySettings({}),
+        log_writer: new LogWriter(
+          new TestLogger(),
+          'LoadBalancingTest',
+          ClickHouseLogLevel.OFF,
+        ),
+      })
+    }
+  })
+
+  function makeConnectionSpy(): jasmine.SpyObj<Connection<unknown>> {
+    const connection = jasmine.createSpyObj<Connection<unknown>>('Connection', [
+      'ping',
+      'close',
+      'query',
+      'insert',
+      'exec',
+      'command',
+      'pin',
+    ])
+    connection.ping.and.resolveTo({ success: true })
+    connection.close.and.resolveTo()
+    connection.query.and.resolveTo({} as any)
+    connection.insert.and.resolveTo({} as any)
+    connection.exec.and.resolveTo({} as any)
+    connection.command.and.resolveTo({} as any)
+    connection.pin.and.returnValue(connection)
+    return connection
+  }
+
+  function errorWithCode(code: string) {
+    return Object.assign(new Error(code), { code })
+  }
+})
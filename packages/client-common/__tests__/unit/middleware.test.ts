@@ -0,0 +1,175 @@
+import type {
+  Logger,
+  Middleware,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  ResponseHeaders,
+} from '@clickhouse/client-common'
+import {
+  ClickHouseLogLevel,
+  LogWriter,
+  withMiddleware,
+} from '@clickhouse/client-common'
+import { TestLogger } from '@test/utils'
+
+describe('withMiddleware', () => {
+  let logger: Logger
+  let request: jasmine.Spy<
+    (url: URL, headers: Record<string, string>) => Promise<FakeResult>
+  >
+  let discard: jasmine.Spy<(result: FakeResult) => void>
+
+  beforeEach(() => {
+    logger = new TestLogger()
+    spyOn(logger, 'error')
+    request = jasmine.createSpy('request')
+    request.and.resolveTo({
+      response_headers: {
+        'x-clickhouse-summary': '{"read_rows":"1","written_rows":"0"}',
+      },
+    })
+    discard = jasmine.createSpy('discard')
+  })
+
+  it('should send the request as is without middleware', async () => {
+    const url = new URL('http://localhost:8123/?query_id=foo')
+    await run([], url)
+    expect(request).toHaveBeenCalledOnceWith(url, { Authorization: 'Basic' })
+  })
+
+  it('should send the request modified by the middleware in order', async () => {
+    const url = new URL('http://localhost:8123/?query_id=foo')
+    await run(
+      [
+        {
+          beforeRequest: async ({ url, headers }) => {
+            url.searchParams.set('max_threads', '4')
+            headers['X-Tenant'] = 'acme'
+          },
+        },
+        {
+          beforeRequest: (outgoing) => {
+            outgoing.url = new URL(`${outgoing.url}&log_comment=audited`)
+            outgoing.headers['X-Signature'] = outgoing.headers['X-Tenant']
+          },
+        },
+      ],
+      url,
+    )
+    const [sentUrl, sentHeaders] = request.calls.mostRecent().args
+    expect(sentUrl.toString()).toEqual(
+      'http://localhost:8123/?query_id=foo&max_threads=4&log_comment=audited',
+    )
+    expect(sentHeaders).toEqual({
+      Authorization: 'Basic',
+      'X-Tenant': 'acme',
+      'X-Signature': 'acme',
+    })
+    // the original URL is not modified
+    expect(url.toString()).toEqual('http://localhost:8123/?query_id=foo')
+  })
+
+  it('should pass the response headers and the summary', async () => {
+    const responses: MiddlewareResponse[] = []
+    await run([{ afterResponse: (response) => void responses.push(response) }])
+    expect(responses).toEqual([
+      {
+        op: 'Query',
+        url: jasmine.any(URL),
+        response_headers: {
+          'x-clickhouse-summary': '{"read_rows":"1","written_rows":"0"}',
+        },
+        summary: jasmine.objectContaining({
+          read_rows: '1',
+          written_rows: '0',
+        }),
+      },
+    ])
+  })
+
+  it('should fail the request without sending it if beforeRequest throws', async () => {
+    const onError = jasmine.createSpy('onError')
+    const err = new Error('Injected fault')
+    await expectAsync(
+      run([
+        {
+          beforeRequest: () => {
+            throw err
+          },
+          onError,
+        },
+      ]),
+    ).toBeRejectedWith(err)
+    expect(request).not.toHaveBeenCalled()
+    expect(onError).toHaveBeenCalledOnceWith({
+      op: 'Query',
+      url: jasmine.any(URL),
+      error: err,
+    })
+  })
+
+  it('should discard the response if afterResponse throws', async () => {
+    const err = new Error('Unexpected response')
+    await expectAsync(
+      run([
+        {
+          afterResponse: () => {
+            throw err
+          },
+        },
+      ]),
+    ).toBeRejectedWith(err)
+    expect(discard).toHaveBeenCalledTimes(1)
+  })
+
+  it('should call onError of every middleware and log its failures', async () => {
+    const err = new Error('Connection refused')
+    request.and.rejectWith(err)
+    const errors: Error[] = []
+    await expectAsync(
+      run([
+        {
+          onError: () => {
+            throw new Error('Audit failed')
+          },
+        },
+        { onError: ({ error }) => void errors.push(error) },
+      ]),
+    ).toBeRejectedWith(err)
+    expect(errors).toEqual([err])
+    expect(logger.error).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({
+        message: 'Query: middleware onError hook failed.',
+      }),
+    )
+  })
+
+  it('should not apply the middleware added while the request is in flight', async () => {
+    const middleware: Middleware[] = []
+    const outgoing: MiddlewareRequest[] = []
+    middleware.push({
+      beforeRequest: () => {
+        middleware.push({ beforeRequest: (r) => void outgoing.push(r) })
+      },
+    })
+    await run(middleware)
+    expect(outgoing).toEqual([])
+  })
+
+  function run(middleware: Middleware[], url = new URL('http://localhost')) {
+    return withMiddleware({
+      middleware,
+      op: 'Query',
+      url,
+      headers: { Authorization: 'Basic' },
+      request,
+      getResponseHeaders: (result) => result.response_headers,
+      discard,
+      log_writer: new LogWriter(logger, 'Connection', ClickHouseLogLevel.ERROR),
+    })
+  }
+})
+
+interface FakeResult {
+  response_headers: ResponseHeaders
+}
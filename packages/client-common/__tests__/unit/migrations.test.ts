@@ -0,0 +1,314 @@
+import type {
+  ClickHouseClient,
+  CommandParams,
+  Migration,
+  MigratorParams,
+  QueryParamsWithFormat,
+} from '@clickhouse/client-common'
+import {
+  ClickHouseLogLevel,
+  LogWriter,
+  Migrator,
+  SQLFragment,
+} from '@clickhouse/client-common'
+import { TestLogger } from '@test/utils'
+import { splitStatements } from '../../src/migrations'
+
+describe('Migrations', () => {
+  describe('splitStatements', () => {
+    it('should split the statements by the semicolons', async () => {
+      expect(
+        splitStatements(`
+          CREATE TABLE t (s String DEFAULT ';') ENGINE = Memory;
+          -- a comment; with a semicolon
+          INSERT INTO t VALUES ('it''s; \\'quoted\\''), (/* ; */ 'a');
+          SELECT 1 AS \`;\`, "x;y" # ;
+          ;
+          /* only a comment; */
+        `),
+      ).toEqual([
+        `CREATE TABLE t (s String DEFAULT ';') ENGINE = Memory`,
+        `-- a comment; with a semicolon\n          INSERT INTO t VALUES ('it''s; \\'quoted\\''), (/* ; */ 'a')`,
+        'SELECT 1 AS `;`, "x;y" # ;',
+      ])
+    })
+
+    it('should return nothing for the empty text', async () => {
+      expect(splitStatements('')).toEqual([])
+      expect(splitStatements(' ;\n-- foo\n; ')).toEqual([])
+    })
+  })
+
+  describe('Migrator', () => {
+    let commands: RenderedQuery[]
+    let applied: Array<{
+      version: string
+      name: string
+      checksum: string
+      applied_at: string
+    }>
+    let lockHolder: string | undefined
+    let readLockHolder: () => string | undefined
+    let client: ClickHouseClient<unknown>
+
+    beforeEach(() => {
+      commands = []
+      applied = []
+      lockHolder = undefined
+      readLockHolder = () => lockHolder
+      client = {
+        command: async (params: CommandParams) => {
+          const rendered = render(params.query)
+          commands.push(rendered)
+          if (rendered.query.includes('`schema_migrations_lock`')) {
+            const [owner, is_locked] = Object.values(rendered.query_params)
+            if (is_locked === 1) {
+              lockHolder ??= owner as string
+            } else if (owner === lockHolder) {
+              lockHolder = undefined
+            }
+          }
+          return { query_id: 'foo', response_headers: {} }
+        },
+        query: async (params: QueryParamsWithFormat<'JSONEachRow'>) => {
+          const { query } = render(params.query)
+          let rows: unknown[] = []
+          if (query.includes('GROUP BY owner')) {
+            rows = [{ owner: readLockHolder() }]
+          } else if (query.includes('GROUP BY version')) {
+            rows = applied
+          } else if (query.startsWith('EXISTS TABLE')) {
+            rows = [{ result: 1 }]
+          }
+          return { json: async () => rows }
+        },
+      } as unknown as ClickHouseClient<unknown>
+    })
+
+    const migrations: Migration[] = [
+      {
+        version: '10',
+        name: 'third',
+        up: async ({ run, on_cluster }) => {
+          await run(`ALTER TABLE a ${on_cluster} ADD COLUMN c String`)
+        },
+      },
+      {
+        version: '2',
+        name: 'second',
+        up: 'CREATE TABLE b {{on_cluster}} (id UInt8) ENGINE = Memory; INSERT INTO b VALUES (1);',
+        down: 'DROP TABLE b {{ on_cluster }}',
+        checksum: 'second',
+      },
+      {
+        version: '1',
+        name: 'first',
+        up: 'CREATE TABLE a (id UInt8) ENGINE = Memory',
+        down: 'DROP TABLE a',
+        checksum: 'first',
+      },
+    ]
+
+    it('should apply the pending migrations in order', async () => {
+      applied = [appliedMigration('1', 'first')]
+      const result = await makeMigrator().up()
+      expect(result.map(({ version }) => version)).toEqual(['2', '10'])
+      expect(migrationCommands()).toEqual([
+        'CREATE TABLE b  (id UInt8) ENGINE = Memory',
+        'INSERT INTO b VALUES (1)',
+        'ALTER TABLE a  ADD COLUMN c String',
+      ])
+      expect(recordedMigrations()).toEqual([
+        ['2', 'second', 'second', 1],
+        ['10', 'third', '', 1],
+      ])
+      // the lock is released in the end
+      const lockRecords = commands.filter(({ query }) =>
+        query.startsWith('INSERT INTO `schema_migrations_lock`'),
+      )
+      expect(lockRecords[lockRecords.length - 1].query_params.p1).toEqual(0)
+    })
+
+    it('should apply the migrations up to the version ON CLUSTER', async () => {
+      await makeMigrator({ cluster: 'my_cluster' }).up({ to: '2' })
+      expect(migrationCommands()).toEqual([
+        'CREATE TABLE a (id UInt8) ENGINE = Memory',
+        'CREATE TABLE b ON CLUSTER `my_cluster` (id UInt8) ENGINE = Memory',
+        'INSERT INTO b VALUES (1)',
+      ])
+      expect(commands[0].query).toContain(
+        'CREATE TABLE IF NOT EXISTS `schema_migrations` ON CLUSTER `my_cluster`',
+      )
+      expect(commands[0].query).toContain('ENGINE = ReplicatedMergeTree')
+    })
+
+    it('should roll back the last migration by default', async () => {
+      applied = [
+        appliedMigration('1', 'first'),
+        appliedMigration('2', 'second'),
+      ]
+      const result = await makeMigrator().down()
+      expect(result.map(({ version }) => version)).toEqual(['2'])
+      expect(migrationCommands()).toEqual(['DROP TABLE b'])
+      expect(recordedMigrations()).toEqual([['2', 'second', 'second', 0]])
+    })
+
+    it('should roll back the migrations after the version', async () => {
+      applied = [
+        appliedMigration('1', 'first'),
+        appliedMigration('2', 'second'),
+      ]
+      await makeMigrator().down({ to: '0' })
+      expect(migrationCommands()).toEqual(['DROP TABLE b', 'DROP TABLE a'])
+    })
+
+    it('should not roll back a migration without the down step', async () => {
+      applied = [appliedMigration('10', 'third')]
+      await expectAsync(makeMigrator().down()).toBeRejectedWithError(
+        'Cannot roll back migration 10_third: it has no down step.',
+      )
+      expect(migrationCommands()).toEqual([])
+    })
+
+    it('should return the status of the migrations', async () => {
+      applied = [
+        appliedMigration('1', 'first', 'modified'),
+        appliedMigration('2', 'second'),
+        appliedMigration('5', 'deleted'),
+      ]
+      expect(await makeMigrator().status()).toEqual([
+        {
+          version: '1',
+          name: 'first',
+          state: 'modified',
+          applied_at: '2024-01-02 03:04:05.000000',
+        },
+        {
+          version: '2',
+          name: 'second',
+          state: 'applied',
+          applied_at: '2024-01-02 03:04:05.000000',
+        },
+        {
+          version: '5',
+          name: 'deleted',
+          state: 'missing',
+          applied_at: '2024-01-02 03:04:05.000000',
+        },
+        { version: '10', name: 'third', state: 'pending', applied_at: null },
+      ])
+      // status does not take the lock
+      expect(commands).toEqual([])
+    })
+
+    it('should not apply the migrations if the applied ones were modified', async () => {
+      applied = [appliedMigration('1', 'first', 'modified')]
+      await expectAsync(makeMigrator().up()).toBeRejectedWithError(
+        /The applied migrations were modified: 1_first/,
+      )
+      expect(migrationCommands()).toEqual([])
+      await makeMigrator({ ignore_checksums: true }).up()
+      expect(migrationCommands().length).toEqual(3)
+    })
+
+    it('should fail if the lock is held by another process', async () => {
+      lockHolder = 'another'
+      await expectAsync(
+        makeMigrator({ lock_timeout_ms: 0 }).up(),
+      ).toBeRejectedWithError(
+        'Failed to acquire the migrations lock in 0 ms: it is held by another process (another).',
+      )
+      expect(migrationCommands()).toEqual([])
+    })
+
+    it('should check the lock holder again after acquiring the lock', async () => {
+      // the earlier record of another process becomes visible after the first check
+      let reads = 0
+      readLockHolder = () => (++reads === 1 ? lockHolder : 'another')
+      await expectAsync(
+        makeMigrator({ lock_timeout_ms: 0 }).up(),
+      ).toBeRejectedWithError(
+        'Failed to acquire the migrations lock in 0 ms: it is held by another process (another).',
+      )
+      expect(reads).toEqual(2)
+      expect(migrationCommands()).toEqual([])
+    })
+
+    it('should stop if the lock has expired and another process holds it', async () => {
+      await expectAsync(
+        makeMigrator({
+          migrations: [
+            {
+              version: '1',
+              name: 'slow',
+              up: async ({ run }) => {
+                await run('SELECT 1')
+                lockHolder = 'another'
+              },
+            },
+            { version: '2', name: 'next', up: 'SELECT 2' },
+          ],
+        }).up(),
+      ).toBeRejectedWithError(
+        'Lost the migrations lock: it has expired and is held by another process (another). Increase lock_ttl_ms if the migrations take longer than it.',
+      )
+      expect(migrationCommands()).toEqual(['SELECT 1'])
+      expect(recordedMigrations()).toEqual([['1', 'slow', '', 1]])
+    })
+
+    it('should not accept the duplicate versions', async () => {
+      expect(() =>
+        makeMigrator({
+          migrations: [
+            { version: '1', name: 'foo', up: '' },
+            { version: '1', name: 'bar', up: '' },
+          ],
+        }),
+      ).toThrowError('Duplicate migration version 1: foo and bar')
+    })
+
+    function makeMigrator(params: Partial<MigratorParams> = {}) {
+      return new Migrator({
+        params: { migrations, lock_settle_ms: 0, ...params },
+        client,
+        log_writer: new LogWriter(
+          new TestLogger(),
+          'MigratorTest',
+          ClickHouseLogLevel.OFF,
+        ),
+      })
+    }
+
+    /** Without the requests to the migrations tables. */
+    function migrationCommands(): string[] {
+      return commands
+        .filter(({ query }) => !query.includes('schema_migrations'))
+        .map(({ query }) => query)
+    }
+
+    function recordedMigrations(): unknown[][] {
+      return commands
+        .filter(({ query }) =>
+          query.startsWith('INSERT INTO `schema_migrations` '),
+        )
+        .map(({ query_params }) => Object.values(query_params))
+    }
+  })
+})
+
+interface RenderedQuery {
+  query: string
+  query_params: Record<string, unknown>
+}
+
+function render(query: string | SQLFragment): RenderedQuery {
+  if (query instanceof SQLFragment) {
+    const rendered = query.toQuery()
+    return { query: rendered.query.trim(), query_params: rendered.query_params }
+  }
+  return { query, query_params: {} }
+}
+
+function appliedMigration(version: string, name: string, checksum = name) {
+  return { version, name, checksum, applied_at: '2024-01-02 03:04:05.000000' }
+}
@@ -0,0 +1,173 @@
+import {
+  NativeBlockEncoder,
+  nativeBlockToRows,
+  NativeResultDecoder,
+} from '@clickhouse/client-common'
+
+describe('Native format codec', () => {
+  it('should decode numeric columns as typed arrays', async () => {
+    const schema = [
+      { name: 'u8', type: 'UInt8' },
+      { name: 'i64', type: 'Int64' },
+      { name: 'f64', type: 'Float64' },
+      { name: 's', type: 'String' },
+    ]
+    const data = encode(schema, {
+      u8: [1, 2, 3],
+      i64: [-1n, 0n, 2n ** 40n],
+      f64: new Float64Array([0.5, 1.5, -2.5]),
+      s: ['foo', '', 'bar'],
+    })
+    const [block] = decode(data)
+    expect(block.meta).toEqual(schema)
+    expect(block.rows).toEqual(3)
+    expect(block.columns[0]).toEqual(new Uint8Array([1, 2, 3]))
+    expect(block.columns[1]).toEqual(new BigInt64Array([-1n, 0n, 2n ** 40n]))
+    expect(block.columns[2]).toEqual(new Float64Array([0.5, 1.5, -2.5]))
+    expect(block.columns[3]).toEqual(['foo', '', 'bar'])
+  })
+
+  it('should round-trip nested types', async () => {
+    const schema = [
+      { name: 'n', type: 'Nullable(Int32)' },
+      { name: 'arr', type: 'Array(Nullable(String))' },
+      { name: 'nested', type: 'Array(Array(UInt16))' },
+      { name: 'tuple', type: 'Tuple(String, UInt8)' },
+      { name: 'named', type: 'Tuple(a String, b Nullable(UInt8))' },
+      { name: 'map', type: 'Map(String, Array(Float32))' },
+      { name: 'dec', type: 'Nullable(Decimal(18, 4))' },
+      { name: 'dt', type: `DateTime64(3, 'UTC')` },
+      { name: 'enum', type: `Enum8('a' = 1, 'b' = 2)` },
+      { name: 'uuid', type: 'Nullable(UUID)' },
+    ]
+    const values = {
+      n: [1, null],
+      arr: [['x', null], []],
+      nested: [[[1, 2], []], [[3]]],
+      tuple: [
+        ['t', 42],
+        ['u', 43],
+      ],
+      named: [
+        { a: 'n', b: null },
+        { a: 'm', b: 144 },
+      ],
+      map: [{ k: [0.5] }, new Map([['l', []]])],
+      dec: ['1.2345', null],
+      dt: [new Date(1_700_000_000_123), new Date(0)],
+      enum: ['b', 'a'],
+      uuid: [null, '01020304-0506-0708-090a-0b0c0d0e0f10'],
+    }
+    const [block] = decode(encode(schema, values))
+    expect(block.columns[0]).toEqual([1, null])
+    expect(block.columns[1]).toEqual([['x', null], []])
+    expect(block.columns[2]).toEqual([
+      [new Uint16Array([1, 2]), new Uint16Array([])],
+      [new Uint16Array([3])],
+    ])
+    expect(block.columns[3]).toEqual([
+      ['t', 42],
+      ['u', 43],
+    ])
+    expect(block.columns[4]).toEqual([
+      { a: 'n', b: null },
+      { a: 'm', b: 144 },
+    ])
+    expect(block.columns[5]).toEqual([
+      new Map([['k', new Float32Array([0.5])]]),
+      new Map([['l', new Float32Array([])]]),
+    ])
+    expect(block.columns[6]).toEqual(['1.2345', null])
+    expect(block.columns[7]).toEqual([new Date(1_700_000_000_123), new Date(0)])
+    expect(block.columns[8]).toEqual(['b', 'a'])
+    expect(block.columns[9]).toEqual([
+      null,
+      '01020304-0506-0708-090a-0b0c0d0e0f10',
+    ])
+  })
+
+  it('should decode blocks split between multiple chunks', async () => {
+    const schema = [
+      { name: 'id', type: 'UInt32' },
+      { name: 's', type: 'String' },
+    ]
+    const encoder = new NativeBlockEncoder(schema)
+    encoder.write({ id: [1, 2], s: ['a', 'b'] })
+    encoder.write({ id: [3], s: ['c'] })
+    const data = encoder.flush()
+    const decoder = new NativeResultDecoder()
+    const blocks = []
+    // feeding the data byte by byte
+    for (let i = 0; i < data.length; i++) {
+      blocks.push(...decoder.decode(data.subarray(i, i + 1)))
+    }
+    blocks.push(...decoder.finish())
+    expect(blocks.length).toEqual(2)
+    expect(blocks.flatMap(nativeBlockToRows)).toEqual([
+      { id: 1, s: 'a' },
+      { id: 2, s: 'b' },
+      { id: 3, s: 'c' },
+    ])
+  })
+
+  it('should send LowCardinality columns as the nested types', async () => {
+    const schema = [
+      { name: 'lc', type: 'LowCardinality(String)' },
+      { name: 'arr', type: 'Array(LowCardinality(Nullable(String)))' },
+    ]
+    const [block] = decode(
+      encode(schema, { lc: ['foo'], arr: [['bar', null]] }),
+    )
+    expect(block.meta).toEqual([
+      { name: 'lc', type: 'String' },
+      { name: 'arr', type: 'Array(Nullable(String))' },
+    ])
+    expect(block.columns).toEqual([['foo'], [['bar', null]]])
+  })
+
+  it('should skip empty blocks', async () => {
+    const encoder = new NativeBlockEncoder([{ name: 'id', type: 'UInt8' }])
+    encoder.write({ id: [] })
+    expect(encoder.bufferedBytes).toEqual(0)
+  })
+
+  it('should throw on malformed blocks', async () => {
+    const encoder = new NativeBlockEncoder([
+      { name: 'a', type: 'UInt8' },
+      { name: 'b', type: 'String' },
+    ])
+    expect(() => encoder.write({ a: [1] } as any)).toThrowError(
+      'Expected an array of values for column b',
+    )
+    expect(() => encoder.write({ a: [1], b: ['x', 'y'] })).toThrowError(
+      'Expected all columns to have the same length, got 2 values for column b and 1 for the previous ones',
+    )
+    expect(() => encoder.write({ a: [1], b: [1] })).toThrowError(
+      'Cannot encode column b: Expected a string, got 1',
+    )
+    expect(encoder.bufferedBytes).toEqual(0)
+  })
+
+  it('should throw if the stream ended in the middle of a block', async () => {
+    const data = encode([{ name: 'id', type: 'UInt32' }], { id: [1, 2] })
+    const decoder = new NativeResultDecoder()
+    expect(decoder.decode(data.subarray(0, data.length - 1))).toEqual([])
+    expect(() => decoder.finish()).toThrowError(
+      `Native stream ended unexpectedly with ${data.length - 1} bytes of incomplete block data`,
+    )
+  })
+
+  function encode(
+    schema: Array<{ name: string; type: string }>,
+    block: Record<string, ArrayLike<unknown>>,
+  ): Uint8Array {
+    const encoder = new NativeBlockEncoder(schema)
+    encoder.write(block)
+    return encoder.flush()
+  }
+
+  function decode(data: Uint8Array) {
+    const decoder = new NativeResultDecoder()
+    return [...decoder.decode(data), ...decoder.finish()]
+  }
+})
@@ -0,0 +1,197 @@
+import { parseColumnType, parseStructure } from '@clickhouse/client-common'
+
+describe('parseColumnType', () => {
+  it('should parse simple types', async () => {
+    const simpleTypes = [
+      'Bool',
+      'UInt8',
+      'Int64',
+      'UInt256',
+      'Float32',
+      'String',
+      'UUID',
+      'IPv6',
+      'Date32',
+    ]
+    simpleTypes.forEach((type) => {
+      expect(parseColumnType(type))
+        .withContext(type)
+        .toEqual({
+          type: 'Simple',
+          column_type: type as any,
+          source_type: type,
+        })
+    })
+  })
+
+  it('should parse DateTime and DateTime64 with and without timezone', async () => {
+    expect(parseColumnType('DateTime')).toEqual({
+      type: 'DateTime',
+      timezone: null,
+      source_type: 'DateTime',
+    })
+    expect(parseColumnType(`DateTime('Europe/Amsterdam')`)).toEqual({
+      type: 'DateTime',
+      timezone: 'Europe/Amsterdam',
+      source_type: `DateTime('Europe/Amsterdam')`,
+    })
+    expect(parseColumnType('DateTime64(3)')).toEqual({
+      type: 'DateTime64',
+      precision: 3,
+      timezone: null,
+      source_type: 'DateTime64(3)',
+    })
+    expect(parseColumnType(`DateTime64(9, 'UTC')`)).toEqual({
+      type: 'DateTime64',
+      precision: 9,
+      timezone: 'UTC',
+      source_type: `DateTime64(9, 'UTC')`,
+    })
+  })
+
+  it('should parse decimals', async () => {
+    const args: [string, number, number, number][] = [
+      ['Decimal(9, 2)', 9, 2, 32],
+      ['Decimal(18, 4)', 18, 4, 64],
+      ['Decimal(38, 10)', 38, 10, 128],
+      ['Decimal(76, 20)', 76, 20, 256],
+      ['Decimal32(3)', 9, 3, 32],
+      ['Decimal64(3)', 18, 3, 64],
+      ['Decimal128(3)', 38, 3, 128],
+      ['Decimal256(3)', 76, 3, 256],
+    ]
+    args.forEach(([source_type, precision, scale, int_size]) => {
+      expect(parseColumnType(source_type)).toEqual({
+        type: 'Decimal',
+        precision,
+        scale,
+        int_size: int_size as any,
+        source_type,
+      })
+    })
+  })
+
+  it('should parse enums with quotes and equal signs in the names', async () => {
+    const source_type = `Enum8('foo' = 1, 'b\\'a=r' = -2)`
+    expect(parseColumnType(source_type)).toEqual({
+      type: 'Enum',
+      values: { 1: 'foo', [-2]: `b'a=r` },
+      int_size: 8,
+      source_type,
+    })
+  })
+
+  it('should parse nested types', async () => {
+    const source_type =
+      'Map(LowCardinality(String), Array(Nullable(Tuple(a Int32, `b c` FixedString(2)))))'
+    expect(parseColumnType(source_type)).toEqual({
+      type: 'Map',
+      key: {
+        type: 'LowCardinality',
+        value: {
+          type: 'Simple',
+          column_type: 'String',
+          source_type: 'String',
+        },
+        source_type: 'LowCardinality(String)',
+      },
+      value: {
+        type: 'Array',
+        value: {
+          type: 'Nullable',
+          value: {
+            type: 'Tuple',
+            elements: [
+              {
+                name: 'a',
+                type: {
+                  type: 'Simple',
+                  column_type: 'Int32',
+                  source_type: 'Int32',
+                },
+              },
+              {
+                name: 'b c',
+                type: {
+                  type: 'FixedString',
+                  length: 2,
+                  source_type: 'FixedString(2)',
+                },
+              },
+            ],
+            source_type: 'Tuple(a Int32, `b c` FixedString(2))',
+          },
+          source_type: 'Nullable(Tuple(a Int32, `b c` FixedString(2)))',
+        },
+        source_type: 'Array(Nullable(Tuple(a Int32, `b c` FixedString(2))))',
+      },
+      source_type,
+    })
+  })
+
+  it('should parse unnamed tuples, geo aliases and SimpleAggregateFunction', async () => {
+    expect(parseColumnType('Point')).toEqual({
+      type: 'Tuple',
+      elements: [
+        {
+          name: null,
+          type: {
+            type: 'Simple',
+            column_type: 'Float64',
+            source_type: 'Float64',
+          },
+        },
+        {
+          name: null,
+          type: {
+            type: 'Simple',
+            column_type: 'Float64',
+            source_type: 'Float64',
+          },
+        },
+      ],
+      source_type: 'Point',
+    })
+    expect(parseColumnType('SimpleAggregateFunction(sum, UInt64)')).toEqual({
+      type: 'Simple',
+      column_type: 'UInt64',
+      source_type: 'SimpleAggregateFunction(sum, UInt64)',
+    })
+  })
+
+  it('should throw on unsupported or malformed types', async () => {
+    expect(() => parseColumnType('Object(Nullable(JSON))')).toThrowError(
+      'Unsupported column type: Object(Nullable(JSON))',
+    )
+    expect(() => parseColumnType('Variant(String, UInt8)')).toThrowError(
+      'Unsupported column type: Variant(String, UInt8)',
+    )
+    expect(() => parseColumnType('Array(String, UInt8)')).toThrowError(
+      'Invalid column type: Array(String, UInt8), expected a single argument',
+    )
+    expect(() => parseColumnType('FixedString(foo)')).toThrowError(
+      'Invalid column type: FixedString(foo), foo is not an integer',
+    )
+  })
+})
+
+describe('parseStructure', () => {
+  it('should parse the names and types of the columns', async () => {
+    expect(
+      parseStructure(
+        "id UInt64, `the name` String, tags Map(String, Array(UInt8)), e Enum8('a,b' = 1)",
+      ),
+    ).toEqual([
+      { name: 'id', type: 'UInt64' },
+      { name: 'the name', type: 'String' },
+      { name: 'tags', type: 'Map(String, Array(UInt8))' },
+      { name: 'e', type: "Enum8('a,b' = 1)" },
+    ])
+  })
+
+  it('should throw on a column without a type', async () => {
+    expect(() => parseStructure('id UInt64, name')).toThrowError(
+      'Invalid structure: id UInt64, name. Expected the column name and type, got: name',
+    )
+  })
+})
@@ -1,4 +1,10 @@
-import { ClickHouseError, parseError } from '@clickhouse/client-common'
+import {
+  ClickHouseError,
+  isStreamErrorRow,
+  isStreamErrorTail,
+  parseError,
+  parseStreamError,
+} from '@clickhouse/client-common'
 
 describe('parseError', () => {
   it('parses a single line error', () => {
@@ -77,6 +83,96 @@ describe('parseError', () => {
     })
   })
 
+  describe('Errors in the middle of a streamed response', () => {
+    const message = `Code: 395. DB::Exception: Value passed to 'throwIf' function is non-zero: while executing 'FUNCTION throwIf(equals(number, 3) :: 2) -> throwIf(equals(number, 3)) UInt8 : 1'. (FUNCTION_THROW_IF_VALUE_IS_NON_ZERO) (version 24.3.1.2672 (official build))`
+
+    it('should detect the exception rows', async () => {
+      expect(isStreamErrorRow(message)).toBeTrue()
+      expect(isStreamErrorRow('Error: 395. DB::Exception: foo')).toBeTrue()
+      expect(isStreamErrorRow('__exception__')).toBeTrue()
+      expect(
+        isStreamErrorRow(JSON.stringify({ exception: message })),
+      ).toBeTrue()
+    })
+
+    it('should not detect the regular rows as exceptions', async () => {
+      expect(isStreamErrorRow('{"number":"2"}')).toBeFalse()
+      expect(isStreamErrorRow('{"exception":"foo","number":"2"}')).toBeFalse()
+      expect(isStreamErrorRow('{"exception":42}')).toBeFalse()
+      expect(isStreamErrorRow('Code: 395')).toBeFalse()
+      expect(isStreamErrorRow('2\tfoo')).toBeFalse()
+      expect(isStreamErrorRow('')).toBeFalse()
+    })
+
+    it('should only detect the exception at the end of the response', async () => {
+      expect(isStreamErrorTail([message])).toBeTrue()
+      expect(isStreamErrorTail([message, '2\tfoo'])).toBeFalse()
+      expect(
+        isStreamErrorTail([JSON.stringify({ exception: message }), '{}']),
+      ).toBeFalse()
+      expect(isStreamErrorTail(['__exception__', message])).toBeTrue()
+      expect(
+        isStreamErrorTail(['__exception__', message, '__exception__']),
+      ).toBeTrue()
+      expect(
+        isStreamErrorTail(['__exception__', message, '__exception__', '2']),
+      ).toBeFalse()
+      expect(isStreamErrorTail(['2\tfoo'])).toBeFalse()
+      expect(isStreamErrorTail([])).toBeFalse()
+    })
+
+    it('should not detect a JSON row without the exception code as an exception', async () => {
+      expect(isStreamErrorRow('{"exception":""}')).toBeFalse()
+      expect(isStreamErrorRow('{"exception":"foo"}')).toBeFalse()
+    })
+
+    it('should parse a plain text exception', async () => {
+      const error = parseStreamError(`${message}\n`, 'foo', 3)
+      expect(error).toBeInstanceOf(ClickHouseError)
+      expect(error.code).toBe('395')
+      expect(error.type).toBe('FUNCTION_THROW_IF_VALUE_IS_NON_ZERO')
+      expect(error.message).toContain("Value passed to 'throwIf' function")
+      expect(error.query_id).toBe('foo')
+      expect(error.rows_received).toBe(3)
+    })
+
+    it('should parse a JSON exception', async () => {
+      const error = parseStreamError(
+        JSON.stringify({ exception: message }) + '\n',
+        'foo',
+        3,
+      )
+      expect(error.code).toBe('395')
+      expect(error.type).toBe('FUNCTION_THROW_IF_VALUE_IS_NON_ZERO')
+      expect(error.rows_received).toBe(3)
+    })
+
+    it('should parse an exception wrapped in markers', async () => {
+      const error = parseStreamError(
+        `__exception__\n${message}\n__exception__\n`,
+        'foo',
+        0,
+      )
+      expect(error.code).toBe('395')
+      expect(error.type).toBe('FUNCTION_THROW_IF_VALUE_IS_NON_ZERO')
+      expect(error.rows_received).toBe(0)
+    })
+
+    it('should keep the text of a truncated exception', async () => {
+      const error = parseStreamError(
+        'Code: 241. DB::Exception: Memory limit exceeded',
+        'foo',
+        10,
+      )
+      expect(error).toBeInstanceOf(ClickHouseError)
+      expect(error.code).toBe('241')
+      expect(error.type).toBe('MEMORY_LIMIT_EXCEEDED')
+      expect(error.message).toBe(
+        'Code: 241. DB::Exception: Memory limit exceeded',
+      )
+    })
+  })
+
   xdescribe('Cluster mode errors', () => {
     // FIXME: https://github.com/ClickHouse/clickhouse-js/issues/39
     it('should work with TABLE_ALREADY_EXISTS', async () => {
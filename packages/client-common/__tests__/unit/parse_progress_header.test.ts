@@ -0,0 +1,28 @@
+import { parseProgressHeader } from '@clickhouse/client-common'
+
+describe('parseProgressHeader', () => {
+  it('should parse a single progress object', async () => {
+    expect(parseProgressHeader(' {"read_rows":"1","read_bytes":"8"}')).toEqual([
+      { read_rows: '1', read_bytes: '8' } as any,
+    ])
+  })
+
+  it('should parse the values joined with a comma', async () => {
+    expect(
+      parseProgressHeader(
+        '{"read_rows":"1"}, {"read_rows":"2"},{"read_rows":"3"}',
+      ),
+    ).toEqual([
+      { read_rows: '1' },
+      { read_rows: '2' },
+      { read_rows: '3' },
+    ] as any)
+  })
+
+  it('should skip the malformed values', async () => {
+    expect(
+      parseProgressHeader('{"read_rows":1"}, {"read_rows":"2"}, {"read_'),
+    ).toEqual([{ read_rows: '2' } as any])
+    expect(parseProgressHeader('')).toEqual([])
+  })
+})
@@ -0,0 +1,203 @@
+import type { Logger } from '@clickhouse/client-common'
+import {
+  ClickHouseLogLevel,
+  getRetrySettings,
+  isRetryableRequest,
+  LogWriter,
+  withErrorCode,
+  withResponseStatus,
+  withRetries,
+} from '@clickhouse/client-common'
+import { TestLogger } from '@test/utils'
+import { getRetryDelay, isRetryableError } from '../../src/utils/retry'
+
+describe('Retries', () => {
+  const settings = getRetrySettings({
+    max_attempts: 3,
+    initial_delay_ms: 1,
+  })
+
+  describe('isRetryableRequest', () => {
+    it('should not retry if the retries are disabled', async () => {
+      expect(isRetryableRequest('Query', getRetrySettings({}))).toBeFalse()
+      expect(isRetryableRequest('Query', settings)).toBeTrue()
+    })
+
+    it('should retry only the allowed operations', async () => {
+      expect(isRetryableRequest('Ping', settings)).toBeTrue()
+      expect(isRetryableRequest('Exec', settings)).toBeFalse()
+      expect(isRetryableRequest('Command', settings)).toBeFalse()
+    })
+
+    it('should retry inserts only with insert_deduplication_token', async () => {
+      const withInserts = getRetrySettings({
+        max_attempts: 3,
+        operations: ['Insert'],
+      })
+      expect(isRetryableRequest('Insert', settings)).toBeFalse()
+      expect(isRetryableRequest('Insert', withInserts)).toBeFalse()
+      expect(
+        isRetryableRequest(
+          'Insert',
+          withInserts,
+          new URLSearchParams({ insert_deduplication_token: 'foo' }),
+        ),
+      ).toBeTrue()
+    })
+  })
+
+  describe('isRetryableError', () => {
+    it('should check the error code', async () => {
+      expect(isRetryableError(errorWithCode('ECONNRESET'), settings)).toBeTrue()
+      expect(isRetryableError(errorWithCode('ENOTFOUND'), settings)).toBeFalse()
+      expect(isRetryableError(new Error('foo'), settings)).toBeFalse()
+      expect(isRetryableError('ECONNRESET', settings)).toBeFalse()
+    })
+
+    it('should check the code of the error cause', async () => {
+      const err = new TypeError('fetch failed', {
+        cause: errorWithCode('ECONNREFUSED'),
+      })
+      expect(isRetryableError(err, settings)).toBeTrue()
+    })
+
+    it('should check the code assigned to the error without one', async () => {
+      const err = withErrorCode(new TypeError('Failed to fetch'), 'ECONNRESET')
+      expect(isRetryableError(err, settings)).toBeTrue()
+      // the code of the error itself is preferred
+      const withCause = new TypeError('fetch failed', {
+        cause: errorWithCode('ENOTFOUND'),
+      })
+      expect(
+        isRetryableError(withErrorCode(withCause, 'ECONNRESET'), settings),
+      ).toBeFalse()
+    })
+
+    it('should check the response status', async () => {
+      expect(
+        isRetryableError(withResponseStatus(new Error('foo'), 503), settings),
+      ).toBeTrue()
+      expect(
+        isRetryableError(withResponseStatus(new Error('foo'), 500), settings),
+      ).toBeFalse()
+    })
+  })
+
+  describe('getRetryDelay', () => {
+    it('should double the delay after each attempt, up to the maximum', async () => {
+      const delays = getRetrySettings({
+        initial_delay_ms: 100,
+        max_delay_ms: 300,
+      })
+      for (const [attempt, max] of [
+        [1, 100],
+        [2, 200],
+        [3, 300],
+        [10, 300],
+      ]) {
+        const delay = getRetryDelay(attempt, delays)
+        expect(delay).toBeGreaterThanOrEqual(max / 2)
+        expect(delay).toBeLessThanOrEqual(max)
+      }
+    })
+  })
+
+  describe('withRetries', () => {
+    let logger: Logger
+    beforeEach(() => {
+      logger = new TestLogger()
+      spyOn(logger, 'warn')
+    })
+
+    it('should retry the request until it succeeds', async () => {
+      const responses = [
+        () => Promise.reject(errorWithCode('ECONNRESET')),
+        () => Promise.reject(withResponseStatus(new Error('Bad gateway'), 502)),
+        () => Promise.resolve('OK'),
+      ]
+      const request = jasmine
+        .createSpy('request')
+        .and.callFake(() => responses.shift()!())
+      const result = await withRetries({
+        ...params(logger),
+        can_retry: true,
+        request,
+      })
+      expect(result).toEqual('OK')
+      expect(request).toHaveBeenCalledTimes(3)
+      expect(logger.warn).toHaveBeenCalledTimes(2)
+      expect(logger.warn).toHaveBeenCalledWith(
+        jasmine.objectContaining({
+          module: 'Retry',
+          message: jasmine.stringMatching(
+            /^Query: request failed, retrying in \d+ ms \(attempt 2 of 3\)\.$/,
+          ),
+          args: { query_id: 'foo' },
+        }),
+      )
+    })
+
+    it('should throw the last error if all the attempts failed', async () => {
+      const request = jasmine
+        .createSpy('request')
+        .and.callFake(() => Promise.reject(errorWithCode('EPIPE')))
+      await expectAsync(
+        withRetries({ ...params(logger), can_retry: true, request }),
+      ).toBeRejectedWith(jasmine.objectContaining({ code: 'EPIPE' }))
+      expect(request).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry if the request cannot be retried', async () => {
+      const request = jasmine
+        .createSpy('request')
+        .and.callFake(() => Promise.reject(errorWithCode('ECONNRESET')))
+      await expectAsync(
+        withRetries({ ...params(logger), can_retry: false, request }),
+      ).toBeRejected()
+      expect(request).toHaveBeenCalledTimes(1)
+      expect(logger.warn).not.toHaveBeenCalled()
+    })
+
+    it('should not retry on the non-retryable errors', async () => {
+      const request = jasmine
+        .createSpy('request')
+        .and.callFake(() =>
+          Promise.reject(withResponseStatus(new Error('Syntax error'), 400)),
+        )
+      await expectAsync(
+        withRetries({ ...params(logger), can_retry: true, request }),
+      ).toBeRejectedWithError('Syntax error')
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not retry if the request was aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      const request = jasmine
+        .createSpy('request')
+        .and.callFake(() => Promise.reject(errorWithCode('ECONNRESET')))
+      await expectAsync(
+        withRetries({
+          ...params(logger),
+          can_retry: true,
+          abort_signal: controller.signal,
+          request,
+        }),
+      ).toBeRejected()
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  function params(logger: Logger) {
+    return {
+      op: 'Query' as const,
+      settings,
+      log_writer: new LogWriter(logger, 'Retry', ClickHouseLogLevel.WARN),
+      query_id: 'foo',
+    }
+  }
+
+  function errorWithCode(code: string) {
+    return Object.assign(new Error(code), { code })
+  }
+})
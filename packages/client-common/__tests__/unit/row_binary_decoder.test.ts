@@ -0,0 +1,232 @@
+import { RowBinaryResultDecoder } from '@clickhouse/client-common'
+
+describe('RowBinaryResultDecoder', () => {
+  it('should decode RowBinaryWithNamesAndTypes header and rows', async () => {
+    const decoder = new RowBinaryResultDecoder('RowBinaryWithNamesAndTypes')
+    const data = concat(
+      header([
+        ['id', 'UInt64'],
+        ['name', 'String'],
+        ['score', 'Nullable(Float64)'],
+      ]),
+      uint64(42n),
+      string('foo'),
+      new Uint8Array([0]),
+      float64(1.5),
+      uint64(144n),
+      string('bar'),
+      new Uint8Array([1]),
+    )
+    expect(decoder.decode(data)).toEqual([
+      { id: 42n, name: 'foo', score: 1.5 },
+      { id: 144n, name: 'bar', score: null },
+    ])
+    expect(() => decoder.finish()).not.toThrow()
+  })
+
+  it('should decode rows split between multiple chunks', async () => {
+    const decoder = new RowBinaryResultDecoder('RowBinaryWithNamesAndTypes')
+    const data = concat(
+      header([
+        ['s', 'String'],
+        ['n', 'Int32'],
+      ]),
+      string('hello'),
+      int32(-1),
+      string('world'),
+      int32(2),
+    )
+    // feeding the data byte by byte, including the header
+    const rows: unknown[] = []
+    for (let i = 0; i < data.length; i++) {
+      rows.push(...decoder.decode(data.subarray(i, i + 1)))
+    }
+    expect(rows).toEqual([
+      { s: 'hello', n: -1 },
+      { s: 'world', n: 2 },
+    ])
+    expect(() => decoder.finish()).not.toThrow()
+  })
+
+  it('should decode RowBinary with the provided schema', async () => {
+    const decoder = new RowBinaryResultDecoder('RowBinary', [
+      { name: 'flag', type: 'Bool' },
+      { name: 'arr', type: 'Array(UInt8)' },
+    ])
+    const data = concat(
+      new Uint8Array([1]),
+      new Uint8Array([3, 1, 2, 3]),
+      new Uint8Array([0]),
+      new Uint8Array([0]),
+    )
+    expect(decoder.decode(data)).toEqual([
+      { flag: true, arr: [1, 2, 3] },
+      { flag: false, arr: [] },
+    ])
+  })
+
+  it('should throw if RowBinary schema is not provided', async () => {
+    expect(() => new RowBinaryResultDecoder('RowBinary')).toThrowError(
+      /requires the column types schema/,
+    )
+  })
+
+  it('should throw if the stream ended in the middle of a row', async () => {
+    const decoder = new RowBinaryResultDecoder('RowBinary', [
+      { name: 'n', type: 'UInt32' },
+    ])
+    expect(decoder.decode(new Uint8Array([1, 0, 0, 0, 2, 0]))).toEqual([
+      { n: 1 },
+    ])
+    expect(() => decoder.finish()).toThrowError(
+      'RowBinary stream ended unexpectedly with 2 bytes of incomplete row data',
+    )
+  })
+
+  it('should decode various data types', async () => {
+    const schema = [
+      { name: 'i8', type: 'Int8' },
+      { name: 'u16', type: 'UInt16' },
+      { name: 'i128', type: 'Int128' },
+      { name: 'u256', type: 'UInt256' },
+      { name: 'f32', type: 'Float32' },
+      { name: 'dec', type: 'Decimal(9, 2)' },
+      { name: 'dec128', type: 'Decimal(38, 3)' },
+      { name: 'date', type: 'Date' },
+      { name: 'date32', type: 'Date32' },
+      { name: 'dt', type: `DateTime('UTC')` },
+      { name: 'dt64', type: 'DateTime64(6)' },
+      { name: 'uuid', type: 'UUID' },
+      { name: 'ipv4', type: 'IPv4' },
+      { name: 'ipv6', type: 'IPv6' },
+      { name: 'enum', type: `Enum8('a' = 1, 'b' = 2)` },
+      { name: 'fixed', type: 'FixedString(3)' },
+      { name: 'lc', type: 'LowCardinality(String)' },
+      { name: 'tuple', type: 'Tuple(String, UInt8)' },
+      { name: 'named', type: 'Tuple(a String, b UInt8)' },
+      { name: 'map', type: 'Map(String, Int16)' },
+    ]
+    const decoder = new RowBinaryResultDecoder('RowBinary', schema)
+    const uuidBytes = new Uint8Array([
+      // high part: 0x0102030405060708 LE, low part: 0x090a0b0c0d0e0f10 LE
+      8, 7, 6, 5, 4, 3, 2, 1, 16, 15, 14, 13, 12, 11, 10, 9,
+    ])
+    const ipv6Bytes = new Uint8Array(16)
+    ipv6Bytes.set([0x20, 0x01, 0x0d, 0xb8], 0)
+    ipv6Bytes[15] = 1
+    const i128 = new Uint8Array(16).fill(0xff) // -1
+    const u256 = new Uint8Array(32)
+    u256[8] = 1 // 2^64
+    const data = concat(
+      new Uint8Array([0xfe]), // -2
+      new Uint8Array([0x39, 0x30]), // 12345
+      i128,
+      u256,
+      float32(0.5),
+      int32(-12345), // -123.45
+      int128Bytes(123456n), // 123.456
+      new Uint8Array([0x01, 0x00]), // 1970-01-02
+      int32(-1), // 1969-12-31
+      int32(1_700_000_000),
+      int64(1_700_000_000_123_456n),
+      uuidBytes,
+      new Uint8Array([1, 0, 0, 127]), // 127.0.0.1
+      ipv6Bytes,
+      new Uint8Array([2]),
+      new Uint8Array([0x66, 0x6f, 0x6f]),
+      string('lc'),
+      string('t'),
+      new Uint8Array([42]),
+      string('n'),
+      new Uint8Array([144]),
+      new Uint8Array([2]),
+      string('x'),
+      new Uint8Array([0xff, 0xff]), // -1
+      string('y'),
+      new Uint8Array([0x01, 0x00]),
+    )
+    const [row] = decoder.decode(data)
+    expect(row).toEqual({
+      i8: -2,
+      u16: 12345,
+      i128: -1n,
+      u256: 2n ** 64n,
+      f32: 0.5,
+      dec: '-123.45',
+      dec128: '123.456',
+      date: new Date('1970-01-02T00:00:00.000Z'),
+      date32: new Date('1969-12-31T00:00:00.000Z'),
+      dt: new Date(1_700_000_000_000),
+      dt64: new Date(1_700_000_000_123),
+      uuid: '01020304-0506-0708-090a-0b0c0d0e0f10',
+      ipv4: '127.0.0.1',
+      ipv6: '2001:db8::1',
+      enum: 'b',
+      fixed: 'foo',
+      lc: 'lc',
+      tuple: ['t', 42],
+      named: { a: 'n', b: 144 },
+      map: new Map([
+        ['x', -1],
+        ['y', 1],
+      ]),
+    })
+  })
+
+  function header(columns: [string, string][]): Uint8Array {
+    return concat(
+      new Uint8Array([columns.length]),
+      ...columns.map(([name]) => string(name)),
+      ...columns.map(([, type]) => string(type)),
+    )
+  }
+
+  function string(value: string): Uint8Array {
+    const bytes = new TextEncoder().encode(value)
+    return concat(new Uint8Array([bytes.length]), bytes)
+  }
+
+  function int32(value: number): Uint8Array {
+    const buf = new Uint8Array(4)
+    new DataView(buf.buffer).setInt32(0, value, true)
+    return buf
+  }
+
+  function int64(value: bigint): Uint8Array {
+    const buf = new Uint8Array(8)
+    new DataView(buf.buffer).setBigInt64(0, value, true)
+    return buf
+  }
+
+  function uint64(value: bigint): Uint8Array {
+    const buf = new Uint8Array(8)
+    new DataView(buf.buffer).setBigUint64(0, value, true)
+    return buf
+  }
+
+  function int128Bytes(value: bigint): Uint8Array {
+    return concat(uint64(value & (2n ** 64n - 1n)), uint64(value >> 64n))
+  }
+
+  function float32(value: number): Uint8Array {
+    const buf = new Uint8Array(4)
+    new DataView(buf.buffer).setFloat32(0, value, true)
+    return buf
+  }
+
+  function float64(value: number): Uint8Array {
+    const buf = new Uint8Array(8)
+    new DataView(buf.buffer).setFloat64(0, value, true)
+    return buf
+  }
+
+  function concat(...arrays: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(arrays.reduce((sz, a) => sz + a.length, 0))
+    let offset = 0
+    for (const array of arrays) {
+      result.set(array, offset)
+      offset += array.length
+    }
+    return result
+  }
+})
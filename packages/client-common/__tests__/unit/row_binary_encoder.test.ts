@@ -0,0 +1,226 @@
+import {
+  RowBinaryResultDecoder,
+  RowBinaryRowEncoder,
+} from '@clickhouse/client-common'
+
+describe('RowBinaryRowEncoder', () => {
+  it('should encode rows provided as objects or arrays', async () => {
+    const schema = [
+      { name: 'id', type: 'UInt64' },
+      { name: 'name', type: 'String' },
+      { name: 'score', type: 'Nullable(Float64)' },
+    ]
+    const encoder = new RowBinaryRowEncoder('RowBinary', schema)
+    encoder.write({ id: 42, name: 'foo', score: 1.5 })
+    encoder.write(['144', 'bar', null])
+    expect(decode(schema, encoder.flush())).toEqual([
+      { id: 42n, name: 'foo', score: 1.5 },
+      { id: 144n, name: 'bar', score: null },
+    ])
+  })
+
+  it('should write the header for RowBinaryWithNamesAndTypes only once', async () => {
+    const schema = [
+      { name: 's', type: 'String' },
+      { name: 'n', type: 'Int32' },
+    ]
+    const encoder = new RowBinaryRowEncoder(
+      'RowBinaryWithNamesAndTypes',
+      schema,
+    )
+    encoder.write({ s: 'hello', n: -1 })
+    const first = encoder.flush()
+    encoder.write({ s: 'world', n: 2 })
+    const second = encoder.flush()
+    const decoder = new RowBinaryResultDecoder('RowBinaryWithNamesAndTypes')
+    expect([...decoder.decode(first), ...decoder.decode(second)]).toEqual([
+      { s: 'hello', n: -1 },
+      { s: 'world', n: 2 },
+    ])
+    expect(encoder.bufferedBytes).toEqual(0)
+  })
+
+  it('should round-trip various data types', async () => {
+    const schema = [
+      { name: 'b', type: 'Bool' },
+      { name: 'i8', type: 'Int8' },
+      { name: 'u16', type: 'UInt16' },
+      { name: 'i128', type: 'Int128' },
+      { name: 'u256', type: 'UInt256' },
+      { name: 'f32', type: 'Float32' },
+      { name: 'dec', type: 'Decimal(9, 2)' },
+      { name: 'dec128', type: 'Decimal(38, 3)' },
+      { name: 'date', type: 'Date' },
+      { name: 'date32', type: 'Date32' },
+      { name: 'dt', type: `DateTime('UTC')` },
+      { name: 'dt64', type: 'DateTime64(6)' },
+      { name: 'uuid', type: 'UUID' },
+      { name: 'ipv4', type: 'IPv4' },
+      { name: 'ipv6', type: 'IPv6' },
+      { name: 'mapped', type: 'IPv6' },
+      { name: 'enum', type: `Enum8('a' = 1, 'b' = 2)` },
+      { name: 'fixed', type: 'FixedString(5)' },
+      { name: 'lc', type: 'LowCardinality(Nullable(String))' },
+      { name: 'arr', type: 'Array(Array(UInt8))' },
+      { name: 'tuple', type: 'Tuple(String, UInt8)' },
+      { name: 'named', type: 'Tuple(a String, b UInt8)' },
+      { name: 'map', type: 'Map(String, Int16)' },
+    ]
+    const encoder = new RowBinaryRowEncoder('RowBinary', schema)
+    encoder.write({
+      b: true,
+      i8: -2,
+      u16: 12345,
+      i128: -1n,
+      u256: (2n ** 64n).toString(),
+      f32: 0.5,
+      dec: '-123.456', // truncated
+      dec128: 123.456,
+      date: new Date('1970-01-02T00:00:00.000Z'),
+      date32: '1969-12-31',
+      dt: 1_700_000_000,
+      dt64: new Date(1_700_000_000_123),
+      uuid: '01020304-0506-0708-090a-0b0c0d0e0f10',
+      ipv4: '127.0.0.1',
+      ipv6: '2001:db8::1',
+      mapped: '192.168.0.1',
+      enum: 'b',
+      fixed: 'foo',
+      lc: null,
+      arr: [[1, 2], []],
+      tuple: ['t', 42],
+      named: { a: 'n', b: 144 },
+      map: { x: -1, y: 1 },
+    })
+    const [row] = decode(schema, encoder.flush())
+    expect(row).toEqual({
+      b: true,
+      i8: -2,
+      u16: 12345,
+      i128: -1n,
+      u256: 2n ** 64n,
+      f32: 0.5,
+      dec: '-123.45',
+      dec128: '123.456',
+      date: new Date('1970-01-02T00:00:00.000Z'),
+      date32: new Date('1969-12-31T00:00:00.000Z'),
+      dt: new Date(1_700_000_000_000),
+      dt64: new Date(1_700_000_000_123),
+      uuid: '01020304-0506-0708-090a-0b0c0d0e0f10',
+      ipv4: '127.0.0.1',
+      ipv6: '2001:db8::1',
+      mapped: '::ffff:192.168.0.1',
+      enum: 'b',
+      fixed: 'foo\0\0',
+      lc: null,
+      arr: [[1, 2], []],
+      tuple: ['t', 42],
+      named: { a: 'n', b: 144 },
+      map: new Map([
+        ['x', -1],
+        ['y', 1],
+      ]),
+    })
+  })
+
+  it('should grow the buffer for large values', async () => {
+    const schema = [{ name: 's', type: 'String' }]
+    const encoder = new RowBinaryRowEncoder('RowBinary', schema)
+    const value = 'x'.repeat(200_000)
+    encoder.write([value])
+    encoder.write([value])
+    expect(decode(schema, encoder.flush())).toEqual([
+      { s: value },
+      { s: value },
+    ])
+  })
+
+  it('should throw with the column name and discard the malformed row', async () => {
+    const schema = [
+      { name: 'id', type: 'UInt32' },
+      { name: 'uuid', type: 'UUID' },
+    ]
+    const encoder = new RowBinaryRowEncoder('RowBinary', schema)
+    encoder.write({ id: 1, uuid: '00000000-0000-0000-0000-000000000000' })
+    expect(() => encoder.write({ id: 2, uuid: 'foo' })).toThrowError(
+      `Cannot encode column uuid: Expected a UUID, got 'foo'`,
+    )
+    expect(() => encoder.write({ uuid: 'foo' })).toThrowError(
+      'Cannot encode column id: Expected a value, got undefined',
+    )
+    expect(() => encoder.write([1])).toThrowError(
+      'Expected 2 values in a row, got 1',
+    )
+    expect(() => encoder.write('foo')).toThrowError(
+      `Expected a row to be an array or an object, got 'foo'`,
+    )
+    expect(decode(schema, encoder.flush())).toEqual([
+      { id: 1, uuid: '00000000-0000-0000-0000-000000000000' },
+    ])
+  })
+
+  it('should throw on invalid values', async () => {
+    const cases: [string, unknown, string][] = [
+      ['Int64', 1.5, 'Expected an integer, got 1.5'],
+      ['Int32', 1.9, 'Expected an integer, got 1.9'],
+      ['UInt8', 256, '256 is out of range of UInt8'],
+      ['UInt8', -1, '-1 is out of range of UInt8'],
+      ['Int8', '128', `'128' is out of range of Int8`],
+      ['UInt64', -1, '-1 is out of range of UInt64'],
+      ['Int64', 2n ** 63n, '9223372036854775808 is out of range of Int64'],
+      ['UInt128', -1n, '-1 is out of range of UInt128'],
+      ['Decimal(9, 2)', 'abc', `Expected a decimal number, got 'abc'`],
+      [
+        'Decimal(9, 2)',
+        '10000000',
+        `'10000000' is out of range of Decimal(9, 2)`,
+      ],
+      ['Decimal(9, 2)', -1e7, '-10000000 is out of range of Decimal(9, 2)'],
+      [
+        'Decimal(18, 0)',
+        10n ** 18n,
+        '1000000000000000000 is out of range of Decimal(18, 0)',
+      ],
+      ['Decimal(38, 2)', 10n ** 36n, 'is out of range of Decimal(38, 2)'],
+      ['Date', -1, '-1 is out of range of Date'],
+      ['Date', new Date('2200-01-01'), 'Date is out of range of Date'],
+      ['Date', 1.5, 'Expected an integer or a Date, got 1.5'],
+      ['Date32', 2 ** 31, '2147483648 is out of range of Date32'],
+      [
+        'DateTime',
+        new Date('1969-12-31T23:59:59Z'),
+        'Date is out of range of DateTime',
+      ],
+      ['DateTime', 2 ** 32, '4294967296 is out of range of DateTime'],
+      ['IPv4', '1.2.3.256', `Expected an IPv4 address, got '1.2.3.256'`],
+      ['IPv6', '1::2::3', `Expected an IPv6 address, got '1::2::3'`],
+      ['FixedString(2)', 'foo', 'Expected at most 2 bytes'],
+      [`Enum8('a' = 1)`, 'b', `Unknown enum value 'b'`],
+      [`Enum8('a' = 1)`, 7, 'Unknown enum value 7'],
+      ['Array(String)', 'foo', `Expected an array, got 'foo'`],
+      ['DateTime', 'foo', `Expected a Date, got 'foo'`],
+    ]
+    cases.forEach(([type, value, message]) => {
+      const encoder = new RowBinaryRowEncoder('RowBinary', [
+        { name: 'c', type },
+      ])
+      expect(() => encoder.write([value]))
+        .withContext(type)
+        .toThrowError(new RegExp(escapeRegExp(message)))
+    })
+  })
+
+  function decode(
+    schema: Array<{ name: string; type: string }>,
+    data: Uint8Array,
+  ): unknown[] {
+    const decoder = new RowBinaryResultDecoder('RowBinary', schema)
+    const rows = decoder.decode(data)
+    decoder.finish()
+    return rows
+  }
+
+  function escapeRegExp(str: string): string {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
+})
@@ -0,0 +1,161 @@
+import type {
+  ConnBaseQueryParams,
+  Connection,
+  ConnQueryResult,
+} from '@clickhouse/client-common'
+import { SessionConnection } from '@clickhouse/client-common'
+
+describe('SessionConnection', () => {
+  let connection: jasmine.SpyObj<Connection<FakeStream>>
+  let sent: ConnBaseQueryParams[]
+  let responses: Array<() => void>
+
+  beforeEach(() => {
+    sent = []
+    responses = []
+    connection = jasmine.createSpyObj<Connection<FakeStream>>('Connection', [
+      'ping',
+      'close',
+      'query',
+      'insert',
+      'exec',
+      'command',
+      'pin',
+    ])
+    // the responses are received only when the test lets them through
+    const respond = <T>(params: ConnBaseQueryParams, result: T) => {
+      sent.push(params)
+      return new Promise<T>((resolve) => responses.push(() => resolve(result)))
+    }
+    connection.query.and.callFake((params) =>
+      respond(params, queryResult(params.query)),
+    )
+    connection.command.and.callFake((params) =>
+      respond(params, { query_id: params.query, response_headers: {} }),
+    )
+    connection.close.and.resolveTo()
+  })
+
+  it('should send the requests one at a time', async () => {
+    const session = makeSessionConnection()
+    const first = session.command({ query: 'CREATE TEMPORARY TABLE t' })
+    const second = session.command({ query: 'INSERT INTO t' })
+    await flush()
+    expect(sent.map(({ query }) => query)).toEqual(['CREATE TEMPORARY TABLE t'])
+
+    responses[0]()
+    await first
+    await flush()
+    expect(sent.map(({ query }) => query)).toEqual([
+      'CREATE TEMPORARY TABLE t',
+      'INSERT INTO t',
+    ])
+    responses[1]()
+    await second
+  })
+
+  it('should wait until the response stream of a query is finished', async () => {
+    const session = makeSessionConnection()
+    const query = session.query({ query: 'SELECT 1' })
+    const command = session.command({ query: 'SELECT 2' })
+    await flush()
+    responses[0]()
+    const { stream } = await query
+    await flush()
+    expect(sent.length).toEqual(1)
+
+    stream.end()
+    await flush()
+    expect(sent.length).toEqual(2)
+    responses[1]()
+    await command
+  })
+
+  it('should let the next request in after a failed one', async () => {
+    connection.command.and.rejectWith(new Error('Syntax error'))
+    const session = makeSessionConnection()
+    await expectAsync(
+      session.command({ query: 'SELEC 1' }),
+    ).toBeRejectedWithError('Syntax error')
+    const query = session.query({ query: 'SELECT 1' })
+    await flush()
+    expect(sent.map(({ query }) => query)).toEqual(['SELECT 1'])
+    responses[0]()
+    await query
+  })
+
+  it('should send the session parameters', async () => {
+    const session = makeSessionConnection({ timeout_s: 120, check: true })
+    const first = session.command({
+      query: 'SELECT 1',
+      session_id: 'ignored',
+      clickhouse_settings: { max_threads: 1 },
+    })
+    await flush()
+    responses[0]()
+    await first
+    const second = session.command({ query: 'SELECT 2' })
+    await flush()
+    responses[1]()
+    await second
+
+    expect(sent.map(({ session_id }) => session_id)).toEqual([
+      'my_session',
+      'my_session',
+    ])
+    expect(sent[0].clickhouse_settings).toEqual({
+      session_timeout: 120,
+      max_threads: 1,
+    })
+    // the session exists after the first request
+    expect(sent[1].clickhouse_settings).toEqual({
+      session_timeout: 120,
+      session_check: 1,
+    })
+    expect(session.isEstablished).toBeTrue()
+  })
+
+  it('should not send session_check without the check flag', async () => {
+    const session = makeSessionConnection()
+    for (const query of ['SELECT 1', 'SELECT 2']) {
+      const command = session.command({ query })
+      await flush()
+      responses[responses.length - 1]()
+      await command
+    }
+    expect(sent.map(({ clickhouse_settings }) => clickhouse_settings)).toEqual([
+      {},
+      {},
+    ])
+  })
+
+  function makeSessionConnection(
+    params: { timeout_s?: number; check?: boolean } = {},
+  ) {
+    return new SessionConnection<FakeStream>({
+      session_id: 'my_session',
+      timeout_s: params.timeout_s,
+      check: params.check ?? false,
+      connection,
+      on_stream_end: (stream, callback) => {
+        stream.onEnd = callback
+        return stream
+      },
+    })
+  }
+})
+
+class FakeStream {
+  onEnd?: () => void
+  end() {
+    this.onEnd?.()
+  }
+}
+
+function queryResult(query_id: string): ConnQueryResult<FakeStream> {
+  return { stream: new FakeStream(), query_id, response_headers: {} }
+}
+
+async function flush() {
+  await new Promise((resolve) => setTimeout(resolve, 0))
+}
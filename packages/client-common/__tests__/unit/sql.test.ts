@@ -0,0 +1,71 @@
+import { sql } from '@clickhouse/client-common'
+
+describe('sql tagged template', () => {
+  it('should replace the values with the typed placeholders', async () => {
+    const date = new Date(Date.UTC(2024, 0, 1))
+    const query = sql`SELECT * FROM t WHERE id = ${42} AND ts > ${date} AND s = ${'foo'}`
+    expect(query.toQuery()).toEqual({
+      query:
+        'SELECT * FROM t WHERE id = {p0:Int64} AND ts > {p1:DateTime64(3)} AND s = {p2:String}',
+      query_params: { p0: 42, p1: date, p2: 'foo' },
+    })
+  })
+
+  it('should infer the types of the values', async () => {
+    const cases: Array<[unknown, string]> = [
+      [1.5, 'Float64'],
+      [true, 'Bool'],
+      [null, 'Nullable(Nothing)'],
+      [2n ** 63n, 'UInt64'],
+      [-(2n ** 63n) - 1n, 'Int128'],
+      [2n ** 128n, 'UInt256'],
+      [[1, 2.5], 'Array(Float64)'],
+      [['a', null], 'Array(Nullable(String))'],
+      [[[1], []], 'Array(Array(Int64))'],
+      [[], 'Array(Nothing)'],
+      [{ a: 1 }, 'Map(String, Int64)'],
+      [new Map([[1, ['x']]]), 'Map(Int64, Array(String))'],
+    ]
+    for (const [value, type] of cases) {
+      expect(sql`${value}`.toQuery().query).toEqual(`{p0:${type}}`)
+    }
+  })
+
+  it('should compose the fragments', async () => {
+    const where = sql`id IN ${[1, 2]} AND s = ${'foo'}`
+    const columns = sql.join(['id', 'db.name'].map(sql.identifier))
+    const query = sql`SELECT ${columns} FROM ${sql.identifier('db.t')} WHERE ${where} LIMIT ${sql.param(10, 'UInt32')}`
+    expect(query.toQuery()).toEqual({
+      query:
+        'SELECT `id`, `db`.`name` FROM `db`.`t` WHERE id IN {p0:Array(Int64)} AND s = {p1:String} LIMIT {p2:UInt32}',
+      query_params: { p0: [1, 2], p1: 'foo', p2: 10 },
+    })
+  })
+
+  it('should join the values as the parameters', async () => {
+    expect(sql`(${sql.join([1, 'a'], ' | ')})`.toQuery()).toEqual({
+      query: '({p0:Int64} | {p1:String})',
+      query_params: { p0: 1, p1: 'a' },
+    })
+    expect(sql`(${sql.join([])})`.toQuery().query).toEqual('()')
+  })
+
+  it('should escape the identifiers', async () => {
+    expect(sql`${sql.identifier('a`b\\c')}`.toQuery().query).toEqual(
+      '`a\\`b\\\\c`',
+    )
+  })
+
+  it('should throw if the type cannot be inferred', async () => {
+    expect(() => sql`${[1, 'a']}`.toQuery()).toThrowError(
+      'Cannot infer a common ClickHouse type of the values: Int64, String. ' +
+        'Use sql.param(value, type) to specify the type explicitly.',
+    )
+    expect(() => sql`${[[1], null]}`.toQuery()).toThrowError(
+      /Array\(Int64\) cannot be Nullable/,
+    )
+    expect(() => sql`${Symbol('foo')}`.toQuery()).toThrowError(
+      /Cannot infer the ClickHouse type of the value Symbol\(foo\)/,
+    )
+  })
+})
@@ -65,6 +65,21 @@ describe('toSearchParams', () => {
     ])
   })
 
+  it('should set the structure and the format of external tables', async () => {
+    const params = toSearchParams({
+      database: 'default',
+      query_id: 'foo',
+      external_tables: [
+        { name: 'ids', structure: 'id UInt64', format: 'JSONCompactEachRow' },
+      ],
+    })!
+    expect(toSortedArray(params)).toEqual([
+      ['ids_format', 'JSONCompactEachRow'],
+      ['ids_structure', 'id UInt64'],
+      ['query_id', 'foo'],
+    ])
+  })
+
   it('should set everything', async () => {
     const query = 'SELECT * FROM system.query_log'
     const params = toSearchParams({
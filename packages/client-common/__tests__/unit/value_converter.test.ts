@@ -0,0 +1,155 @@
+import type { Row } from '@clickhouse/client-common'
+import { ResultSetValueConverter } from '../../src/data_formatter'
+
+describe('ResultSetValueConverter', () => {
+  it('should convert the values by the column types', async () => {
+    const converter = new ResultSetValueConverter('JSONEachRow', [
+      { name: 'u64', type: 'UInt64' },
+      { name: 'i256', type: 'Int256' },
+      { name: 'd', type: 'Date32' },
+      { name: 'dt', type: "DateTime('Europe/Amsterdam')" },
+      { name: 'dt64', type: 'DateTime64(9)' },
+      { name: 'ts', type: 'DateTime' },
+      { name: 'dec', type: 'Decimal(38, 10)' },
+      { name: 'n', type: 'Nullable(Int64)' },
+      { name: 'arr', type: 'Array(LowCardinality(Nullable(UInt64)))' },
+      { name: 't', type: 'Tuple(a Int64, b Date)' },
+      { name: 'm', type: 'Map(LowCardinality(String), Array(UInt128))' },
+      { name: 's', type: 'String' },
+      { name: 'j', type: 'JSON' },
+    ])
+    const row = converter.row(
+      JSON.stringify({
+        u64: '18446744073709551615',
+        i256: '-1',
+        d: '2024-02-29',
+        dt: '2024-01-02T03:04:05Z',
+        dt64: '2024-01-02T03:04:05.123456789Z',
+        ts: '1704164645',
+        dec: '12345678901234567890.0123456789',
+        n: null,
+        arr: ['1', null],
+        t: { a: '2', b: '1970-01-01' },
+        m: { foo: ['3'] },
+        s: '42',
+        j: { foo: '1' },
+      }),
+    )
+    expect(row.json()).toEqual({
+      u64: 18446744073709551615n,
+      i256: -1n,
+      d: new Date('2024-02-29T00:00:00Z'),
+      dt: new Date('2024-01-02T03:04:05Z'),
+      dt64: new Date('2024-01-02T03:04:05.123Z'),
+      ts: new Date('2024-01-02T03:04:05Z'),
+      dec: '12345678901234567890.0123456789',
+      n: null,
+      arr: [1n, null],
+      t: { a: 2n, b: new Date(0) },
+      m: new Map([['foo', [3n]]]),
+      s: '42',
+      j: { foo: '1' },
+    })
+  })
+
+  it('should keep the DateTime values without the timezone as is', async () => {
+    const converter = new ResultSetValueConverter('JSONCompactEachRow', [
+      { name: 'dt', type: 'DateTime' },
+    ])
+    expect(converter.row('["2024-01-02 03:04:05"]').json()).toEqual([
+      '2024-01-02 03:04:05',
+    ])
+  })
+
+  it('should use the overridden converters', async () => {
+    const converter = new ResultSetValueConverter(
+      'JSONCompactEachRow',
+      [
+        { name: 'dec', type: 'Decimal(10, 2)' },
+        { name: 'm', type: 'Map(String, UInt64)' },
+        { name: 'u64', type: 'UInt64' },
+      ],
+      {
+        Decimal: (value, type) =>
+          type.type === 'Decimal' ? { value, scale: type.scale } : value,
+        Map: (value, type, convert) =>
+          type.type === 'Map'
+            ? Object.entries(value as Record<string, unknown>).map(
+                ([key, v]) => [key, convert(v, type.value)],
+              )
+            : value,
+      },
+    )
+    expect(converter.row('["1.50",{"a":"1"},"2"]').json()).toEqual([
+      { value: '1.50', scale: 2 },
+      [['a', 1n]],
+      2n,
+    ])
+  })
+
+  it('should read the types from the header rows', async () => {
+    const converter = new ResultSetValueConverter(
+      'JSONCompactEachRowWithNamesAndTypes',
+      undefined,
+    )
+    const rows: Row[] = [
+      '["id","m"]',
+      '["Int64","Map(Int32, Nullable(Date))"]',
+      '["1",{"-1":"2024-01-01","2":null}]',
+    ].map((text) => converter.row(text))
+    // the header rows are returned as is
+    expect(rows[0].json()).toEqual(['id', 'm'])
+    expect(rows[1].json()).toEqual(['Int64', 'Map(Int32, Nullable(Date))'])
+    expect(rows[2].json()).toEqual([
+      1n,
+      new Map([
+        [-1, new Date('2024-01-01T00:00:00Z')],
+        [2, null],
+      ]),
+    ])
+    // it is safe to call it multiple times
+    expect(rows[2].json()).toEqual(rows[2].json())
+  })
+
+  it('should convert the single document JSON formats', async () => {
+    const meta = [
+      { name: 'id', type: 'UInt64' },
+      { name: 's', type: 'String' },
+    ]
+    expect(
+      new ResultSetValueConverter('JSONCompact', undefined).document({
+        meta,
+        data: [['1', 'a']],
+        rows: 1,
+      }),
+    ).toEqual({ meta, data: [[1n, 'a']], rows: 1 })
+    expect(
+      new ResultSetValueConverter(
+        'JSONColumnsWithMetadata',
+        undefined,
+      ).document({ meta, data: { id: ['1', '2'], s: ['a', 'b'] } }),
+    ).toEqual({ meta, data: { id: [1n, 2n], s: ['a', 'b'] } })
+    expect(
+      new ResultSetValueConverter('JSONObjectEachRow', meta).document({
+        row_1: { id: '1', s: 'a' },
+      }),
+    ).toEqual({ row_1: { id: 1n, s: 'a' } })
+  })
+
+  it('should throw if the format is not supported', async () => {
+    expect(
+      () => new ResultSetValueConverter('JSONStringsEachRow', []),
+    ).toThrowError(/not supported for the JSONStringsEachRow format/)
+    expect(() => new ResultSetValueConverter('CSV', [])).toThrowError(
+      /not supported for the CSV format/,
+    )
+  })
+
+  it('should throw if the format requires the schema', async () => {
+    expect(
+      () => new ResultSetValueConverter('JSONEachRow', undefined),
+    ).toThrowError(
+      /requires the column types for the JSONEachRow format: provide the schema/,
+    )
+  })
+})
@@ -0,0 +1,268 @@
+import type { InsertParams, InsertResult } from './client'
+import type { DataFormat } from './data_formatter'
+import type { LogWriter } from './logger'
+
+export interface BatchInserterParams<T = unknown>
+  extends Omit<InsertParams<never, T>, 'values' | 'query_id' | 'format'> {
+  /** Format of the rows. Default: `JSONEachRow` */
+  format?: DataFormat
+  /** The batch is sent as soon as it has this many rows.
+   *  @default 10_000 */
+  max_rows?: number
+  /** The batch is sent as soon as the approximate size of its rows (in their JSON representation) reaches this many bytes.
+   *  Estimating the size has its cost, so it is done only if this option is set.
+   *  @default undefined (no limit) */
+  max_bytes?: number
+  /** The batch is sent if it is not full after this many milliseconds since its first row was added.
+   *  @default 1_000 */
+  flush_interval_ms?: number
+  /** The maximum number of inserts in flight. If all of them are still running when the next batch is sent
+   *  (either because it is full, or after {@link BatchInserterParams.flush_interval_ms}),
+   *  {@link BatchInserter.add} does not resolve until one of them is finished.
+   *  @default 1 */
+  concurrency?: number
+  /** Called after every successful insert. */
+  on_flush?: (result: BatchInsertResult) => void
+  /** Called if an insert fails, with the rows of the failed batch; these are not sent again.
+   *  If it is not set, the error is logged. */
+  on_error?: (err: Error, rows: T[]) => void
+}
+
+export type BatchInsertResult = InsertResult & {
+  /** The number of rows in the batch. */
+  rows: number
+}
+
+export interface BatchInserterImplParams<T> {
+  params: BatchInserterParams<T>
+  insert: (params: InsertParams<never, T>) => Promise<InsertResult>
+  log_writer: LogWriter
+}
+
+/**
+ * Buffers the rows added one at a time, and inserts them in batches, when either of
+ * {@link BatchInserterParams.max_rows}, {@link BatchInserterParams.max_bytes}
+ * or {@link BatchInserterParams.flush_interval_ms} thresholds is reached.
+ * Created with {@link ClickHouseClient.createBatchInserter}.
+ */
+export class BatchInserter<T = unknown> {
+  private readonly insertParams: Omit<InsertParams<never, T>, 'values'>
+  private readonly insert: BatchInserterImplParams<T>['insert']
+  private readonly logWriter: LogWriter
+  private readonly maxRows: number
+  private readonly maxBytes: number | undefined
+  private readonly flushIntervalMs: number
+  private readonly concurrency: number
+  private readonly onFlush: BatchInserterParams<T>['on_flush']
+  private readonly onError: BatchInserterParams<T>['on_error']
+
+  private rows: T[] = []
+  private bytes = 0
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private isClosed = false
+  /** All the batches that are not finished yet, including the ones waiting for a free slot. */
+  private readonly batches = new Set<Promise<void>>()
+  private inFlight = 0
+  private readonly slotWaiters: Array<() => void> = []
+  /** The slot of the last batch in the queue; it is resolved after the ones of all the batches before it. */
+  private lastQueuedSlot: Promise<void> = Promise.resolve()
+
+  constructor({ params, insert, log_writer }: BatchInserterImplParams<T>) {
+    const {
+      max_rows,
+      max_bytes,
+      flush_interval_ms,
+      concurrency,
+      on_flush,
+      on_error,
+      ...insertParams
+    } = params
+    this.insertParams = {
+      ...insertParams,
+      format: insertParams.format ?? 'JSONEachRow',
+    }
+    this.insert = insert
+    this.logWriter = log_writer
+    this.maxRows = max_rows ?? 10_000
+    this.maxBytes = max_bytes
+    this.flushIntervalMs = flush_interval_ms ?? 1_000
+    this.concurrency = concurrency ?? 1
+    this.onFlush = on_flush
+    this.onError = on_error
+    if (this.maxRows < 1) {
+      throw new Error(`max_rows must be a positive number, got ${this.maxRows}`)
+    }
+    if (this.maxBytes !== undefined && this.maxBytes < 1) {
+      throw new Error(
+        `max_bytes must be a positive number, got ${this.maxBytes}`,
+      )
+    }
+    if (this.flushIntervalMs < 0) {
+      throw new Error(
+        `flush_interval_ms must be a non-negative number, got ${this.flushIntervalMs}`,
+      )
+    }
+    if (this.concurrency < 1) {
+      throw new Error(
+        `concurrency must be a positive number, got ${this.concurrency}`,
+      )
+    }
+  }
+
+  /** The number of rows that are added, but not sent yet. */
+  get pendingRows(): number {
+    return this.rows.length
+  }
+
+  /**
+   * Adds a row to the current batch, and sends the batch if it is full.
+   * The returned promise is resolved as soon as the row is buffered; if the inserts fall behind
+   * (i.e., {@link BatchInserterParams.concurrency} of them are in flight, and another batch is waiting for a free slot),
+   * it waits for one of them to finish.
+   * It never rejects because of the failed inserts, see {@link BatchInserterParams.on_error}.
+   */
+  async add(row: T): Promise<void> {
+    // the batch sent by the timer is not awaited by anyone else
+    while (this.slotWaiters.length > 0) {
+      await this.lastQueuedSlot
+    }
+    if (this.isClosed) {
+      throw new Error('Cannot add a row: BatchInserter is closed.')
+    }
+    this.rows.push(row)
+    if (this.maxBytes !== undefined) {
+      this.bytes += estimateSize(row)
+    }
+    if (
+      this.rows.length >= this.maxRows ||
+      (this.maxBytes !== undefined && this.bytes >= this.maxBytes)
+    ) {
+      await this.sendBatch()
+    } else if (this.timer === undefined) {
+      this.timer = setTimeout(() => {
+        void this.sendBatch()
+      }, this.flushIntervalMs)
+    }
+  }
+
+  /** Sends the rows that are buffered so far, and waits until all the inserts in flight are finished. */
+  async flush(): Promise<void> {
+    await this.sendBatch()
+    await Promise.all(this.batches)
+  }
+
+  /** Flushes the remaining rows. After that, no more rows can be added. */
+  async close(): Promise<void> {
+    this.isClosed = true
+    await this.flush()
+  }
+
+  private async sendBatch(): Promise<void> {
+    clearTimeout(this.timer)
+    this.timer = undefined
+    if (this.rows.length === 0) {
+      return
+    }
+    const rows = this.rows
+    this.rows = []
+    this.bytes = 0
+    const slot = this.acquireSlot()
+    const batch = slot
+      .then(() => this.insertBatch(rows))
+      .finally(() => {
+        this.batches.delete(batch)
+        this.releaseSlot()
+      })
+    this.batches.add(batch)
+    await slot
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.inFlight < this.concurrency) {
+      this.inFlight++
+      return Promise.resolve()
+    }
+    this.lastQueuedSlot = new Promise((resolve) =>
+      this.slotWaiters.push(resolve),
+    )
+    return this.lastQueuedSlot
+  }
+
+  private releaseSlot(): void {
+    const next = this.slotWaiters.shift()
+    if (next !== undefined) {
+      // the slot is handed over to the next batch in the queue
+      next()
+    } else {
+      this.inFlight--
+    }
+  }
+
+  private async insertBatch(rows: T[]): Promise<void> {
+    try {
+      const result = await this.insert({ ...this.insertParams, values: rows })
+      this.callback('on_flush', () =>
+        this.onFlush?.({ ...result, rows: rows.length }),
+      )
+    } catch (err) {
+      if (this.onError !== undefined) {
+        this.callback('on_error', () => this.onError?.(err as Error, rows))
+      } else {
+        this.logWriter.error({
+          module: 'BatchInserter',
+          message: `Failed to insert ${rows.length} rows into ${this.insertParams.table}.`,
+          err: err as Error,
+        })
+      }
+    }
+  }
+
+  private callback(name: string, fn: () => void): void {
+    try {
+      fn()
+    } catch (err) {
+      this.logWriter.error({
+        module: 'BatchInserter',
+        message: `${name} callback has thrown an error.`,
+        err: err as Error,
+      })
+    }
+  }
+}
+
+/** A rough estimate of the size of a value in the JSON representation, without serializing it. */
+function estimateSize(value: unknown): number {
+  switch (typeof value) {
+    case 'string':
+      return value.length + 2
+    case 'number':
+    case 'bigint':
+      return 8
+    case 'boolean':
+      return 5
+    case 'object': {
+      if (value === null) {
+        return 4
+      }
+      if (value instanceof Date) {
+        return 24
+      }
+      if (ArrayBuffer.isView(value)) {
+        return value.byteLength
+      }
+      if (Array.isArray(value)) {
+        return value.reduce((size, v) => size + estimateSize(v) + 1, 2)
+      }
+      const entries =
+        value instanceof Map
+          ? Array.from(value.entries())
+          : Object.entries(value)
+      return entries.reduce(
+        (size, [k, v]) => size + estimateSize(k) + estimateSize(v) + 2,
+        2,
+      )
+    }
+    default:
+      return 0
+  }
+}
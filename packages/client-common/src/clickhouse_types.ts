@@ -31,6 +31,10 @@ export interface ClickHouseSummary {
   real_time_microseconds?: string
 }
 
+/** The progress of a running query, as reported by ClickHouse in `X-ClickHouse-Progress` headers.
+ *  Has the same fields as {@link ClickHouseSummary}, with the values accumulated so far. */
+export type ClickHouseProgress = ClickHouseSummary
+
 export type ResponseHeaders = Record<string, string | string[] | undefined>
 
 export interface WithClickHouseSummary {
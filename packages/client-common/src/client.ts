@@ -10,12 +10,65 @@ import type {
   WithClickHouseSummary,
   WithResponseHeaders,
 } from '@clickhouse/client-common'
-import { type DataFormat, DefaultLogger } from '@clickhouse/client-common'
-import type { InputJSON, InputJSONObjectEachRow } from './clickhouse_types'
-import type { ImplementationDetails, ValuesEncoder } from './config'
+import {
+  type DataFormat,
+  DefaultLogger,
+  isNativeFormat,
+  isRowBinaryFormat,
+} from '@clickhouse/client-common'
+import type {
+  ClickHouseProgress,
+  InputJSON,
+  InputJSONObjectEachRow,
+} from './clickhouse_types'
+import type {
+  ColumnSchema,
+  InsertValidationColumn,
+  NativeInsertBlock,
+  ValueConverters,
+} from './data_formatter'
+import {
+  InsertValuesValidator,
+  parseStructure,
+  ResultSetValueConverter,
+} from './data_formatter'
+import type {
+  ImplementationDetails,
+  OnStreamEnd,
+  ValuesEncoder,
+} from './config'
 import { getConnectionParams, prepareConfigWithURL } from './config'
-import type { ConnPingResult } from './connection'
+import type { ConnExternalTable, ConnPingResult } from './connection'
+import {
+  makeLoadBalancingStrategy,
+  MultiEndpointConnection,
+} from './load_balancing'
+import type { BatchInserterParams } from './batch_inserter'
+import { BatchInserter } from './batch_inserter'
+import type {
+  DatabaseInfo,
+  IntrospectionQuery,
+  TableColumn,
+  TableEngine,
+  TableInfo,
+} from './introspection'
+import {
+  describeTable,
+  getTableEngine,
+  listDatabases,
+  listTables,
+} from './introspection'
+import type { Middleware } from './middleware'
+import type { MigratorParams } from './migrations'
+import { Migrator } from './migrations'
+import type { SessionParams } from './session'
+import {
+  ClickHouseSession,
+  generateSessionId,
+  SessionConnection,
+} from './session'
 import type { BaseResultSet } from './result'
+import { SQLFragment } from './sql'
 
 export interface BaseQueryParams {
   /** ClickHouse's settings that can be applied on query level. */
@@ -38,13 +91,77 @@ export interface BaseQueryParams {
     username: string
     password: string
   }
+  /** Called with the progress of the query while it is running, e.g., to display a progress bar.
+   *  Enables `send_progress_in_http_headers` setting for the request, unless it is set explicitly;
+   *  the interval between the updates is controlled by `http_headers_progress_interval_ms` setting.
+   *  Note that ClickHouse can send the progress only until it starts sending the response body.
+   *  In the Web version, the progress is reported only once the response headers are received,
+   *  as `fetch` does not provide access to the headers before that.
+   *  @default undefined (no progress tracking) */
+  on_progress?: (progress: ClickHouseProgress) => void
+  /** When defined, overrides the {@link BaseClickHouseClientConfigOptions.request_timeout} for this particular request,
+   *  e.g., to allow a long-running export with a client that has a short timeout.
+   *  @default undefined (no override) */
+  request_timeout?: number
+  /** When defined, overrides the {@link BaseClickHouseClientConfigOptions.database} for this particular request.
+   *  @default undefined (no override) */
+  database?: string
+  /** Additional HTTP headers for this particular request. Merged with {@link BaseClickHouseClientConfigOptions.http_headers};
+   *  if the same header is set in both, the value from the request is used.
+   *  @default undefined (no additional headers) */
+  http_headers?: Record<string, string>
+  /** When defined, overrides the {@link BaseClickHouseClientConfigOptions.compression} for this particular request.
+   *  Only the directions that are set are overridden; for example, `{ response: false }` disables the response compression,
+   *  while the request compression is still enabled if it is enabled for the client.
+   *  @default undefined (no override) */
+  compression?: BaseClickHouseClientConfigOptions['compression']
 }
 
 export interface QueryParams extends BaseQueryParams {
-  /** Statement to execute. */
-  query: string
+  /** Statement to execute. Can be built with the {@link sql} tagged template,
+   *  in which case its parameters are merged into {@link BaseQueryParams.query_params}. */
+  query: string | SQLFragment
   /** Format of the resulting dataset. */
   format?: DataFormat
+  /** Names and types of the resulting columns. Required to decode the `RowBinary` format,
+   *  as, unlike `RowBinaryWithNamesAndTypes`, it does not include this information in the response,
+   *  and to convert the values of the JSON formats without the types in the response (see {@link convert_values}).
+   *  Ignored for other formats.
+   *  @default undefined */
+  schema?: ColumnSchema
+  /** Converts the values of the JSON formats into the JS types according to the types of the columns,
+   *  e.g., (U)Int64 into bigint, DateTime into Date, and Map into Map. See {@link ValueConverters}.
+   *  The types are taken from the response (`meta` of JSON, JSONCompact and JSONColumnsWithMetadata,
+   *  or the header rows of JSONCompactEachRowWithNamesAndTypes), or from {@link schema} for the other JSON formats.
+   *  The `*Strings*` formats are not supported. <br/>
+   *  Enables `output_format_json_quote_64bit_integers` and `output_format_json_quote_decimals`,
+   *  and sets `date_time_output_format` to `iso`, unless these settings are set explicitly.
+   *  @default false */
+  convert_values?: boolean
+  /** Overrides the conversion of the values of the specific ClickHouse types, if {@link convert_values} is enabled.
+   *  Merged with {@link BaseClickHouseClientConfigOptions.value_converters}.
+   *  @default undefined */
+  value_converters?: ValueConverters
+  /** The tables sent along with the query, which it can use as temporary tables,
+   *  e.g., `SELECT * FROM events WHERE id IN ids`. See {@link ExternalTable}. <br/>
+   *  The request body is sent as `multipart/form-data`, and the query itself is sent in the URL instead,
+   *  so its length is limited by the server's (and proxies') maximum URL length.
+   *  @default undefined */
+  external_tables?: ExternalTable[]
+}
+
+/** External data for a query, see https://clickhouse.com/docs/en/engines/table-engines/special/external-data */
+export interface ExternalTable<T = unknown> {
+  /** The name of the table in the query. Only letters, digits and underscores are allowed. */
+  name: string
+  /** The columns of the table, e.g. `id UInt64, name String`. */
+  structure: string
+  /** The format of the values, same as {@link InsertParams.format}.
+   *  @default JSONCompactEachRow */
+  format?: DataFormat
+  /** The rows of the table, same as {@link InsertParams.values}, encoded with the {@link format}.
+   *  A Node.js stream is accepted as an async iterable; the Web ReadableStream is not supported here. */
+  values: InsertValues<never, T>
 }
 
 /** Same parameters as {@link QueryParams}, but with `format` field as a type */
@@ -64,8 +181,9 @@ export type QueryResult<Stream, Format extends DataFormat> =
 export type ExecParams = BaseQueryParams & {
   /** Statement to execute (including the FORMAT clause). By default, the query will be sent in the request body;
    *  If {@link ExecParamsWithValues.values} are defined, the query is sent as a request parameter,
-   *  and the values are sent in the request body instead. */
-  query: string
+   *  and the values are sent in the request body instead.
+   *  Can be built with the {@link sql} tagged template, same as {@link QueryParams.query}. */
+  query: string | SQLFragment
   /** If set to `false`, the client _will not_ decompress the response stream, even if the response compression
    *  was requested by the client via the {@link BaseClickHouseClientConfigOptions.compression.response } setting.
    *  This could be useful if the response stream is passed to another application as-is,
@@ -110,9 +228,13 @@ export type PingResult = ConnPingResult
 
 export type InsertValues<Stream, T = unknown> =
   | ReadonlyArray<T>
+  | Iterable<T>
+  | AsyncIterable<T>
   | Stream
   | InputJSON<T>
   | InputJSONObjectEachRow<T>
+  | NativeInsertBlock
+  | Uint8Array
 
 type NonEmptyArray<T> = [T, ...T[]]
 
@@ -125,7 +247,14 @@ export interface InsertParams<Stream = unknown, T = unknown>
   extends BaseQueryParams {
   /** Name of a table to insert into. */
   table: string
-  /** A dataset to insert. */
+  /** A dataset to insert.
+   *  Besides an array, it can be an `Iterable` or an `AsyncIterable` (e.g., a generator or a cursor of another database),
+   *  which is consumed value by value while the request is sent.
+   *  For the `Native` format, it is columnar data: either a single {@link NativeInsertBlock},
+   *  an array of such blocks, or (Node.js only) an object mode stream of blocks.
+   *  For the `Arrow` and `ArrowStream` formats, it is Arrow IPC data (e.g., `tableToIPC(table)` from `apache-arrow`)
+   *  as a Uint8Array; with `ArrowStream`, it can also be an array of such inputs, or (Node.js only) an object mode stream of them,
+   *  which are combined into a single Arrow stream. */
   values: InsertValues<Stream, T>
   /** Format of the dataset to insert. Default: `JSONCompactEachRow` */
   format?: DataFormat
@@ -142,6 +271,30 @@ export interface InsertParams<Stream = unknown, T = unknown>
    *
    * See also: https://clickhouse.com/docs/en/sql-reference/statements/insert-into */
   columns?: NonEmptyArray<string> | InsertColumnsExcept
+  /** Names and types of the columns the data will be inserted into, in the same order as the values in each row.
+   *  Used only by the binary formats, such as `RowBinary` or `Native`, which require the exact column types to encode the values.
+   *  If it is not set, the client fetches the schema with a `DESCRIBE TABLE` query before each insert,
+   *  taking {@link InsertParams.columns} into account. Providing the schema explicitly saves this extra request.
+   *  Ignored for other formats.
+   *  @default undefined */
+  schema?: ColumnSchema
+  /** Validates the rows against the columns of the table before sending them:
+   *  unknown and missing columns, the types of the values, the ranges of the integers, the values of the enums, etc.
+   *  If some of the rows are invalid, the insert fails with an {@link InsertValidationError},
+   *  which lists the failures with the row indexes and the column names.
+   *  The rows of an array are validated before the request is sent; the rows of a stream or an iterable
+   *  are validated as they are consumed, and the insert is aborted at the first invalid row. <br/>
+   *  The columns of the table are fetched with a `DESCRIBE TABLE` query, and cached by the client
+   *  until {@link ClickHouseClient.clearTableSchemaCache} is called (e.g., after `ALTER TABLE`).
+   *  Supported for JSONEachRow, JSON, JSONObjectEachRow, JSONCompactEachRow and JSONCompact formats.
+   *  @default false */
+  validate?: boolean
+}
+
+/** The client of a {@link ClickHouseSession}: the same as its parent client, but with the session connection. */
+export interface SessionClientParams<Stream> {
+  parent: ClickHouseClient<Stream>
+  connection: Connection<Stream>
 }
 
 export class ClickHouseClient<Stream = unknown> {
@@ -150,12 +303,36 @@ export class ClickHouseClient<Stream = unknown> {
   private readonly connection: Connection<Stream>
   private readonly makeResultSet: MakeResultSet<Stream>
   private readonly valuesEncoder: ValuesEncoder<Stream>
+  private readonly onStreamEnd: OnStreamEnd<Stream>
   private readonly sessionId?: string
   private readonly logWriter: LogWriter
+  private readonly valueConverters?: ValueConverters
+  private readonly tableSchemaCache: Map<string, Promise<DescribeTableRow[]>>
+  /** Used by the schema introspection methods, such as {@link describeTable}. */
+  private readonly introspectionQuery: IntrospectionQuery = async (query) => {
+    const rs = await this.query({ query, format: 'JSONEachRow' })
+    return rs.json()
+  }
 
   constructor(
-    config: BaseClickHouseClientConfigOptions & ImplementationDetails<Stream>,
+    config:
+      | (BaseClickHouseClientConfigOptions & ImplementationDetails<Stream>)
+      | SessionClientParams<Stream>,
   ) {
+    if ('parent' in config) {
+      const { parent, connection } = config
+      this.connectionParams = parent.connectionParams
+      this.logWriter = parent.logWriter
+      this.clientClickHouseSettings = parent.clientClickHouseSettings
+      this.sessionId = parent.sessionId
+      this.valueConverters = parent.valueConverters
+      this.tableSchemaCache = parent.tableSchemaCache
+      this.connection = connection
+      this.makeResultSet = parent.makeResultSet
+      this.valuesEncoder = parent.valuesEncoder
+      this.onStreamEnd = parent.onStreamEnd
+      return
+    }
     const logger = config?.log?.LoggerClass
       ? new config.log.LoggerClass()
       : new DefaultLogger()
@@ -168,12 +345,35 @@ export class ClickHouseClient<Stream = unknown> {
     this.logWriter = this.connectionParams.log_writer
     this.clientClickHouseSettings = this.connectionParams.clickhouse_settings
     this.sessionId = config.session_id
-    this.connection = config.impl.make_connection(
-      configWithURL,
-      this.connectionParams,
-    )
+    this.valueConverters = config.value_converters
+    this.tableSchemaCache = new Map()
+    if (configWithURL.urls !== undefined) {
+      // a separate connection (and a sockets pool) for every endpoint
+      this.connection = new MultiEndpointConnection({
+        endpoints: configWithURL.urls.map((url) => ({
+          url,
+          connection: config.impl.make_connection(
+            { ...configWithURL, url },
+            { ...this.connectionParams, url },
+          ),
+        })),
+        strategy: makeLoadBalancingStrategy(
+          configWithURL.load_balancing?.strategy ?? 'round_robin',
+        ),
+        health_check_interval_ms:
+          configWithURL.load_balancing?.health_check_interval_ms ?? 5_000,
+        retry: this.connectionParams.retry,
+        log_writer: this.logWriter,
+      })
+    } else {
+      this.connection = config.impl.make_connection(
+        configWithURL,
+        this.connectionParams,
+      )
+    }
     this.makeResultSet = config.impl.make_result_set
     this.valuesEncoder = config.impl.values_encoder
+    this.onStreamEnd = config.impl.on_stream_end
   }
 
   /**
@@ -188,11 +388,26 @@ export class ClickHouseClient<Stream = unknown> {
     params: QueryParamsWithFormat<Format>,
   ): Promise<QueryResult<Stream, Format>> {
     const format = params.format ?? 'JSON'
-    const query = formatQuery(params.query, format)
-    const queryParams = this.withClientQueryParams(params)
+    // throws before the request is sent if the format is not supported
+    const valueConverter = params.convert_values
+      ? new ResultSetValueConverter(format, params.schema, {
+          ...this.valueConverters,
+          ...params.value_converters,
+        })
+      : undefined
+    const { query: rendered, query_params } = renderQuery(params)
+    const query = formatQuery(rendered, format)
+    const queryParams = withFormatSettings(
+      this.withClientQueryParams({ ...params, query_params }),
+      format,
+      params.convert_values,
+    )
     const { stream, query_id, response_headers } = await this.connection.query({
       query,
       ...queryParams,
+      external_tables: params.external_tables?.map((table) =>
+        this.encodeExternalTable(table),
+      ),
     })
     return this.makeResultSet(
       stream,
@@ -211,6 +426,8 @@ export class ClickHouseClient<Stream = unknown> {
         })
       },
       response_headers,
+      params.schema,
+      valueConverter,
     )
   }
 
@@ -224,10 +441,10 @@ export class ClickHouseClient<Stream = unknown> {
    * and you are interested in the response data, consider using {@link ClickHouseClient.exec}.
    */
   async command(params: CommandParams): Promise<CommandResult> {
-    const query = removeTrailingSemi(params.query.trim())
+    const { query, query_params } = renderQuery(params)
     return await this.connection.command({
-      query,
-      ...this.withClientQueryParams(params),
+      query: removeTrailingSemi(query.trim()),
+      ...this.withClientQueryParams({ ...params, query_params }),
     })
   }
 
@@ -242,14 +459,14 @@ export class ClickHouseClient<Stream = unknown> {
   async exec(
     params: ExecParams | ExecParamsWithValues<Stream>,
   ): Promise<ExecResult<Stream>> {
-    const query = removeTrailingSemi(params.query.trim())
+    const { query, query_params } = renderQuery(params)
     const values = 'values' in params ? params.values : undefined
     const decompress_response_stream = params.decompress_response_stream ?? true
     return await this.connection.exec({
-      query,
+      query: removeTrailingSemi(query.trim()),
       values,
       decompress_response_stream,
-      ...this.withClientQueryParams(params),
+      ...this.withClientQueryParams({ ...params, query_params }),
     })
   }
 
@@ -268,17 +485,123 @@ export class ClickHouseClient<Stream = unknown> {
     }
 
     const format = params.format || 'JSONCompactEachRow'
-    this.valuesEncoder.validateInsertValues(params.values, format)
+    const validator = params.validate
+      ? new InsertValuesValidator(
+          format,
+          await this.getValidationColumns(params),
+        )
+      : undefined
+    this.valuesEncoder.validateInsertValues(params.values, format, validator)
 
+    const schema =
+      isRowBinaryFormat(format) || isNativeFormat(format)
+        ? params.schema ?? (await this.getInsertSchema(params))
+        : undefined
     const query = getInsertQuery(params, format)
     const result = await this.connection.insert({
       query,
-      values: this.valuesEncoder.encodeValues(params.values, format),
-      ...this.withClientQueryParams(params),
+      values: this.valuesEncoder.encodeValues(
+        params.values,
+        format,
+        schema,
+        validator,
+      ),
+      ...withFormatSettings(this.withClientQueryParams(params), format),
     })
     return { ...result, executed: true }
   }
 
+  /**
+   * Creates a {@link BatchInserter}, which accepts the rows one at a time, and inserts them into the table in batches,
+   * when either of the size or time thresholds is reached. This avoids creating too many small parts on the server.
+   * The inserter should be closed with {@link BatchInserter.close} to send the remaining rows.
+   */
+  createBatchInserter<T = unknown>(
+    params: BatchInserterParams<T>,
+  ): BatchInserter<T> {
+    return new BatchInserter({
+      params,
+      insert: (insertParams) => this.insert(insertParams),
+      log_writer: this.logWriter,
+    })
+  }
+
+  /**
+   * Creates a {@link Migrator}, which applies the migrations and rolls them back,
+   * keeping track of the applied ones in a table on the server.
+   */
+  createMigrator(params: MigratorParams): Migrator {
+    return new Migrator({
+      params,
+      client: this as ClickHouseClient<unknown>,
+      log_writer: this.logWriter,
+    })
+  }
+
+  /**
+   * Creates a {@link ClickHouseSession}: a handle with the same methods as the client,
+   * which sends all its requests in the same ClickHouse session, one at a time,
+   * to the same endpoint and, if possible, over the same keep-alive socket.
+   * The session should be closed with {@link ClickHouseSession.close} to drop its state on the server.
+   */
+  session(params: SessionParams = {}): ClickHouseSession<Stream> {
+    const session_id = params.session_id ?? generateSessionId()
+    const connection = new SessionConnection({
+      session_id,
+      timeout_s: params.timeout_s,
+      check: params.check ?? false,
+      connection: this.connection.pin(),
+      on_stream_end: this.onStreamEnd,
+    })
+    return new ClickHouseSession({
+      session_id,
+      client: new ClickHouseClient({ parent: this, connection }),
+      connection,
+      log_writer: this.logWriter,
+    })
+  }
+
+  /**
+   * Adds a {@link Middleware}, which intercepts every HTTP request of the client (including the ones of its sessions),
+   * e.g., to sign the requests, to add the headers, or to audit the responses.
+   * The middleware is applied in the order it was added. Returns a function that removes the middleware.
+   */
+  use(middleware: Middleware): () => void {
+    const chain = this.connectionParams.middleware
+    chain.push(middleware)
+    return () => {
+      const index = chain.indexOf(middleware)
+      if (index !== -1) {
+        chain.splice(index, 1)
+      }
+    }
+  }
+
+  /** Lists the databases on the server, sorted by name. */
+  async listDatabases(): Promise<DatabaseInfo[]> {
+    return listDatabases(this.introspectionQuery)
+  }
+
+  /** Lists the tables (including the views and the dictionaries) in the database, sorted by name.
+   *  @default database the current database (see {@link BaseClickHouseClientConfigOptions.database}) */
+  async listTables(database?: string): Promise<TableInfo[]> {
+    return listTables(this.introspectionQuery, database)
+  }
+
+  /** Returns the columns of the table, in the order of their definition.
+   *  The table name can be either `table` (in the current database) or `database.table`.
+   *  Throws {@link UnknownTableError} if there is no such table. */
+  async describeTable(table: string): Promise<TableColumn[]> {
+    return describeTable(this.introspectionQuery, table)
+  }
+
+  /** Returns the engine of the table with its keys and settings.
+   *  The table name can be either `table` (in the current database) or `database.table`.
+   *  Throws {@link UnknownTableError} if there is no such table. */
+  async getTableEngine(table: string): Promise<TableEngine> {
+    return getTableEngine(this.introspectionQuery, table)
+  }
+
   /**
    * Health-check request. It does not throw if an error occurs -
    * the error is returned inside the result object.
@@ -296,9 +619,110 @@ export class ClickHouseClient<Stream = unknown> {
     return await this.connection.close()
   }
 
+  /** Clears the table columns cached for {@link InsertParams.validate} and for the `RowBinary` and `Native` inserts
+   *  without {@link InsertParams.schema};
+   *  should be called after the schema of the table is changed.
+   *  The tables inserted into with {@link BaseQueryParams.database} override are cached as `database.table`.
+   *  If the table is not specified, the whole cache is cleared. */
+  clearTableSchemaCache(table?: string): void {
+    if (table === undefined) {
+      this.tableSchemaCache.clear()
+    } else {
+      this.tableSchemaCache.delete(table.trim())
+    }
+  }
+
+  /** Fetches the columns that the data will be inserted into, respecting {@link InsertParams.columns}.
+   *  Similar to ClickHouse itself, MATERIALIZED, ALIAS and EPHEMERAL columns
+   *  are not included, unless they are explicitly listed. */
+  private async getInsertSchema<T>(
+    params: InsertParams<Stream, T>,
+  ): Promise<ColumnSchema> {
+    const described = await this.getDescribedTable(params)
+    return selectInsertColumns(params, described).map(({ name, type }) => ({
+      name,
+      type,
+    }))
+  }
+
+  /** Same as {@link getInsertSchema}, but with the defaults of the columns. */
+  private async getValidationColumns<T>(
+    params: InsertParams<Stream, T>,
+  ): Promise<InsertValidationColumn[]> {
+    const described = await this.getDescribedTable(params)
+    return selectInsertColumns(params, described).map(
+      ({ name, type, default_type }) => ({
+        name,
+        type,
+        has_default: default_type !== '',
+      }),
+    )
+  }
+
+  /** The described table is cached by the client, see {@link clearTableSchemaCache}. */
+  private getDescribedTable<T>(
+    params: InsertParams<Stream, T>,
+  ): Promise<DescribeTableRow[]> {
+    // the same unqualified table name refers to different tables with the database overrides
+    const table =
+      params.database !== undefined && !params.table.includes('.')
+        ? `${params.database}.${params.table.trim()}`
+        : params.table.trim()
+    let described = this.tableSchemaCache.get(table)
+    if (described === undefined) {
+      described = this.describeInsertTable(params)
+      this.tableSchemaCache.set(table, described)
+      // failed requests are not cached, so these can be retried
+      described.catch(() => {
+        if (this.tableSchemaCache.get(table) === described) {
+          this.tableSchemaCache.delete(table)
+        }
+      })
+    }
+    return described
+  }
+
+  private async describeInsertTable<T>(
+    params: InsertParams<Stream, T>,
+  ): Promise<DescribeTableRow[]> {
+    const rs = await this.query({
+      query: `DESCRIBE TABLE ${params.table.trim()}`,
+      format: 'JSONEachRow',
+      abort_signal: params.abort_signal,
+      session_id: params.session_id,
+      auth: params.auth,
+      database: params.database,
+      http_headers: params.http_headers,
+    })
+    return rs.json<DescribeTableRow>()
+  }
+
+  private encodeExternalTable(table: ExternalTable): ConnExternalTable<Stream> {
+    if (!ExternalTableNameRe.test(table.name)) {
+      throw new Error(
+        `Invalid external table name: ${table.name}. Only letters, digits and underscores are allowed.`,
+      )
+    }
+    const format = table.format ?? 'JSONCompactEachRow'
+    this.valuesEncoder.validateInsertValues(table.values, format)
+    const schema =
+      isRowBinaryFormat(format) || isNativeFormat(format)
+        ? parseStructure(table.structure)
+        : undefined
+    return {
+      name: table.name,
+      structure: table.structure,
+      format,
+      values: this.valuesEncoder.encodeValues(table.values, format, schema),
+    }
+  }
+
   private withClientQueryParams(params: BaseQueryParams): BaseQueryParams {
     return {
       clickhouse_settings: {
+        ...(params.on_progress !== undefined
+          ? { send_progress_in_http_headers: 1 }
+          : {}),
         ...this.clientClickHouseSettings,
         ...params.clickhouse_settings,
       },
@@ -307,8 +731,98 @@ export class ClickHouseClient<Stream = unknown> {
       query_id: params.query_id,
       session_id: params.session_id ?? this.sessionId,
       auth: params.auth,
+      on_progress: params.on_progress,
+      request_timeout: params.request_timeout,
+      database: params.database,
+      http_headers: params.http_headers,
+      compression: params.compression,
+    }
+  }
+}
+
+interface DescribeTableRow {
+  name: string
+  type: string
+  default_type: string
+}
+
+// the name is used in the URL parameters and the multipart headers as is
+const ExternalTableNameRe = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+const NonInsertableDefaultTypes = ['MATERIALIZED', 'ALIAS', 'EPHEMERAL']
+
+function selectInsertColumns<Stream, T>(
+  params: InsertParams<Stream, T>,
+  described: DescribeTableRow[],
+): DescribeTableRow[] {
+  const columns = params.columns
+  if (Array.isArray(columns) && columns.length > 0) {
+    return columns.map((name) => {
+      const column = described.find((c) => c.name === name)
+      if (column === undefined) {
+        throw new Error(
+          `Column ${name} is not found in the table ${params.table}`,
+        )
+      }
+      return column
+    })
+  }
+  const except: string[] = isInsertColumnsExcept(columns) ? columns.except : []
+  return described.filter(
+    ({ name, default_type }) =>
+      !NonInsertableDefaultTypes.includes(default_type) &&
+      !except.includes(name),
+  )
+}
+
+/** The client does not support LowCardinality serialization in the Native format;
+ *  with this setting, the server sends and expects such columns as their nested types instead. */
+function withFormatSettings(
+  params: BaseQueryParams,
+  format: DataFormat,
+  convert_values = false,
+): BaseQueryParams {
+  if (isNativeFormat(format)) {
+    return {
+      ...params,
+      clickhouse_settings: {
+        ...params.clickhouse_settings,
+        low_cardinality_allow_in_native_format: 0,
+      },
+    }
+  }
+  if (convert_values) {
+    // the values are converted from the representations that keep the precision
+    return {
+      ...params,
+      clickhouse_settings: {
+        output_format_json_quote_64bit_integers: 1,
+        output_format_json_quote_decimals: 1,
+        date_time_output_format: 'iso',
+        ...params.clickhouse_settings,
+      },
+    }
+  }
+  return params
+}
+
+/** Renders the query built with the {@link sql} tagged template, merging its parameters with the explicitly provided ones. */
+function renderQuery(params: {
+  query: string | SQLFragment
+  query_params?: Record<string, unknown>
+}): { query: string; query_params?: Record<string, unknown> } {
+  if (!(params.query instanceof SQLFragment)) {
+    return { query: params.query, query_params: params.query_params }
+  }
+  const { query, query_params } = params.query.toQuery()
+  for (const name of Object.keys(params.query_params ?? {})) {
+    if (name in query_params) {
+      throw new Error(
+        `Query parameter ${name} is already bound by the sql template`,
+      )
     }
   }
+  return { query, query_params: { ...params.query_params, ...query_params } }
 }
 
 function formatQuery(query: string, format: DataFormat): string {
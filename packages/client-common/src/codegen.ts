@@ -0,0 +1,250 @@
+import type { ParsedColumnType } from './data_formatter'
+import { parseColumnType } from './data_formatter'
+import type { IntrospectionQuery } from './introspection'
+import { sql } from './sql'
+
+/** The settings that define how the values are represented in the JSON formats output. */
+export interface TypeGenerationOptions {
+  /** `output_format_json_quote_64bit_integers`: (U)Int64 and wider integers are strings if enabled, and numbers otherwise.
+   *  @default true */
+  quote_64bit_integers?: boolean
+  /** `output_format_json_quote_decimals`: Decimals are strings if enabled, and numbers otherwise.
+   *  @default false */
+  quote_decimals?: boolean
+  /** `output_format_json_named_tuples_as_objects`: named Tuples are objects if enabled, and arrays otherwise.
+   *  @default true */
+  named_tuples_as_objects?: boolean
+}
+
+export interface TableSchemaColumn {
+  name: string
+  type: string
+  /** MATERIALIZED, ALIAS and EPHEMERAL columns are not returned by `SELECT *`,
+   *  so they are generated as optional properties. */
+  default_kind?: string
+  comment?: string
+}
+
+export interface TableSchema {
+  name: string
+  columns: TableSchemaColumn[]
+}
+
+const OptionalColumnKinds = ['MATERIALIZED', 'ALIAS', 'EPHEMERAL']
+
+/** Loads the columns of the tables of the database (the current one, if not set);
+ *  if `tables` are not set, all the tables of the database are loaded. */
+export async function loadTableSchemas(
+  query: IntrospectionQuery,
+  database?: string,
+  tables?: string[],
+): Promise<TableSchema[]> {
+  const tablesCondition =
+    tables !== undefined && tables.length > 0
+      ? sql`AND table IN (${sql.join(tables)})`
+      : sql``
+  const rows = (await query(sql`
+    SELECT table, name, type, default_kind, comment
+    FROM system.columns
+    WHERE database = ${
+      database === undefined ? sql`currentDatabase()` : database
+    } ${tablesCondition}
+    ORDER BY table, position
+  `)) as Array<TableSchemaColumn & { table: string }>
+  const schemas = new Map<string, TableSchema>()
+  for (const { table, ...column } of rows) {
+    let schema = schemas.get(table)
+    if (schema === undefined) {
+      schema = { name: table, columns: [] }
+      schemas.set(table, schema)
+    }
+    schema.columns.push(column)
+  }
+  const missing = (tables ?? []).filter((table) => !schemas.has(table))
+  if (missing.length > 0) {
+    const where =
+      database === undefined ? 'the current database' : `database ${database}`
+    throw new Error(`Tables not found in ${where}: ${missing.join(', ')}`)
+  }
+  return [...schemas.values()]
+}
+
+/** Reads the JSON output settings that are in effect for the current user. */
+export async function loadTypeGenerationOptions(
+  query: IntrospectionQuery,
+): Promise<Required<TypeGenerationOptions>> {
+  const rows = (await query(sql`
+    SELECT name, value
+    FROM system.settings
+    WHERE name IN (
+      'output_format_json_quote_64bit_integers',
+      'output_format_json_quote_decimals',
+      'output_format_json_named_tuples_as_objects'
+    )
+  `)) as Array<{ name: string; value: string }>
+  const settings = new Map(rows.map(({ name, value }) => [name, value]))
+  const isEnabled = (name: string, defaultValue: boolean) => {
+    const value = settings.get(name)
+    return value === undefined ? defaultValue : value === '1'
+  }
+  return {
+    quote_64bit_integers: isEnabled(
+      'output_format_json_quote_64bit_integers',
+      true,
+    ),
+    quote_decimals: isEnabled('output_format_json_quote_decimals', false),
+    named_tuples_as_objects: isEnabled(
+      'output_format_json_named_tuples_as_objects',
+      true,
+    ),
+  }
+}
+
+/**
+ * Generates a TypeScript module with an interface per table,
+ * which describes a row of the table in the JSON formats (e.g. `JSONEachRow`).
+ * The interfaces can be used as `T` in `ResultSet.json<T>()` and `ClickHouseClient.insert<T>()`.
+ */
+export function generateTypeScript(
+  tables: TableSchema[],
+  options: TypeGenerationOptions = {},
+): string {
+  const usedNames = new Set<string>()
+  const interfaces = tables.map((table) => {
+    let interfaceName = toInterfaceName(table.name)
+    for (let i = 2; usedNames.has(interfaceName); i++) {
+      interfaceName = `${toInterfaceName(table.name)}${i}`
+    }
+    usedNames.add(interfaceName)
+    const properties = table.columns.map((column) => {
+      const comment =
+        column.comment !== undefined && column.comment !== ''
+          ? `${column.comment.replace(/\s+/g, ' ').replace(/\*\//g, '*\\/')} `
+          : ''
+      const optional = OptionalColumnKinds.includes(column.default_kind ?? '')
+        ? '?'
+        : ''
+      return [
+        `  /** ${comment}\`${column.type}\` */`,
+        `  ${toPropertyName(column.name)}${optional}: ${columnTypeToTypeScript(
+          column.type,
+          options,
+        )}`,
+      ].join('\n')
+    })
+    return [
+      `/** Table \`${table.name}\` */`,
+      `export interface ${interfaceName} {`,
+      ...properties,
+      '}',
+    ].join('\n')
+  })
+  return [
+    '// This file is generated by clickhouse-js-codegen. Do not edit it manually.',
+    ...interfaces,
+  ].join('\n\n')
+}
+
+/** Returns the TypeScript type of the values of the ClickHouse type in the JSON formats;
+ *  `unknown` if the type is not supported by the client. */
+export function columnTypeToTypeScript(
+  type: string,
+  options: TypeGenerationOptions = {},
+): string {
+  let parsed: ParsedColumnType
+  try {
+    parsed = parseColumnType(type)
+  } catch (_) {
+    return 'unknown'
+  }
+  return toTypeScript(parsed, {
+    quote_64bit_integers: options.quote_64bit_integers ?? true,
+    quote_decimals: options.quote_decimals ?? false,
+    named_tuples_as_objects: options.named_tuples_as_objects ?? true,
+  })
+}
+
+function toTypeScript(
+  type: ParsedColumnType,
+  options: Required<TypeGenerationOptions>,
+): string {
+  switch (type.type) {
+    case 'Simple':
+      switch (type.column_type) {
+        case 'Bool':
+          return 'boolean'
+        case 'UInt8':
+        case 'Int8':
+        case 'UInt16':
+        case 'Int16':
+        case 'UInt32':
+        case 'Int32':
+        case 'Float32':
+        case 'Float64':
+          return 'number'
+        case 'UInt64':
+        case 'Int64':
+        case 'UInt128':
+        case 'Int128':
+        case 'UInt256':
+        case 'Int256':
+          return options.quote_64bit_integers ? 'string' : 'number'
+        case 'Nothing':
+          return 'null'
+        default:
+          // String, UUID, IPv4, IPv6, Date, Date32
+          return 'string'
+      }
+    case 'FixedString':
+    case 'DateTime':
+    case 'DateTime64':
+      return 'string'
+    case 'Decimal':
+      return options.quote_decimals ? 'string' : 'number'
+    case 'Enum':
+      return Object.values(type.values)
+        .map((value) => quote(value))
+        .join(' | ')
+    case 'Nullable':
+      return `${toTypeScript(type.value, options)} | null`
+    case 'LowCardinality':
+      return toTypeScript(type.value, options)
+    case 'Array':
+      return `Array<${toTypeScript(type.value, options)}>`
+    case 'Map':
+      // the keys are always the strings in the JSON objects
+      return `Record<string, ${toTypeScript(type.value, options)}>`
+    case 'Tuple':
+      if (
+        options.named_tuples_as_objects &&
+        type.elements.every(({ name }) => name !== null)
+      ) {
+        const fields = type.elements.map(
+          ({ name, type }) =>
+            `${toPropertyName(name as string)}: ${toTypeScript(type, options)}`,
+        )
+        return `{ ${fields.join('; ')} }`
+      }
+      return `[${type.elements
+        .map(({ type }) => toTypeScript(type, options))
+        .join(', ')}]`
+  }
+}
+
+/** `events_by_day` -> `EventsByDay` */
+function toInterfaceName(table: string): string {
+  const name = table
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((part) => part !== '')
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('')
+  return /^[a-zA-Z]/.test(name) ? name : `Table${name}`
+}
+
+function toPropertyName(column: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(column) ? column : quote(column)
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
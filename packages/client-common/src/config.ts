@@ -1,20 +1,42 @@
 import type { ResponseHeaders } from './clickhouse_types'
 import type { InsertValues } from './client'
-import type { Connection, ConnectionParams } from './connection'
-import type { DataFormat } from './data_formatter'
+import type {
+  CompressionCodec,
+  CompressionSettings,
+  Connection,
+  ConnectionParams,
+  ConnOperation,
+} from './connection'
+import type {
+  ColumnSchema,
+  DataFormat,
+  InsertValuesValidator,
+  ResultSetValueConverter,
+  ValueConverters,
+} from './data_formatter'
+import type {
+  LoadBalancingStrategy,
+  LoadBalancingStrategyName,
+} from './load_balancing'
 import type { Logger } from './logger'
 import { ClickHouseLogLevel, LogWriter } from './logger'
 import type { BaseResultSet } from './result'
 import type { ClickHouseSettings } from './settings'
+import type { KillQueryMode } from './utils'
+import { getCancelOnAbortSettings, getRetrySettings } from './utils'
 
 export interface BaseClickHouseClientConfigOptions {
   /** @deprecated since version 1.0.0. Use {@link url} instead. <br/>
    *  A ClickHouse instance URL.
    *  @default http://localhost:8123 */
   host?: string
-  /** A ClickHouse instance URL.
+  /** A ClickHouse instance URL, or a list of URLs of several instances (e.g., the replicas of a cluster).
+   *  With a list, every endpoint gets its own connection pool, and the requests are distributed
+   *  between the endpoints according to {@link load_balancing} settings.
+   *  Only the first URL in the list can contain the credentials, the database and the parameters;
+   *  these are applied to all the endpoints.
    *  @default http://localhost:8123 */
-  url?: string | URL
+  url?: string | URL | Array<string | URL>
   /** An optional pathname to add to the ClickHouse URL after it is parsed by the client.
    *  For example, if you use a proxy, and your ClickHouse instance can be accessed as http://proxy:8123/clickhouse_server,
    *  specify `clickhouse_server` here (with or without a leading slash);
@@ -31,13 +53,18 @@ export interface BaseClickHouseClientConfigOptions {
   /** Request and response compression settings. */
   compression?: {
     /** `response: true` instructs ClickHouse server to respond with compressed response body. <br/>
-     *  This will add `Accept-Encoding: gzip` header in the request and `enable_http_compression=1` ClickHouse HTTP setting.
+     *  This will add `Accept-Encoding: gzip` header in the request and `enable_http_compression=1` ClickHouse HTTP setting. <br/>
+     *  Instead of `true`, another codec can be set (e.g., `zstd`), optionally with the compression level,
+     *  which is sent as `http_zlib_compression_level` ClickHouse HTTP setting.
+     *  `xz` and `lz4` are not supported, see {@link CompressionCodec}.
      *  <p><b>Warning</b>: Response compression can't be enabled for a user with readonly=1, as ClickHouse will not allow settings modifications for such user.</p>
      *  @default false */
-    response?: boolean
-    /** `request: true` enabled compression on the client request body.
+    response?: boolean | CompressionCodec | CompressionOptions
+    /** `request: true` enabled compression on the client request body (gzip). <br/>
+     *  Instead of `true`, another codec can be set (e.g., `zstd`), optionally with the compression level.
+     *  `xz` and `lz4` are not supported, see {@link CompressionCodec}.
      *  @default false */
-    request?: boolean
+    request?: boolean | CompressionCodec | CompressionOptions
   }
   /** The name of the user on whose behalf requests are made.
    *  @default default */
@@ -54,6 +81,11 @@ export interface BaseClickHouseClientConfigOptions {
   /** ClickHouse settings to apply to all requests.
    *  @default empty object */
   clickhouse_settings?: ClickHouseSettings
+  /** Overrides the default conversion of the values of the specific ClickHouse types
+   *  for the queries with {@link QueryParams.convert_values} enabled.
+   *  Can be extended or overridden with {@link QueryParams.value_converters}.
+   *  @default undefined (the default conversion) */
+  value_converters?: ValueConverters
   log?: {
     /** A class to instantiate a custom logger implementation.
      *  @default see {@link DefaultLogger} */
@@ -77,6 +109,69 @@ export interface BaseClickHouseClientConfigOptions {
      *  @default true */
     enabled?: boolean
   }
+  /** Automatic retries of the requests that failed due to transient connection issues,
+   *  such as a reset connection, an expired Keep-Alive socket, or a 502/503/504 response from a proxy. */
+  retry?: {
+    /** Maximum number of attempts to send a request, including the first one. `1` disables the retries.
+     *  @default 1 */
+    max_attempts?: number
+    /** The delay before the first retry, in milliseconds. It is doubled after each attempt,
+     *  and a random jitter of up to a half of the delay is applied.
+     *  @default 100 */
+    initial_delay_ms?: number
+    /** The maximum delay between the attempts, in milliseconds.
+     *  @default 5_000 */
+    max_delay_ms?: number
+    /** Error codes (such as `err.code` of Node.js network errors) that are considered retryable.
+     *  @default ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN'] */
+    retryable_error_codes?: string[]
+    /** HTTP response statuses that are considered retryable.
+     *  @default [502, 503, 504] */
+    retryable_status_codes?: number[]
+    /** Operations that are allowed to be retried. `Exec` and `Command` can run arbitrary statements,
+     *  so they are retried only if opted in explicitly. `Insert` is retried only if it is opted in
+     *  and the `insert_deduplication_token` setting is provided, so the server could ignore the duplicate attempts.
+     *  Requests with the streamed body (in the Node.js version) are never retried, as the stream cannot be replayed.
+     *  @default ['Ping', 'Query'] */
+    operations?: ConnOperation[]
+  }
+  /** Cancellation of the queries on the server when their requests are aborted.
+   *  Otherwise, ClickHouse may keep running a query until it notices the broken connection,
+   *  which can take a while (e.g., for a heavy aggregation that does not send any data until it is finished). */
+  cancel_on_abort?: {
+    /** When the request of a query or an exec is aborted via {@link BaseQueryParams.abort_signal} or times out,
+     *  or its response stream is closed before the end (e.g., with `ResultSet.close()`),
+     *  `KILL QUERY WHERE query_id = ...` is sent as a separate request, and its result is logged (`INFO` level).
+     *  With several endpoints, it may be sent to another one than the query;
+     *  the queries on a cluster should be cancelled with `ON CLUSTER`, which is not done automatically.
+     *  @default false */
+    enabled?: boolean
+    /** `SYNC` waits until the query is stopped; `ASYNC` returns as soon as the query is marked for cancellation.
+     *  @default ASYNC */
+    mode?: KillQueryMode
+  }
+  /** Distribution of the requests between the endpoints, if a list of URLs is provided as the {@link url}. */
+  load_balancing?: {
+    /** Selects an endpoint for each request:
+     *  * `round_robin` - the endpoints are used in turns
+     *  * `random` - a random endpoint
+     *  * `least_in_flight` - the endpoint with the least number of requests waiting for the response
+     *  * `first_healthy` - the first healthy endpoint in the list; the rest are used only for failover
+     *
+     *  A custom {@link LoadBalancingStrategy} function can be provided as well.
+     *  @default round_robin */
+    strategy?: LoadBalancingStrategyName | LoadBalancingStrategy
+    /** An endpoint that failed with a connection error is marked as down, and then pinged with this interval
+     *  (in milliseconds) until it responds again. Meanwhile, the requests are sent to the other endpoints.
+     *  @default 5_000 */
+    health_check_interval_ms?: number
+  }
+}
+
+export interface CompressionOptions {
+  codec: CompressionCodec
+  /** The range and the default depend on the codec (e.g., 1-9 for gzip, 1-22 for zstd). */
+  level?: number
 }
 
 export type MakeConnection<
@@ -93,12 +188,27 @@ export type MakeResultSet<Stream> = <
   query_id: string,
   log_error: (err: Error) => void,
   response_headers: ResponseHeaders,
+  schema?: ColumnSchema,
+  value_converter?: ResultSetValueConverter,
 ) => ResultSet
 
+/** Calls the callback once, when the response stream is fully consumed, closed, or failed.
+ *  Returns the stream that should be used instead, if the original one cannot be observed without wrapping it. */
+export type OnStreamEnd<Stream> = (
+  stream: Stream,
+  callback: () => void,
+) => Stream
+
 export interface ValuesEncoder<Stream> {
+  /**
+   * Checks that the values can be encoded with the format (e.g., an array or a stream of rows for JSONEachRow).
+   * @param validator if set, the rows of an array (or of a JSON object input) are validated against the table schema as well;
+   * the rows of a stream or an iterable are validated by {@link encodeValues} instead, as they are consumed.
+   */
   validateInsertValues<T = unknown>(
     values: InsertValues<Stream, T>,
     format: DataFormat,
+    validator?: InsertValuesValidator,
   ): void
 
   /**
@@ -109,11 +219,15 @@ export interface ValuesEncoder<Stream> {
    *
    * @param values a set of values to send to ClickHouse.
    * @param format a format to encode value to.
+   * @param schema names and types of the columns; required for the binary formats, such as RowBinary.
+   * @param validator if set, validates each row of a stream or an iterable before it is encoded.
    */
   encodeValues<T = unknown>(
     values: InsertValues<Stream, T>,
     format: DataFormat,
-  ): string | Stream
+    schema?: ColumnSchema,
+    validator?: InsertValuesValidator,
+  ): string | Uint8Array | Stream
 }
 
 /**
@@ -142,6 +256,7 @@ export interface ImplementationDetails<Stream> {
     make_connection: MakeConnection<Stream>
     make_result_set: MakeResultSet<Stream>
     values_encoder: ValuesEncoder<Stream>
+    on_stream_end: OnStreamEnd<Stream>
     handle_specific_url_params?: HandleImplSpecificURLParams
   }
 }
@@ -150,7 +265,10 @@ export interface ImplementationDetails<Stream> {
 export type BaseClickHouseClientConfigOptionsWithURL = Omit<
   BaseClickHouseClientConfigOptions,
   'url'
-> & { url: URL } // not string and not undefined
+> & {
+  url: URL // not string and not undefined; the first endpoint, if there are several
+  urls?: URL[] // all the endpoints, only if a list of URLs was provided
+}
 
 /**
  * Validates and normalizes the provided "base" config.
@@ -176,6 +294,7 @@ export function prepareConfigWithURL(
     delete baseConfig.additional_headers
   }
   let configURL
+  let otherURLs: URL[] = []
   if (baseConfig.host !== undefined) {
     logger.warn({
       module: 'Config',
@@ -183,6 +302,11 @@ export function prepareConfigWithURL(
     })
     configURL = createUrl(baseConfig.host)
     delete baseConfig.host
+  } else if (Array.isArray(baseConfig.url)) {
+    if (baseConfig.url.length === 0) {
+      throw new Error('ClickHouse URL list is empty.')
+    }
+    ;[configURL, ...otherURLs] = baseConfig.url.map(createUrl)
   } else {
     configURL = createUrl(baseConfig.url)
   }
@@ -190,12 +314,19 @@ export function prepareConfigWithURL(
     configURL,
     handleImplURLParams,
   )
+  const urls = [url, ...otherURLs.map(createEndpointUrl)]
   const config = mergeConfigs(baseConfig, configFromURL, logger)
   if (config.pathname !== undefined) {
-    url.pathname = config.pathname
+    for (const endpointURL of urls) {
+      endpointURL.pathname = config.pathname
+    }
   }
   config.url = url
-  return config as BaseClickHouseClientConfigOptionsWithURL
+  const configWithURL = config as BaseClickHouseClientConfigOptionsWithURL
+  if (urls.length > 1) {
+    configWithURL.urls = urls
+  }
+  return configWithURL
 }
 
 export function getConnectionParams(
@@ -207,10 +338,7 @@ export function getConnectionParams(
     application_id: config.application,
     request_timeout: config.request_timeout ?? 30_000,
     max_open_connections: config.max_open_connections ?? 10,
-    compression: {
-      decompress_response: config.compression?.response ?? false,
-      compress_request: config.compression?.request ?? false,
-    },
+    compression: getCompressionSettings(config.compression),
     username: config.username ?? 'default',
     password: config.password ?? '',
     database: config.database ?? 'default',
@@ -218,7 +346,67 @@ export function getConnectionParams(
     keep_alive: { enabled: config.keep_alive?.enabled ?? true },
     clickhouse_settings: config.clickhouse_settings ?? {},
     http_headers: config.http_headers ?? {},
+    retry: getRetrySettings(config.retry),
+    cancel_on_abort: getCancelOnAbortSettings(config.cancel_on_abort),
+    middleware: [],
+  }
+}
+
+function getCompressionSettings(
+  compression: BaseClickHouseClientConfigOptions['compression'],
+): CompressionSettings {
+  const settings: CompressionSettings = {
+    decompress_response: Boolean(compression?.response),
+    compress_request: Boolean(compression?.request),
+  }
+  const response = getCompressionOptions(compression?.response)
+  if (response !== undefined) {
+    settings.response_codec = response.codec
+    settings.response_level = response.level
+  }
+  const request = getCompressionOptions(compression?.request)
+  if (request !== undefined) {
+    settings.request_codec = request.codec
+    settings.request_level = request.level
+  }
+  return settings
+}
+
+/** The compression settings for a particular request: each of the directions set in the overrides
+ *  (see {@link BaseQueryParams.compression}) replaces the corresponding connection settings entirely. */
+export function withCompressionOverrides(
+  settings: CompressionSettings,
+  overrides: BaseClickHouseClientConfigOptions['compression'],
+): CompressionSettings {
+  if (overrides === undefined) {
+    return settings
+  }
+  const result = { ...settings }
+  if (overrides.response !== undefined) {
+    const response = getCompressionOptions(overrides.response)
+    result.decompress_response = Boolean(overrides.response)
+    result.response_codec = response?.codec
+    result.response_level = response?.level
+  }
+  if (overrides.request !== undefined) {
+    const request = getCompressionOptions(overrides.request)
+    result.compress_request = Boolean(overrides.request)
+    result.request_codec = request?.codec
+    result.request_level = request?.level
+  }
+  return result
+}
+
+function getCompressionOptions(
+  value: boolean | CompressionCodec | CompressionOptions | undefined,
+): CompressionOptions | undefined {
+  if (typeof value === 'string') {
+    return { codec: value }
   }
+  if (typeof value === 'object') {
+    return value
+  }
+  return undefined
 }
 
 /**
@@ -286,6 +474,21 @@ export function createUrl(configURL: string | URL | undefined): URL {
   return url
 }
 
+/** The URLs in the list after the first one are expected to contain only the protocol, the host and the port. */
+function createEndpointUrl(url: URL): URL {
+  if (
+    url.username !== '' ||
+    url.password !== '' ||
+    url.pathname.length > 1 ||
+    url.search !== ''
+  ) {
+    throw new Error(
+      `Only the first ClickHouse URL in the list can contain the credentials, the database and the parameters. Got: ${url}`,
+    )
+  }
+  return new URL(`${url.protocol}//${url.host}`)
+}
+
 /**
  * @param url potentially contains auth, database and URL params to parse the configuration from
  * @param handleExtraURLParams some platform-specific URL params might be unknown by the common package;
@@ -366,13 +569,16 @@ export function loadConfigOptionsFromURL(
             if (config.compression === undefined) {
               config.compression = {}
             }
-            config.compression.request = booleanConfigURLValue({ key, value })
+            config.compression.request = compressionConfigURLValue({
+              key,
+              value,
+            })
             break
           case 'compression_response':
             if (config.compression === undefined) {
               config.compression = {}
             }
-            config.compression.response = booleanConfigURLValue({
+            config.compression.response = compressionConfigURLValue({
               key,
               value,
             })
@@ -440,6 +646,32 @@ export function booleanConfigURLValue({
   )
 }
 
+const CompressionCodecs: ReadonlyArray<CompressionCodec> = [
+  'gzip',
+  'deflate',
+  'br',
+  'zstd',
+]
+
+/** Either a boolean or a codec name. */
+function compressionConfigURLValue({
+  key,
+  value,
+}: {
+  key: string
+  value: string
+}): boolean | CompressionCodec {
+  const trimmed = value.trim()
+  if (CompressionCodecs.includes(trimmed as CompressionCodec)) {
+    return trimmed as CompressionCodec
+  }
+  if (trimmed === 'true' || trimmed === '1') return true
+  if (trimmed === 'false' || trimmed === '0') return false
+  throw new Error(
+    `"${key}" has invalid value: ${trimmed}. Expected one of: 0, 1, true, false, ${CompressionCodecs.join(', ')}.`,
+  )
+}
+
 export function numberConfigURLValue({
   key,
   value,
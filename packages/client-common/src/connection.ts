@@ -1,9 +1,13 @@
 import type {
+  ClickHouseProgress,
   WithClickHouseSummary,
   WithResponseHeaders,
 } from './clickhouse_types'
+import type { BaseClickHouseClientConfigOptions } from './config'
 import type { LogWriter } from './logger'
+import type { Middleware } from './middleware'
 import type { ClickHouseSettings } from './settings'
+import type { CancelOnAbortSettings, RetrySettings } from './utils'
 
 export interface ConnectionParams {
   url: URL
@@ -16,13 +20,31 @@ export interface ConnectionParams {
   clickhouse_settings: ClickHouseSettings
   log_writer: LogWriter
   keep_alive: { enabled: boolean }
+  retry: RetrySettings
+  /** Set if {@link BaseClickHouseClientConfigOptions.cancel_on_abort} is enabled. */
+  cancel_on_abort?: CancelOnAbortSettings
   application_id?: string
   http_headers?: Record<string, string>
+  /** Shared with the client, which adds to it with {@link ClickHouseClient.use}. */
+  middleware: Middleware[]
 }
 
+/** The compression methods supported by the ClickHouse HTTP interface (as `Content-Encoding` and `Accept-Encoding` values).
+ *  `xz` and `lz4` are not included, as neither Node.js nor the browsers can compress or decompress them without extra dependencies.
+ *  Not all of these are available in every runtime; an unsupported codec is rejected when the client is created. */
+export type CompressionCodec = 'gzip' | 'deflate' | 'br' | 'zstd'
+
 export interface CompressionSettings {
   decompress_response: boolean
   compress_request: boolean
+  /** @default gzip */
+  response_codec?: CompressionCodec
+  /** Sent as `http_zlib_compression_level` setting, which ClickHouse uses for all the codecs. */
+  response_level?: number
+  /** @default gzip */
+  request_codec?: CompressionCodec
+  /** If not set, the default level of the codec is used. */
+  request_level?: number
 }
 
 export interface ConnBaseQueryParams {
@@ -33,10 +55,30 @@ export interface ConnBaseQueryParams {
   session_id?: string
   query_id?: string
   auth?: { username: string; password: string }
+  on_progress?: (progress: ClickHouseProgress) => void
+  /** The overrides of the connection params for this particular request. */
+  request_timeout?: number
+  database?: string
+  http_headers?: Record<string, string>
+  compression?: BaseClickHouseClientConfigOptions['compression']
+}
+
+export interface ConnQueryParams<Stream> extends ConnBaseQueryParams {
+  /** If set, the request body is `multipart/form-data` with a part per table,
+   *  and the query is sent in the URL instead. */
+  external_tables?: ConnExternalTable<Stream>[]
+}
+
+/** An external table with the values already encoded in its format. */
+export interface ConnExternalTable<Stream> {
+  name: string
+  structure: string
+  format: string
+  values: string | Uint8Array | Stream
 }
 
 export interface ConnInsertParams<Stream> extends ConnBaseQueryParams {
-  values: string | Stream
+  values: string | Uint8Array | Stream
 }
 
 export interface ConnExecParams<Stream> extends ConnBaseQueryParams {
@@ -69,8 +111,30 @@ export type ConnOperation = 'Ping' | 'Query' | 'Insert' | 'Exec' | 'Command'
 export interface Connection<Stream> {
   ping(): Promise<ConnPingResult>
   close(): Promise<void>
-  query(params: ConnBaseQueryParams): Promise<ConnQueryResult<Stream>>
+  query(params: ConnQueryParams<Stream>): Promise<ConnQueryResult<Stream>>
   insert(params: ConnInsertParams<Stream>): Promise<ConnInsertResult>
   exec(params: ConnExecParams<Stream>): Promise<ConnExecResult<Stream>>
   command(params: ConnBaseQueryParams): Promise<ConnCommandResult>
+  /** Returns a connection for the requests of a session: all of them are sent to the same endpoint,
+   *  and, if the implementation supports it, over the same keep-alive socket.
+   *  Closing it releases only the resources of the pinned connection. */
+  pin(): Connection<Stream>
+}
+
+/** For the implementations that cannot pin the requests to a socket:
+ *  the requests are sent with the connection itself, and closing the returned one does nothing. */
+export function sharedConnection<Stream>(
+  connection: Connection<Stream>,
+): Connection<Stream> {
+  return {
+    ping: () => connection.ping(),
+    query: (params) => connection.query(params),
+    insert: (params) => connection.insert(params),
+    exec: (params) => connection.exec(params),
+    command: (params) => connection.command(params),
+    pin: () => sharedConnection(connection),
+    close: async () => {
+      // the connection is owned by the client
+    },
+  }
 }
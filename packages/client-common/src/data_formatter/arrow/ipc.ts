@@ -0,0 +1,267 @@
+/**
+ * Minimal support of the Arrow IPC framing, without any dependencies on the Arrow libraries:
+ * the messages are never decoded, only split and (re)assembled as is.
+ * See https://arrow.apache.org/docs/format/Columnar.html#serialization-and-interprocess-communication-ipc
+ */
+
+/** See `MessageHeader` union in https://github.com/apache/arrow/blob/main/format/Message.fbs */
+export type ArrowMessageType =
+  | 'None'
+  | 'Schema'
+  | 'DictionaryBatch'
+  | 'RecordBatch'
+  | 'Tensor'
+  | 'SparseTensor'
+
+const MessageTypes: ArrowMessageType[] = [
+  'None',
+  'Schema',
+  'DictionaryBatch',
+  'RecordBatch',
+  'Tensor',
+  'SparseTensor',
+]
+
+export interface ArrowMessage {
+  type: ArrowMessageType
+  /** The entire encapsulated message: the prefix, the metadata and the body. */
+  bytes: Uint8Array
+}
+
+/** The Arrow file format starts with 'ARROW1' magic string, padded to 8 bytes. */
+const FileMagic = [0x41, 0x52, 0x52, 0x4f, 0x57, 0x31]
+const FileMagicPaddedLength = 8
+const ContinuationMarker = 0xffffffff
+
+/** End-of-stream marker: continuation marker followed by zero metadata length. */
+export const ArrowEOS = new Uint8Array([
+  0xff, 0xff, 0xff, 0xff, 0x00, 0x00, 0x00, 0x00,
+])
+
+/**
+ * Incrementally splits Arrow IPC data (either the streaming format, or the file format)
+ * into the encapsulated messages. Can be fed with the chunks of arbitrary size;
+ * the messages split between the chunks are returned once the rest of the data arrives.
+ * The data after the end-of-stream marker (such as the file format footer) is ignored.
+ */
+export class ArrowIPCMessageReader {
+  private remainder: Uint8Array | null = null
+  private isStarted = false
+  private isEnded = false
+
+  /** Returns all the messages that are fully contained in the data received so far. */
+  read(chunk: Uint8Array): ArrowMessage[] {
+    if (this.isEnded) {
+      return []
+    }
+    let buf = chunk
+    if (this.remainder !== null) {
+      buf = new Uint8Array(this.remainder.length + chunk.length)
+      buf.set(this.remainder)
+      buf.set(chunk, this.remainder.length)
+    }
+    const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength)
+    const messages: ArrowMessage[] = []
+    let pos = 0
+    if (!this.isStarted) {
+      if (buf.length < FileMagicPaddedLength) {
+        this.remainder = buf
+        return messages
+      }
+      if (FileMagic.every((byte, i) => buf[i] === byte)) {
+        pos = FileMagicPaddedLength
+      }
+      this.isStarted = true
+    }
+    while (pos + 4 <= buf.length) {
+      let prefixLength = 4
+      let metadataLength = view.getUint32(pos, true)
+      // the legacy format (before Arrow 0.15) does not have the continuation marker
+      if (metadataLength === ContinuationMarker) {
+        if (pos + 8 > buf.length) {
+          break
+        }
+        prefixLength = 8
+        metadataLength = view.getUint32(pos + 4, true)
+      }
+      if (metadataLength === 0) {
+        this.isEnded = true
+        pos = buf.length
+        break
+      }
+      const metadataStart = pos + prefixLength
+      if (metadataStart + metadataLength > buf.length) {
+        break
+      }
+      const metadata = new DataView(
+        buf.buffer,
+        buf.byteOffset + metadataStart,
+        metadataLength,
+      )
+      const { type, bodyLength } = readMessageHeader(metadata)
+      const messageEnd = metadataStart + metadataLength + bodyLength
+      if (messageEnd > buf.length) {
+        break
+      }
+      messages.push({ type, bytes: buf.subarray(pos, messageEnd) })
+      pos = messageEnd
+    }
+    this.remainder = pos < buf.length ? buf.subarray(pos) : null
+    return messages
+  }
+
+  /** Should be called once the data has ended. Throws if it ended in the middle of a message. */
+  finish(): void {
+    if (this.remainder !== null && !this.isEnded) {
+      const bytes = this.remainder.length
+      this.remainder = null
+      throw new Error(
+        `Arrow stream ended unexpectedly with ${bytes} bytes of incomplete message data`,
+      )
+    }
+  }
+}
+
+/**
+ * Reads the header type and the body length from the flatbuffers-encoded `Message` table:
+ *
+ *   table Message { version: short; header: MessageHeader (union: type + offset); bodyLength: long; ... }
+ */
+function readMessageHeader(metadata: DataView): {
+  type: ArrowMessageType
+  bodyLength: number
+} {
+  const table = metadata.getUint32(0, true)
+  const vtable = table - metadata.getInt32(table, true)
+  const vtableSize = metadata.getUint16(vtable, true)
+  const fieldOffset = (slot: number): number => {
+    const offset = 4 + slot * 2
+    return offset < vtableSize ? metadata.getUint16(vtable + offset, true) : 0
+  }
+  const headerTypeOffset = fieldOffset(1)
+  const bodyLengthOffset = fieldOffset(3)
+  const headerType =
+    headerTypeOffset !== 0 ? metadata.getUint8(table + headerTypeOffset) : 0
+  const bodyLength =
+    bodyLengthOffset !== 0
+      ? Number(metadata.getBigInt64(table + bodyLengthOffset, true))
+      : 0
+  return { type: MessageTypes[headerType] ?? 'None', bodyLength }
+}
+
+/**
+ * Splits an Arrow IPC response into the separate record batches. Each returned batch
+ * is a complete Arrow IPC stream on its own: the schema, the dictionaries received so far,
+ * a single record batch and the end-of-stream marker, so it can be read by any Arrow implementation,
+ * e.g., with `tableFromIPC` from `apache-arrow`.
+ */
+export class ArrowRecordBatchSplitter {
+  private readonly reader = new ArrowIPCMessageReader()
+  private schema: Uint8Array | null = null
+  private dictionaries: Uint8Array[] = []
+
+  /** Returns all the record batches that are fully contained in the data received so far. */
+  split(chunk: Uint8Array): Uint8Array[] {
+    const batches: Uint8Array[] = []
+    for (const message of this.reader.read(chunk)) {
+      switch (message.type) {
+        case 'Schema':
+          this.schema = copyBytes(message.bytes)
+          break
+        case 'DictionaryBatch':
+          // replacements and deltas are applied in order by the readers
+          this.dictionaries.push(copyBytes(message.bytes))
+          break
+        case 'RecordBatch':
+          if (this.schema === null) {
+            throw new Error('Arrow stream does not start with a schema message')
+          }
+          batches.push(
+            concatBytes([
+              this.schema,
+              ...this.dictionaries,
+              message.bytes,
+              ArrowEOS,
+            ]),
+          )
+          break
+      }
+    }
+    return batches
+  }
+
+  /** Should be called once the data has ended. Throws if it ended in the middle of a message. */
+  finish(): void {
+    this.reader.finish()
+  }
+}
+
+/**
+ * Combines multiple Arrow IPC inputs (in the streaming or in the file format) with the same schema
+ * into a single Arrow IPC stream, which is what ClickHouse expects with the `ArrowStream` format.
+ * The schema is taken from the first input; the schema messages and the end-of-stream markers
+ * of the subsequent inputs are dropped.
+ */
+export class ArrowIPCStreamWriter {
+  private isSchemaWritten = false
+
+  /** Returns the messages of a complete Arrow IPC input to be appended to the resulting stream. */
+  write(ipc: Uint8Array): Uint8Array {
+    if (!(ipc instanceof Uint8Array)) {
+      throw new Error(
+        `Expected Arrow IPC data as Uint8Array, got ${typeof ipc}`,
+      )
+    }
+    const reader = new ArrowIPCMessageReader()
+    const messages = reader.read(ipc)
+    reader.finish()
+    const result: Uint8Array[] = []
+    for (const message of messages) {
+      if (message.type === 'Schema') {
+        if (this.isSchemaWritten) {
+          continue
+        }
+        this.isSchemaWritten = true
+      }
+      result.push(message.bytes)
+    }
+    // e.g., the file format written by apache-arrow JS keeps the schema only in the footer
+    if (!this.isSchemaWritten) {
+      throw new Error(
+        'Arrow IPC data does not start with a schema message. Use the Arrow streaming format instead.',
+      )
+    }
+    return concatBytes(result)
+  }
+
+  /** The end-of-stream marker to be appended after all the inputs were written. */
+  finish(): Uint8Array {
+    return ArrowEOS
+  }
+}
+
+/** Combines multiple Arrow IPC inputs into a single Arrow IPC stream, see {@link ArrowIPCStreamWriter}. */
+export function encodeArrowIPCStream(
+  inputs: ReadonlyArray<Uint8Array>,
+): Uint8Array {
+  const writer = new ArrowIPCStreamWriter()
+  return concatBytes([
+    ...inputs.map((ipc) => writer.write(ipc)),
+    writer.finish(),
+  ])
+}
+
+/** Not retaining the entire response chunk; note that Buffer.slice in Node.js does not copy. */
+function copyBytes(bytes: Uint8Array): Uint8Array {
+  return new Uint8Array(bytes)
+}
+
+function concatBytes(arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((sz, a) => sz + a.length, 0))
+  let offset = 0
+  for (const array of arrays) {
+    result.set(array, offset)
+    offset += array.length
+  }
+  return result
+}
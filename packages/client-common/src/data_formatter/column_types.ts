@@ -0,0 +1,418 @@
+export const SimpleColumnTypes = [
+  'Bool',
+  'UInt8',
+  'Int8',
+  'UInt16',
+  'Int16',
+  'UInt32',
+  'Int32',
+  'UInt64',
+  'Int64',
+  'UInt128',
+  'Int128',
+  'UInt256',
+  'Int256',
+  'Float32',
+  'Float64',
+  'String',
+  'UUID',
+  'IPv4',
+  'IPv6',
+  'Date',
+  'Date32',
+  'Nothing',
+] as const
+export type SimpleColumnType = (typeof SimpleColumnTypes)[number]
+
+export interface ParsedColumnSimple {
+  type: 'Simple'
+  /** Without LowCardinality and Nullable. For example:
+   *  * UInt8 -> UInt8
+   *  * LowCardinality(Nullable(String)) -> String */
+  column_type: SimpleColumnType
+  /** The original type before parsing. */
+  source_type: string
+}
+
+export interface ParsedColumnFixedString {
+  type: 'FixedString'
+  length: number
+  source_type: string
+}
+
+export interface ParsedColumnDateTime {
+  type: 'DateTime'
+  timezone: string | null
+  source_type: string
+}
+
+export interface ParsedColumnDateTime64 {
+  type: 'DateTime64'
+  timezone: string | null
+  /** Valid range: [0 : 9] */
+  precision: number
+  source_type: string
+}
+
+export interface ParsedColumnDecimal {
+  type: 'Decimal'
+  /** Valid range: [1 : 76] */
+  precision: number
+  /** Valid range: [0 : precision] */
+  scale: number
+  /** Size of the underlying integer in bits, depends on the precision. */
+  int_size: 32 | 64 | 128 | 256
+  source_type: string
+}
+
+export interface ParsedColumnEnum {
+  type: 'Enum'
+  /** Index to name */
+  values: Record<number, string>
+  /** UInt8 or UInt16 */
+  int_size: 8 | 16
+  source_type: string
+}
+
+export interface ParsedColumnNullable {
+  type: 'Nullable'
+  value: ParsedColumnType
+  source_type: string
+}
+
+export interface ParsedColumnLowCardinality {
+  type: 'LowCardinality'
+  value: ParsedColumnType
+  source_type: string
+}
+
+export interface ParsedColumnArray {
+  type: 'Array'
+  value: ParsedColumnType
+  source_type: string
+}
+
+export interface ParsedColumnTuple {
+  type: 'Tuple'
+  /** Element names are set only for the named tuples, such as `Tuple(a String, b UInt8)`. */
+  elements: Array<{ name: string | null; type: ParsedColumnType }>
+  source_type: string
+}
+
+export interface ParsedColumnMap {
+  type: 'Map'
+  key: ParsedColumnType
+  value: ParsedColumnType
+  source_type: string
+}
+
+export type ParsedColumnType =
+  | ParsedColumnSimple
+  | ParsedColumnFixedString
+  | ParsedColumnDateTime
+  | ParsedColumnDateTime64
+  | ParsedColumnDecimal
+  | ParsedColumnEnum
+  | ParsedColumnNullable
+  | ParsedColumnLowCardinality
+  | ParsedColumnArray
+  | ParsedColumnTuple
+  | ParsedColumnMap
+
+/** Names and types of the columns, in the same order as in the dataset.
+ *  It is the same shape as `meta` in {@link ResponseJSON}, or the output of `DESCRIBE TABLE`. */
+export type ColumnSchema = Array<{ name: string; type: string }>
+
+/** Geo types are just aliases for certain combinations of Tuples and Arrays.
+ *  See https://clickhouse.com/docs/en/sql-reference/data-types/geo */
+const GeoTypeAliases: Record<string, string> = {
+  Point: 'Tuple(Float64, Float64)',
+  Ring: 'Array(Tuple(Float64, Float64))',
+  LineString: 'Array(Tuple(Float64, Float64))',
+  MultiLineString: 'Array(Array(Tuple(Float64, Float64)))',
+  Polygon: 'Array(Array(Tuple(Float64, Float64)))',
+  MultiPolygon: 'Array(Array(Array(Tuple(Float64, Float64))))',
+}
+
+/**
+ * Parses a ClickHouse data type, as it is returned by the server
+ * (e.g., `DESCRIBE TABLE` output or `*WithNamesAndTypes` formats headers), into a tree.
+ * Throws if the type is not supported by the client.
+ * @see https://clickhouse.com/docs/en/sql-reference/data-types
+ */
+export function parseColumnType(source_type: string): ParsedColumnType {
+  const columnType = source_type.trim()
+  if ((SimpleColumnTypes as readonly string[]).includes(columnType)) {
+    return {
+      type: 'Simple',
+      column_type: columnType as SimpleColumnType,
+      source_type,
+    }
+  }
+  if (columnType === 'DateTime') {
+    return { type: 'DateTime', timezone: null, source_type }
+  }
+  if (columnType in GeoTypeAliases) {
+    return {
+      ...parseColumnType(GeoTypeAliases[columnType]),
+      source_type,
+    }
+  }
+  const openParenIdx = columnType.indexOf('(')
+  if (openParenIdx === -1 || !columnType.endsWith(')')) {
+    throw unsupportedColumnTypeError(source_type)
+  }
+  const typeName = columnType.slice(0, openParenIdx)
+  const args = splitTypeArguments(columnType.slice(openParenIdx + 1, -1))
+  switch (typeName) {
+    case 'Nullable':
+      return {
+        type: 'Nullable',
+        value: parseColumnType(singleArgument(source_type, args)),
+        source_type,
+      }
+    case 'LowCardinality':
+      return {
+        type: 'LowCardinality',
+        value: parseColumnType(singleArgument(source_type, args)),
+        source_type,
+      }
+    case 'Array':
+      return {
+        type: 'Array',
+        value: parseColumnType(singleArgument(source_type, args)),
+        source_type,
+      }
+    case 'Map':
+      if (args.length !== 2) {
+        throw invalidColumnTypeError(source_type, 'expected two arguments')
+      }
+      return {
+        type: 'Map',
+        key: parseColumnType(args[0]),
+        value: parseColumnType(args[1]),
+        source_type,
+      }
+    case 'Tuple':
+    case 'Nested':
+      return parseTuple(source_type, typeName, args)
+    case 'FixedString':
+      return {
+        type: 'FixedString',
+        length: integerArgument(source_type, singleArgument(source_type, args)),
+        source_type,
+      }
+    case 'DateTime':
+      return {
+        type: 'DateTime',
+        timezone: stringArgument(
+          source_type,
+          singleArgument(source_type, args),
+        ),
+        source_type,
+      }
+    case 'DateTime64':
+      if (args.length < 1 || args.length > 2) {
+        throw invalidColumnTypeError(source_type, 'expected 1 or 2 arguments')
+      }
+      return {
+        type: 'DateTime64',
+        precision: integerArgument(source_type, args[0]),
+        timezone:
+          args.length === 2 ? stringArgument(source_type, args[1]) : null,
+        source_type,
+      }
+    case 'Decimal':
+      if (args.length !== 2) {
+        throw invalidColumnTypeError(source_type, 'expected two arguments')
+      }
+      return decimal(
+        source_type,
+        integerArgument(source_type, args[0]),
+        integerArgument(source_type, args[1]),
+      )
+    case 'Decimal32':
+      return decimal(source_type, 9, scaleArgument(source_type, args))
+    case 'Decimal64':
+      return decimal(source_type, 18, scaleArgument(source_type, args))
+    case 'Decimal128':
+      return decimal(source_type, 38, scaleArgument(source_type, args))
+    case 'Decimal256':
+      return decimal(source_type, 76, scaleArgument(source_type, args))
+    case 'Enum8':
+    case 'Enum16':
+      return parseEnum(source_type, typeName === 'Enum8' ? 8 : 16, args)
+    case 'SimpleAggregateFunction':
+      // SimpleAggregateFunction(func, T) is serialized exactly as T
+      if (args.length !== 2) {
+        throw invalidColumnTypeError(source_type, 'expected two arguments')
+      }
+      return { ...parseColumnType(args[1]), source_type }
+    default:
+      throw unsupportedColumnTypeError(source_type)
+  }
+}
+
+/** Splits the arguments of a type by commas, respecting nested parentheses and quoted strings. */
+function splitTypeArguments(input: string): string[] {
+  const result: string[] = []
+  let depth = 0
+  let inQuotes = false
+  let start = 0
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '\\') {
+        i++ // skip the escaped character
+      } else if (char === "'") {
+        inQuotes = false
+      }
+      continue
+    }
+    switch (char) {
+      case "'":
+        inQuotes = true
+        break
+      case '(':
+        depth++
+        break
+      case ')':
+        depth--
+        break
+      case ',':
+        if (depth === 0) {
+          result.push(input.slice(start, i).trim())
+          start = i + 1
+        }
+        break
+    }
+  }
+  const last = input.slice(start).trim()
+  if (last !== '') {
+    result.push(last)
+  }
+  return result
+}
+
+const NamedElementRe = /^(`(?:[^`\\]|\\.)+`|[a-zA-Z_][a-zA-Z0-9_]*)\s+(.+)$/s
+
+/** Parses a table structure, such as `id UInt64, name String`, into the names and types of the columns. */
+export function parseStructure(structure: string): ColumnSchema {
+  return splitTypeArguments(structure).map((column) => {
+    const match = column.match(NamedElementRe)
+    if (match === null) {
+      throw new Error(
+        `Invalid structure: ${structure}. Expected the column name and type, got: ${column}`,
+      )
+    }
+    return { name: unquoteName(match[1]), type: match[2].trim() }
+  })
+}
+
+function unquoteName(name: string): string {
+  return name.startsWith('`') ? name.slice(1, -1).replace(/\\(.)/g, '$1') : name
+}
+
+function parseTuple(
+  source_type: string,
+  typeName: 'Tuple' | 'Nested',
+  args: string[],
+): ParsedColumnTuple | ParsedColumnArray {
+  if (args.length === 0) {
+    throw invalidColumnTypeError(source_type, 'expected at least one element')
+  }
+  const elements = args.map((arg) => {
+    const match = arg.match(NamedElementRe)
+    if (match !== null) {
+      return { name: unquoteName(match[1]), type: parseColumnType(match[2]) }
+    }
+    return { name: null, type: parseColumnType(arg) }
+  })
+  const tuple: ParsedColumnTuple = { type: 'Tuple', elements, source_type }
+  // Nested(a T1, b T2) is the same as Array(Tuple(a T1, b T2))
+  return typeName === 'Nested'
+    ? { type: 'Array', value: tuple, source_type }
+    : tuple
+}
+
+function parseEnum(
+  source_type: string,
+  int_size: 8 | 16,
+  args: string[],
+): ParsedColumnEnum {
+  if (args.length === 0) {
+    throw invalidColumnTypeError(source_type, 'expected at least one value')
+  }
+  const values: Record<number, string> = {}
+  for (const arg of args) {
+    const eqIdx = arg.lastIndexOf('=')
+    if (eqIdx === -1) {
+      throw invalidColumnTypeError(source_type, `invalid enum value ${arg}`)
+    }
+    const name = stringArgument(source_type, arg.slice(0, eqIdx).trim())
+    values[integerArgument(source_type, arg.slice(eqIdx + 1))] = name
+  }
+  return { type: 'Enum', values, int_size, source_type }
+}
+
+function decimal(
+  source_type: string,
+  precision: number,
+  scale: number,
+): ParsedColumnDecimal {
+  if (precision < 1 || precision > 76) {
+    throw invalidColumnTypeError(source_type, 'precision out of [1, 76] range')
+  }
+  if (scale < 0 || scale > precision) {
+    throw invalidColumnTypeError(source_type, 'scale out of [0, P] range')
+  }
+  let int_size: ParsedColumnDecimal['int_size'] = 256
+  if (precision <= 9) {
+    int_size = 32
+  } else if (precision <= 18) {
+    int_size = 64
+  } else if (precision <= 38) {
+    int_size = 128
+  }
+  return { type: 'Decimal', precision, scale, int_size, source_type }
+}
+
+function singleArgument(source_type: string, args: string[]): string {
+  if (args.length !== 1) {
+    throw invalidColumnTypeError(source_type, 'expected a single argument')
+  }
+  return args[0]
+}
+
+function scaleArgument(source_type: string, args: string[]): number {
+  return integerArgument(source_type, singleArgument(source_type, args))
+}
+
+function integerArgument(source_type: string, arg: string): number {
+  const trimmed = arg.trim()
+  const value = Number(trimmed)
+  if (trimmed === '' || !Number.isInteger(value)) {
+    throw invalidColumnTypeError(source_type, `${arg} is not an integer`)
+  }
+  return value
+}
+
+function stringArgument(source_type: string, arg: string): string {
+  const trimmed = arg.trim()
+  if (
+    trimmed.length < 2 ||
+    !trimmed.startsWith("'") ||
+    !trimmed.endsWith("'")
+  ) {
+    throw invalidColumnTypeError(source_type, `${arg} is not a quoted string`)
+  }
+  return trimmed.slice(1, -1).replace(/\\(.)/g, '$1')
+}
+
+function unsupportedColumnTypeError(source_type: string): Error {
+  return new Error(`Unsupported column type: ${source_type}`)
+}
+
+function invalidColumnTypeError(source_type: string, reason: string): Error {
+  return new Error(`Invalid column type: ${source_type}, ${reason}`)
+}
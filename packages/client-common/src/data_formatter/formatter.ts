@@ -33,15 +33,42 @@ export const SupportedRawFormats = [
   'CustomSeparatedWithNames',
   'CustomSeparatedWithNamesAndTypes',
   'Parquet',
+  'Arrow',
+  'ArrowStream',
 ] as const
+/** Raw formats with binary output; the response is streamed as is, without splitting it into rows. */
+export const BinaryRawFormats = ['Parquet', 'Arrow', 'ArrowStream'] as const
+export const ArrowFormats = ['Arrow', 'ArrowStream'] as const
+export const RowBinaryFormats = [
+  'RowBinary',
+  'RowBinaryWithNamesAndTypes',
+] as const
+export const NativeFormats = ['Native'] as const
 export const StreamableFormats = [
   ...StreamableJSONFormats,
   ...SupportedRawFormats,
+  ...RowBinaryFormats,
 ] as const
 
 /** CSV, TSV, etc. - can be streamed, but cannot be decoded as JSON. */
 export type RawDataFormat = (typeof SupportedRawFormats)[number]
 
+/** Parquet, Arrow, etc. - streamed as raw bytes. */
+export type BinaryRawDataFormat = (typeof BinaryRawFormats)[number]
+
+/** Arrow IPC file and streaming formats.
+ *  @see https://clickhouse.com/docs/en/interfaces/formats#data-format-arrow */
+export type ArrowDataFormat = (typeof ArrowFormats)[number]
+
+/** Rows are encoded in a binary format, and these formats can be streamed.
+ *  Every row is decoded into a JS object with the column names as keys.
+ *  @see https://clickhouse.com/docs/en/interfaces/formats#rowbinary */
+export type RowBinaryDataFormat = (typeof RowBinaryFormats)[number]
+
+/** Column-oriented binary format; the results are consumed block by block, with typed arrays as the column values.
+ *  @see https://clickhouse.com/docs/en/interfaces/formats#native */
+export type NativeDataFormat = (typeof NativeFormats)[number]
+
 /** Each row is returned as a separate JSON object or an array, and these formats can be streamed. */
 export type StreamableJSONDataFormat = (typeof StreamableJSONFormats)[number]
 
@@ -67,8 +94,14 @@ export type JSONDataFormat =
  *  * {@link StreamableJSONDataFormat}
  *  * {@link SingleDocumentJSONFormat}
  *  * {@link RecordsJSONFormat}
+ *  * {@link RowBinaryDataFormat}
+ *  * {@link NativeDataFormat}
  *  @see https://clickhouse.com/docs/en/interfaces/formats */
-export type DataFormat = JSONDataFormat | RawDataFormat
+export type DataFormat =
+  | JSONDataFormat
+  | RawDataFormat
+  | RowBinaryDataFormat
+  | NativeDataFormat
 
 /** All data formats that can be streamed, whether it can be decoded as JSON or not. */
 export type StreamableDataFormat = (typeof StreamableFormats)[number]
@@ -88,6 +121,26 @@ export function isStreamableJSONFamily(
   return (StreamableJSONFormats as readonly string[]).includes(format)
 }
 
+export function isRowBinaryFormat(
+  format: DataFormat,
+): format is RowBinaryDataFormat {
+  return (RowBinaryFormats as readonly string[]).includes(format)
+}
+
+export function isNativeFormat(format: DataFormat): format is NativeDataFormat {
+  return (NativeFormats as readonly string[]).includes(format)
+}
+
+export function isBinaryRawFormat(
+  format: DataFormat,
+): format is BinaryRawDataFormat {
+  return (BinaryRawFormats as readonly string[]).includes(format)
+}
+
+export function isArrowFormat(format: DataFormat): format is ArrowDataFormat {
+  return (ArrowFormats as readonly string[]).includes(format)
+}
+
 export function isSupportedRawFormat(dataFormat: DataFormat) {
   return (SupportedRawFormats as readonly string[]).includes(dataFormat)
 }
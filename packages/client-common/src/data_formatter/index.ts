@@ -1,3 +1,9 @@
 export * from './formatter'
+export * from './column_types'
+export * from './row_binary'
+export * from './native'
+export * from './arrow'
+export * from './value_converter'
+export * from './insert_validator'
 export { formatQueryParams } from './format_query_params'
 export { formatQuerySettings } from './format_query_settings'
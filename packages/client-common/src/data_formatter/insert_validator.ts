@@ -0,0 +1,443 @@
+import type { ParsedColumnType } from './column_types'
+import { parseColumnType } from './column_types'
+import type { DataFormat } from './formatter'
+
+/** A column the values are inserted into. */
+export interface InsertValidationColumn {
+  name: string
+  type: string
+  /** If the column has a default expression, it can be omitted in the inserted rows. */
+  has_default: boolean
+}
+
+export interface InsertValidationFailure {
+  /** The index of the row in the inserted values; for a stream, the index of the row since the start of the stream. */
+  row: number
+  /** Not set if the failure is related to the whole row, e.g., if an array row has a wrong number of values. */
+  column?: string
+  message: string
+}
+
+/** Thrown by {@link ClickHouseClient.insert} with `validate: true` if some of the rows do not match the table schema.
+ *  The insert is not sent if the values are an array; otherwise, the insert is aborted at the first invalid row. */
+export class InsertValidationError extends Error {
+  constructor(public readonly failures: InsertValidationFailure[]) {
+    super(formatFailures(failures))
+    this.name = 'InsertValidationError'
+    // Set the prototype explicitly, see:
+    // https://github.com/Microsoft/TypeScript/wiki/Breaking-Changes#extending-built-ins-like-error-array-and-map-may-no-longer-work
+    Object.setPrototypeOf(this, InsertValidationError.prototype)
+  }
+}
+
+/** The formats with the object rows (validated by the column names) and the array rows (validated by the position). */
+const ObjectRowFormats: DataFormat[] = [
+  'JSONEachRow',
+  'JSON',
+  'JSONObjectEachRow',
+]
+const ArrayRowFormats: DataFormat[] = ['JSONCompactEachRow', 'JSONCompact']
+
+/** The number of failures included in the error message; all of them are available in {@link InsertValidationError.failures}. */
+const MaxFailuresInMessage = 10
+
+/**
+ * Checks the inserted rows against the columns of the table before they are sent:
+ * unknown and missing columns, the types of the values, the ranges of the integers and the values of the enums.
+ * A new instance is required for each of the inserts, as it counts the streamed rows.
+ */
+export class InsertValuesValidator {
+  private readonly columns: Array<
+    InsertValidationColumn & { parsed: ParsedColumnType | null }
+  >
+  private readonly objectRows: boolean
+  private rowIndex = 0
+
+  constructor(format: DataFormat, columns: InsertValidationColumn[]) {
+    if (
+      !ObjectRowFormats.includes(format) &&
+      !ArrayRowFormats.includes(format)
+    ) {
+      throw new Error(
+        `Insert values validation is not supported for the ${format} format. Supported formats: ${[...ObjectRowFormats, ...ArrayRowFormats].join(', ')}.`,
+      )
+    }
+    this.objectRows = ObjectRowFormats.includes(format)
+    this.columns = columns.map((column) => {
+      let parsed: ParsedColumnType | null
+      try {
+        parsed = parseColumnType(column.type)
+      } catch (_) {
+        // the values of the types not supported by the client are not checked
+        parsed = null
+      }
+      return { ...column, parsed }
+    })
+  }
+
+  /** Validates all the rows of an array, or of a JSON / JSONObjectEachRow input, and reports all the failures. */
+  validateAll(values: unknown): void {
+    const failures: InsertValidationFailure[] = []
+    for (const row of getRows(values)) {
+      failures.push(...this.validateRow(row, this.rowIndex++))
+    }
+    if (failures.length > 0) {
+      throw new InsertValidationError(failures)
+    }
+  }
+
+  /** Validates the next row of a stream or an iterable. */
+  validateNext(row: unknown): void {
+    const failures = this.validateRow(row, this.rowIndex++)
+    if (failures.length > 0) {
+      throw new InsertValidationError(failures)
+    }
+  }
+
+  private validateRow(row: unknown, index: number): InsertValidationFailure[] {
+    if (this.objectRows) {
+      return this.validateObjectRow(row, index)
+    }
+    if (!Array.isArray(row)) {
+      return [
+        { row: index, message: `expected an array, got: ${describe(row)}` },
+      ]
+    }
+    if (row.length !== this.columns.length) {
+      return [
+        {
+          row: index,
+          message: `expected ${this.columns.length} values, got: ${row.length}`,
+        },
+      ]
+    }
+    const failures: InsertValidationFailure[] = []
+    this.columns.forEach((column, i) => {
+      const message = checkValue(row[i], column.parsed)
+      if (message !== null) {
+        failures.push({ row: index, column: column.name, message })
+      }
+    })
+    return failures
+  }
+
+  private validateObjectRow(
+    row: unknown,
+    index: number,
+  ): InsertValidationFailure[] {
+    if (!isPlainObject(row)) {
+      return [
+        { row: index, message: `expected an object, got: ${describe(row)}` },
+      ]
+    }
+    const failures: InsertValidationFailure[] = []
+    for (const column of this.columns) {
+      const value = row[column.name]
+      if (value === undefined) {
+        if (
+          !column.has_default &&
+          column.parsed !== null &&
+          !isNullable(column.parsed)
+        ) {
+          failures.push({
+            row: index,
+            column: column.name,
+            message: 'the value is missing, and the column has no default',
+          })
+        }
+        continue
+      }
+      const message = checkValue(value, column.parsed)
+      if (message !== null) {
+        failures.push({ row: index, column: column.name, message })
+      }
+    }
+    for (const key of Object.keys(row)) {
+      if (!this.columns.some(({ name }) => name === key)) {
+        failures.push({ row: index, column: key, message: 'unknown column' })
+      }
+    }
+    return failures
+  }
+}
+
+function getRows(values: unknown): unknown[] {
+  if (Array.isArray(values)) {
+    return values
+  }
+  if (isPlainObject(values)) {
+    // JSON format input: { meta, data }
+    if (Array.isArray(values['data'])) {
+      return values['data']
+    }
+    // JSONObjectEachRow format input: { row_key: row }
+    return Object.values(values)
+  }
+  return []
+}
+
+/** Returns the reason if the value cannot be inserted into the column of the type, or `null` if it can. */
+function checkValue(
+  value: unknown,
+  type: ParsedColumnType | null,
+): string | null {
+  if (type === null) {
+    return null
+  }
+  if (value === null || value === undefined) {
+    return isNullable(type) || isNothing(type)
+      ? null
+      : `expected ${type.source_type}, got: null`
+  }
+  if (typeof value === 'bigint') {
+    return `bigint values cannot be serialized as JSON, use a string instead: ${value}`
+  }
+  const expected = `expected ${type.source_type}, got: ${describe(value)}`
+  switch (type.type) {
+    case 'Nullable':
+    case 'LowCardinality':
+      return checkValue(value, type.value)
+    case 'Simple':
+      return checkSimpleValue(value, type.column_type, expected)
+    case 'FixedString':
+      if (typeof value !== 'string') {
+        return expected
+      }
+      return new TextEncoder().encode(value).length > type.length
+        ? `the value is longer than ${type.length} bytes`
+        : null
+    case 'DateTime':
+    case 'DateTime64':
+      return typeof value === 'string' || typeof value === 'number'
+        ? null
+        : expected
+    case 'Decimal': {
+      let integerDigits: number
+      if (typeof value === 'number') {
+        integerDigits = Math.trunc(Math.abs(value)).toString().length
+      } else if (typeof value === 'string' && DecimalRe.test(value)) {
+        integerDigits = value.replace(/^[-+]/, '').split('.')[0].length
+      } else {
+        return expected
+      }
+      return integerDigits > type.precision - type.scale
+        ? `${value} is out of range of ${type.source_type}`
+        : null
+    }
+    case 'Enum': {
+      const names = Object.values(type.values)
+      if (typeof value === 'string') {
+        return names.includes(value)
+          ? null
+          : `${JSON.stringify(value)} is not a value of ${type.source_type}`
+      }
+      if (typeof value === 'number') {
+        return value in type.values
+          ? null
+          : `${value} is not a value of ${type.source_type}`
+      }
+      return expected
+    }
+    case 'Array': {
+      if (!Array.isArray(value)) {
+        return expected
+      }
+      for (let i = 0; i < value.length; i++) {
+        const message = checkValue(value[i], type.value)
+        if (message !== null) {
+          return `element ${i}: ${message}`
+        }
+      }
+      return null
+    }
+    case 'Tuple': {
+      if (Array.isArray(value)) {
+        if (value.length !== type.elements.length) {
+          return expected
+        }
+        for (let i = 0; i < value.length; i++) {
+          const message = checkValue(value[i], type.elements[i].type)
+          if (message !== null) {
+            return `element ${i}: ${message}`
+          }
+        }
+        return null
+      }
+      if (
+        !isPlainObject(value) ||
+        type.elements.some(({ name }) => name === null)
+      ) {
+        return expected
+      }
+      for (const { name, type: elementType } of type.elements) {
+        const message = checkValue(value[name as string], elementType)
+        if (message !== null) {
+          return `element ${name}: ${message}`
+        }
+      }
+      return null
+    }
+    case 'Map': {
+      if (value instanceof Map) {
+        return 'Map instances are serialized as empty JSON objects, use a plain object instead'
+      }
+      if (!isPlainObject(value)) {
+        return expected
+      }
+      for (const [key, v] of Object.entries(value)) {
+        const message = checkMapKey(key, type.key) ?? checkValue(v, type.value)
+        if (message !== null) {
+          return `key ${JSON.stringify(key)}: ${message}`
+        }
+      }
+      return null
+    }
+  }
+}
+
+function checkSimpleValue(
+  value: unknown,
+  columnType: string,
+  expected: string,
+): string | null {
+  switch (columnType) {
+    case 'Bool':
+      return typeof value === 'boolean' || value === 0 || value === 1
+        ? null
+        : expected
+    case 'Float32':
+    case 'Float64':
+      return typeof value === 'number' ||
+        (typeof value === 'string' && FloatRe.test(value))
+        ? null
+        : expected
+    case 'String':
+      return typeof value === 'string' ? null : expected
+    case 'UUID':
+      return typeof value === 'string' && UUIDRe.test(value) ? null : expected
+    case 'IPv4':
+      return (typeof value === 'string' && IPv4Re.test(value)) ||
+        (typeof value === 'number' &&
+          Number.isInteger(value) &&
+          value >= 0 &&
+          value <= 0xffffffff)
+        ? null
+        : expected
+    case 'IPv6':
+    case 'Date':
+    case 'Date32':
+      return typeof value === 'string' ||
+        (columnType !== 'IPv6' && typeof value === 'number')
+        ? null
+        : expected
+    case 'Nothing':
+      return expected
+  }
+  const range = IntegerRanges[columnType]
+  if (range === undefined) {
+    return null
+  }
+  let int: bigint
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      return expected
+    }
+    if (!Number.isSafeInteger(value)) {
+      return `${value} is not a safe integer and might have lost its precision, use a string instead`
+    }
+    int = BigInt(value)
+  } else if (typeof value === 'string' && IntegerRe.test(value)) {
+    int = BigInt(value)
+  } else {
+    return expected
+  }
+  return int < range[0] || int > range[1]
+    ? `${value} is out of range of ${columnType}`
+    : null
+}
+
+function checkMapKey(key: string, type: ParsedColumnType): string | null {
+  const keyType = type.type === 'LowCardinality' ? type.value : type
+  // the keys are always strings in JSON, so the numeric ones are checked as strings
+  if (
+    keyType.type === 'Simple' &&
+    IntegerRanges[keyType.column_type] !== undefined
+  ) {
+    return checkValue(key, keyType)
+  }
+  return null
+}
+
+function isNullable(type: ParsedColumnType): boolean {
+  return (
+    type.type === 'Nullable' ||
+    (type.type === 'LowCardinality' && type.value.type === 'Nullable')
+  )
+}
+
+function isNothing(type: ParsedColumnType): boolean {
+  return type.type === 'Simple' && type.column_type === 'Nothing'
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value)
+  }
+  if (Array.isArray(value)) {
+    return 'an array'
+  }
+  if (value === null) {
+    return 'null'
+  }
+  if (typeof value === 'object') {
+    return 'an object'
+  }
+  return `${typeof value} ${String(value)}`
+}
+
+function formatFailures(failures: InsertValidationFailure[]): string {
+  const lines = failures
+    .slice(0, MaxFailuresInMessage)
+    .map(
+      ({ row, column, message }) =>
+        `  row ${row}${column !== undefined ? `, column ${column}` : ''}: ${message}`,
+    )
+  if (failures.length > MaxFailuresInMessage) {
+    lines.push(`  ... and ${failures.length - MaxFailuresInMessage} more`)
+  }
+  return `Insert values do not match the table schema:\n${lines.join('\n')}`
+}
+
+const IntegerRe = /^[-+]?\d+$/
+const FloatRe = /^[-+]?(\d+(\.\d*)?([eE][-+]?\d+)?|inf|nan)$/i
+const DecimalRe = /^[-+]?\d+(\.\d+)?$/
+const UUIDRe = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const IPv4Re = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/
+
+/** The minimum and the maximum values of the integer types. */
+export const IntegerRanges: Record<string, [bigint, bigint] | undefined> = {
+  UInt8: unsignedRange(8),
+  UInt16: unsignedRange(16),
+  UInt32: unsignedRange(32),
+  UInt64: unsignedRange(64),
+  UInt128: unsignedRange(128),
+  UInt256: unsignedRange(256),
+  Int8: signedRange(8),
+  Int16: signedRange(16),
+  Int32: signedRange(32),
+  Int64: signedRange(64),
+  Int128: signedRange(128),
+  Int256: signedRange(256),
+}
+
+function unsignedRange(bits: number): [bigint, bigint] {
+  return [0n, (1n << BigInt(bits)) - 1n]
+}
+
+function signedRange(bits: number): [bigint, bigint] {
+  return [-(1n << BigInt(bits - 1)), (1n << BigInt(bits - 1)) - 1n]
+}
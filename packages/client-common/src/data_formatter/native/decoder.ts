@@ -0,0 +1,318 @@
+import type {
+  ColumnSchema,
+  ParsedColumnSimple,
+  ParsedColumnType,
+} from '../column_types'
+import { parseColumnType } from '../column_types'
+import type { DecoderState } from '../row_binary'
+import {
+  ensureAvailable,
+  getRowBinaryValueDecoder,
+  NotEnoughData,
+  readLEB128,
+  readString,
+} from '../row_binary'
+
+/** Values of a single column in a {@link NativeBlock}.
+ *  Numeric columns (except the 128 and 256-bit integers) are represented as typed arrays;
+ *  the rest of the columns are regular arrays, with the same values as in the decoded RowBinary rows. */
+export type NativeColumnValues =
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | BigInt64Array
+  | BigUint64Array
+  | Float32Array
+  | Float64Array
+  | unknown[]
+
+export interface NativeBlock {
+  /** Names and types of the columns. */
+  meta: ColumnSchema
+  /** Values of the columns, in the same order as in {@link NativeBlock.meta}. */
+  columns: NativeColumnValues[]
+  /** Number of rows in the block. */
+  rows: number
+}
+
+type TypedArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int32ArrayConstructor
+  | Uint32ArrayConstructor
+  | BigInt64ArrayConstructor
+  | BigUint64ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor
+
+const TypedArrays: Partial<
+  Record<ParsedColumnSimple['column_type'], TypedArrayConstructor>
+> = {
+  UInt8: Uint8Array,
+  Int8: Int8Array,
+  UInt16: Uint16Array,
+  Int16: Int16Array,
+  UInt32: Uint32Array,
+  Int32: Int32Array,
+  UInt64: BigUint64Array,
+  Int64: BigInt64Array,
+  Float32: Float32Array,
+  Float64: Float64Array,
+}
+
+export type ColumnDecoder = (
+  state: DecoderState,
+  rows: number,
+) => NativeColumnValues
+
+/** Reads the values one by one, as they are serialized the same way as in RowBinary. */
+function valueByValueDecoder(columnType: ParsedColumnType): ColumnDecoder {
+  const decodeValue = getRowBinaryValueDecoder(columnType)
+  return (state, rows) => {
+    const result = new Array(rows)
+    for (let i = 0; i < rows; i++) {
+      result[i] = decodeValue(state)
+    }
+    return result
+  }
+}
+
+function readOffsets(state: DecoderState, rows: number): number[] {
+  ensureAvailable(state, rows * 8)
+  const offsets = new Array<number>(rows)
+  for (let i = 0; i < rows; i++) {
+    offsets[i] = Number(state.view.getBigUint64(state.pos + i * 8, true))
+  }
+  state.pos += rows * 8
+  return offsets
+}
+
+/**
+ * Builds a function that decodes the values of an entire column of the given type
+ * in a single block of the Native format.
+ * @see https://clickhouse.com/docs/en/interfaces/formats#native
+ */
+export function getNativeColumnDecoder(
+  columnType: ParsedColumnType,
+): ColumnDecoder {
+  switch (columnType.type) {
+    case 'Simple': {
+      const TypedArray = TypedArrays[columnType.column_type]
+      if (TypedArray === undefined) {
+        return valueByValueDecoder(columnType)
+      }
+      return (state, rows) => {
+        const bytes = rows * TypedArray.BYTES_PER_ELEMENT
+        ensureAvailable(state, bytes)
+        // copying, as the typed arrays require aligned offsets
+        // (and Buffer.slice in Node.js does not copy)
+        const result = new TypedArray(rows)
+        new Uint8Array(result.buffer).set(
+          state.buf.subarray(state.pos, state.pos + bytes),
+        )
+        state.pos += bytes
+        return result
+      }
+    }
+    case 'Nullable': {
+      const decodeValues = getNativeColumnDecoder(columnType.value)
+      return (state, rows) => {
+        ensureAvailable(state, rows)
+        const nullMap = state.buf.subarray(state.pos, state.pos + rows)
+        state.pos += rows
+        const values = decodeValues(state, rows)
+        const result = new Array(rows)
+        for (let i = 0; i < rows; i++) {
+          result[i] = nullMap[i] === 1 ? null : values[i]
+        }
+        return result
+      }
+    }
+    case 'LowCardinality':
+      // the client disables it with low_cardinality_allow_in_native_format = 0
+      throw new Error(
+        `Column type ${columnType.source_type} is not supported in the Native format. ` +
+          'Make sure low_cardinality_allow_in_native_format setting is disabled.',
+      )
+    case 'Array': {
+      const decodeValues = getNativeColumnDecoder(columnType.value)
+      return (state, rows) => {
+        const offsets = readOffsets(state, rows)
+        const values = decodeValues(state, rows > 0 ? offsets[rows - 1] : 0)
+        const result = new Array(rows)
+        let start = 0
+        for (let i = 0; i < rows; i++) {
+          result[i] = values.slice(start, offsets[i])
+          start = offsets[i]
+        }
+        return result
+      }
+    }
+    case 'Tuple': {
+      const elements = columnType.elements.map(({ name, type }) => ({
+        name,
+        decode: getNativeColumnDecoder(type),
+      }))
+      const isNamed = elements.every(({ name }) => name !== null)
+      return (state, rows) => {
+        const columns = elements.map(({ decode }) => decode(state, rows))
+        const result = new Array(rows)
+        for (let i = 0; i < rows; i++) {
+          if (isNamed) {
+            const tuple: Record<string, unknown> = {}
+            elements.forEach(({ name }, j) => {
+              tuple[name as string] = columns[j][i]
+            })
+            result[i] = tuple
+          } else {
+            result[i] = columns.map((column) => column[i])
+          }
+        }
+        return result
+      }
+    }
+    case 'Map': {
+      const decodeKeys = getNativeColumnDecoder(columnType.key)
+      const decodeValues = getNativeColumnDecoder(columnType.value)
+      return (state, rows) => {
+        const offsets = readOffsets(state, rows)
+        const total = rows > 0 ? offsets[rows - 1] : 0
+        const keys = decodeKeys(state, total)
+        const values = decodeValues(state, total)
+        const result = new Array(rows)
+        let start = 0
+        for (let i = 0; i < rows; i++) {
+          const map = new Map<unknown, unknown>()
+          for (let j = start; j < offsets[i]; j++) {
+            map.set(keys[j], values[j])
+          }
+          result[i] = map
+          start = offsets[i]
+        }
+        return result
+      }
+    }
+    default:
+      return valueByValueDecoder(columnType)
+  }
+}
+
+/**
+ * Incrementally decodes Native format response streams into {@link NativeBlock}s.
+ * A block is returned only when it is received in full; the Native format does not specify
+ * the size of a block upfront, so the decoding is attempted again only once the amount
+ * of the buffered data doubles, to avoid decoding the same large block over and over.
+ */
+export class NativeResultDecoder {
+  private readonly columnDecoders = new Map<string, ColumnDecoder>()
+  private chunks: Uint8Array[] = []
+  private bufferedBytes = 0
+  private nextAttemptBytes = 0
+
+  /** Returns all the blocks that are fully contained in the data received so far. */
+  decode(chunk: Uint8Array): NativeBlock[] {
+    this.chunks.push(chunk)
+    this.bufferedBytes += chunk.length
+    if (this.bufferedBytes < this.nextAttemptBytes) {
+      return []
+    }
+    return this.decodeBuffered()
+  }
+
+  /** Should be called once the stream has ended. Returns the remaining blocks;
+   *  throws if the stream ended in the middle of a block. */
+  finish(): NativeBlock[] {
+    const blocks = this.bufferedBytes > 0 ? this.decodeBuffered() : []
+    if (this.bufferedBytes > 0) {
+      const bytes = this.bufferedBytes
+      this.chunks = []
+      this.bufferedBytes = 0
+      throw new Error(
+        `Native stream ended unexpectedly with ${bytes} bytes of incomplete block data`,
+      )
+    }
+    return blocks
+  }
+
+  private decodeBuffered(): NativeBlock[] {
+    const buf = concat(this.chunks, this.bufferedBytes)
+    const state: DecoderState = {
+      buf,
+      view: new DataView(buf.buffer, buf.byteOffset, buf.byteLength),
+      pos: 0,
+    }
+    const blocks: NativeBlock[] = []
+    let blockStart = 0
+    try {
+      while (state.pos < buf.length) {
+        blocks.push(this.readBlock(state))
+        blockStart = state.pos
+      }
+    } catch (err) {
+      if (err !== NotEnoughData) {
+        throw err
+      }
+    }
+    const remainder = buf.subarray(blockStart)
+    this.chunks = remainder.length > 0 ? [remainder] : []
+    this.bufferedBytes = remainder.length
+    this.nextAttemptBytes = remainder.length * 2
+    return blocks
+  }
+
+  private readBlock(state: DecoderState): NativeBlock {
+    const numColumns = readLEB128(state)
+    const rows = readLEB128(state)
+    const meta: ColumnSchema = []
+    const columns: NativeColumnValues[] = []
+    for (let i = 0; i < numColumns; i++) {
+      const name = readString(state)
+      const type = readString(state)
+      meta.push({ name, type })
+      columns.push(this.getColumnDecoder(type)(state, rows))
+    }
+    return { meta, columns, rows }
+  }
+
+  private getColumnDecoder(type: string): ColumnDecoder {
+    let decoder = this.columnDecoders.get(type)
+    if (decoder === undefined) {
+      decoder = getNativeColumnDecoder(parseColumnType(type))
+      this.columnDecoders.set(type, decoder)
+    }
+    return decoder
+  }
+}
+
+/** Converts the columns of a {@link NativeBlock} to the row objects with the column names as keys. */
+export function nativeBlockToRows(
+  block: NativeBlock,
+): Record<string, unknown>[] {
+  const result = new Array(block.rows)
+  for (let i = 0; i < block.rows; i++) {
+    const row: Record<string, unknown> = {}
+    block.meta.forEach(({ name }, j) => {
+      row[name] = block.columns[j][i]
+    })
+    result[i] = row
+  }
+  return result
+}
+
+function concat(chunks: Uint8Array[], size: number): Uint8Array {
+  if (chunks.length === 1) {
+    return chunks[0]
+  }
+  const result = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
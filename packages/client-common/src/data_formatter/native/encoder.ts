@@ -0,0 +1,302 @@
+import type {
+  ColumnSchema,
+  ParsedColumnSimple,
+  ParsedColumnType,
+} from '../column_types'
+import { parseColumnType } from '../column_types'
+import { getRowBinaryValueEncoder, RowBinaryWriter } from '../row_binary'
+
+/** Columnar data to insert with the Native format: column names as keys, and the column values as arrays or typed arrays.
+ *  All the columns must have the same length. */
+export type NativeInsertBlock = Record<string, ArrayLike<unknown>>
+
+export type ColumnEncoder = (
+  writer: RowBinaryWriter,
+  values: ArrayLike<unknown>,
+) => void
+
+const TypedArrays: Partial<Record<ParsedColumnSimple['column_type'], object>> =
+  {
+    UInt8: Uint8Array,
+    Int8: Int8Array,
+    UInt16: Uint16Array,
+    Int16: Int16Array,
+    UInt32: Uint32Array,
+    Int32: Int32Array,
+    UInt64: BigUint64Array,
+    Int64: BigInt64Array,
+    Float32: Float32Array,
+    Float64: Float64Array,
+  }
+
+/** Writes the values one by one, as they are serialized the same way as in RowBinary. */
+function valueByValueEncoder(columnType: ParsedColumnType): ColumnEncoder {
+  const encodeValue = getRowBinaryValueEncoder(columnType)
+  return (writer, values) => {
+    for (let i = 0; i < values.length; i++) {
+      encodeValue(writer, values[i])
+    }
+  }
+}
+
+function writeOffsets(writer: RowBinaryWriter, offsets: number[]): void {
+  writer.ensureCapacity(offsets.length * 8)
+  for (const offset of offsets) {
+    writer.view.setBigUint64(writer.pos, BigInt(offset), true)
+    writer.pos += 8
+  }
+}
+
+/** Native format requires a value even for NULLs in Nullable columns; it is ignored by the server. */
+function getDefaultValue(columnType: ParsedColumnType): unknown {
+  switch (columnType.type) {
+    case 'Simple':
+      switch (columnType.column_type) {
+        case 'String':
+          return ''
+        case 'UUID':
+          return '00000000-0000-0000-0000-000000000000'
+        case 'IPv6':
+          return '::'
+        case 'Nothing':
+          return null
+        default:
+          return 0
+      }
+    case 'FixedString':
+      return ''
+    case 'Enum':
+      return Number(Object.keys(columnType.values)[0])
+    case 'Nullable':
+      return null
+    case 'LowCardinality':
+      return getDefaultValue(columnType.value)
+    case 'Array':
+      return []
+    case 'Tuple':
+      return columnType.elements.map(({ type }) => getDefaultValue(type))
+    case 'Map':
+      return {}
+    default:
+      return 0
+  }
+}
+
+/**
+ * Builds a function that encodes the values of an entire column of the given type
+ * into a single block of the Native format.
+ * @see https://clickhouse.com/docs/en/interfaces/formats#native
+ */
+export function getNativeColumnEncoder(
+  columnType: ParsedColumnType,
+): ColumnEncoder {
+  switch (columnType.type) {
+    case 'Simple': {
+      const encodeValues = valueByValueEncoder(columnType)
+      const TypedArray = TypedArrays[columnType.column_type]
+      if (TypedArray === undefined) {
+        return encodeValues
+      }
+      return (writer, values) => {
+        // the typed arrays of the matching type can be written as is
+        if (ArrayBuffer.isView(values) && values.constructor === TypedArray) {
+          writer.writeBytes(
+            new Uint8Array(values.buffer, values.byteOffset, values.byteLength),
+          )
+        } else {
+          encodeValues(writer, values)
+        }
+      }
+    }
+    case 'Nullable': {
+      const encodeValues = getNativeColumnEncoder(columnType.value)
+      const defaultValue = getDefaultValue(columnType.value)
+      return (writer, values) => {
+        const nonNullValues = new Array(values.length)
+        writer.ensureCapacity(values.length)
+        for (let i = 0; i < values.length; i++) {
+          const isNull = values[i] === null || values[i] === undefined
+          writer.buf[writer.pos++] = isNull ? 1 : 0
+          nonNullValues[i] = isNull ? defaultValue : values[i]
+        }
+        encodeValues(writer, nonNullValues)
+      }
+    }
+    case 'LowCardinality':
+      // sent as the nested type, see low_cardinality_allow_in_native_format
+      return getNativeColumnEncoder(columnType.value)
+    case 'Array': {
+      const encodeValues = getNativeColumnEncoder(columnType.value)
+      return (writer, values) => {
+        const offsets = new Array<number>(values.length)
+        const flattened: unknown[] = []
+        for (let i = 0; i < values.length; i++) {
+          const array = values[i]
+          if (!Array.isArray(array) && !ArrayBuffer.isView(array)) {
+            throw new Error(`Expected an array, got ${typeof array}`)
+          }
+          const arrayLike = array as ArrayLike<unknown>
+          for (let j = 0; j < arrayLike.length; j++) {
+            flattened.push(arrayLike[j])
+          }
+          offsets[i] = flattened.length
+        }
+        writeOffsets(writer, offsets)
+        encodeValues(writer, flattened)
+      }
+    }
+    case 'Tuple': {
+      const elements = columnType.elements.map(({ name, type }) => ({
+        name,
+        encode: getNativeColumnEncoder(type),
+      }))
+      return (writer, values) => {
+        elements.forEach(({ name, encode }, i) => {
+          const elementValues = new Array(values.length)
+          for (let j = 0; j < values.length; j++) {
+            const tuple = values[j] as Record<string | number, unknown>
+            if (typeof tuple !== 'object' || tuple === null) {
+              throw new Error(`Expected a tuple, got ${typeof tuple}`)
+            }
+            elementValues[j] =
+              Array.isArray(tuple) || name === null
+                ? tuple[i]
+                : tuple[name as string]
+          }
+          encode(writer, elementValues)
+        })
+      }
+    }
+    case 'Map': {
+      const encodeKeys = getNativeColumnEncoder(columnType.key)
+      const encodeValues = getNativeColumnEncoder(columnType.value)
+      return (writer, values) => {
+        const offsets = new Array<number>(values.length)
+        const keys: unknown[] = []
+        const mapValues: unknown[] = []
+        for (let i = 0; i < values.length; i++) {
+          const map = values[i]
+          let entries: [unknown, unknown][]
+          if (map instanceof Map) {
+            entries = Array.from(map.entries())
+          } else if (typeof map === 'object' && map !== null) {
+            entries = Object.entries(map)
+          } else {
+            throw new Error(`Expected a Map or an object, got ${typeof map}`)
+          }
+          for (const [k, v] of entries) {
+            keys.push(k)
+            mapValues.push(v)
+          }
+          offsets[i] = keys.length
+        }
+        writeOffsets(writer, offsets)
+        encodeKeys(writer, keys)
+        encodeValues(writer, mapValues)
+      }
+    }
+    default:
+      return valueByValueEncoder(columnType)
+  }
+}
+
+/** Removes LowCardinality wrappers from a type, e.g. Array(LowCardinality(String)) -> Array(String).
+ *  The client sends LowCardinality columns as the nested types in the Native format. */
+export function removeLowCardinality(type: string): string {
+  const prefix = 'LowCardinality('
+  let result = type
+  let idx = result.indexOf(prefix)
+  while (idx !== -1) {
+    let depth = 1
+    let end = idx + prefix.length
+    for (; end < result.length && depth > 0; end++) {
+      if (result[end] === '(') depth++
+      if (result[end] === ')') depth--
+    }
+    result =
+      result.slice(0, idx) +
+      result.slice(idx + prefix.length, end - 1) +
+      result.slice(end)
+    idx = result.indexOf(prefix)
+  }
+  return result
+}
+
+interface EncodedColumn {
+  name: string
+  type: string
+  encode: ColumnEncoder
+}
+
+/**
+ * Encodes columnar data into the Native format, according to the provided schema;
+ * each written {@link NativeInsertBlock} becomes a separate Native block.
+ * The encoded blocks are accumulated in the internal buffer until {@link NativeBlockEncoder.flush} is called.
+ */
+export class NativeBlockEncoder {
+  private readonly columns: EncodedColumn[]
+  private readonly writer = new RowBinaryWriter()
+
+  constructor(schema: ColumnSchema) {
+    this.columns = schema.map(({ name, type }) => ({
+      name,
+      type: removeLowCardinality(type),
+      encode: getNativeColumnEncoder(parseColumnType(type)),
+    }))
+  }
+
+  /** Number of bytes written since the last {@link NativeBlockEncoder.flush} call. */
+  get bufferedBytes(): number {
+    return this.writer.pos
+  }
+
+  /** Appends a single block to the internal buffer. */
+  write(block: NativeInsertBlock): void {
+    if (typeof block !== 'object' || block === null || Array.isArray(block)) {
+      throw new Error(
+        `Expected a block to be an object with the column names as keys, got ${typeof block}`,
+      )
+    }
+    let rows: number | undefined
+    for (const { name } of this.columns) {
+      const values = block[name]
+      if (values === undefined || typeof values.length !== 'number') {
+        throw new Error(`Expected an array of values for column ${name}`)
+      }
+      if (rows !== undefined && values.length !== rows) {
+        throw new Error(
+          `Expected all columns to have the same length, got ${values.length} values for column ${name} and ${rows} for the previous ones`,
+        )
+      }
+      rows = values.length
+    }
+    // an empty block marks the end of the data in the Native format
+    if (!rows) {
+      return
+    }
+    const writer = this.writer
+    const blockStart = writer.pos
+    let column: EncodedColumn | undefined
+    try {
+      writer.writeLEB128(this.columns.length)
+      writer.writeLEB128(rows)
+      for (column of this.columns) {
+        writer.writeString(column.name)
+        writer.writeString(column.type)
+        column.encode(writer, block[column.name])
+      }
+    } catch (err) {
+      // discarding the partially written block
+      writer.pos = blockStart
+      if (column !== undefined && err instanceof Error) {
+        err.message = `Cannot encode column ${column.name}: ${err.message}`
+      }
+      throw err
+    }
+  }
+
+  /** Returns the data encoded so far and resets the internal buffer. */
+  flush(): Uint8Array {
+    return this.writer.flush()
+  }
+}
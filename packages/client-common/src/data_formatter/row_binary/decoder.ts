@@ -0,0 +1,451 @@
+import type { Row } from '../../result'
+import type {
+  ColumnSchema,
+  ParsedColumnSimple,
+  ParsedColumnType,
+} from '../column_types'
+import { parseColumnType } from '../column_types'
+import type { RowBinaryDataFormat } from '../formatter'
+
+export interface DecoderState {
+  buf: Uint8Array
+  view: DataView
+  pos: number
+}
+
+export type ValueDecoder = (state: DecoderState) => unknown
+
+/** Thrown by the value decoders when the current chunk does not contain the entire value;
+ *  the decoding should be resumed once the next chunk arrives.
+ *  It is a single instance, as it is used only for the control flow and never exposed to the user. */
+export const NotEnoughData = new Error('Not enough data to decode the value')
+
+const textDecoder = new TextDecoder()
+
+export function ensureAvailable(state: DecoderState, bytes: number): void {
+  if (state.pos + bytes > state.buf.length) {
+    throw NotEnoughData
+  }
+}
+
+/** Unsigned LEB128, used for String lengths, Array sizes, etc.
+ *  See https://en.wikipedia.org/wiki/LEB128 */
+export function readLEB128(state: DecoderState): number {
+  let result = 0
+  let multiplier = 1
+  let pos = state.pos
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    if (pos >= state.buf.length) {
+      throw NotEnoughData
+    }
+    const byte = state.buf[pos++]
+    result += (byte & 0x7f) * multiplier
+    if (byte < 0x80) {
+      break
+    }
+    multiplier *= 128
+  }
+  state.pos = pos
+  return result
+}
+
+export function readString(state: DecoderState): string {
+  const length = readLEB128(state)
+  return readFixedString(state, length)
+}
+
+export function readFixedString(state: DecoderState, length: number): string {
+  ensureAvailable(state, length)
+  const result = textDecoder.decode(
+    state.buf.subarray(state.pos, state.pos + length),
+  )
+  state.pos += length
+  return result
+}
+
+/** Little-endian Int128, UInt128, Int256, UInt256. */
+export function readBigInt(
+  state: DecoderState,
+  bytes: 16 | 32,
+  signed: boolean,
+): bigint {
+  ensureAvailable(state, bytes)
+  let result = 0n
+  for (let offset = bytes - 8; offset >= 0; offset -= 8) {
+    result = (result << 64n) | state.view.getBigUint64(state.pos + offset, true)
+  }
+  state.pos += bytes
+  const bits = BigInt(bytes * 8)
+  if (signed && result >> (bits - 1n) === 1n) {
+    result -= 1n << bits
+  }
+  return result
+}
+
+export function formatDecimal(value: bigint, scale: number): string {
+  if (scale === 0) {
+    return value.toString()
+  }
+  const isNegative = value < 0n
+  const digits = (isNegative ? -value : value)
+    .toString()
+    .padStart(scale + 1, '0')
+  return `${isNegative ? '-' : ''}${digits.slice(0, -scale)}.${digits.slice(-scale)}`
+}
+
+const HexOctets = Array.from({ length: 256 }, (_, i) =>
+  i.toString(16).padStart(2, '0'),
+)
+
+/** UUID is stored as two little-endian UInt64: the high and the low parts. */
+export function formatUUID(buf: Uint8Array, pos: number): string {
+  let hex = ''
+  for (let i = 7; i >= 0; i--) hex += HexOctets[buf[pos + i]]
+  for (let i = 15; i >= 8; i--) hex += HexOctets[buf[pos + i]]
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+}
+
+/** IPv4 is stored as a little-endian UInt32. */
+export function formatIPv4(value: number): string {
+  return `${value >>> 24}.${(value >>> 16) & 0xff}.${(value >>> 8) & 0xff}.${value & 0xff}`
+}
+
+/** IPv6 is stored as 16 bytes in the network (big-endian) order.
+ *  The textual representation follows RFC 5952, same as ClickHouse. */
+export function formatIPv6(buf: Uint8Array, pos: number): string {
+  const groups: number[] = []
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((buf[pos + i] << 8) | buf[pos + i + 1])
+  }
+  // IPv4-mapped IPv6 address, e.g. ::ffff:127.0.0.1
+  if (groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff) {
+    return `::ffff:${buf[pos + 12]}.${buf[pos + 13]}.${buf[pos + 14]}.${buf[pos + 15]}`
+  }
+  // the longest run of zero groups (at least two) is replaced with ::
+  let bestStart = -1
+  let bestLength = 0
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++
+      continue
+    }
+    let j = i
+    while (j < 8 && groups[j] === 0) j++
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i
+      bestLength = j - i
+    }
+    i = j
+  }
+  const hex = groups.map((g) => g.toString(16))
+  if (bestStart === -1) {
+    return hex.join(':')
+  }
+  const head = hex.slice(0, bestStart).join(':')
+  const tail = hex.slice(bestStart + bestLength).join(':')
+  return `${head}::${tail}`
+}
+
+function fixedSizeDecoder(
+  bytes: number,
+  read: (view: DataView, pos: number, buf: Uint8Array) => unknown,
+): ValueDecoder {
+  return (state) => {
+    ensureAvailable(state, bytes)
+    const value = read(state.view, state.pos, state.buf)
+    state.pos += bytes
+    return value
+  }
+}
+
+const DayMillis = 86_400_000
+
+/**
+ * Builds a function that decodes a single value of the given type serialized in RowBinary format.
+ * The numeric types up to 32 bits are decoded as numbers, 64+ bits integers as bigint,
+ * decimals as strings (to avoid precision loss), Date* types as {@link Date},
+ * Map as {@link Map}, Tuple as an array (or an object, if the tuple is named).
+ * @see https://clickhouse.com/docs/en/interfaces/formats#rowbinary
+ */
+export function getRowBinaryValueDecoder(
+  columnType: ParsedColumnType,
+): ValueDecoder {
+  switch (columnType.type) {
+    case 'Simple':
+      return getSimpleValueDecoder(columnType)
+    case 'FixedString': {
+      const length = columnType.length
+      return (state) => readFixedString(state, length)
+    }
+    case 'DateTime':
+      return fixedSizeDecoder(
+        4,
+        (view, pos) => new Date(view.getUint32(pos, true) * 1000),
+      )
+    case 'DateTime64': {
+      const precision = columnType.precision
+      const multiplier = Math.pow(10, 3 - precision)
+      return fixedSizeDecoder(
+        8,
+        (view, pos) =>
+          new Date(Number(view.getBigInt64(pos, true)) * multiplier),
+      )
+    }
+    case 'Decimal': {
+      const scale = columnType.scale
+      if (columnType.int_size === 32) {
+        return fixedSizeDecoder(4, (view, pos) =>
+          formatDecimal(BigInt(view.getInt32(pos, true)), scale),
+        )
+      }
+      if (columnType.int_size === 64) {
+        return fixedSizeDecoder(8, (view, pos) =>
+          formatDecimal(view.getBigInt64(pos, true), scale),
+        )
+      }
+      const bytes = columnType.int_size === 128 ? 16 : 32
+      return (state) => formatDecimal(readBigInt(state, bytes, true), scale)
+    }
+    case 'Enum': {
+      const values = columnType.values
+      return columnType.int_size === 8
+        ? fixedSizeDecoder(1, (view, pos) => values[view.getInt8(pos)])
+        : fixedSizeDecoder(2, (view, pos) => values[view.getInt16(pos, true)])
+    }
+    case 'Nullable': {
+      const decodeValue = getRowBinaryValueDecoder(columnType.value)
+      return (state) => {
+        ensureAvailable(state, 1)
+        if (state.buf[state.pos++] === 1) {
+          return null
+        }
+        return decodeValue(state)
+      }
+    }
+    case 'LowCardinality':
+      // serialized as the nested type in RowBinary
+      return getRowBinaryValueDecoder(columnType.value)
+    case 'Array': {
+      const decodeValue = getRowBinaryValueDecoder(columnType.value)
+      return (state) => {
+        const length = readLEB128(state)
+        const result = new Array(length)
+        for (let i = 0; i < length; i++) {
+          result[i] = decodeValue(state)
+        }
+        return result
+      }
+    }
+    case 'Tuple': {
+      const elements = columnType.elements.map(({ name, type }) => ({
+        name,
+        decode: getRowBinaryValueDecoder(type),
+      }))
+      if (elements.every(({ name }) => name !== null)) {
+        return (state) => {
+          const result: Record<string, unknown> = {}
+          for (const { name, decode } of elements) {
+            result[name as string] = decode(state)
+          }
+          return result
+        }
+      }
+      return (state) => elements.map(({ decode }) => decode(state))
+    }
+    case 'Map': {
+      const decodeKey = getRowBinaryValueDecoder(columnType.key)
+      const decodeValue = getRowBinaryValueDecoder(columnType.value)
+      return (state) => {
+        const size = readLEB128(state)
+        const result = new Map<unknown, unknown>()
+        for (let i = 0; i < size; i++) {
+          const key = decodeKey(state)
+          result.set(key, decodeValue(state))
+        }
+        return result
+      }
+    }
+  }
+}
+
+function getSimpleValueDecoder(columnType: ParsedColumnSimple): ValueDecoder {
+  switch (columnType.column_type) {
+    case 'Bool':
+      return fixedSizeDecoder(1, (view, pos) => view.getUint8(pos) !== 0)
+    case 'UInt8':
+      return fixedSizeDecoder(1, (view, pos) => view.getUint8(pos))
+    case 'Int8':
+      return fixedSizeDecoder(1, (view, pos) => view.getInt8(pos))
+    case 'UInt16':
+      return fixedSizeDecoder(2, (view, pos) => view.getUint16(pos, true))
+    case 'Int16':
+      return fixedSizeDecoder(2, (view, pos) => view.getInt16(pos, true))
+    case 'UInt32':
+      return fixedSizeDecoder(4, (view, pos) => view.getUint32(pos, true))
+    case 'Int32':
+      return fixedSizeDecoder(4, (view, pos) => view.getInt32(pos, true))
+    case 'UInt64':
+      return fixedSizeDecoder(8, (view, pos) => view.getBigUint64(pos, true))
+    case 'Int64':
+      return fixedSizeDecoder(8, (view, pos) => view.getBigInt64(pos, true))
+    case 'UInt128':
+      return (state) => readBigInt(state, 16, false)
+    case 'Int128':
+      return (state) => readBigInt(state, 16, true)
+    case 'UInt256':
+      return (state) => readBigInt(state, 32, false)
+    case 'Int256':
+      return (state) => readBigInt(state, 32, true)
+    case 'Float32':
+      return fixedSizeDecoder(4, (view, pos) => view.getFloat32(pos, true))
+    case 'Float64':
+      return fixedSizeDecoder(8, (view, pos) => view.getFloat64(pos, true))
+    case 'String':
+      return readString
+    case 'UUID':
+      return fixedSizeDecoder(16, (_, pos, buf) => formatUUID(buf, pos))
+    case 'IPv4':
+      return fixedSizeDecoder(4, (view, pos) =>
+        formatIPv4(view.getUint32(pos, true)),
+      )
+    case 'IPv6':
+      return fixedSizeDecoder(16, (_, pos, buf) => formatIPv6(buf, pos))
+    case 'Date':
+      return fixedSizeDecoder(
+        2,
+        (view, pos) => new Date(view.getUint16(pos, true) * DayMillis),
+      )
+    case 'Date32':
+      return fixedSizeDecoder(
+        4,
+        (view, pos) => new Date(view.getInt32(pos, true) * DayMillis),
+      )
+    case 'Nothing':
+      return fixedSizeDecoder(1, () => null)
+  }
+}
+
+interface DecodedColumn {
+  name: string
+  decode: ValueDecoder
+}
+
+/**
+ * Incrementally decodes RowBinary and RowBinaryWithNamesAndTypes response streams
+ * into JS objects, one object per row, with the column names as keys.
+ * Can be fed with the chunks of arbitrary size; the rows that are split between the chunks
+ * are decoded once the rest of the data arrives.
+ */
+export class RowBinaryResultDecoder {
+  private columns: DecodedColumn[] | null = null
+  private remainder: Uint8Array | null = null
+
+  constructor(format: RowBinaryDataFormat, schema?: ColumnSchema) {
+    if (format === 'RowBinary') {
+      if (schema === undefined) {
+        throw new Error(
+          'Decoding RowBinary format requires the column types schema to be provided. ' +
+            'Consider using RowBinaryWithNamesAndTypes format instead.',
+        )
+      }
+      this.columns = getDecodedColumns(schema)
+    }
+  }
+
+  /** Returns all the rows that are fully contained in the data received so far. */
+  decode(chunk: Uint8Array): Record<string, unknown>[] {
+    let buf = chunk
+    if (this.remainder !== null) {
+      buf = new Uint8Array(this.remainder.length + chunk.length)
+      buf.set(this.remainder)
+      buf.set(chunk, this.remainder.length)
+    }
+    const state: DecoderState = {
+      buf,
+      view: new DataView(buf.buffer, buf.byteOffset, buf.byteLength),
+      pos: 0,
+    }
+    const rows: Record<string, unknown>[] = []
+    let rowStart = 0
+    try {
+      if (this.columns === null) {
+        this.columns = readHeader(state)
+        rowStart = state.pos
+      }
+      const columns = this.columns
+      while (state.pos < buf.length) {
+        const row: Record<string, unknown> = {}
+        for (const column of columns) {
+          row[column.name] = column.decode(state)
+        }
+        rows.push(row)
+        rowStart = state.pos
+      }
+    } catch (err) {
+      if (err !== NotEnoughData) {
+        throw err
+      }
+    }
+    this.remainder = rowStart < buf.length ? buf.subarray(rowStart) : null
+    return rows
+  }
+
+  /** Should be called once the stream has ended. Throws if the stream ended in the middle of a row. */
+  finish(): void {
+    if (this.remainder !== null) {
+      const bytes = this.remainder.length
+      this.remainder = null
+      throw new Error(
+        `RowBinary stream ended unexpectedly with ${bytes} bytes of incomplete row data`,
+      )
+    }
+  }
+}
+
+/** Creates a {@link Row} instance from an already decoded RowBinary row. */
+export function rowBinaryRow(value: Record<string, unknown>): Row {
+  let text: string | undefined
+  return {
+    get text() {
+      if (text === undefined) {
+        text = JSON.stringify(value, jsonReplacer)
+      }
+      return text
+    },
+    json<T>(): T {
+      return value as T
+    },
+  }
+}
+
+/** Values that cannot be represented in JSON as is. */
+function jsonReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString()
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(value)
+  }
+  return value
+}
+
+function readHeader(state: DecoderState): DecodedColumn[] {
+  const count = readLEB128(state)
+  const names: string[] = []
+  for (let i = 0; i < count; i++) {
+    names.push(readString(state))
+  }
+  const schema: ColumnSchema = []
+  for (let i = 0; i < count; i++) {
+    schema.push({ name: names[i], type: readString(state) })
+  }
+  return getDecodedColumns(schema)
+}
+
+function getDecodedColumns(schema: ColumnSchema): DecodedColumn[] {
+  return schema.map(({ name, type }) => ({
+    name,
+    decode: getRowBinaryValueDecoder(parseColumnType(type)),
+  }))
+}
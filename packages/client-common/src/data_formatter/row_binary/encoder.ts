@@ -0,0 +1,724 @@
+import type {
+  ColumnSchema,
+  ParsedColumnSimple,
+  ParsedColumnType,
+} from '../column_types'
+import { parseColumnType } from '../column_types'
+import type { RowBinaryDataFormat } from '../formatter'
+import { IntegerRanges } from '../insert_validator'
+
+/** A growable buffer the value encoders write into. */
+export class RowBinaryWriter {
+  buf: Uint8Array
+  view: DataView
+  pos = 0
+
+  constructor(initialSize = 64 * 1024) {
+    this.buf = new Uint8Array(initialSize)
+    this.view = new DataView(this.buf.buffer)
+  }
+
+  /** Makes sure that at least the given number of bytes can be written at the current position. */
+  ensureCapacity(bytes: number): void {
+    if (this.pos + bytes <= this.buf.length) {
+      return
+    }
+    let size = this.buf.length * 2
+    while (size < this.pos + bytes) {
+      size *= 2
+    }
+    const buf = new Uint8Array(size)
+    buf.set(this.buf.subarray(0, this.pos))
+    this.buf = buf
+    this.view = new DataView(buf.buffer)
+  }
+
+  writeUInt8(value: number): void {
+    this.ensureCapacity(1)
+    this.buf[this.pos++] = value
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.ensureCapacity(bytes.length)
+    this.buf.set(bytes, this.pos)
+    this.pos += bytes.length
+  }
+
+  /** Unsigned LEB128, used for String lengths, Array sizes, etc.
+   *  See https://en.wikipedia.org/wiki/LEB128 */
+  writeLEB128(value: number): void {
+    this.ensureCapacity(10)
+    while (value >= 0x80) {
+      this.buf[this.pos++] = (value & 0x7f) | 0x80
+      value = Math.floor(value / 128)
+    }
+    this.buf[this.pos++] = value
+  }
+
+  writeString(value: string): void {
+    const bytes = textEncoder.encode(value)
+    this.writeLEB128(bytes.length)
+    this.writeBytes(bytes)
+  }
+
+  /** Little-endian Int128, UInt128, Int256, UInt256. */
+  writeBigInt(value: bigint, bytes: 16 | 32): void {
+    this.ensureCapacity(bytes)
+    let rest = BigInt.asUintN(bytes * 8, value)
+    for (let offset = 0; offset < bytes; offset += 8) {
+      this.view.setBigUint64(this.pos + offset, BigInt.asUintN(64, rest), true)
+      rest >>= 64n
+    }
+    this.pos += bytes
+  }
+
+  /** Returns a copy of the written data and resets the writer. */
+  flush(): Uint8Array {
+    const result = this.buf.slice(0, this.pos)
+    this.pos = 0
+    return result
+  }
+}
+
+export type ValueEncoder = (writer: RowBinaryWriter, value: unknown) => void
+
+const textEncoder = new TextEncoder()
+
+const DayMillis = 86_400_000
+
+function fixedSizeEncoder(
+  bytes: number,
+  write: (view: DataView, pos: number, value: unknown) => void,
+): ValueEncoder {
+  return (writer, value) => {
+    if (value === null || value === undefined) {
+      throw new Error(`Expected a value, got ${value}`)
+    }
+    writer.ensureCapacity(bytes)
+    write(writer.view, writer.pos, value)
+    writer.pos += bytes
+  }
+}
+
+function toNumber(value: unknown): number {
+  const result = Number(value)
+  if (Number.isNaN(result) && typeof value !== 'number') {
+    throw new Error(`Expected a number, got ${describeValue(value)}`)
+  }
+  return result
+}
+
+function toBigInt(value: unknown): bigint {
+  if (typeof value === 'bigint') {
+    return value
+  }
+  if (typeof value === 'number' || typeof value === 'string') {
+    try {
+      return BigInt(value)
+    } catch (err) {
+      // falling through to the error below
+    }
+  }
+  throw new Error(`Expected an integer, got ${describeValue(value)}`)
+}
+
+/** Unlike `DataView` setters, which silently wrap the values around, throws if the value does not fit into the type. */
+function toInteger(value: unknown, columnType: string): number {
+  const result = toNumber(value)
+  if (!Number.isInteger(result)) {
+    throw new Error(`Expected an integer, got ${describeValue(value)}`)
+  }
+  assertIntegerRange(BigInt(result), value, columnType)
+  return result
+}
+
+function toBigIntInRange(value: unknown, columnType: string): bigint {
+  const result = toBigInt(value)
+  assertIntegerRange(result, value, columnType)
+  return result
+}
+
+function assertIntegerRange(
+  int: bigint,
+  value: unknown,
+  columnType: string,
+): void {
+  assertInRange(
+    int,
+    IntegerRanges[columnType] as [bigint, bigint],
+    value,
+    columnType,
+  )
+}
+
+function assertInRange(
+  int: bigint,
+  [min, max]: [bigint, bigint],
+  value: unknown,
+  columnType: string,
+): void {
+  if (int < min || int > max) {
+    throw new Error(`${describeValue(value)} is out of range of ${columnType}`)
+  }
+}
+
+/** The dates are stored as the number of days (seconds for DateTime) since the epoch,
+ *  which has to fit into the underlying integer type. */
+function toEpochOffset(
+  offset: number,
+  value: unknown,
+  columnType: string,
+  intType: 'UInt16' | 'Int32' | 'UInt32',
+): number {
+  if (!Number.isInteger(offset)) {
+    throw new Error(
+      `Expected an integer or a Date, got ${describeValue(value)}`,
+    )
+  }
+  assertInRange(
+    BigInt(offset),
+    IntegerRanges[intType] as [bigint, bigint],
+    value,
+    columnType,
+  )
+  return offset
+}
+
+/** Accepts `Date` instances, as well as strings and numbers (milliseconds) acceptable by the `Date` constructor. */
+function toDate(value: unknown): Date {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === 'string' || typeof value === 'number'
+        ? new Date(value)
+        : null
+  if (date === null || Number.isNaN(date.getTime())) {
+    throw new Error(`Expected a Date, got ${describeValue(value)}`)
+  }
+  return date
+}
+
+/** Numbers are treated as the number of days since the epoch. */
+function toDays(
+  value: unknown,
+  columnType: string,
+  intType: 'UInt16' | 'Int32',
+): number {
+  const days =
+    typeof value === 'number'
+      ? value
+      : Math.floor(toDate(value).getTime() / DayMillis)
+  return toEpochOffset(days, value, columnType, intType)
+}
+
+/** Numbers are treated as the number of seconds since the epoch, the same as ClickHouse does. */
+function toUnixTimestampMillis(value: unknown): number {
+  return typeof value === 'number' ? value * 1000 : toDate(value).getTime()
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${value}'`
+  }
+  if (typeof value === 'object' && value !== null) {
+    return value.constructor?.name ?? 'object'
+  }
+  return String(value)
+}
+
+/** Converts a decimal number, represented as a string, a number or a bigint,
+ *  to an integer with the given scale, e.g., '123.45' with scale 3 -> 123450n.
+ *  The extra fractional digits are truncated, same as ClickHouse does. */
+export function parseDecimal(value: unknown, scale: number): bigint {
+  if (typeof value === 'bigint') {
+    return value * 10n ** BigInt(scale)
+  }
+  const str =
+    typeof value === 'number' ? value.toFixed(scale) : String(value).trim()
+  const match = str.match(/^([+-]?)(\d*)(?:\.(\d*))?$/)
+  if (
+    (typeof value !== 'number' && typeof value !== 'string') ||
+    match === null ||
+    (match[2] === '' && (match[3] ?? '') === '')
+  ) {
+    throw new Error(`Expected a decimal number, got ${describeValue(value)}`)
+  }
+  const [, sign, integerPart, fractionalPart = ''] = match
+  const digits =
+    (integerPart || '0') + fractionalPart.slice(0, scale).padEnd(scale, '0')
+  const result = BigInt(digits)
+  return sign === '-' ? -result : result
+}
+
+const UUIDRe =
+  /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i
+
+/** UUID is stored as two little-endian UInt64: the high and the low parts. */
+function writeUUID(writer: RowBinaryWriter, value: unknown): void {
+  if (typeof value !== 'string' || !UUIDRe.test(value)) {
+    throw new Error(`Expected a UUID, got ${describeValue(value)}`)
+  }
+  const hex = value.replace(/-/g, '')
+  writer.ensureCapacity(16)
+  for (let i = 0; i < 8; i++) {
+    const byte = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+    writer.buf[writer.pos + 7 - i] = byte
+  }
+  for (let i = 8; i < 16; i++) {
+    const byte = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+    writer.buf[writer.pos + 23 - i] = byte
+  }
+  writer.pos += 16
+}
+
+/** Returns the IPv4 address as an unsigned 32-bit number, or `null` if the string is not a valid IPv4. */
+function parseIPv4(value: string): number | null {
+  const octets = value.split('.')
+  if (octets.length !== 4) {
+    return null
+  }
+  let result = 0
+  for (const octet of octets) {
+    const byte = Number(octet)
+    if (!/^\d{1,3}$/.test(octet) || byte > 255) {
+      return null
+    }
+    result = result * 256 + byte
+  }
+  return result
+}
+
+/** IPv4 is stored as a little-endian UInt32. Numbers are accepted as is. */
+function writeIPv4(writer: RowBinaryWriter, value: unknown): void {
+  const ip = typeof value === 'string' ? parseIPv4(value) : value
+  if (typeof ip !== 'number') {
+    throw new Error(`Expected an IPv4 address, got ${describeValue(value)}`)
+  }
+  writer.ensureCapacity(4)
+  writer.view.setUint32(writer.pos, ip, true)
+  writer.pos += 4
+}
+
+/** Returns 8 groups of 16 bits, or `null` if the string is not a valid IPv6. */
+function parseIPv6(value: string): number[] | null {
+  let groups: string[]
+  const doubleColonIdx = value.indexOf('::')
+  if (doubleColonIdx !== -1) {
+    const head = value.slice(0, doubleColonIdx)
+    const tail = value.slice(doubleColonIdx + 2)
+    if (tail.includes('::')) {
+      return null
+    }
+    const headGroups = head === '' ? [] : head.split(':')
+    const tailGroups = tail === '' ? [] : tail.split(':')
+    // the embedded IPv4 takes two groups
+    const ipv4Groups = tailGroups.length > 0 && tail.includes('.') ? 1 : 0
+    const missing = 8 - headGroups.length - tailGroups.length - ipv4Groups
+    if (missing < 1) {
+      return null
+    }
+    groups = [...headGroups, ...Array(missing).fill('0'), ...tailGroups]
+  } else {
+    groups = value.split(':')
+  }
+  const last = groups[groups.length - 1]
+  if (last !== undefined && last.includes('.')) {
+    const ipv4 = parseIPv4(last)
+    if (ipv4 === null) {
+      return null
+    }
+    groups.splice(
+      groups.length - 1,
+      1,
+      (ipv4 >>> 16).toString(16),
+      (ipv4 & 0xffff).toString(16),
+    )
+  }
+  if (groups.length !== 8) {
+    return null
+  }
+  const result: number[] = []
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) {
+      return null
+    }
+    result.push(parseInt(group, 16))
+  }
+  return result
+}
+
+/** IPv6 is stored as 16 bytes in the network (big-endian) order.
+ *  IPv4 addresses are written as IPv4-mapped IPv6 addresses, e.g. ::ffff:127.0.0.1 */
+function writeIPv6(writer: RowBinaryWriter, value: unknown): void {
+  let groups: number[] | null = null
+  if (typeof value === 'string') {
+    const ipv4 = parseIPv4(value)
+    groups =
+      ipv4 !== null
+        ? [0, 0, 0, 0, 0, 0xffff, ipv4 >>> 16, ipv4 & 0xffff]
+        : parseIPv6(value)
+  }
+  if (groups === null) {
+    throw new Error(`Expected an IPv6 address, got ${describeValue(value)}`)
+  }
+  writer.ensureCapacity(16)
+  for (let i = 0; i < 8; i++) {
+    writer.view.setUint16(writer.pos + i * 2, groups[i], false)
+  }
+  writer.pos += 16
+}
+
+/** Strings are encoded as UTF-8; `Uint8Array` values are written as is. */
+function toBytes(value: unknown): Uint8Array {
+  if (typeof value === 'string') {
+    return textEncoder.encode(value)
+  }
+  if (value instanceof Uint8Array) {
+    return value
+  }
+  throw new Error(`Expected a string, got ${describeValue(value)}`)
+}
+
+/**
+ * Builds a function that encodes a single JS value into the given type serialized in RowBinary format.
+ * The accepted values mirror the output of the RowBinary decoder,
+ * but more lenient where it is unambiguous. For example, 64-bit integers could be provided
+ * as a number, a string, or a bigint; Decimals as a string or a number; dates as a `Date` or a string.
+ */
+export function getRowBinaryValueEncoder(
+  columnType: ParsedColumnType,
+): ValueEncoder {
+  switch (columnType.type) {
+    case 'Simple':
+      return getSimpleValueEncoder(columnType)
+    case 'FixedString': {
+      const length = columnType.length
+      return (writer, value) => {
+        const bytes = toBytes(value)
+        if (bytes.length > length) {
+          throw new Error(
+            `Expected at most ${length} bytes for FixedString(${length}), got ${bytes.length}`,
+          )
+        }
+        writer.ensureCapacity(length)
+        writer.buf.set(bytes, writer.pos)
+        writer.buf.fill(0, writer.pos + bytes.length, writer.pos + length)
+        writer.pos += length
+      }
+    }
+    case 'DateTime':
+      return fixedSizeEncoder(4, (view, pos, value) =>
+        view.setUint32(
+          pos,
+          toEpochOffset(
+            Math.floor(toUnixTimestampMillis(value) / 1000),
+            value,
+            'DateTime',
+            'UInt32',
+          ),
+          true,
+        ),
+      )
+    case 'DateTime64': {
+      const precision = columnType.precision
+      return fixedSizeEncoder(8, (view, pos, value) => {
+        // bigint values are treated as the already scaled "ticks"
+        let ticks: bigint
+        if (typeof value === 'bigint') {
+          ticks = value
+        } else if (precision >= 3) {
+          ticks =
+            BigInt(Math.round(toUnixTimestampMillis(value))) *
+            10n ** BigInt(precision - 3)
+        } else {
+          ticks = BigInt(
+            Math.floor(
+              toUnixTimestampMillis(value) / Math.pow(10, 3 - precision),
+            ),
+          )
+        }
+        view.setBigInt64(pos, ticks, true)
+      })
+    }
+    case 'Decimal': {
+      const { scale, source_type } = columnType
+      // the precision limits the number of digits, which is stricter than the size of the underlying integer
+      const max = 10n ** BigInt(columnType.precision) - 1n
+      const toDecimal = (value: unknown) => {
+        const result = parseDecimal(value, scale)
+        assertInRange(result, [-max, max], value, source_type)
+        return result
+      }
+      if (columnType.int_size === 32) {
+        return fixedSizeEncoder(4, (view, pos, value) =>
+          view.setInt32(pos, Number(toDecimal(value)), true),
+        )
+      }
+      if (columnType.int_size === 64) {
+        return fixedSizeEncoder(8, (view, pos, value) =>
+          view.setBigInt64(pos, toDecimal(value), true),
+        )
+      }
+      const bytes = columnType.int_size === 128 ? 16 : 32
+      return (writer, value) => writer.writeBigInt(toDecimal(value), bytes)
+    }
+    case 'Enum': {
+      const indices = new Map<string, number>()
+      for (const [index, name] of Object.entries(columnType.values)) {
+        indices.set(name, Number(index))
+      }
+      const validIndices = new Set(indices.values())
+      const toIndex = (value: unknown): number => {
+        const index =
+          typeof value === 'number'
+            ? validIndices.has(value)
+              ? value
+              : undefined
+            : indices.get(value as string)
+        if (index === undefined) {
+          throw new Error(`Unknown enum value ${describeValue(value)}`)
+        }
+        return index
+      }
+      return columnType.int_size === 8
+        ? fixedSizeEncoder(1, (view, pos, value) =>
+            view.setInt8(pos, toIndex(value)),
+          )
+        : fixedSizeEncoder(2, (view, pos, value) =>
+            view.setInt16(pos, toIndex(value), true),
+          )
+    }
+    case 'Nullable': {
+      const encodeValue = getRowBinaryValueEncoder(columnType.value)
+      return (writer, value) => {
+        if (value === null || value === undefined) {
+          writer.writeUInt8(1)
+        } else {
+          writer.writeUInt8(0)
+          encodeValue(writer, value)
+        }
+      }
+    }
+    case 'LowCardinality':
+      // serialized as the nested type in RowBinary
+      return getRowBinaryValueEncoder(columnType.value)
+    case 'Array': {
+      const encodeValue = getRowBinaryValueEncoder(columnType.value)
+      return (writer, value) => {
+        if (!Array.isArray(value) && !ArrayBuffer.isView(value)) {
+          throw new Error(`Expected an array, got ${describeValue(value)}`)
+        }
+        const array = value as ArrayLike<unknown>
+        writer.writeLEB128(array.length)
+        for (let i = 0; i < array.length; i++) {
+          encodeValue(writer, array[i])
+        }
+      }
+    }
+    case 'Tuple': {
+      const elements = columnType.elements.map(({ name, type }) => ({
+        name,
+        encode: getRowBinaryValueEncoder(type),
+      }))
+      return (writer, value) => {
+        if (Array.isArray(value)) {
+          if (value.length !== elements.length) {
+            throw new Error(
+              `Expected a tuple of ${elements.length} elements, got ${value.length}`,
+            )
+          }
+          elements.forEach(({ encode }, i) => encode(writer, value[i]))
+          return
+        }
+        // named tuples could be provided as objects
+        if (
+          typeof value === 'object' &&
+          value !== null &&
+          elements.every(({ name }) => name !== null)
+        ) {
+          const record = value as Record<string, unknown>
+          for (const { name, encode } of elements) {
+            encode(writer, record[name as string])
+          }
+          return
+        }
+        throw new Error(`Expected a tuple, got ${describeValue(value)}`)
+      }
+    }
+    case 'Map': {
+      const encodeKey = getRowBinaryValueEncoder(columnType.key)
+      const encodeValue = getRowBinaryValueEncoder(columnType.value)
+      return (writer, value) => {
+        let entries: [unknown, unknown][]
+        if (value instanceof Map) {
+          entries = Array.from(value.entries())
+        } else if (typeof value === 'object' && value !== null) {
+          entries = Object.entries(value)
+        } else {
+          throw new Error(
+            `Expected a Map or an object, got ${describeValue(value)}`,
+          )
+        }
+        writer.writeLEB128(entries.length)
+        for (const [k, v] of entries) {
+          encodeKey(writer, k)
+          encodeValue(writer, v)
+        }
+      }
+    }
+  }
+}
+
+function getSimpleValueEncoder(columnType: ParsedColumnSimple): ValueEncoder {
+  switch (columnType.column_type) {
+    case 'Bool':
+      return fixedSizeEncoder(1, (view, pos, value) =>
+        view.setUint8(pos, value ? 1 : 0),
+      )
+    case 'UInt8':
+      return fixedSizeEncoder(1, (view, pos, value) =>
+        view.setUint8(pos, toInteger(value, 'UInt8')),
+      )
+    case 'Int8':
+      return fixedSizeEncoder(1, (view, pos, value) =>
+        view.setInt8(pos, toInteger(value, 'Int8')),
+      )
+    case 'UInt16':
+      return fixedSizeEncoder(2, (view, pos, value) =>
+        view.setUint16(pos, toInteger(value, 'UInt16'), true),
+      )
+    case 'Int16':
+      return fixedSizeEncoder(2, (view, pos, value) =>
+        view.setInt16(pos, toInteger(value, 'Int16'), true),
+      )
+    case 'UInt32':
+      return fixedSizeEncoder(4, (view, pos, value) =>
+        view.setUint32(pos, toInteger(value, 'UInt32'), true),
+      )
+    case 'Int32':
+      return fixedSizeEncoder(4, (view, pos, value) =>
+        view.setInt32(pos, toInteger(value, 'Int32'), true),
+      )
+    case 'UInt64':
+      return fixedSizeEncoder(8, (view, pos, value) =>
+        view.setBigUint64(pos, toBigIntInRange(value, 'UInt64'), true),
+      )
+    case 'Int64':
+      return fixedSizeEncoder(8, (view, pos, value) =>
+        view.setBigInt64(pos, toBigIntInRange(value, 'Int64'), true),
+      )
+    case 'UInt128':
+    case 'Int128':
+      return (writer, value) =>
+        writer.writeBigInt(toBigIntInRange(value, columnType.column_type), 16)
+    case 'UInt256':
+    case 'Int256':
+      return (writer, value) =>
+        writer.writeBigInt(toBigIntInRange(value, columnType.column_type), 32)
+    case 'Float32':
+      return fixedSizeEncoder(4, (view, pos, value) =>
+        view.setFloat32(pos, toNumber(value), true),
+      )
+    case 'Float64':
+      return fixedSizeEncoder(8, (view, pos, value) =>
+        view.setFloat64(pos, toNumber(value), true),
+      )
+    case 'String':
+      return (writer, value) => {
+        const bytes = toBytes(value)
+        writer.writeLEB128(bytes.length)
+        writer.writeBytes(bytes)
+      }
+    case 'UUID':
+      return writeUUID
+    case 'IPv4':
+      return writeIPv4
+    case 'IPv6':
+      return writeIPv6
+    case 'Date':
+      return fixedSizeEncoder(2, (view, pos, value) =>
+        view.setUint16(pos, toDays(value, 'Date', 'UInt16'), true),
+      )
+    case 'Date32':
+      return fixedSizeEncoder(4, (view, pos, value) =>
+        view.setInt32(pos, toDays(value, 'Date32', 'Int32'), true),
+      )
+    case 'Nothing':
+      return (writer) => writer.writeUInt8(0)
+  }
+}
+
+interface EncodedColumn {
+  name: string
+  encode: ValueEncoder
+}
+
+/**
+ * Encodes JS values into RowBinary or RowBinaryWithNamesAndTypes formats, according to the provided schema.
+ * Each row could be either an array of values in the same order as the columns in the schema,
+ * or an object with the column names as keys.
+ * The encoded rows are accumulated in the internal buffer until {@link RowBinaryRowEncoder.flush} is called.
+ */
+export class RowBinaryRowEncoder {
+  private readonly columns: EncodedColumn[]
+  private readonly writer = new RowBinaryWriter()
+
+  constructor(format: RowBinaryDataFormat, schema: ColumnSchema) {
+    this.columns = schema.map(({ name, type }) => ({
+      name,
+      encode: getRowBinaryValueEncoder(parseColumnType(type)),
+    }))
+    if (format === 'RowBinaryWithNamesAndTypes') {
+      this.writer.writeLEB128(schema.length)
+      schema.forEach(({ name }) => this.writer.writeString(name))
+      schema.forEach(({ type }) => this.writer.writeString(type))
+    }
+  }
+
+  /** Number of bytes written since the last {@link RowBinaryRowEncoder.flush} call. */
+  get bufferedBytes(): number {
+    return this.writer.pos
+  }
+
+  /** Appends a single row to the internal buffer. */
+  write(row: unknown): void {
+    const columns = this.columns
+    let values: ArrayLike<unknown> | null = null
+    if (Array.isArray(row)) {
+      if (row.length !== columns.length) {
+        throw new Error(
+          `Expected ${columns.length} values in a row, got ${row.length}`,
+        )
+      }
+      values = row
+    } else if (typeof row !== 'object' || row === null) {
+      throw new Error(
+        `Expected a row to be an array or an object, got ${describeValue(row)}`,
+      )
+    }
+    const record = row as Record<string, unknown>
+    const writer = this.writer
+    const rowStart = writer.pos
+    let i = 0
+    try {
+      for (; i < columns.length; i++) {
+        columns[i].encode(
+          writer,
+          values !== null ? values[i] : record[columns[i].name],
+        )
+      }
+    } catch (err) {
+      // discarding the partially written row
+      writer.pos = rowStart
+      if (err instanceof Error) {
+        err.message = `Cannot encode column ${columns[i].name}: ${err.message}`
+      }
+      throw err
+    }
+  }
+
+  /** Returns the data encoded so far, including the header on the first call, and resets the internal buffer. */
+  flush(): Uint8Array {
+    return this.writer.flush()
+  }
+}
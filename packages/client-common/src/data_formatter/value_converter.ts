@@ -0,0 +1,342 @@
+import type { Row } from '../result'
+import type {
+  ColumnSchema,
+  ParsedColumnType,
+  SimpleColumnType,
+} from './column_types'
+import { parseColumnType } from './column_types'
+import type { DataFormat } from './formatter'
+
+/** The ClickHouse types which conversion can be overridden with {@link ValueConverters}.
+ *  Nullable, LowCardinality, Array and Tuple are always converted element by element. */
+export type ConvertibleColumnType =
+  | SimpleColumnType
+  | 'FixedString'
+  | 'DateTime'
+  | 'DateTime64'
+  | 'Decimal'
+  | 'Enum'
+  | 'Map'
+
+/**
+ * Converts a value as it is received in the JSON formats (e.g., `"42"` for UInt64, `{"a":1}` for Map)
+ * into a JS value.
+ * @param value the value from the parsed JSON; never `null`, as Nullable values are handled by the client.
+ * @param type the parsed ClickHouse type of the value, e.g., to get the precision and the timezone of DateTime64.
+ * @param convert converts the nested values (e.g., the values of a Map) using the same converters.
+ */
+export type ValueConverter = (
+  value: unknown,
+  type: ParsedColumnType,
+  convert: (value: unknown, type: ParsedColumnType) => unknown,
+) => unknown
+
+/** Overrides the default conversion of the values of the specific ClickHouse types.
+ *  For example, `{ Decimal: (value) => new Big(value as string) }`. */
+export type ValueConverters = Partial<
+  Record<ConvertibleColumnType, ValueConverter>
+>
+
+/** The default conversion of the values:
+ *  * (U)Int64, (U)Int128, (U)Int256 - bigint
+ *  * Date, Date32, DateTime, DateTime64 - Date (DateTime64 precision is limited to milliseconds);
+ *    there is no built-in conversion to the `Temporal` types, a converter has to be provided for that
+ *  * Map - Map, with the keys converted as well
+ *  * Decimal - not converted: JS has no decimal type, so the values stay exact strings;
+ *    a converter has to be provided to get a decimal representation, e.g. with a decimal library of choice
+ *  * the rest of the types - as is. */
+const DefaultValueConverters: ValueConverters = {
+  UInt64: toBigInt,
+  Int64: toBigInt,
+  UInt128: toBigInt,
+  Int128: toBigInt,
+  UInt256: toBigInt,
+  Int256: toBigInt,
+  Date: toDate,
+  Date32: toDate,
+  DateTime: toDateTime,
+  DateTime64: toDateTime,
+  Map: toMap,
+}
+
+const FormatsWithHeaderRows: Partial<Record<DataFormat, number>> = {
+  JSONCompactEachRowWithNames: 1,
+  JSONCompactEachRowWithNamesAndTypes: 2,
+}
+
+const FormatsWithMetadata: DataFormat[] = [
+  'JSON',
+  'JSONCompact',
+  'JSONColumnsWithMetadata',
+  'JSONCompactEachRowWithNamesAndTypes',
+]
+
+const SupportedFormats: DataFormat[] = [
+  ...FormatsWithMetadata,
+  'JSONEachRow',
+  'JSONCompactEachRow',
+  'JSONCompactEachRowWithNames',
+  'JSONObjectEachRow',
+]
+
+/**
+ * Throws if the values of the format cannot be converted:
+ * the `*Strings*` and non-JSON formats are not supported,
+ * and the formats without the types in the response require the schema.
+ */
+export function validateValueConversion(
+  format: DataFormat,
+  schema: ColumnSchema | undefined,
+): void {
+  if (!SupportedFormats.includes(format)) {
+    throw new Error(
+      `Value conversion is not supported for the ${format} format. Supported formats: ${SupportedFormats.join(', ')}.`,
+    )
+  }
+  if (!FormatsWithMetadata.includes(format) && schema === undefined) {
+    throw new Error(
+      `Value conversion requires the column types for the ${format} format: provide the schema, or use a format with the types in the response, such as JSON or JSONCompactEachRowWithNamesAndTypes.`,
+    )
+  }
+}
+
+/**
+ * Converts the rows of a JSON response, using the column types from the schema provided with the query,
+ * or from the response itself (`meta` of the JSON formats, or the header rows of `*WithNamesAndTypes`).
+ * Used by the result sets; a new instance is required for each of the responses.
+ */
+export class ResultSetValueConverter {
+  private readonly headerRows: number
+  private readonly converters: ValueConverters
+  private columns: ConvertedColumn[] | undefined
+  private headerNames: string[] = []
+  private rowIndex = 0
+
+  constructor(
+    private readonly format: DataFormat,
+    schema: ColumnSchema | undefined,
+    converters: ValueConverters = {},
+  ) {
+    validateValueConversion(format, schema)
+    this.headerRows = FormatsWithHeaderRows[format] ?? 0
+    this.converters = { ...DefaultValueConverters, ...converters }
+    if (schema !== undefined) {
+      this.columns = schema.map(toConvertedColumn)
+    }
+  }
+
+  /** Creates a {@link Row} from the next line of the response;
+   *  it should be called for every line, including the header rows, in order. */
+  row(text: string): Row {
+    const index = this.rowIndex++
+    if (index < this.headerRows) {
+      const header = JSON.parse(text) as string[]
+      this.readHeaderRow(index, header)
+      return { text, json: <T>() => JSON.parse(text) as T }
+    }
+    return {
+      text,
+      json: <T>() => this.convertRow(JSON.parse(text)) as T,
+    }
+  }
+
+  /** Converts the `data` of a single document JSON format (e.g., JSON, JSONCompact),
+   *  or the rows of JSONObjectEachRow. */
+  document(document: unknown): unknown {
+    if (this.format === 'JSONObjectEachRow') {
+      const records = document as Record<string, unknown>
+      return Object.fromEntries(
+        Object.entries(records).map(([key, row]) => [
+          key,
+          this.convertRow(row),
+        ]),
+      )
+    }
+    const result = document as {
+      meta?: ColumnSchema
+      data: unknown
+    }
+    if (result.meta !== undefined) {
+      this.columns = result.meta.map(toConvertedColumn)
+    }
+    const columns = this.getColumns()
+    if (this.format === 'JSONColumnsWithMetadata') {
+      const data = result.data as Record<string, unknown[]>
+      for (const column of columns) {
+        const values = data[column.name]
+        if (values !== undefined) {
+          data[column.name] = values.map((value) =>
+            this.convert(value, column.type),
+          )
+        }
+      }
+      return result
+    }
+    result.data = (result.data as unknown[]).map((row) => this.convertRow(row))
+    return result
+  }
+
+  private convertRow(row: unknown): unknown {
+    const columns = this.getColumns()
+    if (Array.isArray(row)) {
+      return row.map((value, i) =>
+        i < columns.length ? this.convert(value, columns[i].type) : value,
+      )
+    }
+    const record = row as Record<string, unknown>
+    for (const column of columns) {
+      if (column.name in record) {
+        record[column.name] = this.convert(record[column.name], column.type)
+      }
+    }
+    return record
+  }
+
+  private readHeaderRow(index: number, header: string[]): void {
+    if (index === 0) {
+      // JSONCompactEachRowWithNames relies on the schema, as the values are matched by the index anyway
+      this.headerNames = header
+      return
+    }
+    this.columns = header.map((type, i) =>
+      toConvertedColumn({ name: this.headerNames[i], type }),
+    )
+  }
+
+  private getColumns(): ConvertedColumn[] {
+    if (this.columns === undefined) {
+      throw new Error(
+        `Cannot convert the values of the ${this.format} format: the column types are not known.`,
+      )
+    }
+    return this.columns
+  }
+
+  private convert = (
+    value: unknown,
+    type: ParsedColumnType | null,
+  ): unknown => {
+    if (value === null || type === null) {
+      return value
+    }
+    switch (type.type) {
+      case 'Nullable':
+      case 'LowCardinality':
+        return this.convert(value, type.value)
+      case 'Array':
+        return (value as unknown[]).map((element) =>
+          this.convert(element, type.value),
+        )
+      case 'Tuple':
+        if (Array.isArray(value)) {
+          return value.map((element, i) =>
+            this.convert(element, type.elements[i]?.type ?? null),
+          )
+        }
+        return Object.fromEntries(
+          type.elements.map(({ name, type }) => {
+            const key = name as string
+            const record = value as Record<string, unknown>
+            return [key, this.convert(record[key], type)]
+          }),
+        )
+    }
+    const converter =
+      this.converters[type.type === 'Simple' ? type.column_type : type.type]
+    return converter !== undefined
+      ? converter(value, type, this.convert)
+      : value
+  }
+}
+
+interface ConvertedColumn {
+  name: string
+  /** `null` if the type is not supported by the client; such values are not converted. */
+  type: ParsedColumnType | null
+}
+
+function toConvertedColumn({
+  name,
+  type,
+}: {
+  name: string
+  type: string
+}): ConvertedColumn {
+  try {
+    return { name, type: parseColumnType(type) }
+  } catch (_) {
+    return { name, type: null }
+  }
+}
+
+function toBigInt(value: unknown): unknown {
+  return typeof value === 'string' || typeof value === 'number'
+    ? BigInt(value)
+    : value
+}
+
+function toDate(value: unknown): unknown {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T00:00:00Z`)
+    : value
+}
+
+/** Supports `iso` and `unix_timestamp` values of `date_time_output_format`;
+ *  the `simple` one is returned as is, as it does not include the timezone. */
+function toDateTime(value: unknown): unknown {
+  if (typeof value === 'number') {
+    return new Date(value * 1000)
+  }
+  if (typeof value !== 'string') {
+    return value
+  }
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    return new Date(Number(value) * 1000)
+  }
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value)) {
+    // Date does not support more than 3 fractional digits
+    return new Date(value.replace(/(\.\d{3})\d+Z$/, '$1Z'))
+  }
+  return value
+}
+
+/** The keys of the JSON objects are always strings, so these are converted as well. */
+function toMap(
+  value: unknown,
+  type: ParsedColumnType,
+  convert: (value: unknown, type: ParsedColumnType) => unknown,
+): unknown {
+  if (type.type !== 'Map' || typeof value !== 'object') {
+    return value
+  }
+  return new Map(
+    Object.entries(value as Record<string, unknown>).map(([key, v]) => [
+      convertMapKey(key, type.key, convert),
+      convert(v, type.value),
+    ]),
+  )
+}
+
+function convertMapKey(
+  key: string,
+  type: ParsedColumnType,
+  convert: (value: unknown, type: ParsedColumnType) => unknown,
+): unknown {
+  const keyType = type.type === 'LowCardinality' ? type.value : type
+  if (keyType.type === 'Simple') {
+    switch (keyType.column_type) {
+      case 'UInt8':
+      case 'Int8':
+      case 'UInt16':
+      case 'Int16':
+      case 'UInt32':
+      case 'Int32':
+      case 'Float32':
+      case 'Float64':
+        return Number(key)
+      case 'Bool':
+        return key === 'true'
+    }
+  }
+  return convert(key, keyType)
+}
@@ -0,0 +1,155 @@
+/**
+ * Well-known ClickHouse server error codes.
+ * See https://github.com/ClickHouse/ClickHouse/blob/master/src/Common/ErrorCodes.cpp for the full list.
+ */
+export const ClickHouseErrorCodes = {
+  CANNOT_PARSE_TEXT: '6',
+  NUMBER_OF_ARGUMENTS_DOESNT_MATCH: '42',
+  ILLEGAL_TYPE_OF_ARGUMENT: '43',
+  UNKNOWN_FUNCTION: '46',
+  UNKNOWN_IDENTIFIER: '47',
+  TYPE_MISMATCH: '53',
+  TABLE_ALREADY_EXISTS: '57',
+  UNKNOWN_TABLE: '60',
+  SYNTAX_ERROR: '62',
+  UNKNOWN_DATABASE: '81',
+  UNKNOWN_SETTING: '115',
+  TIMEOUT_EXCEEDED: '159',
+  READONLY: '164',
+  TOO_MANY_SIMULTANEOUS_QUERIES: '202',
+  SOCKET_TIMEOUT: '209',
+  NETWORK_ERROR: '210',
+  MEMORY_LIMIT_EXCEEDED: '241',
+  TABLE_IS_READ_ONLY: '242',
+  TOO_MANY_PARTS: '252',
+  ALL_CONNECTION_TRIES_FAILED: '279',
+  QUERY_WAS_CANCELLED: '394',
+  TOO_MANY_ROWS_OR_BYTES: '396',
+  ACCESS_DENIED: '497',
+  AUTHENTICATION_FAILED: '516',
+  KEEPER_EXCEPTION: '999',
+} as const
+
+export type ClickHouseErrorType = keyof typeof ClickHouseErrorCodes
+
+/** These are caused by the (temporary) state of the server or the cluster,
+ *  and the same query might succeed if sent again later. */
+const retryableErrorTypes: ReadonlyArray<ClickHouseErrorType> = [
+  'TOO_MANY_SIMULTANEOUS_QUERIES',
+  'SOCKET_TIMEOUT',
+  'NETWORK_ERROR',
+  'MEMORY_LIMIT_EXCEEDED',
+  'TABLE_IS_READ_ONLY',
+  'TOO_MANY_PARTS',
+  'ALL_CONNECTION_TRIES_FAILED',
+  'KEEPER_EXCEPTION',
+]
+
+/** These are caused by the request itself (the query, the settings, the credentials or the permissions),
+ *  and sending it again without changes will not help. */
+const userErrorTypes: ReadonlyArray<ClickHouseErrorType> = [
+  'CANNOT_PARSE_TEXT',
+  'NUMBER_OF_ARGUMENTS_DOESNT_MATCH',
+  'ILLEGAL_TYPE_OF_ARGUMENT',
+  'UNKNOWN_FUNCTION',
+  'UNKNOWN_IDENTIFIER',
+  'TYPE_MISMATCH',
+  'TABLE_ALREADY_EXISTS',
+  'UNKNOWN_TABLE',
+  'SYNTAX_ERROR',
+  'UNKNOWN_DATABASE',
+  'UNKNOWN_SETTING',
+  'TOO_MANY_ROWS_OR_BYTES',
+  'READONLY',
+  'ACCESS_DENIED',
+  'AUTHENTICATION_FAILED',
+]
+
+const errorTypesByCode = new Map<string, ClickHouseErrorType>(
+  Object.entries(ClickHouseErrorCodes).map(([type, code]) => [
+    code,
+    type as ClickHouseErrorType,
+  ]),
+)
+
+export interface ClickHouseErrorParams {
+  message: string
+  code: string
+  /** If not set, it is looked up in {@link ClickHouseErrorCodes} by the code. */
+  type?: string
+  query_id?: string
+  /** Set if the error was received in the middle of a streamed response. */
+  rows_received?: number
+  http_status?: number
+}
+
+export class ClickHouseError extends Error {
+  readonly code: string
+  readonly type: string | undefined
+  /** The ID of the failed query, if it is known. */
+  readonly query_id: string | undefined
+  /** The number of rows of the response that were received before the error,
+   *  if the query failed after the response has started. */
+  readonly rows_received: number | undefined
+  /** The HTTP status of the response with the error; not set for the errors in the middle of a streamed response. */
+  readonly http_status: number | undefined
+  /** `true` if the error is caused by the (temporary) state of the server, such as
+   *  TOO_MANY_SIMULTANEOUS_QUERIES or MEMORY_LIMIT_EXCEEDED, and the same query might succeed later. */
+  readonly isRetryable: boolean
+  /** `true` if the error is caused by the request itself, such as SYNTAX_ERROR, UNKNOWN_TABLE
+   *  or AUTHENTICATION_FAILED, and the request should be fixed before sending it again. */
+  readonly isUserError: boolean
+  constructor({
+    message,
+    code,
+    type,
+    query_id,
+    rows_received,
+    http_status,
+  }: ClickHouseErrorParams) {
+    super(message)
+    const knownType = errorTypesByCode.get(code)
+    this.code = code
+    this.type = type ?? knownType
+    this.query_id = query_id
+    this.rows_received = rows_received
+    this.http_status = http_status
+    this.isRetryable =
+      knownType !== undefined && retryableErrorTypes.includes(knownType)
+    this.isUserError =
+      knownType !== undefined && userErrorTypes.includes(knownType)
+
+    // Set the prototype explicitly, see:
+    // https://github.com/Microsoft/TypeScript/wiki/Breaking-Changes#extending-built-ins-like-error-array-and-map-may-no-longer-work
+    Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
+
+export class UnknownTableError extends ClickHouseError {}
+export class QuerySyntaxError extends ClickHouseError {}
+export class TimeoutExceededError extends ClickHouseError {}
+export class MemoryLimitExceededError extends ClickHouseError {}
+export class TooManySimultaneousQueriesError extends ClickHouseError {}
+export class ReadonlyError extends ClickHouseError {}
+export class AuthenticationFailedError extends ClickHouseError {}
+
+const errorClassesByCode = new Map<string, typeof ClickHouseError>([
+  [ClickHouseErrorCodes.UNKNOWN_TABLE, UnknownTableError],
+  [ClickHouseErrorCodes.SYNTAX_ERROR, QuerySyntaxError],
+  [ClickHouseErrorCodes.TIMEOUT_EXCEEDED, TimeoutExceededError],
+  [ClickHouseErrorCodes.MEMORY_LIMIT_EXCEEDED, MemoryLimitExceededError],
+  [
+    ClickHouseErrorCodes.TOO_MANY_SIMULTANEOUS_QUERIES,
+    TooManySimultaneousQueriesError,
+  ],
+  [ClickHouseErrorCodes.READONLY, ReadonlyError],
+  [ClickHouseErrorCodes.AUTHENTICATION_FAILED, AuthenticationFailedError],
+])
+
+/** Creates an instance of the {@link ClickHouseError} subclass that corresponds to the error code, if there is any. */
+export function createClickHouseError(
+  params: ClickHouseErrorParams,
+): ClickHouseError {
+  const ErrorClass = errorClassesByCode.get(params.code) ?? ClickHouseError
+  return new ErrorClass(params)
+}
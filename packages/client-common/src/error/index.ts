@@ -1 +1,2 @@
+export * from './clickhouse_error'
 export * from './parse_error'
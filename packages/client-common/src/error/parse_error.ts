@@ -1,3 +1,5 @@
+import { ClickHouseError, createClickHouseError } from './clickhouse_error'
+
 const errorRe =
   /(Code|Error): (?<code>\d+).*Exception: (?<message>.+)\((?<type>(?=.+[A-Z]{3})[A-Z0-9_]+?)\)/s
 
@@ -7,28 +9,123 @@ interface ParsedClickHouseError {
   type?: string
 }
 
-export class ClickHouseError extends Error {
-  readonly code: string
-  readonly type: string | undefined
-  constructor({ message, code, type }: ParsedClickHouseError) {
-    super(message)
-    this.code = code
-    this.type = type
-
-    // Set the prototype explicitly, see:
-    // https://github.com/Microsoft/TypeScript/wiki/Breaking-Changes#extending-built-ins-like-error-array-and-map-may-no-longer-work
-    Object.setPrototypeOf(this, ClickHouseError.prototype)
-  }
+/** The details of the failed request that are not in the error message. */
+export interface ClickHouseErrorDetails {
+  query_id?: string
+  http_status?: number
 }
 
-export function parseError(input: string | Error): ClickHouseError | Error {
+export function parseError(
+  input: string | Error,
+  details?: ClickHouseErrorDetails,
+): ClickHouseError | Error {
   const inputIsError = input instanceof Error
   const message = inputIsError ? input.message : input
   const match = message.match(errorRe)
   const groups = match?.groups as ParsedClickHouseError | undefined
   if (groups) {
-    return new ClickHouseError(groups)
+    return createClickHouseError({
+      message: groups.message,
+      code: groups.code,
+      type: groups.type,
+      ...details,
+    })
   } else {
     return inputIsError ? input : new Error(input)
   }
 }
+
+const streamErrorRe = /^(Code|Error): \d+\.\s*DB::Exception:/
+const streamErrorMarker = '__exception__'
+const jsonStreamErrorPrefix = '{"exception"'
+
+/**
+ * If a query fails after ClickHouse has already sent the response status and some of the rows,
+ * the exception is written into the response body instead. Depending on the format and the server version,
+ * it is either a plain text line (`Code: 395. DB::Exception: ...`), a JSON row (`{"exception": "Code: 395. ..."}`),
+ * or a block wrapped in `__exception__` markers. Checks if a row of the response is the start of such an exception.
+ */
+export function isStreamErrorRow(text: string): boolean {
+  switch (text.charCodeAt(0)) {
+    case 0x43: // C
+    case 0x45: // E
+      return streamErrorRe.test(text)
+    case 0x5f: // _
+      return text.trimEnd() === streamErrorMarker
+    case 0x7b: // {
+      return getJSONStreamErrorMessage(text) !== undefined
+    default:
+      return false
+  }
+}
+
+/**
+ * The exception is always the end of the response; a row that only looks like one (e.g., a value of a column
+ * named `exception`, or a log message) is followed by more rows. Checks if the rows held back since a row
+ * detected by {@link isStreamErrorRow} can still be the exception: a plain text or a JSON exception is a single row,
+ * and nothing follows the closing marker of a wrapped one. If not, the first of the held rows is regular data.
+ */
+export function isStreamErrorTail(rows: string[]): boolean {
+  if (rows.length === 0 || !isStreamErrorRow(rows[0])) {
+    return false
+  }
+  if (rows[0].trimEnd() !== streamErrorMarker) {
+    return rows.length === 1
+  }
+  const closingIdx = rows.findIndex(
+    (row, idx) => idx > 0 && row.trimEnd() === streamErrorMarker,
+  )
+  return closingIdx === -1 || closingIdx === rows.length - 1
+}
+
+/**
+ * Creates an error from the exception found in the middle of a streamed response (see {@link isStreamErrorRow}).
+ * @param text the rest of the response, starting from the exception row.
+ * @param query_id the ID of the failed query.
+ * @param rows_received the number of rows that were received before the exception.
+ */
+export function parseStreamError(
+  text: string,
+  query_id: string,
+  rows_received: number,
+): ClickHouseError {
+  const message = getJSONStreamErrorMessage(text) ?? text
+  const parsed = parseError(message, { query_id })
+  if (parsed instanceof ClickHouseError) {
+    return createClickHouseError({
+      message: parsed.message,
+      code: parsed.code,
+      type: parsed.type,
+      query_id,
+      rows_received,
+    })
+  }
+  // the exception text is truncated or malformed; still better than a garbage row
+  const code = message.match(/(Code|Error): (\d+)/)?.[2] ?? ''
+  return createClickHouseError({
+    message: message.trim(),
+    code,
+    query_id,
+    rows_received,
+  })
+}
+
+function getJSONStreamErrorMessage(text: string): string | undefined {
+  if (!text.startsWith(jsonStreamErrorPrefix)) {
+    return undefined
+  }
+  try {
+    const json = JSON.parse(text)
+    const keys = Object.keys(json)
+    if (
+      keys.length === 1 &&
+      typeof json.exception === 'string' &&
+      streamErrorRe.test(json.exception)
+    ) {
+      return json.exception
+    }
+  } catch (err) {
+    // not a complete JSON object, so not an exception
+  }
+  return undefined
+}
@@ -2,6 +2,7 @@
 export {
   type BaseQueryParams,
   type QueryParams,
+  type ExternalTable,
   type QueryResult,
   type ExecParams,
   type InsertParams,
@@ -13,7 +14,11 @@ export {
   type InsertResult,
   type PingResult,
 } from './client'
-export { type BaseClickHouseClientConfigOptions } from './config'
+export {
+  type BaseClickHouseClientConfigOptions,
+  type CompressionOptions,
+} from './config'
+export type { CompressionCodec } from './connection'
 export type {
   Row,
   BaseResultSet,
@@ -34,8 +39,76 @@ export type {
   StreamableJSONFormats,
   SingleDocumentJSONFormats,
   RecordsJSONFormats,
+  RowBinaryFormats,
+  RowBinaryDataFormat,
+  NativeFormats,
+  NativeDataFormat,
+  NativeBlock,
+  NativeColumnValues,
+  NativeInsertBlock,
+  BinaryRawFormats,
+  BinaryRawDataFormat,
+  ArrowFormats,
+  ArrowDataFormat,
+  ColumnSchema,
+  ParsedColumnType,
+  ValueConverter,
+  ValueConverters,
+  ConvertibleColumnType,
+  InsertValidationFailure,
 } from './data_formatter'
-export { ClickHouseError } from './error'
+export { InsertValidationError } from './data_formatter'
+export {
+  ClickHouseError,
+  ClickHouseErrorCodes,
+  type ClickHouseErrorType,
+  UnknownTableError,
+  QuerySyntaxError,
+  TimeoutExceededError,
+  MemoryLimitExceededError,
+  TooManySimultaneousQueriesError,
+  ReadonlyError,
+  AuthenticationFailedError,
+} from './error'
+export { sql, SQLFragment, SQLParam, type RenderedSQL } from './sql'
+export {
+  BatchInserter,
+  type BatchInserterParams,
+  type BatchInsertResult,
+} from './batch_inserter'
+export type {
+  DatabaseInfo,
+  TableInfo,
+  TableColumn,
+  ColumnDefaultKind,
+  TableEngine,
+} from './introspection'
+export {
+  Migrator,
+  type MigratorParams,
+  type Migration,
+  type MigrationStep,
+  type MigrationContext,
+  type MigrationState,
+  type MigrationStatus,
+} from './migrations'
+export {
+  ClickHouseSession,
+  type SessionParams,
+  type SessionRequestParams,
+} from './session'
+export type {
+  Endpoint,
+  LoadBalancingStrategy,
+  LoadBalancingStrategyName,
+} from './load_balancing'
+export type { KillQueryMode } from './utils'
+export type {
+  Middleware,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  MiddlewareError,
+} from './middleware'
 export {
   ClickHouseLogLevel,
   type ErrorLogParams,
@@ -45,6 +118,7 @@ export {
 } from './logger'
 export type {
   ClickHouseSummary,
+  ClickHouseProgress,
   InputJSON,
   InputJSONObjectEachRow,
   ResponseJSON,
@@ -64,31 +138,77 @@ export {
   formatQueryParams,
   encodeJSON,
   isSupportedRawFormat,
+  isRowBinaryFormat,
+  isNativeFormat,
+  isBinaryRawFormat,
+  isArrowFormat,
   isStreamableJSONFamily,
   isNotStreamableJSONFamily,
   validateStreamFormat,
+  parseColumnType,
+  parseStructure,
+  RowBinaryResultDecoder,
+  RowBinaryRowEncoder,
+  NativeResultDecoder,
+  NativeBlockEncoder,
+  nativeBlockToRows,
+  ArrowRecordBatchSplitter,
+  ArrowIPCStreamWriter,
+  encodeArrowIPCStream,
+  rowBinaryRow,
+  ResultSetValueConverter,
+  InsertValuesValidator,
+  type InsertValidationColumn,
 } from './data_formatter'
 export {
   type ValuesEncoder,
   type MakeResultSet,
   type MakeConnection,
+  type OnStreamEnd,
   type HandleImplSpecificURLParams,
   type ImplementationDetails,
   booleanConfigURLValue,
   enumConfigURLValue,
   getConnectionParams,
   numberConfigURLValue,
+  withCompressionOverrides,
 } from './config'
 export {
   isSuccessfulResponse,
+  isIterableInsertValues,
   sleep,
   toSearchParams,
   transformUrl,
   withCompressionHeaders,
   withHttpSettings,
+  getRetrySettings,
+  parseProgressHeader,
+  withRetries,
+  withResponseStatus,
+  withErrorCode,
+  isRetryableRequest,
+  type RetrySettings,
+  getCancelOnAbortSettings,
+  isAbortedOrTimedOut,
+  killQuery,
+  type CancelOnAbortSettings,
 } from './utils'
 export { LogWriter, DefaultLogger, type LogWriterParams } from './logger'
-export { parseError } from './error'
+export {
+  generateTypeScript,
+  columnTypeToTypeScript,
+  loadTableSchemas,
+  loadTypeGenerationOptions,
+  type TableSchema,
+  type TableSchemaColumn,
+  type TypeGenerationOptions,
+} from './codegen'
+export {
+  parseError,
+  isStreamErrorRow,
+  isStreamErrorTail,
+  parseStreamError,
+} from './error'
 export type {
   CompressionSettings,
   Connection,
@@ -98,11 +218,16 @@ export type {
   ConnExecResult,
   ConnQueryResult,
   ConnBaseQueryParams,
+  ConnQueryParams,
+  ConnExternalTable,
   ConnBaseResult,
   ConnInsertParams,
   ConnPingResult,
   ConnCommandResult,
   ConnOperation,
 } from './connection'
+export { sharedConnection } from './connection'
+export { SessionConnection } from './session'
+export { withMiddleware } from './middleware'
 export type { QueryParamsWithFormat } from './client'
 export type { IsSame } from './ts_utils'
@@ -0,0 +1,237 @@
+import { ClickHouseErrorCodes, createClickHouseError } from './error'
+import type { SQLFragment } from './sql'
+import { sql } from './sql'
+
+export interface DatabaseInfo {
+  name: string
+  engine: string
+  comment: string
+}
+
+export interface TableInfo {
+  database: string
+  name: string
+  engine: string
+  is_temporary: boolean
+  /** `null` if the engine does not provide the exact number of rows (e.g., for views). */
+  total_rows: number | null
+  /** `null` if the engine does not provide the size of the data (e.g., for views). */
+  total_bytes: number | null
+  comment: string
+}
+
+/** An empty string means that the column has no default expression. */
+export type ColumnDefaultKind =
+  | ''
+  | 'DEFAULT'
+  | 'MATERIALIZED'
+  | 'ALIAS'
+  | 'EPHEMERAL'
+
+export interface TableColumn {
+  name: string
+  type: string
+  default_kind: ColumnDefaultKind
+  default_expression: string
+  /** For example, `CODEC(ZSTD(1))`; an empty string if the default codec is used. */
+  codec: string
+  comment: string
+  is_in_partition_key: boolean
+  is_in_sorting_key: boolean
+  is_in_primary_key: boolean
+}
+
+export interface TableEngine {
+  /** The name of the engine, e.g. `ReplacingMergeTree`. */
+  engine: string
+  /** The engine with its parameters and all the clauses, as in the `CREATE TABLE` statement. */
+  engine_full: string
+  partition_key: string
+  sorting_key: string
+  primary_key: string
+  sampling_key: string
+  /** The table-level settings from the `SETTINGS` clause (e.g., MergeTree settings), with the values as written there;
+   *  the quotes of the string values are removed. */
+  settings: Record<string, string>
+}
+
+/** Runs the query in `JSONEachRow` format, and returns all the rows. */
+export type IntrospectionQuery = (query: SQLFragment) => Promise<unknown[]>
+
+export async function listDatabases(
+  query: IntrospectionQuery,
+): Promise<DatabaseInfo[]> {
+  const rows = await query(
+    sql`SELECT name, engine, comment FROM system.databases ORDER BY name`,
+  )
+  return rows as DatabaseInfo[]
+}
+
+/** If the database is not set, the tables of the current one are returned. */
+export async function listTables(
+  query: IntrospectionQuery,
+  database?: string,
+): Promise<TableInfo[]> {
+  const rows = (await query(sql`
+    SELECT database, name, engine, is_temporary, total_rows, total_bytes, comment
+    FROM system.tables
+    WHERE database = ${databaseCondition(database)}
+    ORDER BY name
+  `)) as RawTableInfo[]
+  return rows.map((row) => ({
+    ...row,
+    is_temporary: Boolean(row.is_temporary),
+    total_rows: toNullableNumber(row.total_rows),
+    total_bytes: toNullableNumber(row.total_bytes),
+  }))
+}
+
+/** The table name can be either `table` (in the current database) or `database.table`. */
+export async function describeTable(
+  query: IntrospectionQuery,
+  table: string,
+): Promise<TableColumn[]> {
+  const { database, name } = parseTableName(table)
+  const rows = (await query(sql`
+    SELECT name, type, default_kind, default_expression,
+           compression_codec AS codec, comment,
+           is_in_partition_key, is_in_sorting_key, is_in_primary_key
+    FROM system.columns
+    WHERE database = ${databaseCondition(database)} AND table = ${name}
+    ORDER BY position
+  `)) as RawTableColumn[]
+  if (rows.length === 0) {
+    throw unknownTableError(table)
+  }
+  return rows.map((row) => ({
+    ...row,
+    is_in_partition_key: Boolean(row.is_in_partition_key),
+    is_in_sorting_key: Boolean(row.is_in_sorting_key),
+    is_in_primary_key: Boolean(row.is_in_primary_key),
+  }))
+}
+
+/** The table name can be either `table` (in the current database) or `database.table`. */
+export async function getTableEngine(
+  query: IntrospectionQuery,
+  table: string,
+): Promise<TableEngine> {
+  const { database, name } = parseTableName(table)
+  const rows = (await query(sql`
+    SELECT engine, engine_full, partition_key, sorting_key, primary_key, sampling_key
+    FROM system.tables
+    WHERE database = ${databaseCondition(database)} AND name = ${name}
+  `)) as Array<Omit<TableEngine, 'settings'>>
+  if (rows.length === 0) {
+    throw unknownTableError(table)
+  }
+  return { ...rows[0], settings: parseEngineSettings(rows[0].engine_full) }
+}
+
+/** Splits `database.table` into the parts; the parts can be quoted with backticks or double quotes. */
+export function parseTableName(table: string): {
+  database: string | undefined
+  name: string
+} {
+  const match = table
+    .trim()
+    .match(/^(?:(`[^`]+`|"[^"]+"|[^.`"]+)\.)?(`[^`]+`|"[^"]+"|[^`"]+)$/)
+  if (match === null) {
+    throw new Error(`Invalid table name: ${table}`)
+  }
+  return {
+    database: match[1] !== undefined ? unquote(match[1]) : undefined,
+    name: unquote(match[2]),
+  }
+}
+
+/** Extracts the settings from the `SETTINGS` clause of the `engine_full` column of `system.tables`. */
+export function parseEngineSettings(
+  engine_full: string,
+): Record<string, string> {
+  const settings: Record<string, string> = {}
+  const index = engine_full.lastIndexOf(' SETTINGS ')
+  if (index === -1) {
+    return settings
+  }
+  for (const setting of splitOutsideQuotes(
+    engine_full.slice(index + ' SETTINGS '.length),
+  )) {
+    const eq = setting.indexOf('=')
+    if (eq === -1) {
+      continue
+    }
+    const value = setting.slice(eq + 1).trim()
+    settings[setting.slice(0, eq).trim()] =
+      value.startsWith("'") && value.endsWith("'")
+        ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+        : value
+  }
+  return settings
+}
+
+interface RawTableInfo
+  extends Omit<TableInfo, 'is_temporary' | 'total_rows' | 'total_bytes'> {
+  is_temporary: number
+  // UInt64 values are quoted in JSON formats by default
+  total_rows: string | number | null
+  total_bytes: string | number | null
+}
+
+interface RawTableColumn
+  extends Omit<
+    TableColumn,
+    'is_in_partition_key' | 'is_in_sorting_key' | 'is_in_primary_key'
+  > {
+  is_in_partition_key: number
+  is_in_sorting_key: number
+  is_in_primary_key: number
+}
+
+function databaseCondition(database: string | undefined): SQLFragment {
+  return database === undefined ? sql`currentDatabase()` : sql`${database}`
+}
+
+function toNullableNumber(value: string | number | null): number | null {
+  return value === null ? null : Number(value)
+}
+
+function unquote(part: string): string {
+  return /^(`.*`|".*")$/.test(part) ? part.slice(1, -1) : part
+}
+
+function unknownTableError(table: string) {
+  return createClickHouseError({
+    message: `Table ${table} does not exist.`,
+    code: ClickHouseErrorCodes.UNKNOWN_TABLE,
+  })
+}
+
+/** Splits the list by the commas that are not inside the quotes or the parentheses. */
+function splitOutsideQuotes(list: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let isQuoted = false
+  let start = 0
+  for (let i = 0; i < list.length; i++) {
+    const char = list[i]
+    if (isQuoted) {
+      if (char === '\\') {
+        i++
+      } else if (char === "'") {
+        isQuoted = false
+      }
+    } else if (char === "'") {
+      isQuoted = true
+    } else if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+    } else if (char === ',' && depth === 0) {
+      parts.push(list.slice(start, i))
+      start = i + 1
+    }
+  }
+  parts.push(list.slice(start))
+  return parts
+}
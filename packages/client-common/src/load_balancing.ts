@@ -0,0 +1,279 @@
+import type {
+  ConnBaseQueryParams,
+  ConnCommandResult,
+  ConnExecParams,
+  ConnExecResult,
+  ConnInsertParams,
+  ConnInsertResult,
+  Connection,
+  ConnOperation,
+  ConnPingResult,
+  ConnQueryParams,
+  ConnQueryResult,
+} from './connection'
+import type { LogWriter } from './logger'
+import type { RetrySettings } from './utils'
+import { getErrorCode } from './utils'
+
+/** The state of a ClickHouse endpoint, as seen by a {@link LoadBalancingStrategy}. */
+export interface Endpoint {
+  readonly url: URL
+  /** `false` if the last request to the endpoint failed with a connection error, and it did not respond to `ping` since then. */
+  readonly healthy: boolean
+  /** The number of requests sent to the endpoint that are still waiting for the response. */
+  readonly in_flight: number
+}
+
+/**
+ * Selects an endpoint for the next request. The endpoints are passed in the order of the `url` list.
+ * Normally, only the healthy endpoints are passed; if all of them are down, the request is sent to one
+ * of the unhealthy ones. If the request fails with a connection error, the strategy is called again
+ * without the endpoints that were already tried.
+ */
+export type LoadBalancingStrategy = (
+  endpoints: ReadonlyArray<Endpoint>,
+) => Endpoint
+
+export type LoadBalancingStrategyName =
+  | 'round_robin'
+  | 'random'
+  | 'least_in_flight'
+  | 'first_healthy'
+
+export function makeLoadBalancingStrategy(
+  strategy: LoadBalancingStrategyName | LoadBalancingStrategy,
+): LoadBalancingStrategy {
+  if (typeof strategy === 'function') {
+    return strategy
+  }
+  switch (strategy) {
+    case 'round_robin': {
+      let counter = 0
+      return (endpoints) => endpoints[counter++ % endpoints.length]
+    }
+    case 'random':
+      return (endpoints) =>
+        endpoints[Math.floor(Math.random() * endpoints.length)]
+    case 'least_in_flight':
+      return (endpoints) =>
+        endpoints.reduce((least, endpoint) =>
+          endpoint.in_flight < least.in_flight ? endpoint : least,
+        )
+    case 'first_healthy':
+      return (endpoints) => endpoints[0]
+    default:
+      throw new Error(`Unknown load balancing strategy: ${strategy}`)
+  }
+}
+
+/** These indicate that the request did not reach the server at all, so it is safe to send it to another endpoint. */
+const ConnectErrorCodes = [
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+]
+
+export interface MultiEndpointConnectionParams<Stream> {
+  endpoints: Array<{ url: URL; connection: Connection<Stream> }>
+  strategy: LoadBalancingStrategy
+  health_check_interval_ms: number
+  retry: RetrySettings
+  log_writer: LogWriter
+}
+
+interface EndpointState<Stream> extends Endpoint {
+  readonly connection: Connection<Stream>
+  healthy: boolean
+  in_flight: number
+  health_check?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Distributes the requests between several endpoints (e.g., the replicas of a cluster),
+ * each with its own underlying connection (and its own sockets pool, in the Node.js version).
+ *
+ * If a request fails with a connection error, the endpoint is marked as down and pinged in the background
+ * until it responds again. The request is then sent to another endpoint, if it can be safely repeated:
+ * `ping` and `query` are always sent again, while `insert`, `exec` and `command` only if the connection
+ * could not be established at all (e.g., `ECONNREFUSED`), and the request body is not a stream.
+ */
+export class MultiEndpointConnection<Stream> implements Connection<Stream> {
+  private readonly endpoints: Array<EndpointState<Stream>>
+  private isClosed = false
+
+  constructor(private readonly params: MultiEndpointConnectionParams<Stream>) {
+    this.endpoints = params.endpoints.map(({ url, connection }) => ({
+      url,
+      connection,
+      healthy: true,
+      in_flight: 0,
+    }))
+  }
+
+  async ping(): Promise<ConnPingResult> {
+    return this.request('Ping', true, async (connection) => {
+      const result = await connection.ping()
+      // ping does not throw, but the endpoint could still be down
+      if (!result.success) {
+        throw result.error
+      }
+      return result
+    }).catch((error: Error) => ({ success: false, error }))
+  }
+
+  async query(
+    params: ConnQueryParams<Stream>,
+  ): Promise<ConnQueryResult<Stream>> {
+    return this.request(
+      'Query',
+      (params.external_tables ?? []).every(({ values }) => isBuffered(values)),
+      (connection) => connection.query(params),
+      params.abort_signal,
+    )
+  }
+
+  async insert(params: ConnInsertParams<Stream>): Promise<ConnInsertResult> {
+    return this.request(
+      'Insert',
+      isBuffered(params.values),
+      (connection) => connection.insert(params),
+      params.abort_signal,
+    )
+  }
+
+  async exec(params: ConnExecParams<Stream>): Promise<ConnExecResult<Stream>> {
+    return this.request(
+      'Exec',
+      params.values === undefined,
+      (connection) => connection.exec(params),
+      params.abort_signal,
+    )
+  }
+
+  async command(params: ConnBaseQueryParams): Promise<ConnCommandResult> {
+    return this.request(
+      'Command',
+      true,
+      (connection) => connection.command(params),
+      params.abort_signal,
+    )
+  }
+
+  /** The session state is kept by the server, so all the requests of a session go to the same endpoint;
+   *  there is no failover for them. */
+  pin(): Connection<Stream> {
+    return this.select(new Set()).connection.pin()
+  }
+
+  async close(): Promise<void> {
+    this.isClosed = true
+    for (const endpoint of this.endpoints) {
+      clearTimeout(endpoint.health_check)
+    }
+    await Promise.all(
+      this.endpoints.map(({ connection }) => connection.close()),
+    )
+  }
+
+  private async request<T>(
+    op: ConnOperation,
+    isReplayable: boolean,
+    send: (connection: Connection<Stream>) => Promise<T>,
+    abort_signal?: AbortSignal,
+  ): Promise<T> {
+    const tried = new Set<EndpointState<Stream>>()
+    for (;;) {
+      const endpoint = this.select(tried)
+      tried.add(endpoint)
+      endpoint.in_flight++
+      try {
+        return await send(endpoint.connection)
+      } catch (err) {
+        const code = getErrorCode(err)
+        if (!this.isConnectionError(code)) {
+          throw err
+        }
+        this.markDown(endpoint, err as Error)
+        const canFailover =
+          isReplayable &&
+          (op === 'Ping' ||
+            op === 'Query' ||
+            ConnectErrorCodes.includes(code as string))
+        if (
+          !canFailover ||
+          abort_signal?.aborted ||
+          tried.size === this.endpoints.length
+        ) {
+          throw err
+        }
+        this.params.log_writer.warn({
+          message: `${op}: request to ${endpoint.url} failed with ${code}, sending it to another endpoint.`,
+        })
+      } finally {
+        endpoint.in_flight--
+      }
+    }
+  }
+
+  private select(tried: Set<EndpointState<Stream>>): EndpointState<Stream> {
+    const candidates = this.endpoints.filter((e) => !tried.has(e))
+    const healthy = candidates.filter((e) => e.healthy)
+    // if all the endpoints are down, it is still better to try one of them than to fail right away
+    const endpoint = this.params.strategy(
+      healthy.length > 0 ? healthy : candidates,
+    )
+    const state = candidates.find((e) => e === endpoint)
+    if (state === undefined) {
+      throw new Error(
+        'Load balancing strategy returned an endpoint that is not in the list',
+      )
+    }
+    return state
+  }
+
+  private isConnectionError(code: string | undefined): boolean {
+    return (
+      code !== undefined &&
+      (ConnectErrorCodes.includes(code) ||
+        this.params.retry.retryable_error_codes.includes(code))
+    )
+  }
+
+  private markDown(endpoint: EndpointState<Stream>, err: Error): void {
+    if (!endpoint.healthy) {
+      return
+    }
+    endpoint.healthy = false
+    this.params.log_writer.warn({
+      message: `Endpoint ${endpoint.url} is marked as down.`,
+      err,
+    })
+    this.scheduleHealthCheck(endpoint)
+  }
+
+  private scheduleHealthCheck(endpoint: EndpointState<Stream>): void {
+    if (this.isClosed) {
+      return
+    }
+    endpoint.health_check = setTimeout(async () => {
+      const result = await endpoint.connection.ping()
+      if (result.success) {
+        endpoint.healthy = true
+        this.params.log_writer.info({
+          message: `Endpoint ${endpoint.url} is back up.`,
+        })
+      } else {
+        this.scheduleHealthCheck(endpoint)
+      }
+    }, this.params.health_check_interval_ms)
+    // the health checks should not keep the Node.js process alive
+    ;(endpoint.health_check as { unref?: () => void }).unref?.()
+  }
+}
+
+/** Unlike a stream, the values can be sent again. */
+function isBuffered(values: unknown): boolean {
+  return typeof values === 'string' || values instanceof Uint8Array
+}
@@ -0,0 +1,127 @@
+import type { ClickHouseSummary, ResponseHeaders } from './clickhouse_types'
+import type { ConnOperation } from './connection'
+import type { LogWriter } from './logger'
+
+/** Intercepts the HTTP requests of the client, see {@link ClickHouseClient.use}.
+ *  The hooks of the middleware are called in the order the middleware was added;
+ *  an async hook is awaited before the next one is called. */
+export interface Middleware {
+  /** Called before the request is sent; can modify the URL and the headers of the request.
+   *  If it throws, the request is not sent, and fails with this error. */
+  beforeRequest?: (request: MiddlewareRequest) => void | Promise<void>
+  /** Called when a successful response is received, before its body is read.
+   *  If it throws, the response is discarded, and the request fails with this error. */
+  afterResponse?: (response: MiddlewareResponse) => void | Promise<void>
+  /** Called when the request fails, after all the retries (if enabled); the error is still thrown to the caller.
+   *  If it throws, its error is logged. */
+  onError?: (error: MiddlewareError) => void | Promise<void>
+}
+
+export interface MiddlewareRequest {
+  readonly op: ConnOperation
+  /** Includes the search params of the request, such as `query_id`, `database`, the ClickHouse settings
+   *  (e.g., `max_execution_time`), and the query parameters (`param_` prefixed).
+   *  Can be modified in place (e.g., `request.url.searchParams.set('max_threads', '4')`), or replaced. */
+  url: URL
+  /** Includes the `Authorization` header, unless it is disabled. The compression headers are added after the middleware. */
+  headers: Record<string, string>
+}
+
+export interface MiddlewareResponse {
+  readonly op: ConnOperation
+  readonly url: URL
+  readonly response_headers: ResponseHeaders
+  /** Parsed from the `X-ClickHouse-Summary` response header, if it is present. */
+  readonly summary?: ClickHouseSummary
+}
+
+export interface MiddlewareError {
+  readonly op: ConnOperation
+  readonly url: URL
+  readonly error: Error
+}
+
+export interface WithMiddlewareParams<Result> {
+  middleware: ReadonlyArray<Middleware>
+  op: ConnOperation
+  url: URL
+  headers: Record<string, string>
+  /** Sends the request with the URL and the headers after the {@link Middleware.beforeRequest} hooks. */
+  request: (url: URL, headers: Record<string, string>) => Promise<Result>
+  getResponseHeaders: (result: Result) => ResponseHeaders
+  /** Releases the response, if it is not returned due to a failed {@link Middleware.afterResponse} hook. */
+  discard: (result: Result) => void
+  log_writer: LogWriter
+}
+
+/** Runs the request through the middleware added to the client, if any. */
+export async function withMiddleware<Result>({
+  middleware,
+  op,
+  url,
+  headers,
+  request,
+  getResponseHeaders,
+  discard,
+  log_writer,
+}: WithMiddlewareParams<Result>): Promise<Result> {
+  if (middleware.length === 0) {
+    return request(url, headers)
+  }
+  // the hooks added or removed while the request is in flight do not affect it
+  const chain = [...middleware]
+  const outgoing: MiddlewareRequest = {
+    op,
+    url: new URL(url),
+    headers: { ...headers },
+  }
+  try {
+    for (const { beforeRequest } of chain) {
+      await beforeRequest?.(outgoing)
+    }
+    const result = await request(outgoing.url, outgoing.headers)
+    try {
+      const response_headers = getResponseHeaders(result)
+      const response: MiddlewareResponse = {
+        op,
+        url: outgoing.url,
+        response_headers,
+        summary: parseSummaryHeader(response_headers),
+      }
+      for (const { afterResponse } of chain) {
+        await afterResponse?.(response)
+      }
+    } catch (err) {
+      discard(result)
+      throw err
+    }
+    return result
+  } catch (err) {
+    for (const { onError } of chain) {
+      try {
+        await onError?.({ op, url: outgoing.url, error: err as Error })
+      } catch (onErrorErr) {
+        log_writer.error({
+          message: `${op}: middleware onError hook failed.`,
+          err: onErrorErr as Error,
+        })
+      }
+    }
+    throw err
+  }
+}
+
+function parseSummaryHeader(
+  response_headers: ResponseHeaders,
+): ClickHouseSummary | undefined {
+  const header = response_headers['x-clickhouse-summary']
+  if (typeof header !== 'string') {
+    return undefined
+  }
+  try {
+    return JSON.parse(header)
+  } catch {
+    // a malformed summary is not reported to the middleware
+    return undefined
+  }
+}
@@ -0,0 +1,555 @@
+import type { ClickHouseClient } from './client'
+import type { LogWriter } from './logger'
+import type { ClickHouseSettings } from './settings'
+import { sql, SQLFragment } from './sql'
+import { sleep } from './utils'
+
+/** Passed to the migrations defined as functions. */
+export interface MigrationContext {
+  client: ClickHouseClient<unknown>
+  /** `ON CLUSTER <cluster>` if {@link MigratorParams.cluster} is set, an empty string otherwise;
+   *  the same as the `{{on_cluster}}` placeholder in the SQL migrations. */
+  on_cluster: string
+  /** Runs the statements separated by semicolons one by one with {@link ClickHouseClient.command},
+   *  the same way as the SQL migrations. */
+  run: (statements: string) => Promise<void>
+}
+
+/**
+ * Either the SQL statements separated by semicolons, or a function.
+ * In the statements, the `{{on_cluster}}` placeholder is replaced with `ON CLUSTER <cluster>`
+ * if {@link MigratorParams.cluster} is set, or removed otherwise,
+ * e.g. `CREATE TABLE events {{on_cluster}} (...) ENGINE = ...`.
+ */
+export type MigrationStep =
+  | string
+  | ((context: MigrationContext) => Promise<void>)
+
+export interface Migration {
+  /** Defines the order of the migrations; the numeric parts are compared as numbers,
+   *  so both `1`, `2`, `10` and `20240101120000` versions are sorted as expected. */
+  version: string
+  name: string
+  up: MigrationStep
+  /** Required to roll the migration back. */
+  down?: MigrationStep
+  /** If set, it is stored with the applied migration, so the modifications of the migrations
+   *  that are already applied can be detected (see {@link MigrationState}). */
+  checksum?: string
+}
+
+/**
+ * * `applied` - the migration is applied.
+ * * `pending` - the migration is not applied yet.
+ * * `modified` - the migration is applied, but its checksum has changed since then.
+ * * `missing` - the migration is applied, but it is not in the list of the migrations anymore.
+ */
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing'
+
+export interface MigrationStatus {
+  version: string
+  name: string
+  state: MigrationState
+  /** The server time when the migration was applied, e.g. `2024-01-02 03:04:05.123456`; `null` if it is pending. */
+  applied_at: string | null
+}
+
+export interface MigratorParams {
+  migrations: Migration[]
+  /** The table with the applied migrations. The lock table is created next to it, with the `_lock` suffix.
+   *  @default schema_migrations */
+  table?: string
+  /** The database of the migrations tables.
+   *  @default the current database (see {@link BaseClickHouseClientConfigOptions.database}) */
+  database?: string
+  /** If set, the migrations tables are created `ON CLUSTER`, and the `{{on_cluster}}` placeholder
+   *  of the migrations is replaced with `ON CLUSTER <cluster>`.
+   *  The requests to the migrations tables are sent with `insert_quorum` and `select_sequential_consistency`,
+   *  so the lock works regardless of the replica that receives them.
+   *  @default undefined */
+  cluster?: string
+  /** The engine of the migrations tables, e.g. to specify the ZooKeeper path of the replicated tables.
+   *  @default `ReplicatedMergeTree` if {@link cluster} is set, `MergeTree` otherwise */
+  table_engine?: string
+  /** Sent with every migration statement, e.g. to increase `distributed_ddl_task_timeout`. */
+  clickhouse_settings?: ClickHouseSettings
+  /** How long to wait for the lock, if the migrations are being applied by another process.
+   *  @default 60_000 */
+  lock_timeout_ms?: number
+  /** The lock expires if it is not refreshed for this long (e.g., if the process holding it has crashed).
+   *  The lock is refreshed before every migration, so it should be longer than the slowest one.
+   *  @default 900_000 (15 minutes) */
+  lock_ttl_ms?: number
+  /** After the lock is acquired, the process waits this long and checks that it still holds the lock
+   *  before applying the migrations, as the lock records of the concurrent processes might not be visible right away.
+   *  @default 1_000 */
+  lock_settle_ms?: number
+  /** If set, the migrations that were modified after they had been applied do not fail {@link Migrator.up}.
+   *  @default false */
+  ignore_checksums?: boolean
+}
+
+export interface MigratorImplParams {
+  params: MigratorParams
+  client: ClickHouseClient<unknown>
+  log_writer: LogWriter
+}
+
+/**
+ * Applies the migrations and rolls them back, keeping track of the applied ones in a table.
+ * Only one process can apply the migrations at a time; the others wait for the lock
+ * (see {@link MigratorParams.lock_timeout_ms}).
+ * Created with {@link ClickHouseClient.createMigrator}.
+ */
+export class Migrator {
+  private readonly client: ClickHouseClient<unknown>
+  private readonly logWriter: LogWriter
+  private readonly migrations: Migration[]
+  private readonly table: SQLFragment
+  private readonly lockTable: SQLFragment
+  private readonly onCluster: string
+  private readonly tableEngine: string
+  private readonly clickhouseSettings: ClickHouseSettings
+  /** Sent with the requests to the migrations tables. */
+  private readonly bookkeepingSettings: ClickHouseSettings
+  private readonly lockTimeoutMs: number
+  private readonly lockTtlMs: number
+  private readonly lockSettleMs: number
+  private readonly ignoreChecksums: boolean
+  /** A new one is generated every time the lock is acquired. */
+  private lockOwner = ''
+
+  constructor({ params, client, log_writer }: MigratorImplParams) {
+    this.client = client
+    this.logWriter = log_writer
+    this.migrations = [...params.migrations].sort((a, b) =>
+      compareVersions(a.version, b.version),
+    )
+    for (let i = 1; i < this.migrations.length; i++) {
+      if (this.migrations[i].version === this.migrations[i - 1].version) {
+        throw new Error(
+          `Duplicate migration version ${this.migrations[i].version}: ${this.migrations[i - 1].name} and ${this.migrations[i].name}`,
+        )
+      }
+    }
+    const table = params.table ?? 'schema_migrations'
+    const prefix = params.database !== undefined ? `${params.database}.` : ''
+    this.table = sql.identifier(prefix + table)
+    this.lockTable = sql.identifier(`${prefix}${table}_lock`)
+    this.onCluster =
+      params.cluster !== undefined
+        ? `ON CLUSTER ${sql.identifier(params.cluster).toQuery().query}`
+        : ''
+    this.tableEngine =
+      params.table_engine ??
+      (params.cluster !== undefined ? 'ReplicatedMergeTree' : 'MergeTree')
+    this.clickhouseSettings = params.clickhouse_settings ?? {}
+    this.bookkeepingSettings =
+      params.cluster !== undefined
+        ? { insert_quorum: 'auto', select_sequential_consistency: '1' }
+        : {}
+    this.lockTimeoutMs = params.lock_timeout_ms ?? 60_000
+    this.lockTtlMs = params.lock_ttl_ms ?? 900_000
+    this.lockSettleMs = params.lock_settle_ms ?? 1_000
+    this.ignoreChecksums = params.ignore_checksums ?? false
+  }
+
+  /** Returns the state of every migration, either known or applied, sorted by version. */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = (await this.tableExists())
+      ? await this.getAppliedMigrations()
+      : []
+    return this.getStatus(applied)
+  }
+
+  /**
+   * Applies the pending migrations in order, and returns them.
+   * @param to the version of the last migration to apply; all the pending ones are applied by default.
+   */
+  async up({ to }: { to?: string } = {}): Promise<Migration[]> {
+    return this.withLock(async () => {
+      const status = this.getStatus(await this.getAppliedMigrations())
+      const modified = status.filter(({ state }) => state === 'modified')
+      if (modified.length > 0 && !this.ignoreChecksums) {
+        throw new Error(
+          `The applied migrations were modified: ${modified.map(formatMigration).join(', ')}. Revert the changes, or set ignore_checksums to proceed.`,
+        )
+      }
+      const pending = new Set(
+        status
+          .filter(({ state }) => state === 'pending')
+          .map(({ version }) => version),
+      )
+      const migrations = this.migrations.filter(
+        ({ version }) =>
+          pending.has(version) &&
+          (to === undefined || compareVersions(version, to) <= 0),
+      )
+      for (const migration of migrations) {
+        await this.refreshLock()
+        await this.runStep(migration.up)
+        await this.record(migration, true)
+        this.logWriter.info({
+          module: 'Migrator',
+          message: `Applied migration ${formatMigration(migration)}.`,
+        })
+      }
+      return migrations
+    })
+  }
+
+  /**
+   * Rolls back the applied migrations in reverse order, and returns them.
+   * Rolls back only the last one by default.
+   * @param to rolls back all the migrations after this version (it is not rolled back itself).
+   * @param steps the number of the migrations to roll back; ignored if `to` is set.
+   */
+  async down({ to, steps = 1 }: { to?: string; steps?: number } = {}): Promise<
+    Migration[]
+  > {
+    return this.withLock(async () => {
+      const applied = this.getStatus(await this.getAppliedMigrations())
+        .filter(({ state }) => state !== 'pending')
+        .reverse()
+      const toRollBack =
+        to !== undefined
+          ? applied.filter(({ version }) => compareVersions(version, to) > 0)
+          : applied.slice(0, steps)
+      const migrations = toRollBack.map((status) => {
+        const migration = this.migrations.find(
+          ({ version }) => version === status.version,
+        )
+        if (migration === undefined) {
+          throw new Error(
+            `Cannot roll back migration ${formatMigration(status)}: it is not in the list of the migrations.`,
+          )
+        }
+        if (migration.down === undefined) {
+          throw new Error(
+            `Cannot roll back migration ${formatMigration(migration)}: it has no down step.`,
+          )
+        }
+        return migration
+      })
+      for (const migration of migrations) {
+        await this.refreshLock()
+        await this.runStep(migration.down as MigrationStep)
+        await this.record(migration, false)
+        this.logWriter.info({
+          module: 'Migrator',
+          message: `Rolled back migration ${formatMigration(migration)}.`,
+        })
+      }
+      return migrations
+    })
+  }
+
+  private getStatus(applied: AppliedMigration[]): MigrationStatus[] {
+    const appliedByVersion = new Map(applied.map((m) => [m.version, m]))
+    const status: MigrationStatus[] = this.migrations.map((migration) => {
+      const record = appliedByVersion.get(migration.version)
+      const { version, name } = migration
+      if (record === undefined) {
+        return { version, name, state: 'pending', applied_at: null }
+      }
+      const isModified =
+        migration.checksum !== undefined &&
+        record.checksum !== '' &&
+        migration.checksum !== record.checksum
+      return {
+        version,
+        name,
+        state: isModified ? 'modified' : 'applied',
+        applied_at: record.applied_at,
+      }
+    })
+    const known = new Set(this.migrations.map(({ version }) => version))
+    for (const record of applied) {
+      if (!known.has(record.version)) {
+        status.push({
+          version: record.version,
+          name: record.name,
+          state: 'missing',
+          applied_at: record.applied_at,
+        })
+      }
+    }
+    return status.sort((a, b) => compareVersions(a.version, b.version))
+  }
+
+  private async runStep(step: MigrationStep): Promise<void> {
+    if (typeof step === 'function') {
+      await step({
+        client: this.client,
+        on_cluster: this.onCluster,
+        run: (statements) => this.runStatements(statements),
+      })
+    } else {
+      await this.runStatements(step)
+    }
+  }
+
+  private async runStatements(statements: string): Promise<void> {
+    const text = statements.replace(/\{\{\s*on_cluster\s*\}\}/g, this.onCluster)
+    for (const statement of splitStatements(text)) {
+      await this.client.command({
+        query: statement,
+        clickhouse_settings: this.clickhouseSettings,
+      })
+    }
+  }
+
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await this.createTables()
+    await this.acquireLock()
+    try {
+      return await fn()
+    } finally {
+      await this.releaseLock()
+    }
+  }
+
+  private async createTables(): Promise<void> {
+    const onCluster = raw(this.onCluster)
+    const engine = raw(this.tableEngine)
+    await this.bookkeeping(sql`
+      CREATE TABLE IF NOT EXISTS ${this.table} ${onCluster}
+      (
+        version String,
+        name String,
+        checksum String,
+        is_applied UInt8,
+        updated_at DateTime64(6)
+      )
+      ENGINE = ${engine}
+      ORDER BY (version, updated_at)
+    `)
+    await this.bookkeeping(sql`
+      CREATE TABLE IF NOT EXISTS ${this.lockTable} ${onCluster}
+      (
+        owner String,
+        is_locked UInt8,
+        updated_at DateTime64(6),
+        expires_at DateTime64(6)
+      )
+      ENGINE = ${engine}
+      ORDER BY (owner, updated_at)
+    `)
+  }
+
+  private async tableExists(): Promise<boolean> {
+    const rs = await this.client.query({
+      query: sql`EXISTS TABLE ${this.table}`,
+      format: 'JSONEachRow',
+    })
+    const [row] = await rs.json<{ result: number }>()
+    return Number(row?.result) === 1
+  }
+
+  /** The latest record of each version wins, so the migrations can be applied again after they are rolled back. */
+  private async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    const rs = await this.client.query({
+      query: sql`
+        SELECT version,
+               argMax(name, updated_at) AS name,
+               argMax(checksum, updated_at) AS checksum,
+               toString(max(updated_at)) AS applied_at
+        FROM ${this.table}
+        GROUP BY version
+        HAVING argMax(is_applied, updated_at) = 1
+      `,
+      format: 'JSONEachRow',
+      clickhouse_settings: this.bookkeepingSettings,
+    })
+    return rs.json<AppliedMigration>()
+  }
+
+  private async record(
+    migration: Migration,
+    is_applied: boolean,
+  ): Promise<void> {
+    await this.bookkeeping(sql`
+      INSERT INTO ${this.table} (version, name, checksum, is_applied, updated_at)
+      SELECT ${migration.version}, ${migration.name}, ${migration.checksum ?? ''},
+             ${is_applied ? 1 : 0}, now64(6)
+    `)
+  }
+
+  /**
+   * ClickHouse has no locks, so every process appends its own lock records, and the owner
+   * with the earliest of the active (i.e., not released and not expired) records holds the lock.
+   * The other processes keep their records active, waiting in the queue until the timeout.
+   * A record of a concurrent process with an earlier time might become visible only after this one is read,
+   * so the holder is checked again after {@link MigratorParams.lock_settle_ms}.
+   */
+  private async acquireLock(): Promise<void> {
+    this.lockOwner = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+    const startedAt = Date.now()
+    for (;;) {
+      await this.writeLock(true)
+      let holder = await this.getLockHolder()
+      if (holder === this.lockOwner) {
+        await sleep(this.lockSettleMs)
+        holder = await this.getLockHolder()
+        if (holder === this.lockOwner) {
+          return
+        }
+      }
+      if (Date.now() - startedAt >= this.lockTimeoutMs) {
+        await this.releaseLock()
+        throw new Error(
+          `Failed to acquire the migrations lock in ${this.lockTimeoutMs} ms: it is held by another process (${holder}).`,
+        )
+      }
+      await sleep(LockRetryIntervalMs)
+    }
+  }
+
+  /** If the lock has expired, another process might be applying the migrations already,
+   *  so the current one is stopped instead of taking the lock back. */
+  private async refreshLock(): Promise<void> {
+    const holder = await this.getLockHolder()
+    if (holder !== this.lockOwner) {
+      throw new Error(
+        `Lost the migrations lock: it has expired${holder !== undefined ? ` and is held by another process (${holder})` : ''}. Increase lock_ttl_ms if the migrations take longer than it.`,
+      )
+    }
+    await this.writeLock(true)
+  }
+
+  private async releaseLock(): Promise<void> {
+    try {
+      await this.writeLock(false)
+    } catch (err) {
+      // the lock expires anyway
+      this.logWriter.warn({
+        module: 'Migrator',
+        message: 'Failed to release the migrations lock.',
+        err: err as Error,
+      })
+    }
+  }
+
+  private async writeLock(is_locked: boolean): Promise<void> {
+    await this.bookkeeping(sql`
+      INSERT INTO ${this.lockTable} (owner, is_locked, updated_at, expires_at)
+      SELECT ${this.lockOwner}, ${is_locked ? 1 : 0}, now64(6),
+             now64(6) + toIntervalMillisecond(${this.lockTtlMs})
+    `)
+  }
+
+  private async getLockHolder(): Promise<string | undefined> {
+    const rs = await this.client.query({
+      query: sql`
+        SELECT owner
+        FROM ${this.lockTable}
+        GROUP BY owner
+        HAVING argMax(is_locked, updated_at) = 1
+           AND argMax(expires_at, updated_at) > now64(6)
+        ORDER BY min(updated_at), owner
+        LIMIT 1
+      `,
+      format: 'JSONEachRow',
+      clickhouse_settings: this.bookkeepingSettings,
+    })
+    const [row] = await rs.json<{ owner: string }>()
+    return row?.owner
+  }
+
+  private async bookkeeping(query: SQLFragment): Promise<void> {
+    await this.client.command({
+      query,
+      clickhouse_settings: this.bookkeepingSettings,
+    })
+  }
+}
+
+interface AppliedMigration {
+  version: string
+  name: string
+  checksum: string
+  applied_at: string
+}
+
+const LockRetryIntervalMs = 1_000
+
+/**
+ * Splits the text into the statements by the semicolons, ignoring the ones
+ * in the string literals, the quoted identifiers and the comments.
+ * The statements without anything but the comments are skipped.
+ */
+export function splitStatements(text: string): string[] {
+  const statements: string[] = []
+  let start = 0
+  let hasCode = false
+  let i = 0
+  const push = (end: number) => {
+    if (hasCode) {
+      statements.push(text.slice(start, end).trim())
+    }
+    start = end + 1
+    hasCode = false
+  }
+  while (i < text.length) {
+    const char = text[i]
+    if (char === "'" || char === '"' || char === '`') {
+      i = skipQuoted(text, i)
+      hasCode = true
+    } else if (
+      (char === '-' && text[i + 1] === '-') ||
+      (char === '#' && (text[i + 1] === ' ' || text[i + 1] === '!'))
+    ) {
+      const end = text.indexOf('\n', i)
+      i = end === -1 ? text.length : end + 1
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2)
+      i = end === -1 ? text.length : end + 2
+    } else {
+      if (char === ';') {
+        push(i)
+      } else if (!/\s/.test(char)) {
+        hasCode = true
+      }
+      i++
+    }
+  }
+  push(text.length)
+  return statements
+}
+
+/** Returns the index after the closing quote; the quotes are escaped either with a backslash or by doubling them. */
+function skipQuoted(text: string, start: number): number {
+  const quote = text[start]
+  let i = start + 1
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2
+    } else if (text[i] === quote) {
+      if (text[i + 1] !== quote) {
+        return i + 1
+      }
+      i += 2
+    } else {
+      i++
+    }
+  }
+  return text.length
+}
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, 'en', { numeric: true })
+}
+
+function formatMigration({
+  version,
+  name,
+}: {
+  version: string
+  name: string
+}): string {
+  return `${version}_${name}`
+}
+
+function raw(text: string): SQLFragment {
+  return new SQLFragment([text], [])
+}
@@ -1,29 +1,44 @@
 import type { ResponseHeaders, ResponseJSON } from './clickhouse_types'
 import type {
+  BinaryRawDataFormat,
   DataFormat,
+  NativeBlock,
+  NativeDataFormat,
   RawDataFormat,
   RecordsJSONFormat,
+  RowBinaryDataFormat,
   SingleDocumentJSONFormat,
   StreamableDataFormat,
   StreamableJSONDataFormat,
 } from './data_formatter'
 
-export type ResultStream<Format extends DataFormat | unknown, Stream> =
-  // JSON*EachRow (except JSONObjectEachRow), CSV, TSV etc.
-  Format extends StreamableDataFormat
-    ? Stream
-    : // JSON formats represented as an object { data, meta, statistics, ... }
-      Format extends SingleDocumentJSONFormat
-      ? never
-      : // JSON formats represented as a Record<string, T>
-        Format extends RecordsJSONFormat
+export type ResultStream<
+  Format extends DataFormat | unknown,
+  Stream,
+  BinaryStream = Stream,
+> =
+  // Parquet, Arrow, ArrowStream - raw bytes, not split into rows.
+  // Not distributive, so the stream of rows is still inferred for the DataFormat union type.
+  [Format] extends [BinaryRawDataFormat]
+    ? BinaryStream
+    : // JSON*EachRow (except JSONObjectEachRow), CSV, TSV etc.
+      Format extends StreamableDataFormat
+      ? Stream
+      : // JSON formats represented as an object { data, meta, statistics, ... }
+        Format extends SingleDocumentJSONFormat
         ? never
-        : // If we fail to infer the literal type, allow to obtain the stream
-          Stream
+        : // JSON formats represented as a Record<string, T>
+          Format extends RecordsJSONFormat
+          ? never
+          : // Native format is consumed block by block instead
+            Format extends NativeDataFormat
+            ? never
+            : // If we fail to infer the literal type, allow to obtain the stream
+              Stream
 
 export type ResultJSONType<T, F extends DataFormat | unknown> =
-  // JSON*EachRow formats except JSONObjectEachRow
-  F extends StreamableJSONDataFormat
+  // JSON*EachRow formats except JSONObjectEachRow, RowBinary and Native formats
+  F extends StreamableJSONDataFormat | RowBinaryDataFormat | NativeDataFormat
     ? T[]
     : // JSON formats with known layout { data, meta, statistics, ... }
       F extends SingleDocumentJSONFormat
@@ -38,11 +53,15 @@ export type ResultJSONType<T, F extends DataFormat | unknown> =
             T[] | Record<string, T> | ResponseJSON<T>
 
 export type RowJSONType<T, F extends DataFormat | unknown> =
-  // JSON*EachRow formats
-  F extends StreamableJSONDataFormat
+  // JSON*EachRow formats, RowBinary formats
+  F extends StreamableJSONDataFormat | RowBinaryDataFormat
     ? T
     : // CSV, TSV, non-streamable JSON formats - cannot be streamed as JSON
-      F extends RawDataFormat | SingleDocumentJSONFormat | RecordsJSONFormat
+      F extends
+          | RawDataFormat
+          | SingleDocumentJSONFormat
+          | RecordsJSONFormat
+          | NativeDataFormat
       ? never
       : T // happens only when Format could not be inferred from a literal
 
@@ -50,7 +69,9 @@ export interface Row<
   JSONType = unknown,
   Format extends DataFormat | unknown = unknown,
 > {
-  /** A string representation of a row. */
+  /** A string representation of a row.
+   *  For RowBinary formats, it is a JSON representation of the decoded row,
+   *  with bigint values as strings and Map values as objects. */
   text: string
 
   /**
@@ -77,7 +98,8 @@ export interface BaseResultSet<Stream, Format extends DataFormat | unknown> {
    * The method waits for the all the rows to be fully loaded.
    * When the response is received in full, it will be decoded to return JSON.
    *
-   * Should be called only for JSON* formats family.
+   * Should be called only for JSON*, RowBinary* and Native formats family.
+   * RowBinary and Native rows are decoded into JS objects with the column names as keys.
    *
    * The method should throw if the underlying stream was already consumed
    * by calling the other methods, or if it is called for non-JSON formats,
@@ -107,7 +129,8 @@ export interface BaseResultSet<Stream, Format extends DataFormat | unknown> {
    *   * CustomSeparated
    *   * CustomSeparatedWithNames
    *   * CustomSeparatedWithNamesAndTypes
-   *   * Parquet
+   *   * RowBinary
+   *   * RowBinaryWithNamesAndTypes
    *
    * Formats that CANNOT be streamed (the method returns "never" in TS):
    *   * JSON
@@ -116,10 +139,17 @@ export interface BaseResultSet<Stream, Format extends DataFormat | unknown> {
    *   * JSONCompactStrings
    *   * JSONColumnsWithMetadata
    *   * JSONObjectEachRow
+   *   * Native (see {@link BaseResultSet.blocks} instead)
    *
    * Every iteration provides an array of {@link Row} instances
    * for {@link StreamableDataFormat} format.
    *
+   * Binary formats ({@link BinaryRawDataFormat}) are streamed as is, chunk by chunk,
+   * without splitting the data into rows:
+   *   * Parquet
+   *   * Arrow
+   *   * ArrowStream (see also {@link BaseResultSet.recordBatches})
+   *
    * Should be called only once.
    *
    * The method should throw if called on a response in non-streamable format,
@@ -128,6 +158,32 @@ export interface BaseResultSet<Stream, Format extends DataFormat | unknown> {
    */
   stream(): ResultStream<Format, Stream>
 
+  /**
+   * Returns an async iterator over the blocks of a response in the Native format.
+   * Each {@link NativeBlock} contains the values column by column: numeric columns
+   * are returned as typed arrays (e.g., Float64Array, BigInt64Array), and the rest as regular arrays.
+   *
+   * Should be called only once, and only for the Native format.
+   *
+   * The method should throw if called on a response in other formats,
+   * and if the underlying stream was already consumed
+   * by calling the other methods.
+   */
+  blocks(): AsyncIterableIterator<NativeBlock>
+
+  /**
+   * Returns an async iterator over the record batches of a response in the Arrow or ArrowStream format.
+   * Each item is a complete Arrow IPC stream with a single record batch (and the schema and dictionaries it needs),
+   * so it can be read by any Arrow implementation, e.g., with `tableFromIPC` from the `apache-arrow` package.
+   *
+   * Should be called only once, and only for the Arrow formats.
+   *
+   * The method should throw if called on a response in other formats,
+   * and if the underlying stream was already consumed
+   * by calling the other methods.
+   */
+  recordBatches(): AsyncIterableIterator<Uint8Array>
+
   /** Close the underlying stream. */
   close(): void
 
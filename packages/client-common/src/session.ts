@@ -0,0 +1,274 @@
+import type {
+  ClickHouseClient,
+  CommandParams,
+  CommandResult,
+  ExecParams,
+  ExecParamsWithValues,
+  ExecResult,
+  InsertParams,
+  InsertResult,
+  QueryParamsWithFormat,
+  QueryResult,
+} from './client'
+import type { OnStreamEnd } from './config'
+import type {
+  ConnBaseQueryParams,
+  ConnCommandResult,
+  ConnExecParams,
+  ConnExecResult,
+  ConnInsertParams,
+  ConnInsertResult,
+  Connection,
+  ConnPingResult,
+  ConnQueryParams,
+  ConnQueryResult,
+} from './connection'
+import type { DataFormat } from './data_formatter'
+import type { LogWriter } from './logger'
+
+export interface SessionParams {
+  /** @default a random identifier */
+  session_id?: string
+  /** Sent as `session_timeout`: the session (e.g., its temporary tables) is dropped by the server
+   *  after this many seconds without requests.
+   *  @default undefined (the server default, 60 seconds) */
+  timeout_s?: number
+  /** If set, every request after the first one is sent with `session_check=1`, so it fails
+   *  if the session has expired in the meantime, instead of silently starting a new one.
+   *  @default false */
+  check?: boolean
+}
+
+/** The parameters of the session requests are the same as the client ones, except for the `session_id`. */
+export type SessionRequestParams<Params> = Omit<Params, 'session_id'>
+
+export interface SessionImplParams<Stream> {
+  session_id: string
+  /** The client that sends its requests with {@link SessionConnection}. */
+  client: ClickHouseClient<Stream>
+  connection: SessionConnection<Stream>
+  log_writer: LogWriter
+}
+
+/**
+ * A handle for the requests of a ClickHouse session, created with {@link ClickHouseClient.session}.
+ * ClickHouse does not allow concurrent requests in the same session (`SESSION_IS_LOCKED` error),
+ * so the requests are queued and sent one at a time: the next request is sent only after
+ * the response of the previous one is received, and, for the query and exec results, fully consumed or closed.
+ * Hence, the result of a query should always be consumed (or closed) before waiting for the next request.
+ * All the requests are sent to the same endpoint and, if it is supported, over the same keep-alive socket.
+ */
+export class ClickHouseSession<Stream = unknown> {
+  readonly session_id: string
+  private readonly client: ClickHouseClient<Stream>
+  private readonly connection: SessionConnection<Stream>
+  private readonly logWriter: LogWriter
+  private isClosed = false
+
+  constructor({
+    session_id,
+    client,
+    connection,
+    log_writer,
+  }: SessionImplParams<Stream>) {
+    this.session_id = session_id
+    this.client = client
+    this.connection = connection
+    this.logWriter = log_writer
+  }
+
+  /** See {@link ClickHouseClient.query}. */
+  async query<Format extends DataFormat = 'JSON'>(
+    params: SessionRequestParams<QueryParamsWithFormat<Format>>,
+  ): Promise<QueryResult<Stream, Format>> {
+    this.assertNotClosed()
+    return this.client.query(params)
+  }
+
+  /** See {@link ClickHouseClient.insert}. */
+  async insert<T>(
+    params: SessionRequestParams<InsertParams<Stream, T>>,
+  ): Promise<InsertResult> {
+    this.assertNotClosed()
+    return this.client.insert(params)
+  }
+
+  /** See {@link ClickHouseClient.command}. */
+  async command(
+    params: SessionRequestParams<CommandParams>,
+  ): Promise<CommandResult> {
+    this.assertNotClosed()
+    return this.client.command(params)
+  }
+
+  /** See {@link ClickHouseClient.exec}. */
+  async exec(
+    params:
+      | SessionRequestParams<ExecParams>
+      | SessionRequestParams<ExecParamsWithValues<Stream>>,
+  ): Promise<ExecResult<Stream>> {
+    this.assertNotClosed()
+    return this.client.exec(params)
+  }
+
+  /**
+   * Waits for the queued requests, and drops the session state (e.g., the temporary tables) on the server,
+   * sending the last request with `session_timeout=0`. After that, the session cannot be used anymore.
+   */
+  async close(): Promise<void> {
+    if (this.isClosed) {
+      return
+    }
+    this.isClosed = true
+    if (this.connection.isEstablished) {
+      try {
+        await this.client.command({
+          query: 'SELECT 1',
+          clickhouse_settings: { session_timeout: 0 },
+        })
+      } catch (err) {
+        // the session is dropped by the server after the timeout anyway
+        this.logWriter.warn({
+          module: 'Session',
+          message: `Failed to close the session ${this.session_id}.`,
+          err: err as Error,
+        })
+      }
+    }
+    await this.connection.close()
+  }
+
+  private assertNotClosed(): void {
+    if (this.isClosed) {
+      throw new Error(`Session ${this.session_id} is closed.`)
+    }
+  }
+}
+
+export interface SessionConnectionParams<Stream> {
+  session_id: string
+  timeout_s?: number
+  check: boolean
+  /** The pinned connection, see {@link Connection.pin}. */
+  connection: Connection<Stream>
+  on_stream_end: OnStreamEnd<Stream>
+}
+
+/** Sends the requests of a session one at a time, with the session parameters. */
+export class SessionConnection<Stream> implements Connection<Stream> {
+  /** Set after the first successful request, as the session exists on the server since then. */
+  isEstablished = false
+  private readonly params: SessionConnectionParams<Stream>
+  /** Resolved when the last request in the queue is finished. */
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(params: SessionConnectionParams<Stream>) {
+    this.params = params
+  }
+
+  async ping(): Promise<ConnPingResult> {
+    return this.params.connection.ping()
+  }
+
+  async query(
+    params: ConnQueryParams<Stream>,
+  ): Promise<ConnQueryResult<Stream>> {
+    return this.requestWithStream(
+      (p) => this.params.connection.query(p),
+      params,
+    )
+  }
+
+  async exec(params: ConnExecParams<Stream>): Promise<ConnExecResult<Stream>> {
+    return this.requestWithStream((p) => this.params.connection.exec(p), params)
+  }
+
+  async insert(params: ConnInsertParams<Stream>): Promise<ConnInsertResult> {
+    return this.request((p) => this.params.connection.insert(p), params)
+  }
+
+  async command(params: ConnBaseQueryParams): Promise<ConnCommandResult> {
+    return this.request((p) => this.params.connection.command(p), params)
+  }
+
+  pin(): Connection<Stream> {
+    return this
+  }
+
+  async close(): Promise<void> {
+    await this.params.connection.close()
+  }
+
+  private async request<Params extends ConnBaseQueryParams, Result>(
+    send: (params: Params) => Promise<Result>,
+    params: Params,
+  ): Promise<Result> {
+    const release = await this.acquire()
+    try {
+      return await this.send(send, params)
+    } finally {
+      release()
+    }
+  }
+
+  /** The session is locked by the server until the response stream is finished. */
+  private async requestWithStream<
+    Params extends ConnBaseQueryParams,
+    Result extends { stream: Stream },
+  >(
+    send: (params: Params) => Promise<Result>,
+    params: Params,
+  ): Promise<Result> {
+    const release = await this.acquire()
+    try {
+      const result = await this.send(send, params)
+      return {
+        ...result,
+        stream: this.params.on_stream_end(result.stream, release),
+      }
+    } catch (err) {
+      release()
+      throw err
+    }
+  }
+
+  private async send<Params extends ConnBaseQueryParams, Result>(
+    send: (params: Params) => Promise<Result>,
+    params: Params,
+  ): Promise<Result> {
+    const { session_id, timeout_s, check } = this.params
+    const result = await send({
+      ...params,
+      session_id,
+      clickhouse_settings: {
+        ...(timeout_s !== undefined ? { session_timeout: timeout_s } : {}),
+        ...(check && this.isEstablished ? { session_check: 1 } : {}),
+        ...params.clickhouse_settings,
+      },
+    })
+    this.isEstablished = true
+    return result
+  }
+
+  /** Waits for the previous requests, and returns the function to let the next one in. */
+  private async acquire(): Promise<() => void> {
+    let release!: () => void
+    const previous = this.queue
+    this.queue = new Promise((resolve) => {
+      let isReleased = false
+      release = () => {
+        if (!isReleased) {
+          isReleased = true
+          resolve()
+        }
+      }
+    })
+    await previous
+    return release
+  }
+}
+
+/** Not a UUID, but unique enough for the sessions of a client. */
+export function generateSessionId(): string {
+  return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
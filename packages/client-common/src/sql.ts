@@ -0,0 +1,209 @@
+/** A value with an explicitly specified ClickHouse type, see {@link sql.param}. */
+export class SQLParam {
+  constructor(
+    readonly value: unknown,
+    readonly type: string,
+  ) {}
+}
+
+/** A query with its parameters, ready to be sent to the server. */
+export interface RenderedSQL {
+  /** The query with `{name:Type}` placeholders instead of the interpolated values. */
+  query: string
+  /** The values of the placeholders. */
+  query_params: Record<string, unknown>
+}
+
+/**
+ * A query (or a part of it) built with the {@link sql} tagged template.
+ * The interpolated values are not inlined into the query; instead, they are replaced with
+ * the `{name:Type}` placeholders and sent as the query parameters.
+ * Can be interpolated into another {@link sql} template, or passed as the `query` to
+ * `ClickHouseClient.query`, `ClickHouseClient.command` and `ClickHouseClient.exec` methods.
+ */
+export class SQLFragment {
+  constructor(
+    private readonly strings: ReadonlyArray<string>,
+    private readonly values: ReadonlyArray<unknown>,
+  ) {}
+
+  /** Renders the query and the parameters. The parameters are named `p0`, `p1`, etc., in the order of appearance. */
+  toQuery(): RenderedSQL {
+    const query_params: Record<string, unknown> = {}
+    const query = this.render(query_params)
+    return { query, query_params }
+  }
+
+  private render(params: Record<string, unknown>): string {
+    let query = this.strings[0]
+    this.values.forEach((value, i) => {
+      if (value instanceof SQLFragment) {
+        query += value.render(params)
+      } else {
+        const name = `p${Object.keys(params).length}`
+        if (value instanceof SQLParam) {
+          params[name] = value.value
+          query += `{${name}:${value.type}}`
+        } else {
+          params[name] = value
+          query += `{${name}:${inferType(value)}}`
+        }
+      }
+      query += this.strings[i + 1]
+    })
+    return query
+  }
+}
+
+/**
+ * A tagged template to build the queries with the parameters binding, e.g.:
+ *
+ * ```ts
+ * const query = sql`SELECT * FROM ${sql.identifier('db.table')} WHERE id = ${id} AND ts > ${date}`
+ * await client.query({ query, format: 'JSONEachRow' })
+ * ```
+ *
+ * The ClickHouse types of the parameters are inferred from the JS values:
+ *   * string - `String`
+ *   * number - `Int64` for integers, `Float64` otherwise
+ *   * bigint - `Int64`, or a wider integer type if the value does not fit
+ *   * boolean - `Bool`
+ *   * Date - `DateTime64(3)`
+ *   * null and undefined - `Nullable(Nothing)`
+ *   * arrays - `Array(T)`, where `T` is the common type of the elements (`Nullable(T)` if there are nulls)
+ *   * Map and plain objects - `Map(K, V)` (the keys of plain objects are always strings)
+ *
+ * Use {@link sql.param} to specify the type explicitly (for example, for `UUID`, `Decimal` or `Date` values, or for tuples).
+ * @see https://clickhouse.com/docs/en/interfaces/cli#cli-queries-with-parameters
+ */
+export function sql(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): SQLFragment {
+  return new SQLFragment(strings, values)
+}
+
+/**
+ * An identifier (e.g., a table or a column name) to be inlined into the query.
+ * The dot-separated parts are quoted separately, so `db.table` becomes `` `db`.`table` ``.
+ */
+sql.identifier = function identifier(name: string): SQLFragment {
+  const quoted = name
+    .split('.')
+    .map((part) => '`' + part.replace(/\\/g, '\\\\').replace(/`/g, '\\`') + '`')
+    .join('.')
+  return new SQLFragment([quoted], [])
+}
+
+/** A parameter with the explicitly specified ClickHouse type, e.g., ``sql`SELECT ${sql.param(id, 'UUID')}` ``. */
+sql.param = function param(value: unknown, type: string): SQLParam {
+  return new SQLParam(value, type)
+}
+
+/** Joins the values (or the fragments) with a separator, e.g., ``sql`SELECT ${sql.join(columns.map(sql.identifier))} FROM t` ``.
+ *  @default separator `, ` */
+sql.join = function join(
+  values: ReadonlyArray<unknown>,
+  separator = ', ',
+): SQLFragment {
+  const strings =
+    values.length > 0 ? ['', ...values.slice(1).map(() => separator), ''] : ['']
+  return new SQLFragment(strings, values)
+}
+
+const Int64Min = -(2n ** 63n)
+const Int64Max = 2n ** 63n - 1n
+const UInt64Max = 2n ** 64n - 1n
+const Int128Min = -(2n ** 127n)
+const Int128Max = 2n ** 127n - 1n
+
+function inferType(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'Nullable(Nothing)'
+  }
+  switch (typeof value) {
+    case 'string':
+      return 'String'
+    case 'number':
+      return Number.isInteger(value) ? 'Int64' : 'Float64'
+    case 'bigint':
+      if (value >= Int64Min && value <= Int64Max) return 'Int64'
+      if (value > 0n && value <= UInt64Max) return 'UInt64'
+      if (value >= Int128Min && value <= Int128Max) return 'Int128'
+      return value > 0n ? 'UInt256' : 'Int256'
+    case 'boolean':
+      return 'Bool'
+  }
+  if (value instanceof Date) {
+    return 'DateTime64(3)'
+  }
+  if (Array.isArray(value)) {
+    return `Array(${inferCommonType(value)})`
+  }
+  if (value instanceof Map) {
+    const keys = inferCommonType(Array.from(value.keys()))
+    const values = inferCommonType(Array.from(value.values()))
+    return `Map(${keys}, ${values})`
+  }
+  if (typeof value === 'object') {
+    return `Map(String, ${inferCommonType(Object.values(value))})`
+  }
+  throw new Error(
+    `Cannot infer the ClickHouse type of the value ${String(value)}. Use sql.param(value, type) to specify the type explicitly.`,
+  )
+}
+
+function inferCommonType(values: unknown[]): string {
+  let hasNulls = false
+  let type = 'Nothing'
+  for (const value of values) {
+    if (value === null || value === undefined) {
+      hasNulls = true
+      continue
+    }
+    const valueType = inferType(value)
+    const commonType = unifyTypes(type, valueType)
+    if (commonType === null) {
+      throw new Error(
+        `Cannot infer a common ClickHouse type of the values: ${type}, ${valueType}. ` +
+          'Use sql.param(value, type) to specify the type explicitly.',
+      )
+    }
+    type = commonType
+  }
+  if (!hasNulls) {
+    return type
+  }
+  // only the simple types can be wrapped in Nullable
+  if (/^(Array|Map|Nullable)\(/.test(type)) {
+    throw new Error(
+      `Cannot infer the ClickHouse type of the values: ${type} cannot be Nullable. ` +
+        'Use sql.param(value, type) to specify the type explicitly.',
+    )
+  }
+  return `Nullable(${type})`
+}
+
+/** Returns the type that both types can be converted to, or null if there is no such type.
+ *  Nothing is the type of the elements of an empty array. */
+function unifyTypes(a: string, b: string): string | null {
+  if (a === b || b === 'Nothing') {
+    return a
+  }
+  if (a === 'Nothing') {
+    return b
+  }
+  if (NumericTypes.includes(a) && NumericTypes.includes(b)) {
+    return 'Float64'
+  }
+  const arrayA = ArrayTypeRegex.exec(a)
+  const arrayB = ArrayTypeRegex.exec(b)
+  if (arrayA !== null && arrayB !== null) {
+    const elementType = unifyTypes(arrayA[1], arrayB[1])
+    return elementType === null ? null : `Array(${elementType})`
+  }
+  return null
+}
+
+const NumericTypes = ['Int64', 'Float64']
+const ArrayTypeRegex = /^Array\((.*)\)$/
@@ -1,3 +1,4 @@
+import type { CompressionCodec } from '../connection'
 import type { ClickHouseSettings } from '../settings'
 
 export type HttpHeader = number | string | string[]
@@ -7,26 +8,38 @@ export function withCompressionHeaders({
   headers,
   enable_request_compression,
   enable_response_compression,
+  request_codec,
+  response_codec,
 }: {
   headers: HttpHeaders
   enable_request_compression: boolean | undefined
   enable_response_compression: boolean | undefined
+  request_codec?: CompressionCodec
+  response_codec?: CompressionCodec
 }): Record<string, string> {
   return {
     ...headers,
-    ...(enable_response_compression ? { 'Accept-Encoding': 'gzip' } : {}),
-    ...(enable_request_compression ? { 'Content-Encoding': 'gzip' } : {}),
+    ...(enable_response_compression
+      ? { 'Accept-Encoding': response_codec ?? 'gzip' }
+      : {}),
+    ...(enable_request_compression
+      ? { 'Content-Encoding': request_codec ?? 'gzip' }
+      : {}),
   }
 }
 
 export function withHttpSettings(
   clickhouse_settings?: ClickHouseSettings,
   compression?: boolean,
+  compression_level?: number,
 ): ClickHouseSettings {
   return {
     ...(compression
       ? {
           enable_http_compression: 1,
+          ...(compression_level !== undefined
+            ? { http_zlib_compression_level: String(compression_level) }
+            : {}),
         }
       : {}),
     ...clickhouse_settings,
@@ -1,3 +1,7 @@
 export * from './connection'
+export * from './iterable'
+export * from './kill_query'
+export * from './progress'
 export * from './sleep'
+export * from './retry'
 export * from './url'
@@ -0,0 +1,18 @@
+/** Checks if the insert values are an `Iterable` or an `AsyncIterable`, such as a generator or a database cursor,
+ *  which should be consumed value by value. Arrays, strings and binary data are not considered as such. */
+export function isIterableInsertValues<T>(
+  values: unknown,
+): values is Iterable<T> | AsyncIterable<T> {
+  if (
+    values === null ||
+    typeof values !== 'object' ||
+    Array.isArray(values) ||
+    ArrayBuffer.isView(values)
+  ) {
+    return false
+  }
+  return (
+    typeof (values as AsyncIterable<T>)[Symbol.asyncIterator] === 'function' ||
+    typeof (values as Iterable<T>)[Symbol.iterator] === 'function'
+  )
+}
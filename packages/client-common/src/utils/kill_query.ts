@@ -0,0 +1,81 @@
+import type { BaseClickHouseClientConfigOptions } from '../config'
+import type { ConnBaseQueryParams } from '../connection'
+import type { LogWriter } from '../logger'
+
+/** `SYNC` waits until the query is stopped; `ASYNC` returns as soon as the query is marked for cancellation. */
+export type KillQueryMode = 'SYNC' | 'ASYNC'
+
+/** Set only if the cancellation is enabled. */
+export interface CancelOnAbortSettings {
+  mode: KillQueryMode
+}
+
+export function getCancelOnAbortSettings(
+  cancel_on_abort: BaseClickHouseClientConfigOptions['cancel_on_abort'],
+): CancelOnAbortSettings | undefined {
+  if (!cancel_on_abort?.enabled) {
+    return undefined
+  }
+  return { mode: cancel_on_abort.mode ?? 'ASYNC' }
+}
+
+/** Whether the request failed because it was aborted via the signal, or timed out;
+ *  the timeout error is the same in all the implementations. */
+export function isAbortedOrTimedOut(
+  err: unknown,
+  abort_signal?: AbortSignal,
+): boolean {
+  return (
+    abort_signal?.aborted === true ||
+    (err instanceof Error && err.message === 'Timeout error.')
+  )
+}
+
+export interface KillQueryParams {
+  query_id: string
+  mode: KillQueryMode
+  /** The credentials of the aborted request, as a user can always kill their own queries. */
+  auth?: ConnBaseQueryParams['auth']
+  /** The headers of the aborted request, e.g., if a proxy routes the requests by these. */
+  http_headers?: ConnBaseQueryParams['http_headers']
+  /** Sends the statement as a separate request (without a session, which is still locked by the aborted query),
+   *  and returns the response body as text. */
+  run: (params: ConnBaseQueryParams) => Promise<string>
+  log_writer: LogWriter
+}
+
+/** Cancels the query on the server with `KILL QUERY`. Never throws: the result is logged instead. */
+export async function killQuery({
+  query_id,
+  mode,
+  auth,
+  http_headers,
+  run,
+  log_writer,
+}: KillQueryParams): Promise<void> {
+  try {
+    const response = await run({
+      query: `KILL QUERY WHERE query_id = {query_id:String} ${mode} FORMAT JSONEachRow`,
+      query_params: { query_id },
+      auth,
+      http_headers,
+    })
+    const statuses = response
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => (JSON.parse(line) as { kill_status: string }).kill_status)
+    log_writer.info({
+      message:
+        statuses.length > 0
+          ? `Query ${query_id} was cancelled after its request was aborted: ${statuses.join(', ')}.`
+          : `Query ${query_id} was not cancelled after its request was aborted, as it is not running anymore.`,
+      args: { query_id, mode },
+    })
+  } catch (err) {
+    log_writer.warn({
+      message: `Failed to cancel query ${query_id} after its request was aborted.`,
+      err: err as Error,
+      args: { query_id, mode },
+    })
+  }
+}
@@ -0,0 +1,19 @@
+import type { ClickHouseProgress } from '../clickhouse_types'
+
+/**
+ * Parses the value of `X-ClickHouse-Progress` header. The value might contain several progress objects,
+ * if the header was received multiple times and the values were joined with a comma (e.g., by `fetch`).
+ * Malformed values are skipped.
+ */
+export function parseProgressHeader(value: string): ClickHouseProgress[] {
+  const result: ClickHouseProgress[] = []
+  // the progress objects are flat, without any nested braces
+  for (const [json] of value.matchAll(/\{[^{}]*\}/g)) {
+    try {
+      result.push(JSON.parse(json))
+    } catch {
+      // ignore malformed values
+    }
+  }
+  return result
+}
@@ -0,0 +1,153 @@
+import type { BaseClickHouseClientConfigOptions } from '../config'
+import type { ConnOperation } from '../connection'
+import type { LogWriter } from '../logger'
+import { sleep } from './sleep'
+
+export interface RetrySettings {
+  max_attempts: number
+  initial_delay_ms: number
+  max_delay_ms: number
+  retryable_error_codes: string[]
+  retryable_status_codes: number[]
+  operations: ConnOperation[]
+}
+
+export function getRetrySettings(
+  retry: BaseClickHouseClientConfigOptions['retry'],
+): RetrySettings {
+  return {
+    max_attempts: retry?.max_attempts ?? 1,
+    initial_delay_ms: retry?.initial_delay_ms ?? 100,
+    max_delay_ms: retry?.max_delay_ms ?? 5_000,
+    retryable_error_codes: retry?.retryable_error_codes ?? [
+      'ECONNRESET',
+      'ECONNREFUSED',
+      'EPIPE',
+      'EAI_AGAIN',
+    ],
+    retryable_status_codes: retry?.retryable_status_codes ?? [502, 503, 504],
+    operations: retry?.operations ?? ['Ping', 'Query'],
+  }
+}
+
+const responseStatuses = new WeakMap<Error, number>()
+
+/** Remembers the HTTP status of a failed response the error was created from,
+ *  so the request can be retried if the status is in {@link RetrySettings.retryable_status_codes}. */
+export function withResponseStatus<E extends Error>(err: E, status: number): E {
+  responseStatuses.set(err, status)
+  return err
+}
+
+const errorCodes = new WeakMap<Error, string>()
+
+/** Assigns a network error code to an error that might have none (e.g., a failed `fetch` in the browsers),
+ *  so it is retried and fails over to another endpoint the same way as the errors of the Node.js client.
+ *  The code of the error itself (or of its cause), if any, takes precedence. */
+export function withErrorCode<E extends Error>(err: E, code: string): E {
+  errorCodes.set(err, code)
+  return err
+}
+
+/**
+ * Checks if a request can be sent again at all. Inserts are not idempotent, so these are retried only
+ * with `insert_deduplication_token` setting, which makes the server ignore the duplicate attempts.
+ */
+export function isRetryableRequest(
+  op: ConnOperation,
+  settings: RetrySettings,
+  searchParams?: URLSearchParams,
+): boolean {
+  if (settings.max_attempts <= 1 || !settings.operations.includes(op)) {
+    return false
+  }
+  if (op === 'Insert') {
+    return searchParams?.has('insert_deduplication_token') ?? false
+  }
+  return true
+}
+
+/** Checks if the error is caused by a (likely) transient network issue or a failed response from a proxy. */
+export function isRetryableError(err: unknown, settings: RetrySettings) {
+  if (!(err instanceof Error)) {
+    return false
+  }
+  const status = responseStatuses.get(err)
+  if (status !== undefined) {
+    return settings.retryable_status_codes.includes(status)
+  }
+  const code = getErrorCode(err)
+  return code !== undefined && settings.retryable_error_codes.includes(code)
+}
+
+/** Returns the code of a network error, such as `ECONNRESET`, if there is any. */
+export function getErrorCode(err: unknown): string | undefined {
+  // the errors from fetch in Node.js have the code in the cause
+  const cause = (err as { cause?: unknown } | null | undefined)?.cause
+  for (const e of [err, cause]) {
+    const code = (e as { code?: unknown } | null | undefined)?.code
+    if (typeof code === 'string') {
+      return code
+    }
+  }
+  return err instanceof Error ? errorCodes.get(err) : undefined
+}
+
+/** Exponential backoff with jitter: the delay is doubled after each attempt (up to {@link RetrySettings.max_delay_ms}),
+ *  and a random value of up to a half of it is subtracted, so the clients do not retry all at once. */
+export function getRetryDelay(
+  attempt: number,
+  settings: RetrySettings,
+): number {
+  const delay = Math.min(
+    settings.max_delay_ms,
+    settings.initial_delay_ms * 2 ** (attempt - 1),
+  )
+  return Math.round(delay * (1 - Math.random() / 2))
+}
+
+export interface WithRetriesParams<T> {
+  op: ConnOperation
+  settings: RetrySettings
+  log_writer: LogWriter
+  /** See {@link isRetryableRequest}. */
+  can_retry: boolean
+  abort_signal?: AbortSignal
+  query_id?: string
+  request: () => Promise<T>
+}
+
+/** Sends the request, retrying it according to the {@link RetrySettings} if it fails with a retryable error. */
+export async function withRetries<T>({
+  op,
+  settings,
+  log_writer,
+  can_retry,
+  abort_signal,
+  query_id,
+  request,
+}: WithRetriesParams<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request()
+    } catch (err) {
+      if (
+        !can_retry ||
+        attempt >= settings.max_attempts ||
+        abort_signal?.aborted ||
+        !isRetryableError(err, settings)
+      ) {
+        throw err
+      }
+      const delay = getRetryDelay(attempt, settings)
+      log_writer.warn({
+        message: `${op}: request failed, retrying in ${delay} ms (attempt ${attempt + 1} of ${settings.max_attempts}).`,
+        err: err as Error,
+        args: {
+          query_id,
+        },
+      })
+      await sleep(delay)
+    }
+  }
+}
@@ -37,6 +37,8 @@ type ToSearchParamsOptions = {
   query?: string
   session_id?: string
   query_id: string
+  /** Only the structure and the format; the values are sent in the request body. */
+  external_tables?: Array<{ name: string; structure: string; format: string }>
 }
 
 // TODO validate max length of the resulting query
@@ -48,6 +50,7 @@ export function toSearchParams({
   clickhouse_settings,
   session_id,
   query_id,
+  external_tables,
 }: ToSearchParamsOptions): URLSearchParams {
   const params = new URLSearchParams()
   params.set('query_id', query_id)
@@ -78,5 +81,12 @@ export function toSearchParams({
     params.set('session_id', session_id)
   }
 
+  if (external_tables !== undefined) {
+    for (const { name, structure, format } of external_tables) {
+      params.set(`${name}_structure`, structure)
+      params.set(`${name}_format`, format)
+    }
+  }
+
   return params
 }
@@ -0,0 +1,84 @@
+import type {
+  ClickHouseClient,
+  ClickHouseProgress,
+} from '@clickhouse/client-common'
+import { createSimpleTable } from '@test/fixtures/simple_table'
+import { jsonValues } from '@test/fixtures/test_data'
+import { createTestClient, guid } from '@test/utils'
+import type Stream from 'stream'
+
+describe('[Node.js] Progress headers', () => {
+  let client: ClickHouseClient<Stream.Readable>
+  beforeEach(() => {
+    client = createTestClient()
+  })
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should report the progress of a query while it is running', async () => {
+    const progress: Array<{ progress: ClickHouseProgress; at: number }> = []
+    const rs = await client.query({
+      // count() is returned only at the end, so ClickHouse sends the progress until then
+      query: `SELECT count() AS count FROM (SELECT sleepEachRow(0.1) FROM numbers(10))`,
+      format: 'JSONEachRow',
+      clickhouse_settings: {
+        max_block_size: '1',
+        http_headers_progress_interval_ms: '100',
+      },
+      on_progress: (p) => progress.push({ progress: p, at: Date.now() }),
+    })
+    const responseReceivedAt = Date.now()
+    expect(await rs.json()).toEqual([{ count: '10' }])
+
+    expect(progress.length).toBeGreaterThan(1)
+    // reported before the response head was complete
+    expect(progress[0].at).toBeLessThan(responseReceivedAt)
+    const readRows = progress.map(({ progress }) => Number(progress.read_rows))
+    expect(readRows).toEqual([...readRows].sort((a, b) => a - b))
+    expect(progress[progress.length - 1].progress).toEqual(
+      jasmine.objectContaining({
+        read_rows: jasmine.any(String),
+        read_bytes: jasmine.any(String),
+        total_rows_to_read: '10',
+        elapsed_ns: jasmine.any(String),
+      }),
+    )
+  })
+
+  it('should report the progress of an insert', async () => {
+    const tableName = `progress_test_${guid()}`
+    await createSimpleTable(client, tableName)
+    const progress: ClickHouseProgress[] = []
+    await client.insert({
+      table: tableName,
+      values: jsonValues,
+      format: 'JSONEachRow',
+      clickhouse_settings: {
+        http_headers_progress_interval_ms: '1',
+      },
+      on_progress: (p) => progress.push(p),
+    })
+    expect(progress.length).toBeGreaterThan(0)
+    expect(progress[progress.length - 1]).toEqual(
+      jasmine.objectContaining({
+        written_rows: jasmine.any(String),
+      }),
+    )
+  })
+
+  it('should not fail the request if the callback throws', async () => {
+    const rs = await client.query({
+      query: `SELECT count() AS count FROM (SELECT sleepEachRow(0.1) FROM numbers(3))`,
+      format: 'JSONEachRow',
+      clickhouse_settings: {
+        max_block_size: '1',
+        http_headers_progress_interval_ms: '100',
+      },
+      on_progress: () => {
+        throw new Error('Oops')
+      },
+    })
+    expect(await rs.json()).toEqual([{ count: '3' }])
+  })
+})
@@ -0,0 +1,120 @@
+import { sleep } from '@test/utils'
+import Http from 'http'
+import type Stream from 'stream'
+import {
+  buildHttpConnection,
+  emitResponseBody,
+  socketStub,
+  stubClientRequest,
+} from '../utils/http_stubs'
+
+describe('Node.js Connection cancel on abort', () => {
+  let httpRequestStub: jasmine.Spy<typeof Http.request>
+  beforeEach(() => {
+    httpRequestStub = spyOn(Http, 'request')
+  })
+
+  it('should kill an aborted query on the server', async () => {
+    const request = stubClientRequest()
+    const killRequest = stubClientRequest()
+    const killBody = recordBody(killRequest)
+    httpRequestStub.and.returnValues(request, killRequest)
+
+    const adapter = buildHttpConnection({ cancel_on_abort: { mode: 'SYNC' } })
+    const controller = new AbortController()
+    const selectPromise = adapter.query({
+      query: 'SELECT sleep(3)',
+      query_id: 'foo',
+      abort_signal: controller.signal,
+    })
+
+    await sleep(0)
+    controller.abort()
+    await expectAsync(selectPromise).toBeRejectedWithError(
+      'The user aborted a request.',
+    )
+    await waitForCalls(2)
+    // trigger stream pipeline
+    killRequest.emit('socket', socketStub)
+    await emitResponseBody(killRequest, '{"kill_status":"waiting"}\n')
+
+    const killUrl = httpRequestStub.calls.argsFor(1)[0] as URL
+    expect(killUrl.searchParams.get('param_query_id')).toEqual('foo')
+    expect(killUrl.searchParams.get('query_id')).not.toEqual('foo')
+    expect(killBody.join('')).toEqual(
+      'KILL QUERY WHERE query_id = {query_id:String} SYNC FORMAT JSONEachRow',
+    )
+  })
+
+  it('should kill a query if its response stream is closed early', async () => {
+    const request = stubClientRequest()
+    const killRequest = stubClientRequest()
+    httpRequestStub.and.returnValues(request, killRequest)
+
+    const adapter = buildHttpConnection({ cancel_on_abort: { mode: 'ASYNC' } })
+    const selectPromise = adapter.query({
+      query: 'SELECT * FROM system.numbers',
+      query_id: 'foo',
+    })
+    await emitResponseBody(request, '0\n1\n2\n')
+    const { stream } = await selectPromise
+    stream.destroy()
+
+    await waitForCalls(2)
+    await emitResponseBody(killRequest, '')
+    const killUrl = httpRequestStub.calls.argsFor(1)[0] as URL
+    expect(killUrl.searchParams.get('param_query_id')).toEqual('foo')
+  })
+
+  it('should not kill a query if its response stream is fully read', async () => {
+    const request = stubClientRequest()
+    httpRequestStub.and.returnValue(request)
+
+    const adapter = buildHttpConnection({ cancel_on_abort: { mode: 'ASYNC' } })
+    const selectPromise = adapter.query({ query: 'SELECT 1' })
+    await emitResponseBody(request, '1\n')
+    const { stream } = await selectPromise
+    for await (const chunk of stream) {
+      expect(chunk.toString()).toEqual('1\n')
+    }
+
+    await sleep(10)
+    expect(httpRequestStub).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not kill an aborted query if disabled', async () => {
+    const request = stubClientRequest()
+    httpRequestStub.and.returnValue(request)
+
+    const adapter = buildHttpConnection({})
+    const controller = new AbortController()
+    const selectPromise = adapter.query({
+      query: 'SELECT sleep(3)',
+      abort_signal: controller.signal,
+    })
+
+    await sleep(0)
+    controller.abort()
+    await expectAsync(selectPromise).toBeRejectedWithError(
+      'The user aborted a request.',
+    )
+    await sleep(10)
+    expect(httpRequestStub).toHaveBeenCalledTimes(1)
+  })
+
+  async function waitForCalls(count: number) {
+    while (httpRequestStub.calls.count() < count) {
+      await sleep(1)
+    }
+  }
+
+  function recordBody(request: Http.ClientRequest): string[] {
+    const chunks: string[] = []
+    const write = request.write.bind(request)
+    spyOn(request, 'write').and.callFake(((chunk: Buffer | string) => {
+      chunks.push(chunk.toString())
+      return write(chunk)
+    }) as Stream.Writable['write'])
+    return chunks
+  }
+})
@@ -1,11 +1,19 @@
 import type {
   BaseClickHouseClientConfigOptions,
+  CompressionCodec,
   ConnectionParams,
 } from '@clickhouse/client-common'
-import { DefaultLogger, LogWriter } from '@clickhouse/client-common'
+import {
+  DefaultLogger,
+  getRetrySettings,
+  LogWriter,
+} from '@clickhouse/client-common'
+import { sleep } from '@test/utils'
+import Http, { type ClientRequest } from 'http'
 import { createClient } from '../../src'
 import type { CreateConnectionParams } from '../../src/connection'
 import * as c from '../../src/connection/create_connection'
+import { emitResponseBody, stubClientRequest } from '../utils/http_stubs'
 
 describe('[Node.js] createClient', () => {
   it('throws on incorrect "url" config value', () => {
@@ -28,6 +36,108 @@ describe('[Node.js] createClient', () => {
     })
   })
 
+  it('throws on a compression codec that is not supported', () => {
+    // possible without the type checks
+    const codec = 'lz4' as CompressionCodec
+    expect(() =>
+      createClient({ compression: { request: codec } }),
+    ).toThrowError(
+      'Compression codec lz4 is not supported by the Node.js client. Supported codecs: gzip, deflate, br, zstd.',
+    )
+  })
+
+  it('rejects a query with the value conversion before sending it', async () => {
+    const client = createClient()
+    await expectAsync(
+      client.query({
+        query: 'SELECT 1',
+        format: 'CSV',
+        convert_values: true,
+      }),
+    ).toBeRejectedWithError(
+      /Value conversion is not supported for the CSV format/,
+    )
+    await expectAsync(
+      client.query({
+        query: 'SELECT 1',
+        format: 'JSONEachRow',
+        convert_values: true,
+      }),
+    ).toBeRejectedWithError(/requires the column types/)
+    await client.close()
+  })
+
+  it('describes the table only once for the RowBinary inserts', async () => {
+    const requests: ClientRequest[] = []
+    const httpRequestStub = spyOn(Http, 'request').and.callFake(() => {
+      const request = stubClientRequest()
+      requests.push(request)
+      return request
+    })
+    const respond = async (idx: number, body: string) => {
+      while (requests.length <= idx) {
+        await sleep(0)
+      }
+      await emitResponseBody(requests[idx], body)
+    }
+    const client = createClient()
+    const insert = () =>
+      client.insert({
+        table: 'events',
+        values: [{ id: 1 }],
+        format: 'RowBinary',
+      })
+
+    const firstInsert = insert()
+    await respond(0, '{"name":"id","type":"UInt8","default_type":""}\n')
+    await respond(1, '')
+    await firstInsert
+    const secondInsert = insert()
+    await respond(2, '')
+    await secondInsert
+
+    expect(httpRequestStub).toHaveBeenCalledTimes(3)
+    await client.close()
+  })
+
+  it('sends the introspection queries of a session in the session', async () => {
+    const requests: ClientRequest[] = []
+    const httpRequestStub = spyOn(Http, 'request').and.callFake(() => {
+      const request = stubClientRequest()
+      requests.push(request)
+      return request
+    })
+    const respond = async (idx: number, body: string) => {
+      while (requests.length <= idx) {
+        await sleep(0)
+      }
+      await emitResponseBody(requests[idx], body)
+    }
+    const client = createClient()
+    const session = client.session({ session_id: 'my_session' })
+
+    const insert = session.insert({
+      table: 'events',
+      values: [{ id: 1 }],
+      format: 'RowBinary',
+    })
+    await respond(0, '{"name":"id","type":"UInt8","default_type":""}\n')
+    await respond(1, '')
+    await insert
+    // the client of the session, which is not exposed otherwise
+    const describe = session['client'].describeTable('events')
+    await respond(2, '{"name":"id","type":"UInt8","default_type":""}\n')
+    await describe
+
+    const urls = httpRequestStub.calls.allArgs().map(([url]) => url as URL)
+    expect(urls.map((url) => url.searchParams.get('session_id'))).toEqual([
+      'my_session',
+      'my_session',
+      'my_session',
+    ])
+    await client.close()
+  })
+
   describe('URL parameters parsing', () => {
     const params: ConnectionParams = {
       url: new URL('https://my.host:8443'),
@@ -43,10 +153,13 @@ describe('[Node.js] createClient', () => {
       clickhouse_settings: {},
       log_writer: new LogWriter(new DefaultLogger(), 'Connection'),
       keep_alive: { enabled: true },
+      retry: getRetrySettings({}),
       http_headers: {
         'X-ClickHouse-Auth': 'secret_token',
       },
       application_id: 'my_app',
+      cancel_on_abort: undefined,
+      middleware: [],
     }
 
     let createConnectionStub: jasmine.Spy
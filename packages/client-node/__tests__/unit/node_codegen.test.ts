@@ -0,0 +1,63 @@
+import { parseCodegenArgs } from '../../src/codegen'
+
+describe('[Node.js] codegen CLI arguments', () => {
+  it('should parse the options', async () => {
+    const { clickhouse_settings, ...args } = parseCodegenArgs([
+      '--url',
+      'http://localhost:8124',
+      '--database=analytics',
+      '--table',
+      'events',
+      '--table=sessions',
+      '--setting',
+      'output_format_json_quote_64bit_integers=0',
+      '--out',
+      'src/types.ts',
+    ])
+    expect(args).toEqual({
+      url: 'http://localhost:8124',
+      username: undefined,
+      password: undefined,
+      database: 'analytics',
+      tables: ['events', 'sessions'],
+      out: 'src/types.ts',
+      help: false,
+    })
+    // the values are passed to the server as is
+    expect(clickhouse_settings as Record<string, unknown>).toEqual({
+      output_format_json_quote_64bit_integers: '0',
+    })
+  })
+
+  it('should use the environment variables as the defaults', async () => {
+    const args = parseCodegenArgs(['--username', 'bob'], {
+      CLICKHOUSE_URL: 'https://example.com:8443',
+      CLICKHOUSE_USER: 'alice',
+      CLICKHOUSE_PASSWORD: 'secret',
+    })
+    expect(args.url).toEqual('https://example.com:8443')
+    expect(args.username).toEqual('bob')
+    expect(args.password).toEqual('secret')
+  })
+
+  it('should parse the help flag', async () => {
+    expect(parseCodegenArgs(['--help']).help).toBeTrue()
+  })
+
+  it('should throw on invalid arguments', async () => {
+    expect(() => parseCodegenArgs(['--foo', 'bar'])).toThrowError(
+      'Unknown option: --foo',
+    )
+    expect(() => parseCodegenArgs(['--out'])).toThrowError(
+      'Option --out requires a value',
+    )
+    expect(() => parseCodegenArgs(['types.ts'])).toThrowError(
+      'Unexpected argument: types.ts',
+    )
+    expect(() =>
+      parseCodegenArgs(['--setting', 'output_format_json_quote_decimals']),
+    ).toThrowError(
+      'Option --setting expects name=value, got: output_format_json_quote_decimals',
+    )
+  })
+})
@@ -2,12 +2,14 @@ import type {
   BaseClickHouseClientConfigOptions,
   ConnectionParams,
 } from '@clickhouse/client-common'
-import { LogWriter } from '@clickhouse/client-common'
+import { getRetrySettings, LogWriter } from '@clickhouse/client-common'
 import { TestLogger } from '@test/utils'
 import { Buffer } from 'buffer'
 import http from 'http'
+import Stream from 'stream'
 import type { NodeClickHouseClientConfigOptions } from '../../src/config'
 import { NodeConfigImpl } from '../../src/config'
+import { drainStream } from '../../src/connection/stream'
 import type {
   CreateConnectionParams,
   NodeBaseConnection,
@@ -77,6 +79,8 @@ describe('[Node.js] Config implementation details', () => {
       clickhouse_settings: {},
       log_writer: new LogWriter(new TestLogger(), 'MakeConnectionTest'),
       keep_alive: { enabled: false },
+      retry: getRetrySettings({}),
+      middleware: [],
     }
 
     let createConnectionStub: jasmine.Spy
@@ -217,4 +221,26 @@ describe('[Node.js] Config implementation details', () => {
       expect(res).toEqual(fakeConnection)
     })
   })
+
+  describe('OnStreamEnd', () => {
+    it('should call the callback when the stream is consumed', async () => {
+      const callback = jasmine.createSpy('callback')
+      const stream = NodeConfigImpl.on_stream_end(
+        Stream.Readable.from(['foo', 'bar']),
+        callback,
+      )
+      expect(callback).not.toHaveBeenCalled()
+      await drainStream(stream)
+      await new Promise((resolve) => setImmediate(resolve))
+      expect(callback).toHaveBeenCalledTimes(1)
+    })
+
+    it('should call the callback when the stream is destroyed', async () => {
+      const callback = jasmine.createSpy('callback')
+      const stream = Stream.Readable.from(['foo'])
+      stream.destroy()
+      NodeConfigImpl.on_stream_end(stream, callback)
+      expect(callback).toHaveBeenCalledTimes(1)
+    })
+  })
 })
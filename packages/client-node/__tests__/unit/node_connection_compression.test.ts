@@ -1,7 +1,9 @@
+import type { CompressionCodec } from '@clickhouse/client-common'
 import { sleep } from '@test/utils'
 import Http, { type ClientRequest } from 'http'
 import Stream from 'stream'
 import Zlib from 'zlib'
+import { compressRequest } from '../../src/connection/compression'
 import { assertConnQueryResult } from '../utils/assert'
 import {
   buildHttpConnection,
@@ -135,15 +137,86 @@ describe('Node.js Connection compression', () => {
         query: 'SELECT * FROM system.numbers LIMIT 5',
       })
 
-      await emitCompressedBody(request, 'abc', 'br')
+      await emitCompressedBody(request, 'abc', 'xz')
 
       await expectAsync(selectPromise).toBeRejectedWith(
         jasmine.objectContaining({
-          message: 'Unexpected encoding: br',
+          message: 'Unexpected encoding: xz',
         }),
       )
     })
 
+    it('requests and decompresses a response with another codec', async () => {
+      const request = stubClientRequest()
+      httpRequestStub.and.returnValue(request)
+      const adapter = buildHttpConnection({
+        compression: {
+          decompress_response: true,
+          compress_request: false,
+          response_codec: 'br',
+          response_level: 5,
+        },
+      })
+
+      const selectPromise = adapter.query({
+        query: 'SELECT * FROM system.numbers LIMIT 5',
+      })
+
+      const responseBody = 'abc'.repeat(1_000)
+      await sleep(0)
+      request.emit(
+        'response',
+        buildIncomingMessage({
+          body: Zlib.brotliCompressSync(responseBody),
+          headers: {
+            'content-encoding': 'br',
+          },
+        }),
+      )
+
+      const queryResult = await selectPromise
+      await assertConnQueryResult(queryResult, responseBody)
+
+      const [url, calledWith] = httpRequestStub.calls.mostRecent().args as [
+        URL,
+        { headers: Http.OutgoingHttpHeaders },
+      ]
+      expect(calledWith.headers['Accept-Encoding']).toBe('br')
+      expect(url.searchParams.get('enable_http_compression')).toBe('1')
+      expect(url.searchParams.get('http_zlib_compression_level')).toBe('5')
+    })
+
+    it('decompresses a deflate response', async () => {
+      const request = stubClientRequest()
+      httpRequestStub.and.returnValue(request)
+      const adapter = buildHttpConnection({
+        compression: {
+          decompress_response: true,
+          compress_request: false,
+          response_codec: 'deflate',
+        },
+      })
+
+      const selectPromise = adapter.query({
+        query: 'SELECT * FROM system.numbers LIMIT 5',
+      })
+
+      const responseBody = 'abc'.repeat(1_000)
+      await sleep(0)
+      request.emit(
+        'response',
+        buildIncomingMessage({
+          body: Zlib.deflateSync(responseBody),
+          headers: {
+            'content-encoding': 'deflate',
+          },
+        }),
+      )
+
+      const queryResult = await selectPromise
+      await assertConnQueryResult(queryResult, responseBody)
+    })
+
     it('provides decompression error to a stream consumer', async () => {
       const request = stubClientRequest()
       httpRequestStub.and.returnValue(request)
@@ -227,5 +300,56 @@ describe('Node.js Connection compression', () => {
       const calledWith = httpRequestStub.calls.mostRecent().args[1]
       expect(calledWith.headers!['Content-Encoding']).toBe('gzip')
     })
+
+    it('compresses the request with the configured codec and level', async () => {
+      const adapter = buildHttpConnection({
+        compression: {
+          decompress_response: false,
+          compress_request: true,
+          request_codec: 'br',
+          request_level: 11,
+        },
+      })
+
+      const values = 'abc'.repeat(1_000)
+
+      let chunks = Buffer.alloc(0)
+      let finalResult: Buffer | undefined = undefined
+      const request = new Stream.Writable({
+        write(chunk, encoding, next) {
+          chunks = Buffer.concat([chunks, chunk])
+          next()
+        },
+        final() {
+          finalResult = Zlib.brotliDecompressSync(chunks)
+        },
+      }) as ClientRequest
+      httpRequestStub.and.returnValue(request)
+
+      void adapter.insert({
+        query: 'INSERT INTO insert_compression_table',
+        values,
+      })
+
+      // trigger stream pipeline
+      await sleep(0)
+      request.emit('socket', socketStub)
+      await sleep(100)
+
+      expect(finalResult!.toString('utf8')).toEqual(values)
+      const [, calledWith] = httpRequestStub.calls.mostRecent().args as [
+        URL,
+        { headers: Http.OutgoingHttpHeaders },
+      ]
+      expect(calledWith.headers['Content-Encoding']).toBe('br')
+    })
+
+    it('does not fall back to gzip for an unsupported codec', async () => {
+      expect(() =>
+        compressRequest('lz4' as CompressionCodec, undefined),
+      ).toThrowError(
+        'Compression codec lz4 is not supported by the Node.js client. Supported codecs: gzip, deflate, br, zstd.',
+      )
+    })
   })
 })
@@ -0,0 +1,118 @@
+import { getRetrySettings } from '@clickhouse/client-common'
+import { sleep } from '@test/utils'
+import Http from 'http'
+import Stream from 'stream'
+import {
+  buildHttpConnection,
+  buildIncomingMessage,
+  emitResponseBody,
+  stubClientRequest,
+} from '../utils/http_stubs'
+
+describe('Node.js Connection retries', () => {
+  let httpRequestStub: jasmine.Spy<typeof Http.request>
+  beforeEach(() => {
+    httpRequestStub = spyOn(Http, 'request')
+  })
+
+  const retry = getRetrySettings({
+    max_attempts: 3,
+    initial_delay_ms: 1,
+  })
+
+  it('should retry a query after a connection reset', async () => {
+    const failedRequest = stubClientRequest()
+    const request = stubClientRequest()
+    httpRequestStub.and.returnValues(failedRequest, request)
+
+    const adapter = buildHttpConnection({ retry })
+    const selectPromise = adapter.query({
+      query: 'SELECT 1',
+    })
+
+    await sleep(0)
+    failedRequest.emit('error', errorWithCode('ECONNRESET'))
+    await waitForCalls(2)
+    await emitResponseBody(request, 'foobar')
+
+    await selectPromise
+    expect(httpRequestStub).toHaveBeenCalledTimes(2)
+  })
+
+  it('should retry a query after a 503 response', async () => {
+    const failedRequest = stubClientRequest()
+    const request = stubClientRequest()
+    httpRequestStub.and.returnValues(failedRequest, request)
+
+    const adapter = buildHttpConnection({ retry })
+    const selectPromise = adapter.query({
+      query: 'SELECT 1',
+    })
+
+    await sleep(0)
+    failedRequest.emit(
+      'response',
+      buildIncomingMessage({ body: 'Service Unavailable', statusCode: 503 }),
+    )
+    await waitForCalls(2)
+    await emitResponseBody(request, 'foobar')
+
+    await selectPromise
+    expect(httpRequestStub).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not retry an insert without insert_deduplication_token', async () => {
+    const request = stubClientRequest()
+    httpRequestStub.and.returnValue(request)
+
+    const adapter = buildHttpConnection({
+      retry: { ...retry, operations: ['Insert'] },
+    })
+    const insertPromise = adapter.insert({
+      query: 'INSERT INTO t FORMAT JSONEachRow',
+      values: '{"id":1}\n',
+    })
+
+    await sleep(0)
+    request.emit('error', errorWithCode('ECONNRESET'))
+
+    await expectAsync(insertPromise).toBeRejectedWith(
+      jasmine.objectContaining({ code: 'ECONNRESET' }),
+    )
+    expect(httpRequestStub).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not retry an insert with a stream', async () => {
+    const request = stubClientRequest()
+    httpRequestStub.and.returnValue(request)
+
+    const adapter = buildHttpConnection({
+      retry: { ...retry, operations: ['Insert'] },
+    })
+    const insertPromise = adapter.insert({
+      query: 'INSERT INTO t FORMAT JSONEachRow',
+      values: Stream.Readable.from(['{"id":1}\n'], { objectMode: false }),
+      clickhouse_settings: {
+        insert_deduplication_token: 'foo',
+      },
+    })
+
+    await sleep(0)
+    request.emit('error', errorWithCode('ECONNRESET'))
+
+    await expectAsync(insertPromise).toBeRejectedWith(
+      jasmine.objectContaining({ code: 'ECONNRESET' }),
+    )
+    expect(httpRequestStub).toHaveBeenCalledTimes(1)
+  })
+
+  async function waitForCalls(count: number) {
+    while (httpRequestStub.calls.count() < count) {
+      await sleep(1)
+    }
+  }
+
+  function errorWithCode(code: string) {
+    return Object.assign(new Error(code), { code })
+  }
+})
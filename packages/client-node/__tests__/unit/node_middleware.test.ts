@@ -0,0 +1,99 @@
+import type { MiddlewareResponse } from '@clickhouse/client-common'
+import { sleep } from '@test/utils'
+import Http from 'http'
+import { createClient } from '../../src'
+import { emitResponseBody, stubClientRequest } from '../utils/http_stubs'
+
+type RequestOptions = { headers: Http.OutgoingHttpHeaders }
+
+describe('[Node.js] Client middleware', () => {
+  let httpRequestStub: jasmine.Spy<typeof Http.request>
+  beforeEach(() => {
+    httpRequestStub = spyOn(Http, 'request')
+  })
+
+  it('should run the middleware for every request until it is removed', async () => {
+    const client = createClient()
+    const responses: MiddlewareResponse[] = []
+    const remove = client.use({
+      beforeRequest: ({ url, headers }) => {
+        url.searchParams.set('log_comment', 'tenant_1')
+        headers['X-Tenant'] = 'tenant_1'
+      },
+      afterResponse: (response) => void responses.push(response),
+    })
+
+    await command(client)
+    const [url, options] = httpRequestStub.calls.mostRecent().args as [
+      URL,
+      RequestOptions,
+    ]
+    expect(url.searchParams.get('log_comment')).toEqual('tenant_1')
+    expect(options.headers['X-Tenant']).toEqual('tenant_1')
+    expect(responses).toEqual([
+      jasmine.objectContaining({
+        op: 'Command',
+        response_headers: jasmine.objectContaining({
+          'x-clickhouse-query-id': jasmine.any(String),
+        }),
+      }),
+    ])
+
+    remove()
+    await command(client)
+    const [urlAfterRemove, optionsAfterRemove] =
+      httpRequestStub.calls.mostRecent().args as [URL, RequestOptions]
+    expect(urlAfterRemove.searchParams.has('log_comment')).toBeFalse()
+    expect(optionsAfterRemove.headers['X-Tenant']).toBeUndefined()
+    expect(responses.length).toEqual(1)
+    await client.close()
+  })
+
+  it('should apply the middleware to the sessions', async () => {
+    const client = createClient()
+    client.use({
+      beforeRequest: ({ headers }) => {
+        headers['X-Tenant'] = 'tenant_1'
+      },
+    })
+    const session = client.session({ session_id: 'my_session' })
+    await command(session)
+    const [url, options] = httpRequestStub.calls.mostRecent().args as [
+      URL,
+      RequestOptions,
+    ]
+    expect(url.searchParams.get('session_id')).toEqual('my_session')
+    expect(options.headers['X-Tenant']).toEqual('tenant_1')
+    await client.close()
+  })
+
+  it('should not send the request if the middleware throws', async () => {
+    const client = createClient()
+    const onError = jasmine.createSpy('onError')
+    client.use({
+      beforeRequest: () => {
+        throw new Error('Injected fault')
+      },
+      onError,
+    })
+    await expectAsync(
+      client.command({ query: 'SELECT 1' }),
+    ).toBeRejectedWithError('Injected fault')
+    expect(httpRequestStub).not.toHaveBeenCalled()
+    expect(onError).toHaveBeenCalledOnceWith(
+      jasmine.objectContaining({ op: 'Command' }),
+    )
+    await client.close()
+  })
+
+  async function command(client: {
+    command: (params: { query: string }) => Promise<unknown>
+  }) {
+    const request = stubClientRequest()
+    httpRequestStub.and.returnValue(request)
+    const commandPromise = client.command({ query: 'SELECT 1' })
+    await sleep(0)
+    await emitResponseBody(request, '')
+    await commandPromise
+  }
+})
@@ -0,0 +1,152 @@
+import Fs from 'fs'
+import Os from 'os'
+import Path from 'path'
+import {
+  formatStatus,
+  loadMigrations,
+  parseMigrateArgs,
+} from '../../src/migrations'
+
+describe('[Node.js] migrations', () => {
+  describe('loadMigrations', () => {
+    let dir: string
+    beforeEach(async () => {
+      dir = await Fs.promises.mkdtemp(Path.join(Os.tmpdir(), 'migrations-'))
+    })
+    afterEach(async () => {
+      await Fs.promises.rm(dir, { recursive: true, force: true })
+    })
+
+    it('should load the SQL and the JS migrations', async () => {
+      await writeFiles({
+        '1_create_events.up.sql':
+          'CREATE TABLE events (id UInt64) ENGINE = Memory',
+        '1_create_events.down.sql': 'DROP TABLE events',
+        '2_backfill.js': `
+          exports.up = async ({ client }) => {
+            await client.command({ query: 'INSERT INTO events VALUES (1)' })
+          }
+          exports.down = 'TRUNCATE TABLE events'
+        `,
+        '10_no_down.up.sql': 'SELECT 1',
+        'README.md': 'ignored',
+      })
+      const migrations = await loadMigrations(dir)
+      expect(
+        migrations.map(({ version, name, up, down }) => ({
+          version,
+          name,
+          up: typeof up,
+          down: typeof down,
+        })),
+      ).toEqual([
+        { version: '1', name: 'create_events', up: 'string', down: 'string' },
+        { version: '2', name: 'backfill', up: 'function', down: 'string' },
+        { version: '10', name: 'no_down', up: 'string', down: 'undefined' },
+      ])
+      expect(migrations[0].up).toEqual(
+        'CREATE TABLE events (id UInt64) ENGINE = Memory',
+      )
+      expect(migrations[0].checksum).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it('should change the checksum when the file is modified', async () => {
+      await writeFiles({ '1_foo.up.sql': 'SELECT 1' })
+      const [before] = await loadMigrations(dir)
+      await writeFiles({ '1_foo.down.sql': 'SELECT 2' })
+      const [after] = await loadMigrations(dir)
+      expect(before.checksum).not.toEqual(after.checksum)
+    })
+
+    it('should fail without the up step', async () => {
+      await writeFiles({ '1_foo.down.sql': 'SELECT 1' })
+      await expectAsync(loadMigrations(dir)).toBeRejectedWithError(
+        'Migration 1_foo has no 1_foo.up.sql file',
+      )
+    })
+
+    it('should fail if the module does not export the up step', async () => {
+      await writeFiles({ '1_foo.js': 'exports.down = "SELECT 1"' })
+      await expectAsync(loadMigrations(dir)).toBeRejectedWithError(
+        'Migration 1_foo.js should export the up step as a function or a string',
+      )
+    })
+
+    async function writeFiles(files: Record<string, string>) {
+      for (const [name, content] of Object.entries(files)) {
+        await Fs.promises.writeFile(Path.join(dir, name), content)
+      }
+    }
+  })
+
+  describe('CLI arguments', () => {
+    it('should parse the command and the options', async () => {
+      const { clickhouse_settings, ...args } = parseMigrateArgs(
+        [
+          'down',
+          '--dir=db/migrations',
+          '--cluster',
+          'my_cluster',
+          '--steps',
+          '2',
+          '--setting',
+          'distributed_ddl_task_timeout=600',
+        ],
+        { CLICKHOUSE_URL: 'https://example.com:8443' },
+      )
+      expect(args).toEqual({
+        command: 'down',
+        url: 'https://example.com:8443',
+        username: undefined,
+        password: undefined,
+        dir: 'db/migrations',
+        cluster: 'my_cluster',
+        steps: 2,
+        help: false,
+      })
+      expect(clickhouse_settings as Record<string, unknown>).toEqual({
+        distributed_ddl_task_timeout: '600',
+      })
+    })
+
+    it('should not require the command with the help flag', async () => {
+      expect(parseMigrateArgs(['--help']).help).toBeTrue()
+    })
+
+    it('should throw on invalid arguments', async () => {
+      expect(() => parseMigrateArgs([])).toThrowError(
+        'Command is required: up, down or status',
+      )
+      expect(() => parseMigrateArgs(['sideways'])).toThrowError(
+        'Unknown command: sideways',
+      )
+      expect(() => parseMigrateArgs(['up', 'now'])).toThrowError(
+        'Unexpected argument: now',
+      )
+      expect(() => parseMigrateArgs(['down', '--steps', '0'])).toThrowError(
+        'Option --steps expects a positive integer, got: 0',
+      )
+      expect(() => parseMigrateArgs(['up', '--table'])).toThrowError(
+        'Option --table requires a value',
+      )
+    })
+  })
+
+  it('should format the status', async () => {
+    expect(
+      formatStatus([
+        {
+          version: '1',
+          name: 'create_events',
+          state: 'applied',
+          applied_at: '2024-01-02 03:04:05.000000',
+        },
+        { version: '2', name: 'backfill', state: 'pending', applied_at: null },
+      ]),
+    ).toEqual(
+      'applied  1_create_events  2024-01-02 03:04:05.000000\n' +
+        'pending  2_backfill',
+    )
+    expect(formatStatus([])).toEqual('No migrations')
+  })
+})
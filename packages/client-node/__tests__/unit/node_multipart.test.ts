@@ -0,0 +1,61 @@
+import Stream from 'stream'
+import { encodeMultipartBody } from '../../src/connection/multipart'
+import { getAsText } from '../../src/utils'
+
+describe('[Node.js] multipart body', () => {
+  it('should buffer the body without the streams', async () => {
+    const { content_type, body } = encodeMultipartBody([
+      {
+        name: 'ids',
+        structure: 'id UInt64',
+        format: 'JSONCompactEachRow',
+        values: '[1]\n[2]\n',
+      },
+      {
+        name: 'names',
+        structure: 'name String',
+        format: 'TabSeparated',
+        values: new TextEncoder().encode('foo\n'),
+      },
+    ])
+    const boundary = getBoundary(content_type)
+    expect(Buffer.isBuffer(body)).toBeTrue()
+    expect(body.toString()).toEqual(
+      `--${boundary}\r\n` +
+        'Content-Disposition: form-data; name="ids"; filename="ids"\r\n' +
+        'Content-Type: application/octet-stream\r\n\r\n' +
+        '[1]\n[2]\n\r\n' +
+        `--${boundary}\r\n` +
+        'Content-Disposition: form-data; name="names"; filename="names"\r\n' +
+        'Content-Type: application/octet-stream\r\n\r\n' +
+        'foo\n\r\n' +
+        `--${boundary}--\r\n`,
+    )
+  })
+
+  it('should stream the body with a stream', async () => {
+    const { content_type, body } = encodeMultipartBody([
+      {
+        name: 'ids',
+        structure: 'id UInt64',
+        format: 'JSONCompactEachRow',
+        values: Stream.Readable.from(['[1]\n', '[2]\n'], { objectMode: false }),
+      },
+    ])
+    const boundary = getBoundary(content_type)
+    expect(body).toBeInstanceOf(Stream.Readable)
+    expect(await getAsText(body as Stream.Readable)).toEqual(
+      `--${boundary}\r\n` +
+        'Content-Disposition: form-data; name="ids"; filename="ids"\r\n' +
+        'Content-Type: application/octet-stream\r\n\r\n' +
+        '[1]\n[2]\n\r\n' +
+        `--${boundary}--\r\n`,
+    )
+  })
+
+  function getBoundary(content_type: string): string {
+    const match = content_type.match(/^multipart\/form-data; boundary=(.+)$/)
+    expect(match).not.toBeNull()
+    return match![1]
+  }
+})
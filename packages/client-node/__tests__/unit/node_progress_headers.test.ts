@@ -0,0 +1,96 @@
+import type { ClickHouseProgress } from '@clickhouse/client-common'
+import { sleep } from '@test/utils'
+import { Buffer } from 'buffer'
+import Net from 'net'
+import { ProgressHeadersParser } from '../../src/connection/progress'
+import { buildHttpConnection } from '../utils/http_stubs'
+
+describe('[Node.js] Progress headers', () => {
+  const head = [
+    'HTTP/1.1 200 OK',
+    'Date: Mon, 01 Jan 2024 00:00:00 GMT',
+    'X-ClickHouse-Query-Id: foo',
+    `X-ClickHouse-Progress: ${progressJSON(1)}`,
+    `x-clickhouse-progress: ${progressJSON(2)}`,
+    'X-ClickHouse-Summary: {"read_rows":"3"}',
+    '',
+    `X-ClickHouse-Progress: ${progressJSON(4)}`, // this is the body already
+  ].join('\r\n')
+
+  it('should parse the progress headers', async () => {
+    const parser = new ProgressHeadersParser()
+    expect(parser.parse(Buffer.from(head))).toEqual([progress(1), progress(2)])
+    expect(parser.parse(Buffer.from(head))).toEqual([])
+  })
+
+  it('should parse the headers split between the chunks', async () => {
+    const parser = new ProgressHeadersParser()
+    const data = Buffer.from(head)
+    const result = []
+    for (let i = 0; i < data.length; i += 7) {
+      result.push(...parser.parse(data.subarray(i, i + 7)))
+    }
+    expect(result).toEqual([progress(1), progress(2)])
+  })
+
+  it('should skip the malformed headers', async () => {
+    const parser = new ProgressHeadersParser()
+    const data = Buffer.from(
+      `HTTP/1.1 200 OK\r\nX-ClickHouse-Progress: {"read_rows":\r\nX-ClickHouse-Progress: ${progressJSON(1)}\r\n\r\n`,
+    )
+    expect(parser.parse(data)).toEqual([progress(1)])
+  })
+
+  it('should report the progress before the response head is complete', async () => {
+    // ClickHouse sends the progress headers one by one while the query is running
+    const server = Net.createServer((socket) => {
+      socket.once('data', async () => {
+        socket.write('HTTP/1.1 200 OK\r\n')
+        for (const readRows of [1, 2]) {
+          socket.write(`X-ClickHouse-Progress: ${progressJSON(readRows)}\r\n`)
+          await sleep(50)
+        }
+        socket.end('Content-Length: 2\r\nConnection: close\r\n\r\nOK')
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    const { port } = server.address() as Net.AddressInfo
+    const connection = buildHttpConnection({
+      url: new URL(`http://localhost:${port}`),
+    })
+    const reported: Array<{ progress: ClickHouseProgress; at: number }> = []
+    try {
+      const { stream } = await connection.query({
+        query: 'SELECT 1',
+        on_progress: (progress) => reported.push({ progress, at: Date.now() }),
+      })
+      const responseReceivedAt = Date.now()
+      stream.resume()
+      expect(reported.map(({ progress }) => progress)).toEqual([
+        progress(1),
+        progress(2),
+      ])
+      expect(reported[0].at).toBeLessThan(responseReceivedAt - 25)
+    } finally {
+      await connection.close()
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+
+  function progress(readRows: number) {
+    return {
+      read_rows: String(readRows),
+      read_bytes: String(readRows * 8),
+      written_rows: '0',
+      written_bytes: '0',
+      total_rows_to_read: '10',
+      result_rows: '0',
+      result_bytes: '0',
+      elapsed_ns: '1000',
+    }
+  }
+
+  function progressJSON(readRows: number) {
+    return JSON.stringify(progress(readRows))
+  }
+})
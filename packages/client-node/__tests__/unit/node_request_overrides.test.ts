@@ -0,0 +1,134 @@
+import type {
+  CompressionCodec,
+  ConnQueryParams,
+} from '@clickhouse/client-common'
+import Http from 'http'
+import type Stream from 'stream'
+import Zlib from 'zlib'
+import {
+  buildHttpConnection,
+  emitResponseBody,
+  stubClientRequest,
+} from '../utils/http_stubs'
+
+type RequestOptions = { timeout?: number; headers: Http.OutgoingHttpHeaders }
+
+describe('[Node.js] Connection per-request overrides', () => {
+  let httpRequestStub: jasmine.Spy<typeof Http.request>
+  beforeEach(() => {
+    httpRequestStub = spyOn(Http, 'request')
+  })
+
+  it('should use the connection params without overrides', async () => {
+    const [url, options] = await sendQuery({})
+    // the default database is not sent
+    expect(url.searchParams.has('database')).toBeFalse()
+    expect(url.searchParams.has('enable_http_compression')).toBeFalse()
+    expect(options.timeout).toEqual(30_000)
+    expect(options.headers['X-Tenant']).toEqual('default_tenant')
+    expect(options.headers['Accept-Encoding']).toBeUndefined()
+  })
+
+  it('should override the database', async () => {
+    const [url] = await sendQuery({ database: 'tenant_1' })
+    expect(url.searchParams.get('database')).toEqual('tenant_1')
+  })
+
+  it('should override the request timeout', async () => {
+    const [, options] = await sendQuery({ request_timeout: 600_000 })
+    expect(options.timeout).toEqual(600_000)
+  })
+
+  it('should merge the HTTP headers', async () => {
+    const [, options] = await sendQuery({
+      http_headers: { 'X-Tenant': 'tenant_1', 'X-Request-Source': 'export' },
+    })
+    expect(options.headers).toEqual(
+      jasmine.objectContaining({
+        'X-Tenant': 'tenant_1',
+        'X-Request-Source': 'export',
+        Authorization: jasmine.stringMatching(/^Basic /),
+      }),
+    )
+  })
+
+  it('should override the response compression', async () => {
+    const [url, options] = await sendQuery({ compression: { response: true } })
+    expect(url.searchParams.get('enable_http_compression')).toEqual('1')
+    expect(options.headers['Accept-Encoding']).toEqual('gzip')
+  })
+
+  it('should override the request compression', async () => {
+    const request = stubClientRequest()
+    httpRequestStub.and.returnValue(request)
+    const adapter = buildConnection()
+    const insertPromise = adapter.insert({
+      query: 'INSERT INTO t FORMAT JSONEachRow',
+      values: '{"id":1}\n',
+      compression: { request: 'deflate' },
+    })
+    await emitResponseBody(request, '')
+    await insertPromise
+    const [, options] = httpRequestStub.calls.mostRecent().args as [
+      URL,
+      RequestOptions,
+    ]
+    expect(options.headers['Content-Encoding']).toEqual('deflate')
+  })
+
+  it('should reject the unsupported compression codecs without sending the request', async () => {
+    const adapter = buildConnection()
+    // possible without the type checks
+    const lz4 = 'lz4' as CompressionCodec
+    const xz = 'xz' as CompressionCodec
+    await expectAsync(
+      adapter.command({ query: 'SELECT 1', compression: { request: lz4 } }),
+    ).toBeRejectedWithError(
+      'Compression codec lz4 is not supported by the Node.js client. Supported codecs: gzip, deflate, br, zstd.',
+    )
+    await expectAsync(
+      adapter.query({ query: 'SELECT 1', compression: { response: xz } }),
+    ).toBeRejectedWithError(/Compression codec xz is not supported/)
+    await expectAsync(
+      adapter.insert({
+        query: 'INSERT INTO t FORMAT JSONEachRow',
+        values: '{"id":1}\n',
+        compression: { request: { codec: lz4, level: 1 } },
+      }),
+    ).toBeRejectedWithError(/Compression codec lz4 is not supported/)
+    expect(httpRequestStub).not.toHaveBeenCalled()
+  })
+
+  it('should reject zstd if the runtime does not support it', async () => {
+    if ('createZstdCompress' in Zlib) {
+      pending('zstd is supported by this Node.js version')
+    }
+    const adapter = buildConnection()
+    await expectAsync(
+      adapter.command({ query: 'SELECT 1', compression: { request: 'zstd' } }),
+    ).toBeRejectedWithError(/Compression codec zstd requires Node.js 22.15\+/)
+    expect(httpRequestStub).not.toHaveBeenCalled()
+  })
+
+  async function sendQuery(
+    overrides: Omit<ConnQueryParams<Stream.Readable>, 'query'>,
+  ): Promise<[URL, RequestOptions]> {
+    const request = stubClientRequest()
+    httpRequestStub.and.returnValue(request)
+    const adapter = buildConnection()
+    const selectPromise = adapter.query({ query: 'SELECT 1', ...overrides })
+    await emitResponseBody(request, '1\n')
+    await selectPromise
+    return httpRequestStub.calls.mostRecent().args as [URL, RequestOptions]
+  }
+
+  function buildConnection() {
+    return buildHttpConnection({
+      compression: {
+        decompress_response: false,
+        compress_request: false,
+      },
+      http_headers: { 'X-Tenant': 'default_tenant' },
+    })
+  }
+})
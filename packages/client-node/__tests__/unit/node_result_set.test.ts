@@ -1,5 +1,10 @@
 import type { DataFormat, Row } from '@clickhouse/client-common'
-import { guid } from '@test/utils'
+import {
+  ClickHouseError,
+  ResultSetValueConverter,
+} from '@clickhouse/client-common'
+import { guid, sleep } from '@test/utils'
+import { tableFromArrays, tableFromIPC, tableToIPC } from 'apache-arrow'
 import Stream, { Readable } from 'stream'
 import { ResultSet } from '../../src'
 
@@ -63,6 +68,338 @@ describe('[Node.js] ResultSet', () => {
     expect(row.json()).toEqual({ foo: 'bar' })
   })
 
+  describe('Exceptions in the middle of the response', () => {
+    const exception = `Code: 395. DB::Exception: Value passed to 'throwIf' function is non-zero. (FUNCTION_THROW_IF_VALUE_IS_NON_ZERO) (version 24.3.1.2672 (official build))\n`
+
+    it('should deliver the rows before the exception and then fail', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([
+          Buffer.from('{"foo":"bar"}\n{"qaz"'),
+          Buffer.from(':"qux"}\nCode: 395. DB::Exc'),
+          Buffer.from(exception.slice(18)),
+        ]),
+      )
+      const result: unknown[] = []
+      const consume = async () => {
+        for await (const rows of rs.stream()) {
+          rows.forEach((row: Row) => result.push(row.json()))
+        }
+      }
+      await expectAsync(consume()).toBeRejectedWith(
+        jasmine.objectContaining({
+          code: '395',
+          type: 'FUNCTION_THROW_IF_VALUE_IS_NON_ZERO',
+          query_id: rs.query_id,
+          rows_received: 2,
+        }),
+      )
+      expect(result).toEqual(expectedJson)
+    })
+
+    it('should deliver the rows if the stream is consumed after the exception was received', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([Buffer.from(`{"foo":"bar"}\n${exception}`)]),
+      )
+      const stream = rs.stream()
+      await sleep(10)
+      const result: unknown[] = []
+      const consume = async () => {
+        for await (const rows of stream) {
+          rows.forEach((row: Row) => result.push(row.json()))
+        }
+      }
+      await expectAsync(consume()).toBeRejectedWith(
+        jasmine.objectContaining({ code: '395', rows_received: 1 }),
+      )
+      expect(result).toEqual([{ foo: 'bar' }])
+    })
+
+    it('should fail with a ClickHouseError when consuming as JSON', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([
+          Buffer.from(`{"foo":"bar"}\n${JSON.stringify({ exception })}\n`),
+        ]),
+      )
+      const err = await rs.json().catch((err) => err)
+      expect(err).toBeInstanceOf(ClickHouseError)
+      expect(err.rows_received).toBe(1)
+    })
+
+    it('should detect the exception at the end of the response without a newline', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([
+          Buffer.from(`{"foo":"bar"}\n${exception.trimEnd()}`),
+        ]),
+      )
+      await expectAsync(rs.json()).toBeRejectedWith(
+        jasmine.objectContaining({ code: '395', rows_received: 1 }),
+      )
+    })
+
+    it('should detect the exception wrapped in markers at the end of the response', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([
+          Buffer.from(`{"foo":"bar"}\n__exception__\n${exception}`),
+          Buffer.from('__exception__\n'),
+        ]),
+      )
+      await expectAsync(rs.json()).toBeRejectedWith(
+        jasmine.objectContaining({ code: '395', rows_received: 1 }),
+      )
+    })
+
+    it('should not fail on the rows that only look like an exception', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([
+          Buffer.from(
+            'Code: 60. DB::Exception: Table default.x does not exist. (UNKNOWN_TABLE)\n',
+          ),
+          Buffer.from('ok\n'),
+        ]),
+        'TabSeparated',
+      )
+      const result: string[] = []
+      for await (const rows of rs.stream()) {
+        rows.forEach((row: Row) => result.push(row.text))
+      }
+      expect(result).toEqual([
+        'Code: 60. DB::Exception: Table default.x does not exist. (UNKNOWN_TABLE)',
+        'ok',
+      ])
+    })
+
+    it('should not fail on the values of a column named exception', async () => {
+      const values = [
+        { exception: '' },
+        { exception: exception.trimEnd() },
+        { exception: 'foo' },
+      ]
+      const rs = makeResultSet(
+        Stream.Readable.from([
+          Buffer.from(values.map((v) => JSON.stringify(v) + '\n').join('')),
+        ]),
+      )
+      expect(await rs.json()).toEqual(values)
+    })
+  })
+
+  describe('RowBinary formats', () => {
+    // SELECT number AS n, toString(number) AS s FROM system.numbers LIMIT 2
+    // in RowBinaryWithNamesAndTypes format
+    const header = [
+      2, 1, 0x6e, 1, 0x73, 6, 0x55, 0x49, 0x6e, 0x74, 0x36, 0x34, 6, 0x53, 0x74,
+      0x72, 0x69, 0x6e, 0x67,
+    ]
+    const firstRow = [0, 0, 0, 0, 0, 0, 0, 0, 1, 0x30]
+    const secondRow = [1, 0, 0, 0, 0, 0, 0, 0, 1, 0x31]
+    const expectedRows = [
+      { n: 0n, s: '0' },
+      { n: 1n, s: '1' },
+    ]
+
+    it('should decode RowBinaryWithNamesAndTypes as JSON', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([Buffer.from([...header, ...firstRow])]),
+        'RowBinaryWithNamesAndTypes',
+      )
+      expect(await rs.json()).toEqual([expectedRows[0]])
+    })
+
+    it('should stream RowBinaryWithNamesAndTypes rows split between chunks', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([
+          Buffer.from(header.slice(0, 5)),
+          Buffer.from([...header.slice(5), ...firstRow.slice(0, 3)]),
+          Buffer.from([...firstRow.slice(3), ...secondRow]),
+        ]),
+        'RowBinaryWithNamesAndTypes',
+      )
+      const result: unknown[] = []
+      for await (const rows of rs.stream()) {
+        rows.forEach((row: Row) => {
+          result.push(row.json())
+        })
+      }
+      expect(result).toEqual(expectedRows)
+    })
+
+    it('should provide a JSON text representation of RowBinary rows', async () => {
+      const rs = ResultSet.instance({
+        stream: Stream.Readable.from([Buffer.from(firstRow)]),
+        format: 'RowBinary',
+        query_id: guid(),
+        log_error: (err) => {
+          console.error(err)
+        },
+        response_headers: {},
+        schema: [
+          { name: 'n', type: 'UInt64' },
+          { name: 's', type: 'String' },
+        ],
+      })
+      const allRows: Row[] = []
+      for await (const rows of rs.stream()) {
+        allRows.push(...rows)
+      }
+      expect(allRows.length).toEqual(1)
+      expect(allRows[0].text).toEqual('{"n":"0","s":"0"}')
+    })
+
+    it('should throw if RowBinary is used without the schema', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([Buffer.from(firstRow)]),
+        'RowBinary',
+      )
+      expect(() => rs.stream()).toThrowError(/requires the column types schema/)
+    })
+  })
+
+  describe('Value conversion', () => {
+    it('should convert the streamed rows using the types from the header rows', async () => {
+      const rs = ResultSet.instance({
+        stream: Stream.Readable.from([
+          Buffer.from('["id","ts"]\n["UInt64","DateTime(\'UTC\')"]\n'),
+          Buffer.from('["42","2024-01-02T03:04:05Z"]\n'),
+        ]),
+        format: 'JSONCompactEachRowWithNamesAndTypes',
+        query_id: guid(),
+        log_error: (err) => {
+          console.error(err)
+        },
+        response_headers: {},
+        value_converter: new ResultSetValueConverter(
+          'JSONCompactEachRowWithNamesAndTypes',
+          undefined,
+        ),
+      })
+      expect(await rs.json()).toEqual([
+        ['id', 'ts'],
+        ['UInt64', "DateTime('UTC')"],
+        [42n, new Date('2024-01-02T03:04:05Z')],
+      ])
+    })
+
+    it('should convert the data of the JSON format using the meta', async () => {
+      const rs = ResultSet.instance({
+        stream: Stream.Readable.from([
+          Buffer.from(
+            JSON.stringify({
+              meta: [{ name: 'm', type: 'Map(UInt8, Int64)' }],
+              data: [{ m: { 1: '2' } }],
+              rows: 1,
+            }),
+          ),
+        ]),
+        format: 'JSON',
+        query_id: guid(),
+        log_error: (err) => {
+          console.error(err)
+        },
+        response_headers: {},
+        value_converter: new ResultSetValueConverter('JSON', undefined),
+      })
+      const result = await rs.json<{ m: Map<number, bigint> }>()
+      expect(result.data).toEqual([{ m: new Map([[1, 2n]]) }])
+      expect(result.rows).toEqual(1)
+    })
+  })
+
+  describe('Native format', () => {
+    // SELECT number AS n, toString(number) AS s FROM system.numbers LIMIT 2
+    // in Native format, as a single block
+    const block = [
+      2, 2, 1, 0x6e, 6, 0x55, 0x49, 0x6e, 0x74, 0x36, 0x34, 0, 0, 0, 0, 0, 0, 0,
+      0, 1, 0, 0, 0, 0, 0, 0, 0, 1, 0x73, 6, 0x53, 0x74, 0x72, 0x69, 0x6e, 0x67,
+      1, 0x30, 1, 0x31,
+    ]
+
+    it('should iterate over the blocks split between chunks', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([
+          Buffer.from(block.slice(0, 15)),
+          Buffer.from([...block.slice(15), ...block.slice(0, 3)]),
+          Buffer.from(block.slice(3)),
+        ]),
+        'Native',
+      )
+      const blocks = []
+      for await (const b of rs.blocks()) {
+        blocks.push(b)
+      }
+      expect(blocks.length).toEqual(2)
+      blocks.forEach((b) => {
+        expect(b.meta).toEqual([
+          { name: 'n', type: 'UInt64' },
+          { name: 's', type: 'String' },
+        ])
+        expect(b.columns).toEqual([new BigUint64Array([0n, 1n]), ['0', '1']])
+      })
+    })
+
+    it('should decode Native blocks as JSON rows', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([Buffer.from(block)]),
+        'Native',
+      )
+      expect(await rs.json()).toEqual([
+        { n: 0n, s: '0' },
+        { n: 1n, s: '1' },
+      ])
+    })
+
+    it('should not allow to get the blocks for other formats', async () => {
+      const rs = makeResultSet(getDataStream(), 'JSONEachRow')
+      expect(() => rs.blocks()).toThrowError(
+        'Cannot decode JSONEachRow as Native blocks. Use Native format instead.',
+      )
+    })
+  })
+
+  describe('Arrow formats', () => {
+    // 0x0a bytes in the data should not be treated as the rows separators
+    const data = tableToIPC(
+      tableFromArrays({ id: new Int32Array([0x0a, 0x0a0a]) }),
+    )
+
+    it('should stream the binary data as is', async () => {
+      const rs = makeResultSet(
+        Stream.Readable.from([Buffer.from(data)]),
+        'ArrowStream',
+      )
+      const chunks: Buffer[] = []
+      for await (const chunk of rs.stream()) {
+        chunks.push(chunk)
+      }
+      expect(Buffer.concat(chunks)).toEqual(Buffer.from(data))
+    })
+
+    it('should iterate over the record batches', async () => {
+      const table = tableFromIPC(data).concat(
+        tableFromArrays({ id: new Int32Array([0x0a0a0a]) }),
+      )
+      const rs = makeResultSet(
+        Stream.Readable.from([Buffer.from(tableToIPC(table))]),
+        'ArrowStream',
+      )
+      const ids: number[][] = []
+      for await (const batch of rs.recordBatches()) {
+        ids.push(
+          tableFromIPC(batch)
+            .toArray()
+            .map(({ id }) => id),
+        )
+      }
+      expect(ids).toEqual([[0x0a, 0x0a0a], [0x0a0a0a]])
+    })
+
+    it('should not allow to get the record batches for other formats', async () => {
+      const rs = makeResultSet(getDataStream(), 'Parquet')
+      expect(() => rs.recordBatches()).toThrowError(
+        'Cannot decode Parquet as Arrow record batches. Use Arrow or ArrowStream format instead.',
+      )
+    })
+  })
+
   describe('unhandled exceptions with streamable JSON formats', () => {
     const logAndQuit = (err: Error | unknown, prefix: string) => {
       console.error(prefix, err)
@@ -131,16 +468,18 @@ describe('[Node.js] ResultSet', () => {
     })
   })
 
-  function makeResultSet(
+  function makeResultSet<Format extends DataFormat = 'JSONEachRow'>(
     stream: Stream.Readable,
-    format: DataFormat = 'JSONEachRow',
+    format: Format = 'JSONEachRow' as Format,
   ) {
     return ResultSet.instance({
       stream,
       format,
       query_id: guid(),
       log_error: (err) => {
-        console.error(err)
+        if (!(err instanceof ClickHouseError)) {
+          console.error(err)
+        }
       },
       response_headers: {},
     })
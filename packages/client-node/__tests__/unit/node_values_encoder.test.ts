@@ -3,6 +3,12 @@ import type {
   InputJSON,
   InputJSONObjectEachRow,
 } from '@clickhouse/client-common'
+import {
+  InsertValidationError,
+  InsertValuesValidator,
+} from '@clickhouse/client-common'
+import { sleep } from '@test/utils'
+import { tableFromArrays, tableFromIPC, tableToIPC } from 'apache-arrow'
 import Stream from 'stream'
 import { NodeValuesEncoder } from '../../src/utils'
 
@@ -158,5 +164,310 @@ describe('[Node.js] ValuesEncoder', () => {
         'Cannot encode values of type number with JSON format',
       )
     })
+
+    describe('Iterables', () => {
+      it('should encode generators as streams', async () => {
+        function* values() {
+          yield { id: 1 }
+          yield { id: 2 }
+        }
+        const result = encoder.encodeValues(values(), 'JSONEachRow')
+        expect(await readAll(result as Stream.Readable)).toEqual(
+          '{"id":1}\n{"id":2}\n',
+        )
+      })
+
+      it('should encode async generators as streams', async () => {
+        async function* values() {
+          yield [1, 'foo']
+          await sleep(0)
+          yield [2, 'bar']
+        }
+        const result = encoder.encodeValues(values(), 'JSONCompactEachRow')
+        expect(await readAll(result as Stream.Readable)).toEqual(
+          '[1,"foo"]\n[2,"bar"]\n',
+        )
+      })
+
+      it('should send the chunks of raw formats as is', async () => {
+        const values = new Set(['foo,1\n', 'bar,2\n'])
+        const result = encoder.encodeValues(values, 'CSV')
+        expect((result as Stream.Readable).readableObjectMode).toBeFalse()
+        expect(await readAll(result as Stream.Readable)).toEqual(
+          'foo,1\nbar,2\n',
+        )
+      })
+
+      it('should encode the binary formats', async () => {
+        async function* values() {
+          yield { id: 1, s: 'foo' }
+        }
+        const result = encoder.encodeValues(values(), 'RowBinary', [
+          { name: 'id', type: 'UInt32' },
+          { name: 's', type: 'String' },
+        ])
+        const chunks: Buffer[] = []
+        for await (const chunk of result as Stream.Readable) {
+          chunks.push(chunk)
+        }
+        expect(Buffer.concat(chunks)).toEqual(
+          Buffer.from([1, 0, 0, 0, 3, 0x66, 0x6f, 0x6f]),
+        )
+      })
+
+      it('should pull the values only when the stream is read', async () => {
+        let pulled = 0
+        async function* values() {
+          for (let id = 0; id < 1000; id++) {
+            pulled++
+            yield { id }
+          }
+        }
+        const result = encoder.encodeValues(
+          values(),
+          'JSONEachRow',
+        ) as Stream.Readable
+        await sleep(10)
+        expect(pulled).toBeLessThan(100)
+        result.destroy()
+      })
+
+      it('should accept iterables for all formats, except Arrow', async () => {
+        function* values() {
+          yield { id: 1 }
+        }
+        for (const format of [...objectFormats, ...rawFormats, 'RowBinary']) {
+          expect(() =>
+            encoder.validateInsertValues(values(), format as DataFormat),
+          ).not.toThrow()
+        }
+        expect(() =>
+          encoder.validateInsertValues(values(), 'Arrow'),
+        ).toThrowError(/Use ArrowStream format to insert multiple/)
+      })
+    })
+
+    describe('Native', () => {
+      const schema = [{ name: 'id', type: 'UInt8' }]
+      // 1 column, 2 rows, name 'id', type 'UInt8', values 1 and 2
+      const block = [1, 2, 2, 0x69, 0x64, 5, 0x55, 0x49, 0x6e, 0x74, 0x38, 1, 2]
+
+      it('should encode a single block and an array of blocks', async () => {
+        const single = encoder.encodeValues({ id: [1, 2] }, 'Native', schema)
+        expect(Buffer.from(single as Uint8Array)).toEqual(Buffer.from(block))
+        const multiple = encoder.encodeValues(
+          [{ id: [1, 2] }, { id: new Uint8Array([1, 2]) }],
+          'Native',
+          schema,
+        )
+        expect(Buffer.from(multiple as Uint8Array)).toEqual(
+          Buffer.from([...block, ...block]),
+        )
+      })
+
+      it('should encode object mode streams of blocks', async () => {
+        const values = Stream.Readable.from([{ id: [1, 2] }, { id: [1, 2] }], {
+          objectMode: true,
+        })
+        const result = encoder.encodeValues(values, 'Native', schema)
+        const chunks: Buffer[] = []
+        for await (const chunk of result as Stream.Readable) {
+          chunks.push(chunk)
+        }
+        expect(Buffer.concat(chunks)).toEqual(Buffer.from([...block, ...block]))
+      })
+    })
+
+    describe('Arrow', () => {
+      const first = tableToIPC(tableFromArrays({ id: new Int32Array([1, 2]) }))
+      const second = tableToIPC(tableFromArrays({ id: new Int32Array([3]) }))
+
+      it('should pass a single input and raw streams as is', async () => {
+        expect(encoder.encodeValues(first, 'Arrow')).toBe(first)
+        const values = Stream.Readable.from(Buffer.from(first), {
+          objectMode: false,
+        })
+        expect(encoder.encodeValues(values, 'ArrowStream')).toBe(values)
+      })
+
+      it('should combine an array of inputs into a single stream', async () => {
+        const result = encoder.encodeValues([first, second], 'ArrowStream')
+        expect(ids(result as Uint8Array)).toEqual([1, 2, 3])
+      })
+
+      it('should combine object mode streams of inputs', async () => {
+        const values = Stream.Readable.from([first, second], {
+          objectMode: true,
+        })
+        const result = encoder.encodeValues(values, 'ArrowStream')
+        const chunks: Buffer[] = []
+        for await (const chunk of result as Stream.Readable) {
+          chunks.push(chunk)
+        }
+        expect(ids(Buffer.concat(chunks))).toEqual([1, 2, 3])
+      })
+
+      it('should allow multiple inputs only with ArrowStream', async () => {
+        expect(() =>
+          encoder.validateInsertValues([first, second], 'ArrowStream'),
+        ).not.toThrow()
+        expect(() =>
+          encoder.validateInsertValues([first, second], 'Arrow'),
+        ).toThrowError(/Use ArrowStream format to insert multiple/)
+        expect(() =>
+          encoder.validateInsertValues({ id: [1] }, 'ArrowStream'),
+        ).toThrowError(/expected "values" to be a Uint8Array/)
+      })
+
+      function ids(data: Uint8Array): number[] {
+        return tableFromIPC(data)
+          .toArray()
+          .map(({ id }) => id)
+      }
+    })
+
+    describe('RowBinary', () => {
+      const schema = [
+        { name: 'id', type: 'UInt32' },
+        { name: 's', type: 'String' },
+      ]
+      // id: 1, s: 'foo'; id: 2, s: 'bar'
+      const expected = Buffer.from([
+        1, 0, 0, 0, 3, 0x66, 0x6f, 0x6f, 2, 0, 0, 0, 3, 0x62, 0x61, 0x72,
+      ])
+
+      it('should encode arrays', async () => {
+        const result = encoder.encodeValues(
+          [{ id: 1, s: 'foo' }, [2, 'bar']],
+          'RowBinary',
+          schema,
+        )
+        expect(Buffer.from(result as Uint8Array)).toEqual(expected)
+      })
+
+      it('should encode object mode streams', async () => {
+        const values = Stream.Readable.from(
+          [
+            { id: 1, s: 'foo' },
+            { id: 2, s: 'bar' },
+          ],
+          { objectMode: true },
+        )
+        const result = encoder.encodeValues(values, 'RowBinary', schema)
+        const chunks: Buffer[] = []
+        for await (const chunk of result as Stream.Readable) {
+          chunks.push(chunk)
+        }
+        expect(Buffer.concat(chunks)).toEqual(expected)
+      })
+
+      it('should prepend the header with RowBinaryWithNamesAndTypes', async () => {
+        const result = encoder.encodeValues(
+          [],
+          'RowBinaryWithNamesAndTypes',
+          schema,
+        )
+        expect(Buffer.from(result as Uint8Array).toString('latin1')).toEqual(
+          '\x02\x02id\x01s\x06UInt32\x06String',
+        )
+      })
+
+      it('should fail without the schema', async () => {
+        expect(() => encoder.encodeValues([], 'RowBinary')).toThrowError(
+          'Encoding RowBinary format requires the column types schema to be provided',
+        )
+      })
+
+      it('should only accept arrays and object mode streams', async () => {
+        expect(() =>
+          encoder.validateInsertValues({ a: { id: 1 } }, 'RowBinary'),
+        ).toThrowError(/expected "values" to be an array or a stream/)
+        expect(() =>
+          encoder.validateInsertValues(
+            Stream.Readable.from('foo', { objectMode: false }),
+            'RowBinary',
+          ),
+        ).toThrowError(/with enabled object mode/)
+      })
+    })
+
+    describe('Validation', () => {
+      const columns = [
+        { name: 'id', type: 'UInt8', has_default: false },
+        { name: 's', type: 'String', has_default: true },
+      ]
+
+      it('should validate all the rows of an array', async () => {
+        const validator = new InsertValuesValidator('JSONEachRow', columns)
+        expect(() =>
+          encoder.validateInsertValues(
+            [{ id: 1 }, { id: 256 }, { s: 'foo' }],
+            'JSONEachRow',
+            validator,
+          ),
+        ).toThrowError(
+          InsertValidationError,
+          'Insert values do not match the table schema:\n' +
+            '  row 1, column id: 256 is out of range of UInt8\n' +
+            '  row 2, column id: the value is missing, and the column has no default',
+        )
+      })
+
+      it('should fail the stream at the first invalid row', async () => {
+        const validator = new InsertValuesValidator(
+          'JSONCompactEachRow',
+          columns,
+        )
+        const values = Stream.Readable.from(
+          [
+            [1, 'foo'],
+            [2, 42],
+            [3, 'bar'],
+          ],
+          { objectMode: true },
+        )
+        encoder.validateInsertValues(values, 'JSONCompactEachRow', validator)
+        const result = encoder.encodeValues(
+          values,
+          'JSONCompactEachRow',
+          undefined,
+          validator,
+        )
+        await expectAsync(
+          readAll(result as Stream.Readable),
+        ).toBeRejectedWithError(
+          InsertValidationError,
+          /row 1, column s: expected String, got: number 42/,
+        )
+      })
+
+      it('should validate the rows of an iterable', async () => {
+        function* values() {
+          yield { id: 1, s: 'foo' }
+          yield { id: 2, foo: 'bar' }
+        }
+        const validator = new InsertValuesValidator('JSONEachRow', columns)
+        const result = encoder.encodeValues(
+          values(),
+          'JSONEachRow',
+          undefined,
+          validator,
+        )
+        await expectAsync(
+          readAll(result as Stream.Readable),
+        ).toBeRejectedWithError(
+          InsertValidationError,
+          /row 1, column foo: unknown column/,
+        )
+      })
+    })
   })
 })
+
+async function readAll(stream: Stream.Readable): Promise<string> {
+  let text = ''
+  for await (const chunk of stream) {
+    text += chunk
+  }
+  return text
+}
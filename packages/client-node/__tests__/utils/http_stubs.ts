@@ -1,4 +1,4 @@
-import { LogWriter } from '@clickhouse/client-common'
+import { getRetrySettings, LogWriter } from '@clickhouse/client-common'
 import { sleep, TestLogger } from '@test/utils'
 import { randomUUID } from '@test/utils/guid'
 import type Http from 'http'
@@ -115,7 +115,9 @@ export function buildHttpConnection(config: Partial<NodeConnectionParams>) {
       enabled: false,
       idle_socket_ttl: 2500,
     },
+    retry: getRetrySettings({}),
     set_basic_auth_header: true,
+    middleware: [],
     ...config,
   })
 }
@@ -0,0 +1,19 @@
+#!/usr/bin/env node
+import { CodegenUsage, parseCodegenArgs, runCodegen } from '../codegen'
+
+async function main() {
+  const args = parseCodegenArgs(process.argv.slice(2), process.env)
+  if (args.help) {
+    process.stdout.write(CodegenUsage + '\n')
+    return
+  }
+  const module = await runCodegen(args)
+  if (args.out === undefined) {
+    process.stdout.write(module)
+  }
+}
+
+main().catch((err) => {
+  process.stderr.write(`${err instanceof Error ? err.message : err}\n`)
+  process.exitCode = 1
+})
@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+import { MigrateUsage, parseMigrateArgs, runMigrate } from '../migrations'
+
+async function main() {
+  const args = parseMigrateArgs(process.argv.slice(2), process.env)
+  if (args.help) {
+    process.stdout.write(MigrateUsage + '\n')
+    return
+  }
+  process.stdout.write((await runMigrate(args)) + '\n')
+}
+
+main().catch((err) => {
+  process.stderr.write(`${err instanceof Error ? err.message : err}\n`)
+  process.exitCode = 1
+})
@@ -2,8 +2,10 @@ import type {
   DataFormat,
   IsSame,
   QueryParamsWithFormat,
+  SessionParams,
+  SessionRequestParams,
 } from '@clickhouse/client-common'
-import { ClickHouseClient } from '@clickhouse/client-common'
+import { ClickHouseClient, ClickHouseSession } from '@clickhouse/client-common'
 import type Stream from 'stream'
 import type { NodeClickHouseClientConfigOptions } from './config'
 import { NodeConfigImpl } from './config'
@@ -24,6 +26,20 @@ export class NodeClickHouseClient extends ClickHouseClient<Stream.Readable> {
   ): Promise<QueryResult<Format>> {
     return super.query(params) as Promise<ResultSet<Format>>
   }
+
+  /** See {@link ClickHouseClient.session}. */
+  session(params?: SessionParams): NodeClickHouseSession {
+    return super.session(params) as NodeClickHouseSession
+  }
+}
+
+export class NodeClickHouseSession extends ClickHouseSession<Stream.Readable> {
+  /** See {@link ClickHouseSession.query}. */
+  query<Format extends DataFormat = 'JSON'>(
+    params: SessionRequestParams<QueryParamsWithFormat<Format>>,
+  ): Promise<QueryResult<Format>> {
+    return super.query(params) as Promise<ResultSet<Format>>
+  }
 }
 
 export function createClient(
@@ -0,0 +1,107 @@
+import type { ClickHouseSettings, SQLFragment } from '@clickhouse/client-common'
+import {
+  generateTypeScript,
+  loadTableSchemas,
+  loadTypeGenerationOptions,
+} from '@clickhouse/client-common'
+import Fs from 'fs'
+import { createClient } from './client'
+import { parseCliArgs, parseSettingArg } from './utils'
+
+export interface CodegenArgs {
+  url?: string
+  username?: string
+  password?: string
+  database?: string
+  /** If empty, all the tables of the database are generated. */
+  tables: string[]
+  /** If not set, the generated module is written to stdout. */
+  out?: string
+  /** Passed to the server with the introspection queries,
+   *  e.g. to override `output_format_json_quote_64bit_integers`. */
+  clickhouse_settings: ClickHouseSettings
+  help: boolean
+}
+
+export const CodegenUsage = `Usage: clickhouse-js-codegen [options]
+
+Generates the TypeScript interfaces for the rows of the tables in the JSON formats.
+
+Options:
+  --url <url>              ClickHouse URL (default: $CLICKHOUSE_URL or http://localhost:8123)
+  --username <username>    (default: $CLICKHOUSE_USER or default)
+  --password <password>    (default: $CLICKHOUSE_PASSWORD or empty)
+  --database <database>    (default: the database of the user)
+  --table <table>          A table to generate the interface for; can be repeated (default: all tables)
+  --setting <name=value>   A ClickHouse setting, e.g. output_format_json_quote_64bit_integers=0; can be repeated
+  --out <file>             The file to write the generated module to (default: stdout)
+  --help                   Print this message`
+
+export function parseCodegenArgs(
+  argv: string[],
+  env: Record<string, string | undefined> = {},
+): CodegenArgs {
+  const { options, positionals, help } = parseCliArgs(argv)
+  if (positionals.length > 0) {
+    throw new Error(`Unexpected argument: ${positionals[0]}`)
+  }
+  const args: CodegenArgs = {
+    url: env['CLICKHOUSE_URL'],
+    username: env['CLICKHOUSE_USER'],
+    password: env['CLICKHOUSE_PASSWORD'],
+    tables: [],
+    clickhouse_settings: {},
+    help,
+  }
+  for (const { name, value } of options) {
+    switch (name) {
+      case 'url':
+      case 'username':
+      case 'password':
+      case 'database':
+      case 'out':
+        args[name] = value
+        break
+      case 'table':
+        args.tables.push(value)
+        break
+      case 'setting': {
+        const [setting, settingValue] = parseSettingArg(value)
+        args.clickhouse_settings = {
+          ...args.clickhouse_settings,
+          [setting]: settingValue,
+        }
+        break
+      }
+      default:
+        throw new Error(`Unknown option: --${name}`)
+    }
+  }
+  return args
+}
+
+/** Generates the TypeScript module and returns it, writing it to `args.out` if it is set. */
+export async function runCodegen(args: CodegenArgs): Promise<string> {
+  const client = createClient({
+    url: args.url,
+    username: args.username,
+    password: args.password,
+    database: args.database,
+    clickhouse_settings: args.clickhouse_settings,
+  })
+  const query = async (query: SQLFragment) => {
+    const rs = await client.query({ query, format: 'JSONEachRow' })
+    return rs.json()
+  }
+  try {
+    const options = await loadTypeGenerationOptions(query)
+    const tables = await loadTableSchemas(query, args.database, args.tables)
+    const module = generateTypeScript(tables, options) + '\n'
+    if (args.out !== undefined) {
+      await Fs.promises.writeFile(args.out, module)
+    }
+    return module
+  } finally {
+    await client.close()
+  }
+}
@@ -1,7 +1,9 @@
 import type {
+  ColumnSchema,
   DataFormat,
   ImplementationDetails,
   ResponseHeaders,
+  ResultSetValueConverter,
 } from '@clickhouse/client-common'
 import {
   type BaseClickHouseClientConfigOptions,
@@ -12,6 +14,7 @@ import type http from 'http'
 import type https from 'node:https'
 import type Stream from 'stream'
 import { createConnection, type TLSParams } from './connection'
+import { assertCompressionCodec } from './connection/compression'
 import { ResultSet } from './result_set'
 import { NodeValuesEncoder } from './utils'
 
@@ -104,6 +107,12 @@ export const NodeConfigImpl: Required<
         }
       }
     }
+    if (params.compression.compress_request) {
+      assertCompressionCodec(params.compression.request_codec ?? 'gzip')
+    }
+    if (params.compression.decompress_response) {
+      assertCompressionCodec(params.compression.response_codec ?? 'gzip')
+    }
     // normally, it should be already set after processing the config
     const keep_alive = {
       enabled: nodeConfig?.keep_alive?.enabled ?? true,
@@ -124,6 +133,8 @@ export const NodeConfigImpl: Required<
     query_id: string,
     log_error: (err: Error) => void,
     response_headers: ResponseHeaders,
+    schema?: ColumnSchema,
+    value_converter?: ResultSetValueConverter,
   ) =>
     ResultSet.instance({
       stream,
@@ -131,5 +142,16 @@ export const NodeConfigImpl: Required<
       query_id,
       log_error,
       response_headers,
+      schema,
+      value_converter,
     })) as any,
+  on_stream_end: (stream, callback) => {
+    // 'close' is emitted after the stream is either fully consumed or destroyed
+    if (stream.destroyed) {
+      callback()
+    } else {
+      stream.once('close', callback)
+    }
+    return stream
+  },
 }
@@ -1,35 +1,110 @@
+import type { CompressionCodec } from '@clickhouse/client-common'
 import type Http from 'http'
 import Stream from 'stream'
 import Zlib from 'zlib'
 
+/** zstd is available in zlib since Node.js 22.15 / 23.8, and the older type definitions do not have it. */
+type ZlibWithZstd = typeof Zlib & {
+  createZstdCompress?: (options?: {
+    params?: Record<number, number>
+  }) => Zlib.Gzip
+  createZstdDecompress?: () => Zlib.Gunzip
+  constants: { ZSTD_c_compressionLevel?: number }
+}
+
+const zlib = Zlib as ZlibWithZstd
+
+/** Throws if the codec cannot be used in the current Node.js runtime. */
+export function assertCompressionCodec(codec: CompressionCodec): void {
+  switch (codec) {
+    case 'gzip':
+    case 'deflate':
+    case 'br':
+      return
+    case 'zstd':
+      if (zlib.createZstdCompress !== undefined) {
+        return
+      }
+      throw new Error(
+        `Compression codec zstd requires Node.js 22.15+ (current: ${process.version})`,
+      )
+    default:
+      throw new Error(
+        `Compression codec ${codec} is not supported by the Node.js client. Supported codecs: gzip, deflate, br, zstd.`,
+      )
+  }
+}
+
+/** Throws if the codec is not supported; otherwise, the request would be sent with a body that does not match its Content-Encoding. */
+export function compressRequest(
+  codec: CompressionCodec,
+  level: number | undefined,
+): Stream.Transform {
+  assertCompressionCodec(codec)
+  switch (codec) {
+    case 'deflate':
+      return Zlib.createDeflate({ level })
+    case 'br':
+      return Zlib.createBrotliCompress(
+        level !== undefined
+          ? { params: { [Zlib.constants.BROTLI_PARAM_QUALITY]: level } }
+          : {},
+      )
+    case 'zstd':
+      return zlib.createZstdCompress!(
+        level !== undefined
+          ? {
+              params: {
+                [zlib.constants.ZSTD_c_compressionLevel as number]: level,
+              },
+            }
+          : {},
+      )
+    default:
+      return Zlib.createGzip({ level })
+  }
+}
+
 export function decompressResponse(response: Http.IncomingMessage):
   | {
       response: Stream.Readable
     }
   | { error: Error } {
   const encoding = response.headers['content-encoding']
+  if (encoding === undefined) {
+    return { response }
+  }
 
-  if (encoding === 'gzip') {
-    return {
-      response: Stream.pipeline(
-        response,
-        Zlib.createGunzip(),
-        function pipelineCb(err) {
-          if (err) {
-            // FIXME: use logger instead
-            // eslint-disable-next-line no-console
-            console.error(err)
-          }
-        },
-      ),
-    }
-  } else if (encoding !== undefined) {
+  const decompressor = makeDecompressor(encoding)
+  if (decompressor === undefined) {
     return {
       error: new Error(`Unexpected encoding: ${encoding}`),
     }
   }
+  return {
+    response: Stream.pipeline(response, decompressor, function pipelineCb(err) {
+      if (err) {
+        // FIXME: use logger instead
+        // eslint-disable-next-line no-console
+        console.error(err)
+      }
+    }),
+  }
+}
 
-  return { response }
+function makeDecompressor(encoding: string): Stream.Transform | undefined {
+  switch (encoding) {
+    case 'gzip':
+      return Zlib.createGunzip()
+    case 'deflate':
+      return Zlib.createInflate()
+    case 'br':
+      return Zlib.createBrotliDecompress()
+    case 'zstd':
+      return zlib.createZstdDecompress?.()
+    default:
+      return undefined
+  }
 }
 
 export function isDecompressionError(result: any): result is { error: Error } {
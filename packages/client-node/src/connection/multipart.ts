@@ -0,0 +1,56 @@
+import type { ConnExternalTable } from '@clickhouse/client-common'
+import crypto from 'crypto'
+import Stream from 'stream'
+import { isStream } from '../utils'
+
+export interface MultipartBody {
+  content_type: string
+  body: Buffer | Stream.Readable
+}
+
+/** Encodes the external tables as a `multipart/form-data` request body, with a "file" part per table.
+ *  If none of the values is a stream, the body is buffered, so the request can be retried. */
+export function encodeMultipartBody(
+  tables: ConnExternalTable<Stream.Readable>[],
+): MultipartBody {
+  const boundary = `----ClickHouseBoundary${crypto.randomUUID().replace(/-/g, '')}`
+  const chunks: Array<string | Uint8Array | Stream.Readable> = []
+  for (const { name, values } of tables) {
+    chunks.push(
+      `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="${name}"; filename="${name}"\r\n` +
+        'Content-Type: application/octet-stream\r\n\r\n',
+      values,
+      '\r\n',
+    )
+  }
+  chunks.push(`--${boundary}--\r\n`)
+  const content_type = `multipart/form-data; boundary=${boundary}`
+  if (chunks.some(isStream)) {
+    return { content_type, body: Stream.Readable.from(concatChunks(chunks)) }
+  }
+  return {
+    content_type,
+    body: Buffer.concat(
+      chunks.map((chunk) => toBytes(chunk as string | Uint8Array)),
+    ),
+  }
+}
+
+async function* concatChunks(
+  chunks: Array<string | Uint8Array | Stream.Readable>,
+): AsyncGenerator<Uint8Array> {
+  for (const chunk of chunks) {
+    if (isStream(chunk)) {
+      for await (const data of chunk) {
+        yield toBytes(data)
+      }
+    } else {
+      yield toBytes(chunk)
+    }
+  }
+}
+
+function toBytes(chunk: string | Uint8Array): Uint8Array {
+  return typeof chunk === 'string' ? Buffer.from(chunk) : chunk
+}
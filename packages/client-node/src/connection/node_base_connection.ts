@@ -1,5 +1,6 @@
 import type {
   BaseQueryParams,
+  ClickHouseProgress,
   ClickHouseSummary,
   ConnBaseQueryParams,
   ConnCommandResult,
@@ -11,17 +12,27 @@ import type {
   ConnInsertResult,
   ConnOperation,
   ConnPingResult,
+  ConnQueryParams,
   ConnQueryResult,
+  CompressionSettings,
   LogWriter,
   ResponseHeaders,
 } from '@clickhouse/client-common'
 import {
+  isAbortedOrTimedOut,
+  isRetryableRequest,
   isSuccessfulResponse,
+  killQuery,
   parseError,
+  sharedConnection,
   sleep,
   toSearchParams,
   transformUrl,
+  withCompressionOverrides,
   withHttpSettings,
+  withMiddleware,
+  withResponseStatus,
+  withRetries,
 } from '@clickhouse/client-common'
 import crypto from 'crypto'
 import type Http from 'http'
@@ -29,9 +40,15 @@ import type * as net from 'net'
 import type Https from 'node:https'
 import Stream from 'stream'
 import type { URLSearchParams } from 'url'
-import Zlib from 'zlib'
 import { getAsText, getUserAgent, isStream } from '../utils'
-import { decompressResponse, isDecompressionError } from './compression'
+import {
+  assertCompressionCodec,
+  compressRequest,
+  decompressResponse,
+  isDecompressionError,
+} from './compression'
+import { encodeMultipartBody } from './multipart'
+import { ProgressHeadersParser } from './progress'
 import { drainStream } from './stream'
 
 export type NodeConnectionParams = ConnectionParams & {
@@ -60,14 +77,18 @@ export interface RequestParams {
   method: 'GET' | 'POST'
   url: URL
   headers: Http.OutgoingHttpHeaders
-  body?: string | Stream.Readable
+  body?: string | Uint8Array | Stream.Readable
   // provided by the user and wrapped around internally
   abort_signal: AbortSignal
+  // the connection params with the overrides from the request params, if any
+  request_timeout: number
+  compression: CompressionSettings
   enable_response_compression?: boolean
   enable_request_compression?: boolean
   // if there are compression headers, attempt to decompress it
   try_decompress_response_stream?: boolean
   parse_summary?: boolean
+  on_progress?: (progress: ClickHouseProgress) => void
 }
 
 export abstract class NodeBaseConnection
@@ -105,6 +126,8 @@ export abstract class NodeBaseConnection
           method: 'GET',
           url: transformUrl({ url: this.params.url, pathname: '/ping' }),
           abort_signal: abortController.signal,
+          request_timeout: this.params.request_timeout,
+          compression: this.params.compression,
           headers: this.buildRequestHeaders(),
         },
         'Ping',
@@ -128,19 +151,28 @@ export abstract class NodeBaseConnection
   }
 
   async query(
-    params: ConnBaseQueryParams,
+    params: ConnQueryParams<Stream.Readable>,
   ): Promise<ConnQueryResult<Stream.Readable>> {
     const query_id = this.getQueryId(params.query_id)
+    const compression = this.getCompression(params)
     const clickhouse_settings = withHttpSettings(
       params.clickhouse_settings,
-      this.params.compression.decompress_response,
+      compression.decompress_response,
+      compression.response_level,
     )
+    // with the external tables, the body is the multipart form, and the query is sent in the URL
+    const multipart =
+      params.external_tables !== undefined
+        ? encodeMultipartBody(params.external_tables)
+        : undefined
     const searchParams = toSearchParams({
-      database: this.params.database,
+      database: params.database ?? this.params.database,
       query_params: params.query_params,
       session_id: params.session_id,
       clickhouse_settings,
       query_id,
+      query: multipart !== undefined ? params.query : undefined,
+      external_tables: params.external_tables,
     })
     const { controller, controllerCleanup } = this.getAbortController(params)
     // allows to enforce the compression via the settings even if the client instance has it disabled
@@ -151,13 +183,24 @@ export abstract class NodeBaseConnection
         {
           method: 'POST',
           url: transformUrl({ url: this.params.url, searchParams }),
-          body: params.query,
+          body: multipart?.body ?? params.query,
           abort_signal: controller.signal,
+          request_timeout:
+            params.request_timeout ?? this.params.request_timeout,
+          compression,
           enable_response_compression: enableResponseCompression,
-          headers: this.buildRequestHeaders(params),
+          headers:
+            multipart !== undefined
+              ? {
+                  ...this.buildRequestHeaders(params),
+                  'Content-Type': multipart.content_type,
+                }
+              : this.buildRequestHeaders(params),
+          on_progress: params.on_progress,
         },
         'Query',
       )
+      this.cancelOnPrematureClose(stream, query_id, params)
       return {
         stream,
         query_id,
@@ -165,6 +208,7 @@ export abstract class NodeBaseConnection
       }
     } catch (err) {
       controller.abort('Query HTTP request failed')
+      this.cancelOnAbort(err, query_id, params)
       this.logRequestError({
         op: 'Query',
         query_id: query_id,
@@ -186,8 +230,9 @@ export abstract class NodeBaseConnection
     params: ConnInsertParams<Stream.Readable>,
   ): Promise<ConnInsertResult> {
     const query_id = this.getQueryId(params.query_id)
+    const compression = this.getCompression(params)
     const searchParams = toSearchParams({
-      database: this.params.database,
+      database: params.database ?? this.params.database,
       clickhouse_settings: params.clickhouse_settings,
       query_params: params.query_params,
       query: params.query,
@@ -202,9 +247,13 @@ export abstract class NodeBaseConnection
           url: transformUrl({ url: this.params.url, searchParams }),
           body: params.values,
           abort_signal: controller.signal,
-          enable_request_compression: this.params.compression.compress_request,
+          request_timeout:
+            params.request_timeout ?? this.params.request_timeout,
+          compression,
+          enable_request_compression: compression.compress_request,
           parse_summary: true,
           headers: this.buildRequestHeaders(params),
+          on_progress: params.on_progress,
         },
         'Insert',
       )
@@ -231,10 +280,19 @@ export abstract class NodeBaseConnection
   async exec(
     params: ConnExecParams<Stream.Readable>,
   ): Promise<ConnExecResult<Stream.Readable>> {
-    return this.runExec({
-      ...params,
-      op: 'Exec',
-    })
+    const query_id = this.getQueryId(params.query_id)
+    try {
+      const result = await this.runExec({
+        ...params,
+        query_id,
+        op: 'Exec',
+      })
+      this.cancelOnPrematureClose(result.stream, query_id, params)
+      return result
+    } catch (err) {
+      this.cancelOnAbort(err, query_id, params)
+      throw err
+    }
   }
 
   async command(params: ConnBaseQueryParams): Promise<ConnCommandResult> {
@@ -247,6 +305,11 @@ export abstract class NodeBaseConnection
     return { query_id, summary, response_headers }
   }
 
+  /** The sockets of a custom agent cannot be pinned; see the implementations for the default agents. */
+  pin(): Connection<Stream.Readable> {
+    return sharedConnection(this)
+  }
+
   async close(): Promise<void> {
     if (this.agent !== undefined && this.agent.destroy !== undefined) {
       this.agent.destroy()
@@ -259,6 +322,7 @@ export abstract class NodeBaseConnection
     if (this.params.set_basic_auth_header) {
       return {
         ...this.defaultHeaders,
+        ...params?.http_headers,
         Authorization:
           params?.auth !== undefined
             ? `Basic ${Buffer.from(`${params.auth.username}:${params.auth.password}`).toString('base64')}`
@@ -267,6 +331,7 @@ export abstract class NodeBaseConnection
     } else {
       return {
         ...this.defaultHeaders,
+        ...params?.http_headers,
       }
     }
   }
@@ -275,6 +340,71 @@ export abstract class NodeBaseConnection
     params: RequestParams,
   ): Http.ClientRequest
 
+  /** See {@link BaseClickHouseClientConfigOptions.cancel_on_abort}. */
+  private cancelOnAbort(
+    err: unknown,
+    query_id: string,
+    params: ConnBaseQueryParams,
+  ): void {
+    if (
+      this.params.cancel_on_abort !== undefined &&
+      isAbortedOrTimedOut(err, params.abort_signal)
+    ) {
+      void this.killQuery(query_id, params)
+    }
+  }
+
+  /** The response stream is destroyed before its end, e.g., with `ResultSet.close()`. */
+  private cancelOnPrematureClose(
+    stream: Stream.Readable,
+    query_id: string,
+    params: ConnBaseQueryParams,
+  ): void {
+    if (this.params.cancel_on_abort === undefined) {
+      return
+    }
+    stream.once('close', () => {
+      if (!stream.readableEnded) {
+        void this.killQuery(query_id, params)
+      }
+    })
+  }
+
+  private async killQuery(
+    query_id: string,
+    params: ConnBaseQueryParams,
+  ): Promise<void> {
+    await killQuery({
+      query_id,
+      mode: this.params.cancel_on_abort?.mode ?? 'ASYNC',
+      auth: params.auth,
+      http_headers: params.http_headers,
+      // not via `exec`, so a failed KILL QUERY request is not cancelled in turn
+      run: async (killParams) => {
+        const { stream } = await this.runExec({ ...killParams, op: 'Exec' })
+        return getAsText(stream)
+      },
+      log_writer: this.logger,
+    })
+  }
+
+  // the codecs of the client config are checked when it is created, but the overrides can only be checked here
+  private getCompression(params: ConnBaseQueryParams): CompressionSettings {
+    const compression = withCompressionOverrides(
+      this.params.compression,
+      params.compression,
+    )
+    if (params.compression !== undefined) {
+      if (compression.compress_request) {
+        assertCompressionCodec(compression.request_codec ?? 'gzip')
+      }
+      if (compression.decompress_response) {
+        assertCompressionCodec(compression.response_codec ?? 'gzip')
+      }
+    }
+    return compression
+  }
+
   private getQueryId(query_id: string | undefined): string {
     return query_id || crypto.randomUUID()
   }
@@ -368,18 +498,43 @@ export abstract class NodeBaseConnection
     }
   }
 
+  private makeProgressListener(
+    op: ConnOperation,
+    params: RequestParams,
+  ): ((chunk: Buffer) => void) | undefined {
+    const onProgress = params.on_progress
+    if (onProgress === undefined) {
+      return undefined
+    }
+    const parser = new ProgressHeadersParser()
+    return (chunk: Buffer) => {
+      for (const progress of parser.parse(chunk)) {
+        try {
+          onProgress(progress)
+        } catch (err) {
+          this.logger.error({
+            message: `${op}: on_progress callback failed.`,
+            err: err as Error,
+          })
+        }
+      }
+    }
+  }
+
   private async runExec(
     params: RunExecParams,
   ): Promise<ConnExecResult<Stream.Readable>> {
     const query_id = this.getQueryId(params.query_id)
     const sendQueryInParams = params.values !== undefined
+    const compression = this.getCompression(params)
     const clickhouse_settings = withHttpSettings(
       params.clickhouse_settings,
-      this.params.compression.decompress_response,
+      compression.decompress_response,
+      compression.response_level,
     )
     const toSearchParamsOptions = {
       query: sendQueryInParams ? params.query : undefined,
-      database: this.params.database,
+      database: params.database ?? this.params.database,
       query_params: params.query_params,
       session_id: params.session_id,
       clickhouse_settings,
@@ -390,8 +545,7 @@ export abstract class NodeBaseConnection
     const tryDecompressResponseStream =
       params.op === 'Exec'
         ? // allows to disable stream decompression for the `Exec` operation only
-          params.decompress_response_stream ??
-          this.params.compression.decompress_response
+          params.decompress_response_stream ?? compression.decompress_response
         : // there is nothing useful in the response stream for the `Command` operation,
           // and it is immediately destroyed; never decompress it
           false
@@ -402,12 +556,15 @@ export abstract class NodeBaseConnection
           url: transformUrl({ url: this.params.url, searchParams }),
           body: sendQueryInParams ? params.values : params.query,
           abort_signal: controller.signal,
+          request_timeout:
+            params.request_timeout ?? this.params.request_timeout,
+          compression,
           parse_summary: true,
-          enable_request_compression: this.params.compression.compress_request,
-          enable_response_compression:
-            this.params.compression.decompress_response,
+          enable_request_compression: compression.compress_request,
+          enable_response_compression: compression.decompress_response,
           try_decompress_response_stream: tryDecompressResponseStream,
           headers: this.buildRequestHeaders(params),
+          on_progress: params.on_progress,
         },
         params.op,
       )
@@ -438,6 +595,35 @@ export abstract class NodeBaseConnection
   private async request(
     params: RequestParams,
     op: ConnOperation,
+  ): Promise<RequestResult> {
+    return withMiddleware({
+      middleware: this.params.middleware,
+      op,
+      url: params.url,
+      // all the headers set by the client are strings
+      headers: params.headers as Record<string, string>,
+      request: (url, headers) =>
+        withRetries({
+          op,
+          settings: this.params.retry,
+          log_writer: this.logger,
+          // a stream cannot be sent again, as it is already (partially) consumed
+          can_retry:
+            isRetryableRequest(op, this.params.retry, url.searchParams) &&
+            !isStream(params.body),
+          abort_signal: params.abort_signal,
+          query_id: url.searchParams.get('query_id') ?? undefined,
+          request: () => this.sendRequest({ ...params, url, headers }, op),
+        }),
+      getResponseHeaders: (result) => result.response_headers,
+      discard: (result) => result.stream.destroy(),
+      log_writer: this.logger,
+    })
+  }
+
+  private async sendRequest(
+    params: RequestParams,
+    op: ConnOperation,
   ): Promise<RequestResult> {
     // allows the event loop to process the idle socket timers, if the CPU load is high
     // otherwise, we can occasionally get an expired socket, see https://github.com/ClickHouse/clickhouse-js/issues/294
@@ -445,6 +631,8 @@ export abstract class NodeBaseConnection
     return new Promise((resolve, reject) => {
       const start = Date.now()
       const request = this.createClientRequest(params)
+      const onProgressData = this.makeProgressListener(op, params)
+      const compression = params.compression
 
       function onError(err: Error): void {
         removeRequestListeners()
@@ -454,6 +642,10 @@ export abstract class NodeBaseConnection
       const onResponse = async (
         _response: Http.IncomingMessage,
       ): Promise<void> => {
+        // all the headers, including the progress, are received at this point
+        if (onProgressData !== undefined) {
+          _response.socket?.removeListener('data', onProgressData)
+        }
         this.logResponse(op, request, params, _response, start)
 
         let responseStream: Stream.Readable
@@ -471,7 +663,15 @@ export abstract class NodeBaseConnection
           responseStream = _response
         }
         if (isFailedResponse) {
-          reject(parseError(await getAsText(responseStream)))
+          reject(
+            withResponseStatus(
+              parseError(await getAsText(responseStream), {
+                query_id: params.url.searchParams.get('query_id') ?? undefined,
+                http_status: _response.statusCode,
+              }),
+              _response.statusCode as number,
+            ),
+          )
         } else {
           return resolve({
             stream: responseStream,
@@ -521,7 +721,19 @@ export abstract class NodeBaseConnection
         }
 
         if (params.enable_request_compression) {
-          Stream.pipeline(bodyStream, Zlib.createGzip(), request, callback)
+          let compressor: Stream.Transform
+          try {
+            compressor = compressRequest(
+              compression.request_codec ?? 'gzip',
+              compression.request_level,
+            )
+          } catch (err) {
+            // this is called from a socket event listener, where a thrown error would not reach the caller
+            removeRequestListeners()
+            request.destroy()
+            return reject(err)
+          }
+          Stream.pipeline(bodyStream, compressor, request, callback)
         } else {
           Stream.pipeline(bodyStream, request, callback)
         }
@@ -589,12 +801,18 @@ export abstract class NodeBaseConnection
           }
         }
 
+        // The progress headers are reported by ClickHouse before the response is complete,
+        // and Node.js emits them only with the entire response head; reading them from the socket as they arrive.
+        if (onProgressData !== undefined) {
+          socket.on('data', onProgressData)
+        }
+
         // Socket is "prepared" with idle handlers, continue with our request
         pipeStream()
 
         // This is for request timeout only. Surprisingly, it is not always enough to set in the HTTP request.
         // The socket won't be actually destroyed, and it will be returned to the pool.
-        socket.setTimeout(this.params.request_timeout, onTimeout)
+        socket.setTimeout(params.request_timeout, onTimeout)
       }
 
       function onTimeout(): void {
@@ -607,6 +825,9 @@ export abstract class NodeBaseConnection
         if (request.socket !== null) {
           request.socket.setTimeout(0) // reset previously set timeout
           request.socket.removeListener('timeout', onTimeout)
+          if (onProgressData !== undefined) {
+            request.socket.removeListener('data', onProgressData)
+          }
         }
         request.removeListener('socket', onSocket)
         request.removeListener('response', onResponse)
@@ -21,11 +21,13 @@ export class NodeCustomAgentConnection extends NodeBaseConnection {
       headers: params.headers,
       enable_request_compression: params.enable_request_compression,
       enable_response_compression: params.enable_response_compression,
+      request_codec: params.compression.request_codec,
+      response_codec: params.compression.response_codec,
     })
     return Http.request(params.url, {
       method: params.method,
       agent: this.agent,
-      timeout: this.params.request_timeout,
+      timeout: params.request_timeout,
       signal: params.abort_signal,
       headers,
     })
@@ -20,6 +20,11 @@ export class NodeHttpsConnection extends NodeBaseConnection {
     super(params, agent)
   }
 
+  /** A new agent with a single socket, which is reused for all the requests (if Keep-Alive is enabled). */
+  override pin(): NodeHttpsConnection {
+    return new NodeHttpsConnection({ ...this.params, max_open_connections: 1 })
+  }
+
   protected override buildRequestHeaders(
     params?: BaseQueryParams,
   ): Http.OutgoingHttpHeaders {
@@ -50,11 +55,13 @@ export class NodeHttpsConnection extends NodeBaseConnection {
       headers: params.headers,
       enable_request_compression: params.enable_request_compression,
       enable_response_compression: params.enable_response_compression,
+      request_codec: params.compression.request_codec,
+      response_codec: params.compression.response_codec,
     })
     return Https.request(params.url, {
       method: params.method,
       agent: this.agent,
-      timeout: this.params.request_timeout,
+      timeout: params.request_timeout,
       signal: params.abort_signal,
       headers,
     })
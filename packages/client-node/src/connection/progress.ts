@@ -0,0 +1,36 @@
+import type { ClickHouseProgress } from '@clickhouse/client-common'
+import { parseProgressHeader } from '@clickhouse/client-common'
+import type { Buffer } from 'buffer'
+
+const ProgressHeaderPrefix = 'x-clickhouse-progress:'
+
+/** Reads `X-ClickHouse-Progress` headers from the raw response data, as soon as every header line is received.
+ *  Everything after the end of the response head is ignored. */
+export class ProgressHeadersParser {
+  private remainder = ''
+  private isHeadEnded = false
+
+  parse(chunk: Buffer): ClickHouseProgress[] {
+    if (this.isHeadEnded) {
+      return []
+    }
+    const lines = (this.remainder + chunk.toString('latin1')).split('\r\n')
+    // the last line is either incomplete, or an empty string after the line break
+    this.remainder = lines.pop() as string
+    const result: ClickHouseProgress[] = []
+    for (const line of lines) {
+      // an empty line separates the head from the body
+      if (line === '') {
+        this.isHeadEnded = true
+        this.remainder = ''
+        break
+      }
+      if (line.toLowerCase().startsWith(ProgressHeaderPrefix)) {
+        result.push(
+          ...parseProgressHeader(line.slice(ProgressHeaderPrefix.length)),
+        )
+      }
+    }
+    return result
+  }
+}
@@ -0,0 +1,298 @@
+import type {
+  ClickHouseSettings,
+  Migration,
+  MigrationStatus,
+  MigrationStep,
+} from '@clickhouse/client-common'
+import crypto from 'crypto'
+import Fs from 'fs'
+import Path from 'path'
+import { pathToFileURL } from 'url'
+import { createClient } from './client'
+import { parseCliArgs, parseSettingArg } from './utils'
+
+/**
+ * Loads the migrations from the files of the directory, named `<version>_<name>.<extension>`:
+ *  * `.up.sql` and `.down.sql` - the statements separated by semicolons; the `.down.sql` file is optional.
+ *  * `.js`, `.cjs`, `.mjs` and `.ts` - a module that exports the `up` and (optionally) the `down` steps,
+ *    either as the functions accepting {@link MigrationContext}, or as the SQL statements.
+ *    `.ts` modules require a TypeScript loader, such as `tsx` or `ts-node`.
+ *
+ * The version is the leading number, e.g. `20240101120000_create_events.up.sql`
+ * has version `20240101120000` and name `create_events`. The other files are ignored.
+ * The migrations are returned sorted by version.
+ * The checksums of the files are stored with the applied migrations to detect their modifications.
+ */
+export async function loadMigrations(dir: string): Promise<Migration[]> {
+  const files = (await Fs.promises.readdir(dir)).sort()
+  const migrations = new Map<string, MigrationFiles>()
+  for (const file of files) {
+    const match = MigrationFileRegex.exec(file)
+    if (match === null || file.endsWith('.d.ts')) {
+      continue
+    }
+    const [, version, name, kind] = match
+    const key = `${version}_${name}`
+    const entry = migrations.get(key) ?? { version, name }
+    if (kind === '.up.sql') {
+      entry.up = file
+    } else if (kind === '.down.sql') {
+      entry.down = file
+    } else {
+      if (entry.module !== undefined) {
+        throw new Error(
+          `Migration ${key} is defined in multiple files: ${entry.module} and ${file}`,
+        )
+      }
+      entry.module = file
+    }
+    migrations.set(key, entry)
+  }
+  const result: Migration[] = []
+  for (const [key, entry] of migrations) {
+    if (entry.module !== undefined) {
+      if (entry.up !== undefined || entry.down !== undefined) {
+        throw new Error(
+          `Migration ${key} is defined in both SQL and ${Path.extname(entry.module)} files`,
+        )
+      }
+      result.push(await loadModuleMigration(dir, entry, entry.module))
+    } else if (entry.up === undefined) {
+      throw new Error(`Migration ${key} has no ${key}.up.sql file`)
+    } else {
+      const up = await Fs.promises.readFile(Path.join(dir, entry.up), 'utf8')
+      const down =
+        entry.down !== undefined
+          ? await Fs.promises.readFile(Path.join(dir, entry.down), 'utf8')
+          : undefined
+      result.push({
+        version: entry.version,
+        name: entry.name,
+        up,
+        down,
+        checksum: checksum(up, down ?? ''),
+      })
+    }
+  }
+  return result.sort((a, b) =>
+    a.version.localeCompare(b.version, 'en', { numeric: true }),
+  )
+}
+
+interface MigrationFiles {
+  version: string
+  name: string
+  up?: string
+  down?: string
+  module?: string
+}
+
+const MigrationFileRegex = /^(\d+)_(.+?)(\.up\.sql|\.down\.sql|\.[cm]?js|\.ts)$/
+
+async function loadModuleMigration(
+  dir: string,
+  { version, name }: MigrationFiles,
+  file: string,
+): Promise<Migration> {
+  const path = Path.resolve(dir, file)
+  const loaded = await import(pathToFileURL(path).href)
+  // CommonJS modules are exposed as the default export
+  const module = (
+    loaded.up === undefined && loaded.default !== undefined
+      ? loaded.default
+      : loaded
+  ) as { up?: MigrationStep; down?: MigrationStep }
+  if (!isMigrationStep(module.up)) {
+    throw new Error(
+      `Migration ${file} should export the up step as a function or a string`,
+    )
+  }
+  if (module.down !== undefined && !isMigrationStep(module.down)) {
+    throw new Error(
+      `Migration ${file} should export the down step as a function or a string`,
+    )
+  }
+  return {
+    version,
+    name,
+    up: module.up,
+    down: module.down,
+    checksum: checksum(await Fs.promises.readFile(path, 'utf8')),
+  }
+}
+
+function isMigrationStep(step: unknown): step is MigrationStep {
+  return typeof step === 'function' || typeof step === 'string'
+}
+
+function checksum(...contents: string[]): string {
+  const hash = crypto.createHash('sha256')
+  contents.forEach((content) => hash.update(content))
+  return hash.digest('hex')
+}
+
+export type MigrateCommand = 'up' | 'down' | 'status'
+
+export interface MigrateArgs {
+  command: MigrateCommand
+  url?: string
+  username?: string
+  password?: string
+  database?: string
+  /** @default migrations */
+  dir: string
+  table?: string
+  cluster?: string
+  /** See {@link Migrator.up} and {@link Migrator.down}. */
+  to?: string
+  /** See {@link Migrator.down}. */
+  steps?: number
+  clickhouse_settings: ClickHouseSettings
+  help: boolean
+}
+
+export const MigrateUsage = `Usage: clickhouse-js-migrate <up|down|status> [options]
+
+Applies the migrations from the directory, rolls them back, or prints their status.
+
+Commands:
+  up                       Apply the pending migrations
+  down                     Roll back the last applied migration (see --steps and --to)
+  status                   Print the state of every migration
+
+Options:
+  --url <url>              ClickHouse URL (default: $CLICKHOUSE_URL or http://localhost:8123)
+  --username <username>    (default: $CLICKHOUSE_USER or default)
+  --password <password>    (default: $CLICKHOUSE_PASSWORD or empty)
+  --database <database>    (default: the database of the user)
+  --dir <dir>              The directory with the migrations (default: migrations)
+  --table <table>          The table with the applied migrations (default: schema_migrations)
+  --cluster <cluster>      Run the migrations tables DDL and the {{on_cluster}} placeholders ON CLUSTER
+  --to <version>           up: the last version to apply; down: the last version to keep
+  --steps <n>              down: the number of the migrations to roll back (default: 1)
+  --setting <name=value>   A ClickHouse setting for the migration statements; can be repeated
+  --help                   Print this message`
+
+export function parseMigrateArgs(
+  argv: string[],
+  env: Record<string, string | undefined> = {},
+): MigrateArgs {
+  const { options, positionals, help } = parseCliArgs(argv)
+  const [command, ...rest] = positionals
+  if (rest.length > 0) {
+    throw new Error(`Unexpected argument: ${rest[0]}`)
+  }
+  if (!help && !MigrateCommands.includes(command as MigrateCommand)) {
+    throw new Error(
+      command === undefined
+        ? 'Command is required: up, down or status'
+        : `Unknown command: ${command}`,
+    )
+  }
+  const args: MigrateArgs = {
+    command: command as MigrateCommand,
+    url: env['CLICKHOUSE_URL'],
+    username: env['CLICKHOUSE_USER'],
+    password: env['CLICKHOUSE_PASSWORD'],
+    dir: 'migrations',
+    clickhouse_settings: {},
+    help,
+  }
+  for (const { name, value } of options) {
+    switch (name) {
+      case 'url':
+      case 'username':
+      case 'password':
+      case 'database':
+      case 'dir':
+      case 'table':
+      case 'cluster':
+      case 'to':
+        args[name] = value
+        break
+      case 'steps': {
+        const steps = Number(value)
+        if (!Number.isInteger(steps) || steps < 1) {
+          throw new Error(
+            `Option --steps expects a positive integer, got: ${value}`,
+          )
+        }
+        args.steps = steps
+        break
+      }
+      case 'setting': {
+        const [setting, settingValue] = parseSettingArg(value)
+        args.clickhouse_settings = {
+          ...args.clickhouse_settings,
+          [setting]: settingValue,
+        }
+        break
+      }
+      default:
+        throw new Error(`Unknown option: --${name}`)
+    }
+  }
+  return args
+}
+
+const MigrateCommands: MigrateCommand[] = ['up', 'down', 'status']
+
+/** Runs the command, and returns its output. */
+export async function runMigrate(args: MigrateArgs): Promise<string> {
+  const migrations = await loadMigrations(args.dir)
+  const client = createClient({
+    url: args.url,
+    username: args.username,
+    password: args.password,
+    database: args.database,
+  })
+  try {
+    const migrator = client.createMigrator({
+      migrations,
+      table: args.table,
+      cluster: args.cluster,
+      clickhouse_settings: args.clickhouse_settings,
+    })
+    switch (args.command) {
+      case 'up': {
+        const applied = await migrator.up({ to: args.to })
+        return applied.length > 0
+          ? applied.map((m) => `Applied ${m.version}_${m.name}`).join('\n')
+          : 'No pending migrations'
+      }
+      case 'down': {
+        const rolledBack = await migrator.down({
+          to: args.to,
+          steps: args.steps,
+        })
+        return rolledBack.length > 0
+          ? rolledBack
+              .map((m) => `Rolled back ${m.version}_${m.name}`)
+              .join('\n')
+          : 'No applied migrations'
+      }
+      case 'status':
+        return formatStatus(await migrator.status())
+    }
+  } finally {
+    await client.close()
+  }
+}
+
+export function formatStatus(status: MigrationStatus[]): string {
+  if (status.length === 0) {
+    return 'No migrations'
+  }
+  const rows = status.map((s) => [
+    s.state,
+    `${s.version}_${s.name}`,
+    s.applied_at ?? '',
+  ])
+  const stateWidth = Math.max(...rows.map(([state]) => state.length))
+  const nameWidth = Math.max(...rows.map(([, name]) => name.length))
+  return rows
+    .map(([state, name, appliedAt]) =>
+      `${state.padEnd(stateWidth)}  ${name.padEnd(nameWidth)}  ${appliedAt}`.trimEnd(),
+    )
+    .join('\n')
+}
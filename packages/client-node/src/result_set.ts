@@ -1,14 +1,30 @@
 import type {
   BaseResultSet,
+  ColumnSchema,
   DataFormat,
+  NativeBlock,
   ResponseHeaders,
   ResultJSONType,
+  ResultSetValueConverter,
   ResultStream,
   Row,
+  RowBinaryDataFormat,
 } from '@clickhouse/client-common'
 import {
+  ArrowRecordBatchSplitter,
+  isArrowFormat,
+  isBinaryRawFormat,
+  isNativeFormat,
   isNotStreamableJSONFamily,
+  isRowBinaryFormat,
   isStreamableJSONFamily,
+  isStreamErrorRow,
+  isStreamErrorTail,
+  nativeBlockToRows,
+  NativeResultDecoder,
+  parseStreamError,
+  RowBinaryResultDecoder,
+  rowBinaryRow,
   validateStreamFormat,
 } from '@clickhouse/client-common'
 import { Buffer } from 'buffer'
@@ -45,6 +61,8 @@ export interface ResultSetOptions<Format extends DataFormat> {
   query_id: string
   log_error: (error: Error) => void
   response_headers: ResponseHeaders
+  schema?: ColumnSchema
+  value_converter?: ResultSetValueConverter
 }
 
 export class ResultSet<Format extends DataFormat | unknown>
@@ -59,6 +77,8 @@ export class ResultSet<Format extends DataFormat | unknown>
     public readonly query_id: string,
     log_error?: (error: Error) => void,
     _response_headers?: ResponseHeaders,
+    private readonly schema?: ColumnSchema,
+    private readonly value_converter?: ResultSetValueConverter,
   ) {
     // eslint-disable-next-line no-console
     this.log_error = log_error ?? ((err: Error) => console.error(err))
@@ -79,8 +99,11 @@ export class ResultSet<Format extends DataFormat | unknown>
     if (this._stream.readableEnded) {
       throw Error(streamAlreadyConsumedMessage)
     }
-    // JSONEachRow, etc.
-    if (isStreamableJSONFamily(this.format as DataFormat)) {
+    // JSONEachRow, RowBinary, etc.
+    if (
+      isStreamableJSONFamily(this.format as DataFormat) ||
+      isRowBinaryFormat(this.format as DataFormat)
+    ) {
       const result: T[] = []
       const stream = this.stream<T>()
       for await (const rows of stream) {
@@ -90,17 +113,34 @@ export class ResultSet<Format extends DataFormat | unknown>
       }
       return result as any
     }
+    // Native blocks converted to rows
+    if (isNativeFormat(this.format as DataFormat)) {
+      const result: T[] = []
+      for await (const block of this.blocks()) {
+        for (const row of nativeBlockToRows(block)) {
+          result.push(row as T)
+        }
+      }
+      return result as any
+    }
     // JSON, JSONObjectEachRow, etc.
     if (isNotStreamableJSONFamily(this.format as DataFormat)) {
       const text = await getAsText(this._stream)
-      return JSON.parse(text)
+      const result = JSON.parse(text)
+      return this.value_converter !== undefined
+        ? (this.value_converter.document(result) as any)
+        : result
     }
     // should not be called for CSV, etc.
     throw new Error(`Cannot decode ${this.format} as JSON`)
   }
 
   /** See {@link BaseResultSet.stream}. */
-  stream<T>(): ResultStream<Format, StreamReadable<Row<T, Format>[]>> {
+  stream<T>(): ResultStream<
+    Format,
+    StreamReadable<Row<T, Format>[]>,
+    StreamReadable<Buffer>
+  > {
     // If the underlying stream has already ended by calling `text` or `json`,
     // Stream.pipeline will create a new empty stream
     // but without "readableEnded" flag set to true
@@ -110,64 +150,15 @@ export class ResultSet<Format extends DataFormat | unknown>
 
     validateStreamFormat(this.format)
 
-    let incompleteChunks: Buffer[] = []
+    // Parquet, Arrow, etc. cannot be split into rows
+    if (isBinaryRawFormat(this.format as DataFormat)) {
+      return this._stream as any
+    }
+
     const logError = this.log_error
-    const toRows = new Transform({
-      transform(
-        chunk: Buffer,
-        _encoding: BufferEncoding,
-        callback: TransformCallback,
-      ) {
-        const rows: Row[] = []
-        let lastIdx = 0
-        // first pass on the current chunk
-        // using the incomplete row from the previous chunks
-        let idx = chunk.indexOf(NEWLINE)
-        if (idx !== -1) {
-          let text: string
-          if (incompleteChunks.length > 0) {
-            text = Buffer.concat(
-              [...incompleteChunks, chunk.subarray(0, idx)],
-              incompleteChunks.reduce((sz, buf) => sz + buf.length, 0) + idx,
-            ).toString()
-            incompleteChunks = []
-          } else {
-            text = chunk.subarray(0, idx).toString()
-          }
-          rows.push({
-            text,
-            json<T>(): T {
-              return JSON.parse(text)
-            },
-          })
-          lastIdx = idx + 1 // skipping newline character
-          // consequent passes on the current chunk with at least one row parsed
-          // all previous chunks with incomplete rows were already processed
-          do {
-            idx = chunk.indexOf(NEWLINE, lastIdx)
-            if (idx !== -1) {
-              const text = chunk.subarray(lastIdx, idx).toString()
-              rows.push({
-                text,
-                json<T>(): T {
-                  return JSON.parse(text)
-                },
-              })
-            } else {
-              // to be processed during the first pass for the next chunk
-              incompleteChunks.push(chunk.subarray(lastIdx))
-              this.push(rows)
-            }
-            lastIdx = idx + 1 // skipping newline character
-          } while (idx !== -1)
-        } else {
-          incompleteChunks.push(chunk) // this chunk does not contain a full row
-        }
-        callback()
-      },
-      autoDestroy: true,
-      objectMode: true,
-    })
+    const toRows = isRowBinaryFormat(this.format as DataFormat)
+      ? this.rowBinaryToRows()
+      : this.textToRows()
 
     const pipeline = Stream.pipeline(
       this._stream,
@@ -185,6 +176,32 @@ export class ResultSet<Format extends DataFormat | unknown>
     return pipeline as any
   }
 
+  /** See {@link BaseResultSet.blocks}. */
+  blocks(): AsyncIterableIterator<NativeBlock> {
+    if (this._stream.readableEnded) {
+      throw Error(streamAlreadyConsumedMessage)
+    }
+    if (!isNativeFormat(this.format as DataFormat)) {
+      throw new Error(
+        `Cannot decode ${this.format} as Native blocks. Use Native format instead.`,
+      )
+    }
+    return this.nativeBlocks()
+  }
+
+  /** See {@link BaseResultSet.recordBatches}. */
+  recordBatches(): AsyncIterableIterator<Uint8Array> {
+    if (this._stream.readableEnded) {
+      throw Error(streamAlreadyConsumedMessage)
+    }
+    if (!isArrowFormat(this.format as DataFormat)) {
+      throw new Error(
+        `Cannot decode ${this.format} as Arrow record batches. Use Arrow or ArrowStream format instead.`,
+      )
+    }
+    return this.arrowRecordBatches()
+  }
+
   /** See {@link BaseResultSet.close}. */
   close() {
     this._stream.destroy(new Error(resultSetClosedMessage))
@@ -196,8 +213,191 @@ export class ResultSet<Format extends DataFormat | unknown>
     query_id,
     log_error,
     response_headers,
+    schema,
+    value_converter,
   }: ResultSetOptions<Format>): ResultSet<Format> {
-    return new ResultSet(stream, format, query_id, log_error, response_headers)
+    return new ResultSet(
+      stream,
+      format,
+      query_id,
+      log_error,
+      response_headers,
+      schema,
+      value_converter,
+    )
+  }
+
+  private async *nativeBlocks(): AsyncIterableIterator<NativeBlock> {
+    const decoder = new NativeResultDecoder()
+    for await (const chunk of this._stream) {
+      yield* decoder.decode(chunk)
+    }
+    yield* decoder.finish()
+  }
+
+  private async *arrowRecordBatches(): AsyncIterableIterator<Uint8Array> {
+    const splitter = new ArrowRecordBatchSplitter()
+    for await (const chunk of this._stream) {
+      yield* splitter.split(chunk)
+    }
+    splitter.finish()
+  }
+
+  private rowBinaryToRows(): Transform {
+    const decoder = new RowBinaryResultDecoder(
+      this.format as RowBinaryDataFormat,
+      this.schema,
+    )
+    return new Transform({
+      transform(
+        chunk: Buffer,
+        _encoding: BufferEncoding,
+        callback: TransformCallback,
+      ) {
+        try {
+          const rows = decoder.decode(chunk).map(rowBinaryRow)
+          if (rows.length > 0) {
+            this.push(rows)
+          }
+          callback()
+        } catch (err) {
+          callback(err as Error)
+        }
+      },
+      flush(callback: TransformCallback) {
+        try {
+          decoder.finish()
+          callback()
+        } catch (err) {
+          callback(err as Error)
+        }
+      },
+      autoDestroy: true,
+      objectMode: true,
+    })
+  }
+
+  private textToRows(): Transform {
+    const query_id = this.query_id
+    const valueConverter = this.value_converter
+    let incompleteChunks: Buffer[] = []
+    let rowsReceived = 0
+    // if the query fails after the response has started, the rest of it is the exception text;
+    // the rows that might be such an exception are held back until it is clear (see isStreamErrorTail)
+    let heldRows: string[] = []
+    const toRow = (text: string): Row =>
+      valueConverter !== undefined
+        ? valueConverter.row(text)
+        : {
+            text,
+            json<T>(): T {
+              return JSON.parse(text)
+            },
+          }
+    const processRow = (text: string, rows: Row[]) => {
+      if (heldRows.length === 0 && !isStreamErrorRow(text)) {
+        rows.push(toRow(text))
+        return
+      }
+      heldRows.push(text)
+      if (!isStreamErrorTail(heldRows)) {
+        const [row, ...rest] = heldRows
+        heldRows = []
+        rows.push(toRow(row))
+        rest.forEach((text) => processRow(text, rows))
+      }
+    }
+    return new Transform({
+      transform(
+        chunk: Buffer,
+        _encoding: BufferEncoding,
+        callback: TransformCallback,
+      ) {
+        const rows: Row[] = []
+        let lastIdx = 0
+        let idx = chunk.indexOf(NEWLINE)
+        while (idx !== -1) {
+          let text: string
+          // first pass on the current chunk
+          // using the incomplete row from the previous chunks
+          if (incompleteChunks.length > 0) {
+            text = Buffer.concat([
+              ...incompleteChunks,
+              chunk.subarray(0, idx),
+            ]).toString()
+            incompleteChunks = []
+          } else {
+            text = chunk.subarray(lastIdx, idx).toString()
+          }
+          processRow(text, rows)
+          lastIdx = idx + 1 // skipping newline character
+          idx = chunk.indexOf(NEWLINE, lastIdx)
+        }
+        if (lastIdx < chunk.length) {
+          // to be processed during the first pass for the next chunk
+          incompleteChunks.push(chunk.subarray(lastIdx))
+        }
+        if (rows.length > 0) {
+          rowsReceived += rows.length
+          this.push(rows)
+        }
+        callback()
+      },
+      flush(callback: TransformCallback) {
+        // the exception text might not end with a newline
+        const rest = Buffer.concat(incompleteChunks).toString()
+        const rows: Row[] = []
+        if (rest !== '' && (heldRows.length > 0 || isStreamErrorRow(rest))) {
+          processRow(rest, rows)
+        }
+        if (rows.length > 0) {
+          rowsReceived += rows.length
+          this.push(rows)
+        }
+        if (heldRows.length > 0) {
+          return failAfterBufferedRows(
+            this,
+            parseStreamError(heldRows.join('\n'), query_id, rowsReceived),
+            callback,
+          )
+        }
+        callback()
+      },
+      autoDestroy: true,
+      objectMode: true,
+    })
+  }
+}
+
+/** Destroying the stream with an error right away would discard the rows that were not read yet,
+ *  so the error is raised only after the consumer reads all of them. */
+function failAfterBufferedRows(
+  stream: Transform,
+  err: Error,
+  callback: TransformCallback,
+) {
+  const onData = () => {
+    if (stream.readableLength === 0) {
+      stream.off('data', onData)
+      callback(err)
+    }
+  }
+  const waitForConsumer = () => {
+    stream.on('data', onData)
+    // the rows might have been read already
+    onData()
+  }
+  if (stream.readableFlowing !== null) {
+    waitForConsumer()
+  } else {
+    // a 'data' listener would switch the stream into the flowing mode before the consumer is attached
+    const onNewListener = (event: string | symbol) => {
+      if (event === 'data' || event === 'readable') {
+        stream.off('newListener', onNewListener)
+        process.nextTick(waitForConsumer)
+      }
+    }
+    stream.on('newListener', onNewListener)
   }
 }
 
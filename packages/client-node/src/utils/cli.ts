@@ -0,0 +1,43 @@
+export interface CliArgs {
+  /** In the order of appearance; the repeated options are kept. */
+  options: Array<{ name: string; value: string }>
+  positionals: string[]
+  help: boolean
+}
+
+/** Accepts both `--name value` and `--name=value` forms; `--help` (or `-h`) is the only flag. */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { options: [], positionals: [], help: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--help' || arg === '-h') {
+      args.help = true
+      continue
+    }
+    if (!arg.startsWith('--')) {
+      args.positionals.push(arg)
+      continue
+    }
+    const eqIdx = arg.indexOf('=')
+    const name = eqIdx === -1 ? arg.slice(2) : arg.slice(2, eqIdx)
+    let value: string
+    if (eqIdx !== -1) {
+      value = arg.slice(eqIdx + 1)
+    } else if (i + 1 < argv.length) {
+      value = argv[++i]
+    } else {
+      throw new Error(`Option --${name} requires a value`)
+    }
+    args.options.push({ name, value })
+  }
+  return args
+}
+
+/** Parses the value of the `--setting name=value` option. */
+export function parseSettingArg(value: string): [string, string] {
+  const eqIdx = value.indexOf('=')
+  if (eqIdx === -1) {
+    throw new Error(`Option --setting expects name=value, got: ${value}`)
+  }
+  return [value.slice(0, eqIdx), value.slice(eqIdx + 1)]
+}
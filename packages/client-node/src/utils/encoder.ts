@@ -1,9 +1,25 @@
 import type {
+  ArrowDataFormat,
+  ColumnSchema,
   DataFormat,
   InsertValues,
+  InsertValuesValidator,
+  NativeInsertBlock,
+  RowBinaryDataFormat,
   ValuesEncoder,
 } from '@clickhouse/client-common'
-import { encodeJSON, isSupportedRawFormat } from '@clickhouse/client-common'
+import {
+  ArrowIPCStreamWriter,
+  encodeArrowIPCStream,
+  encodeJSON,
+  isArrowFormat,
+  isIterableInsertValues,
+  isNativeFormat,
+  isRowBinaryFormat,
+  isSupportedRawFormat,
+  NativeBlockEncoder,
+  RowBinaryRowEncoder,
+} from '@clickhouse/client-common'
 import Stream from 'stream'
 import { isStream, mapStream } from './stream'
 
@@ -11,7 +27,26 @@ export class NodeValuesEncoder implements ValuesEncoder<Stream.Readable> {
   encodeValues<T>(
     values: InsertValues<Stream.Readable, T>,
     format: DataFormat,
-  ): string | Stream.Readable {
+    schema?: ColumnSchema,
+    validator?: InsertValuesValidator,
+  ): string | Uint8Array | Stream.Readable {
+    if (isIterableInsertValues<T>(values) && !isStream(values)) {
+      return this.encodeValues(
+        iterableToStream(values, format),
+        format,
+        schema,
+        validator,
+      )
+    }
+    if (isRowBinaryFormat(format)) {
+      return encodeRowBinary(values, format, schema)
+    }
+    if (isNativeFormat(format)) {
+      return encodeNative(values, schema)
+    }
+    if (isArrowFormat(format)) {
+      return encodeArrow(values, format)
+    }
     if (isStream(values)) {
       // TSV/CSV/CustomSeparated formats don't require additional serialization
       if (!values.readableObjectMode) {
@@ -20,7 +55,10 @@ export class NodeValuesEncoder implements ValuesEncoder<Stream.Readable> {
       // JSON* formats streams
       return Stream.pipeline(
         values,
-        mapStream((value) => encodeJSON(value, format)),
+        mapStream((value) => {
+          validator?.validateNext(value)
+          return encodeJSON(value, format)
+        }),
         pipelineCb,
       )
     }
@@ -40,7 +78,11 @@ export class NodeValuesEncoder implements ValuesEncoder<Stream.Readable> {
   validateInsertValues<T>(
     values: InsertValues<Stream.Readable, T>,
     format: DataFormat,
+    validator?: InsertValuesValidator,
   ): void {
+    if (isIterableInsertValues<T>(values) && !isStream(values)) {
+      return validateIterableInsertValues(format)
+    }
     if (
       !Array.isArray(values) &&
       !isStream(values) &&
@@ -52,6 +94,21 @@ export class NodeValuesEncoder implements ValuesEncoder<Stream.Readable> {
       )
     }
 
+    if (isArrowFormat(format)) {
+      return validateArrowInsertValues(values, format)
+    }
+
+    if (
+      isRowBinaryFormat(format) &&
+      !Array.isArray(values) &&
+      !isStream(values)
+    ) {
+      throw new Error(
+        `Insert for ${format} expected "values" to be an array or a stream of values, ` +
+          `got: ${typeof values}`,
+      )
+    }
+
     if (isStream(values)) {
       if (isSupportedRawFormat(format)) {
         if (values.readableObjectMode) {
@@ -64,8 +121,173 @@ export class NodeValuesEncoder implements ValuesEncoder<Stream.Readable> {
           `Insert for ${format} expected Readable Stream with enabled object mode.`,
         )
       }
+    } else if (validator !== undefined) {
+      validator.validateAll(values)
+    }
+  }
+}
+
+/** The values are pulled from the iterable only when the request stream is ready for more data.
+ *  The Arrow inputs and the values of JSON* and binary formats are encoded one by one,
+ *  while the chunks of CSV, TSV, etc. are sent as is. */
+function iterableToStream<T>(
+  values: Iterable<T> | AsyncIterable<T>,
+  format: DataFormat,
+): Stream.Readable {
+  return Stream.Readable.from(values, {
+    objectMode: isArrowFormat(format) || !isSupportedRawFormat(format),
+  })
+}
+
+function validateIterableInsertValues(format: DataFormat): void {
+  if (format === 'Arrow') {
+    throw new Error(
+      'Insert for Arrow expected "values" to be a Uint8Array or a Readable Stream with disabled object mode, ' +
+        'got: an iterable. Use ArrowStream format to insert multiple Arrow IPC inputs.',
+    )
+  }
+}
+
+function encodeRowBinary<T>(
+  values: InsertValues<Stream.Readable, T>,
+  format: RowBinaryDataFormat,
+  schema: ColumnSchema | undefined,
+): Uint8Array | Stream.Readable {
+  if (schema === undefined) {
+    throw new Error(
+      `Encoding ${format} format requires the column types schema to be provided`,
+    )
+  }
+  const encoder = new RowBinaryRowEncoder(format, schema)
+  if (isStream(values)) {
+    return Stream.pipeline(values, binaryStream(encoder), pipelineCb)
+  }
+  if (Array.isArray(values)) {
+    values.forEach((row) => encoder.write(row))
+    return encoder.flush()
+  }
+  throw new Error(
+    `Cannot encode values of type ${typeof values} with ${format} format`,
+  )
+}
+
+function encodeNative<T>(
+  values: InsertValues<Stream.Readable, T>,
+  schema: ColumnSchema | undefined,
+): Uint8Array | Stream.Readable {
+  if (schema === undefined) {
+    throw new Error(
+      'Encoding Native format requires the column types schema to be provided',
+    )
+  }
+  const encoder = new NativeBlockEncoder(schema)
+  if (isStream(values)) {
+    return Stream.pipeline(values, binaryStream(encoder), pipelineCb)
+  }
+  if (Array.isArray(values)) {
+    values.forEach((block) => encoder.write(block))
+  } else {
+    encoder.write(values as NativeInsertBlock)
+  }
+  return encoder.flush()
+}
+
+function encodeArrow<T>(
+  values: InsertValues<Stream.Readable, T>,
+  format: ArrowDataFormat,
+): Uint8Array | Stream.Readable {
+  if (values instanceof Uint8Array) {
+    return values
+  }
+  if (isStream(values)) {
+    // Arrow IPC data as is, e.g., from a file
+    if (!values.readableObjectMode) {
+      return values
+    }
+    return Stream.pipeline(values, arrowStream(), pipelineCb)
+  }
+  if (Array.isArray(values)) {
+    return encodeArrowIPCStream(values)
+  }
+  throw new Error(
+    `Cannot encode values of type ${typeof values} with ${format} format`,
+  )
+}
+
+function validateArrowInsertValues<T>(
+  values: InsertValues<Stream.Readable, T>,
+  format: ArrowDataFormat,
+): void {
+  if (
+    values instanceof Uint8Array ||
+    (isStream(values) && !values.readableObjectMode)
+  ) {
+    return
+  }
+  // only the streaming format allows to combine multiple inputs
+  if (format === 'ArrowStream') {
+    if (Array.isArray(values) || isStream(values)) {
+      return
     }
+    throw new Error(
+      'Insert for ArrowStream expected "values" to be a Uint8Array, an array of Uint8Array or a stream, ' +
+        `got: ${typeof values}`,
+    )
   }
+  throw new Error(
+    'Insert for Arrow expected "values" to be a Uint8Array or a Readable Stream with disabled object mode, ' +
+      `got: ${typeof values}. Use ArrowStream format to insert multiple Arrow IPC inputs.`,
+  )
+}
+
+/** Combines the Arrow IPC inputs from an object mode stream into a single Arrow IPC stream. */
+function arrowStream(): Stream.Transform {
+  const writer = new ArrowIPCStreamWriter()
+  return new Stream.Transform({
+    writableObjectMode: true,
+    readableObjectMode: false,
+    transform(value, encoding, callback) {
+      try {
+        callback(null, writer.write(value))
+      } catch (err) {
+        callback(err as Error)
+      }
+    },
+    flush(callback) {
+      callback(null, writer.finish())
+    },
+  })
+}
+
+/** The rows (or Native blocks) are accumulated until at least this amount of bytes is encoded,
+ *  so the request stream is not flooded with tiny chunks. */
+const BinaryChunkSize = 64 * 1024
+
+function binaryStream(
+  encoder: RowBinaryRowEncoder | NativeBlockEncoder,
+): Stream.Transform {
+  return new Stream.Transform({
+    writableObjectMode: true,
+    readableObjectMode: false,
+    transform(value, encoding, callback) {
+      try {
+        encoder.write(value)
+      } catch (err) {
+        return callback(err as Error)
+      }
+      if (encoder.bufferedBytes >= BinaryChunkSize) {
+        return callback(null, encoder.flush())
+      }
+      callback()
+    },
+    flush(callback) {
+      // the header of RowBinaryWithNamesAndTypes is sent even if there were no rows
+      if (encoder.bufferedBytes > 0) {
+        this.push(encoder.flush())
+      }
+      callback()
+    },
+  })
 }
 
 function pipelineCb(err: NodeJS.ErrnoException | null) {
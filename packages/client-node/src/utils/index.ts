@@ -2,3 +2,4 @@ export * from './stream'
 export * from './encoder'
 export * from './process'
 export * from './user_agent'
+export * from './cli'
@@ -27,7 +27,12 @@ export function mapStream(
   return new Stream.Transform({
     objectMode: true,
     transform(chunk, encoding, callback) {
-      callback(null, mapper(chunk))
+      try {
+        callback(null, mapper(chunk))
+      } catch (err) {
+        // e.g., a failed validation of the row
+        callback(err as Error)
+      }
     },
   })
 }
@@ -52,6 +52,136 @@ describe('[Web] Client', () => {
     })
   })
 
+  describe('Request streaming', () => {
+    const values = () =>
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue({ id: 1 })
+          controller.enqueue({ id: 2 })
+          controller.close()
+        },
+      })
+
+    it('should send the insert values as a stream if it is enabled', async () => {
+      const client = createClient({ request_streaming: true })
+      const fetchParams = await insertAndGetRequestInit(client, values())
+      expect(fetchParams.body).toBeInstanceOf(ReadableStream)
+      expect(fetchParams).toEqual(
+        jasmine.objectContaining({ duplex: 'half', keepalive: false }),
+      )
+      expect(await new Response(fetchParams.body).text()).toEqual(
+        '{"id":1}\n{"id":2}\n',
+      )
+    })
+
+    it('should collect the insert values by default', async () => {
+      const client = createClient()
+      const fetchParams = await insertAndGetRequestInit(client, values())
+      expect(fetchParams.body).toBeInstanceOf(Uint8Array)
+      expect(new TextDecoder().decode(fetchParams.body as Uint8Array)).toEqual(
+        '{"id":1}\n{"id":2}\n',
+      )
+    })
+
+    it('should collect the insert values from an iterable as well', async () => {
+      function* rows() {
+        yield { id: 1 }
+      }
+      const client = createClient()
+      const fetchParams = await insertAndGetRequestInit(client, rows())
+      expect(new TextDecoder().decode(fetchParams.body as Uint8Array)).toEqual(
+        '{"id":1}\n',
+      )
+    })
+  })
+
+  describe('Compression', () => {
+    it('should compress the request body', async () => {
+      const client = createClient({ compression: { request: true } })
+      const fetchParams = await insertAndGetRequestInit(client, [{ id: 1 }])
+      expect(fetchParams.headers).toEqual(
+        jasmine.objectContaining({ 'Content-Encoding': 'gzip' }),
+      )
+      expect(await gunzip(fetchParams.body as Uint8Array)).toEqual('{"id":1}\n')
+    })
+
+    it('should compress the request body with deflate', async () => {
+      const client = createClient({ compression: { request: 'deflate' } })
+      const fetchParams = await insertAndGetRequestInit(client, [{ id: 1 }])
+      expect(fetchParams.headers).toEqual(
+        jasmine.objectContaining({ 'Content-Encoding': 'deflate' }),
+      )
+      const stream = new Response(fetchParams.body).body!.pipeThrough(
+        new DecompressionStream('deflate'),
+      )
+      expect(await new Response(stream).text()).toEqual('{"id":1}\n')
+    })
+
+    it('should throw on a codec that is not supported', async () => {
+      expect(() =>
+        createClient({ compression: { request: 'zstd' } }),
+      ).toThrowError(
+        'Compression codec zstd is not supported for the requests by the Web client. Supported codecs: gzip, deflate.',
+      )
+    })
+
+    it('should decompress the response body if the runtime did not', async () => {
+      fetchSpy.and.returnValue(
+        Promise.resolve(
+          new Response(await gzip('{"id":1}\n'), {
+            headers: { 'Content-Encoding': 'gzip' },
+          }),
+        ),
+      )
+      const client = createClient({ compression: { response: true } })
+      const rs = await client.query({
+        query: 'SELECT 1',
+        format: 'JSONEachRow',
+      })
+      expect(await rs.json()).toEqual([{ id: 1 }])
+    })
+
+    it('should not decompress the response body twice', async () => {
+      fetchSpy.and.returnValue(
+        Promise.resolve(
+          new Response('{"id":1}\n', {
+            headers: { 'Content-Encoding': 'gzip' },
+          }),
+        ),
+      )
+      const client = createClient({ compression: { response: true } })
+      const rs = await client.query({
+        query: 'SELECT 1',
+        format: 'JSONEachRow',
+      })
+      expect(await rs.json()).toEqual([{ id: 1 }])
+    })
+
+    async function gzip(text: string): Promise<ArrayBuffer> {
+      const stream = new Response(text).body!.pipeThrough(
+        new CompressionStream('gzip'),
+      )
+      return new Response(stream).arrayBuffer()
+    }
+
+    async function gunzip(data: Uint8Array): Promise<string> {
+      const stream = new Response(data as BodyInit).body!.pipeThrough(
+        new DecompressionStream('gzip'),
+      )
+      return new Response(stream).text()
+    }
+  })
+
+  async function insertAndGetRequestInit(
+    client: WebClickHouseClient,
+    values: ReadableStream | Iterable<{ id: number }>,
+  ) {
+    await client.insert({ table: 'test', values, format: 'JSONEachRow' })
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    const [, fetchParams] = fetchSpy.calls.mostRecent().args
+    return fetchParams as RequestInit & { duplex?: string }
+  }
+
   async function pingAndGetRequestInit(client: WebClickHouseClient) {
     await client.ping()
     expect(fetchSpy).toHaveBeenCalledTimes(1)
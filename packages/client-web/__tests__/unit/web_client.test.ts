@@ -21,4 +21,77 @@ describe('[Web] createClient', () => {
       url: 'https://localhost:8443',
     })
   })
+
+  it('should send a query to another endpoint if fetch fails', async () => {
+    const fetchSpy = spyOn(window, 'fetch').and.callFake(async (input) => {
+      if (String(input).startsWith('http://replica-1:8123')) {
+        // the browsers do not provide any details of the network errors
+        throw new TypeError('Failed to fetch')
+      }
+      return new Response('1\n')
+    })
+    const client = createClient({
+      url: ['http://replica-1:8123', 'http://replica-2:8123'],
+      load_balancing: { strategy: 'first_healthy' },
+    })
+    const rs = await client.query({ query: 'SELECT 1', format: 'CSV' })
+    expect(await rs.text()).toEqual('1\n')
+    expect(
+      fetchSpy.calls.allArgs().map(([url]) => new URL(String(url)).host),
+    ).toEqual(['replica-1:8123', 'replica-2:8123'])
+    await client.close()
+  })
+
+  describe('response decompression', () => {
+    // RowBinaryWithNamesAndTypes with 8 columns, where the first name is 29 bytes long:
+    // 0x08 0x1d looks like a valid zlib header (0x081d is a multiple of 31)
+    const names = ['a'.repeat(29), 'b', 'c', 'd', 'e', 'f', 'g', 'h']
+    const body = new Uint8Array([
+      names.length,
+      ...names.flatMap((name) => [
+        name.length,
+        ...new TextEncoder().encode(name),
+      ]),
+      ...names.flatMap(() => [5, ...new TextEncoder().encode('UInt8')]),
+      ...names.map((_, i) => i),
+    ])
+
+    it('should not decompress the response body by default', async () => {
+      spyOn(window, 'fetch').and.callFake(
+        async () =>
+          new Response(body, { headers: { 'Content-Encoding': 'deflate' } }),
+      )
+      const client = createClient({ compression: { response: 'deflate' } })
+      const { stream } = await client.exec({
+        query: 'SELECT * FROM t FORMAT RowBinaryWithNamesAndTypes',
+      })
+      expect(await readBytes(stream)).toEqual(body)
+      await client.close()
+    })
+
+    it('should decompress the response body if manual_response_decompression is enabled', async () => {
+      const compressed = await new Response(
+        new Response(body).body!.pipeThrough(new CompressionStream('deflate')),
+      ).arrayBuffer()
+      spyOn(window, 'fetch').and.callFake(
+        async () =>
+          new Response(compressed, {
+            headers: { 'Content-Encoding': 'deflate' },
+          }),
+      )
+      const client = createClient({
+        compression: { response: 'deflate' },
+        manual_response_decompression: true,
+      })
+      const { stream } = await client.exec({
+        query: 'SELECT * FROM t FORMAT RowBinaryWithNamesAndTypes',
+      })
+      expect(await readBytes(stream)).toEqual(body)
+      await client.close()
+    })
+
+    async function readBytes(stream: ReadableStream): Promise<Uint8Array> {
+      return new Uint8Array(await new Response(stream).arrayBuffer())
+    }
+  })
 })
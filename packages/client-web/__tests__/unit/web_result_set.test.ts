@@ -75,6 +75,33 @@ describe('[Web] ResultSet', () => {
     expect(row.json()).toEqual({ foo: 'bar' })
   })
 
+  it('should not fail on the rows that only look like an exception', async () => {
+    const text =
+      'Code: 60. DB::Exception: Table default.x does not exist. (UNKNOWN_TABLE)\nok\n'
+    const rs = new ResultSet(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(text))
+          controller.close()
+        },
+      }),
+      'TabSeparated',
+      guid(),
+    )
+
+    const result: string[] = []
+    const reader = rs.stream().getReader()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      value.forEach((row) => result.push(row.text))
+    }
+    expect(result).toEqual([
+      'Code: 60. DB::Exception: Table default.x does not exist. (UNKNOWN_TABLE)',
+      'ok',
+    ])
+  })
+
   function makeResultSet() {
     return new ResultSet(
       new ReadableStream({
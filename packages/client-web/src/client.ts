@@ -8,8 +8,10 @@ import type {
   InsertResult,
   IsSame,
   QueryParamsWithFormat,
+  SessionParams,
+  SessionRequestParams,
 } from '@clickhouse/client-common'
-import { ClickHouseClient } from '@clickhouse/client-common'
+import { ClickHouseClient, ClickHouseSession } from '@clickhouse/client-common'
 import type { WebClickHouseClientConfigOptions } from './config'
 import { WebImpl } from './config'
 import type { ResultSet } from './result_set'
@@ -24,21 +26,44 @@ export type QueryResult<Format extends DataFormat> =
 
 export type WebClickHouseClient = Omit<
   WebClickHouseClientImpl,
-  'insert' | 'exec'
+  'insert' | 'exec' | 'session'
 > & {
   /** See {@link ClickHouseClient.insert}.
    *
-   *  ReadableStream is removed from possible insert values
-   *  until it is supported by all major web platforms. */
-  insert<T>(
-    params: Omit<InsertParams<ReadableStream, T>, 'values'> & {
-      values: ReadonlyArray<T> | InputJSON<T> | InputJSONObjectEachRow<T>
-    },
-  ): Promise<InsertResult>
+   *  The values can be a ReadableStream of rows (or of strings/Uint8Array chunks with the raw formats, such as CSV);
+   *  these are encoded one by one, and sent as a streamed request body, if it is enabled and the runtime supports it
+   *  (see {@link WebClickHouseClientConfigOptions.request_streaming}). */
+  insert<T>(params: WebInsertParams<T>): Promise<InsertResult>
   /** See {@link ClickHouseClient.exec}.
    *
    *  Custom values are currently not supported in the web versions. */
   exec(params: ExecParams): Promise<ExecResult<ReadableStream>>
+  /** See {@link ClickHouseClient.session}. */
+  session(params?: SessionParams): WebClickHouseSession
+}
+
+export type WebClickHouseSession = Omit<
+  WebClickHouseSessionImpl,
+  'insert' | 'exec'
+> & {
+  /** See {@link WebClickHouseClient.insert}. */
+  insert<T>(
+    params: SessionRequestParams<WebInsertParams<T>>,
+  ): Promise<InsertResult>
+  /** See {@link WebClickHouseClient.exec}. */
+  exec(
+    params: SessionRequestParams<ExecParams>,
+  ): Promise<ExecResult<ReadableStream>>
+}
+
+type WebInsertParams<T> = Omit<InsertParams<ReadableStream, T>, 'values'> & {
+  values:
+    | ReadonlyArray<T>
+    | ReadableStream<T>
+    | Iterable<T>
+    | AsyncIterable<T>
+    | InputJSON<T>
+    | InputJSONObjectEachRow<T>
 }
 
 class WebClickHouseClientImpl extends ClickHouseClient<ReadableStream> {
@@ -48,6 +73,20 @@ class WebClickHouseClientImpl extends ClickHouseClient<ReadableStream> {
   ): Promise<QueryResult<Format>> {
     return super.query(params) as Promise<ResultSet<Format>>
   }
+
+  /** See {@link ClickHouseClient.session}. */
+  session(params?: SessionParams): WebClickHouseSessionImpl {
+    return super.session(params) as WebClickHouseSessionImpl
+  }
+}
+
+class WebClickHouseSessionImpl extends ClickHouseSession<ReadableStream> {
+  /** See {@link ClickHouseSession.query}. */
+  query<Format extends DataFormat>(
+    params: SessionRequestParams<QueryParamsWithFormat<Format>>,
+  ): Promise<QueryResult<Format>> {
+    return super.query(params) as Promise<ResultSet<Format>>
+  }
 }
 
 export function createClient(
@@ -1,24 +1,61 @@
 import type {
   BaseClickHouseClientConfigOptions,
+  ColumnSchema,
   ConnectionParams,
   DataFormat,
   ImplementationDetails,
   ResponseHeaders,
+  ResultSetValueConverter,
 } from '@clickhouse/client-common'
 import { WebConnection } from './connection'
 import { ResultSet } from './result_set'
-import { WebValuesEncoder } from './utils'
+import { onStreamEnd, WebValuesEncoder } from './utils'
 
-export type WebClickHouseClientConfigOptions = BaseClickHouseClientConfigOptions
+export type WebClickHouseClientConfigOptions =
+  BaseClickHouseClientConfigOptions & {
+    /** If the insert values are a ReadableStream or an iterable, send the encoded values as a streamed request body
+     *  (`fetch` with `duplex: 'half'`), if the runtime supports it. Otherwise, the whole request body is collected
+     *  in memory before it is sent; split large inserts into several ones in that case. <br/>
+     *  NB: Chromium-based browsers can stream the request body only over HTTP/2 (or QUIC),
+     *  and the requests over HTTP/1.1 fail, so enable this option only if the server is accessed over HTTP/2.
+     *  @default false */
+    request_streaming?: boolean
+    /** Decompress the responses compressed with `compression.response` with `DecompressionStream` (gzip and deflate only).
+     *  Enable it only if the `fetch` implementation does not decompress the response body itself;
+     *  the browsers, Node.js, Deno, and Bun always do, keeping the `Content-Encoding` header,
+     *  so the already decompressed body cannot be told apart from the compressed one.
+     *  @default false */
+    manual_response_decompression?: boolean
+  }
 
 export const WebImpl: ImplementationDetails<ReadableStream>['impl'] = {
-  make_connection: (_, params: ConnectionParams) => new WebConnection(params),
+  make_connection: (
+    webConfig: WebClickHouseClientConfigOptions,
+    params: ConnectionParams,
+  ) =>
+    new WebConnection({
+      ...params,
+      request_streaming: webConfig.request_streaming ?? false,
+      manual_response_decompression:
+        webConfig.manual_response_decompression ?? false,
+    }),
   make_result_set: ((
     stream: ReadableStream,
     format: DataFormat,
     query_id: string,
     _log_error: (err: Error) => void,
     response_headers: ResponseHeaders,
-  ) => new ResultSet(stream, format, query_id, response_headers)) as any,
+    schema?: ColumnSchema,
+    value_converter?: ResultSetValueConverter,
+  ) =>
+    new ResultSet(
+      stream,
+      format,
+      query_id,
+      response_headers,
+      schema,
+      value_converter,
+    )) as any,
   values_encoder: new WebValuesEncoder(),
+  on_stream_end: (stream, callback) => onStreamEnd(stream, () => callback()),
 }
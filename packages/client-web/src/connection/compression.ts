@@ -0,0 +1,52 @@
+/** The codecs supported by `CompressionStream` and `DecompressionStream`. */
+export type StreamCodec = 'gzip' | 'deflate'
+
+export function isStreamCodec(codec: string): codec is StreamCodec {
+  return codec === 'gzip' || codec === 'deflate'
+}
+
+/** `CompressionStream` does not support the compression levels, so the default one of the codec is used. */
+export function compressRequestBody(
+  body: string | Uint8Array | ReadableStream<Uint8Array>,
+  codec: StreamCodec,
+): ReadableStream<Uint8Array> {
+  const stream =
+    body instanceof ReadableStream
+      ? body
+      : new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(
+              typeof body === 'string' ? new TextEncoder().encode(body) : body,
+            )
+            controller.close()
+          },
+        })
+  return stream.pipeThrough(
+    new CompressionStream(codec) as ReadableWritablePair<
+      Uint8Array,
+      Uint8Array
+    >,
+  )
+}
+
+/** Used only if the `fetch` implementation does not decompress the response body itself,
+ *  see the `manual_response_decompression` Web client setting. */
+export function decompressResponse(response: Response): Response {
+  const encoding = response.headers.get('content-encoding')
+  if (encoding === null || !isStreamCodec(encoding) || response.body === null) {
+    return response
+  }
+  return new Response(
+    response.body.pipeThrough(
+      new DecompressionStream(encoding) as ReadableWritablePair<
+        Uint8Array,
+        Uint8Array
+      >,
+    ),
+    {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    },
+  )
+}
@@ -1,36 +1,68 @@
 import type {
+  CompressionSettings,
   ConnBaseQueryParams,
   ConnCommandResult,
   Connection,
   ConnectionParams,
   ConnInsertParams,
   ConnInsertResult,
+  ConnOperation,
+  ConnExternalTable,
   ConnPingResult,
+  ConnQueryParams,
   ConnQueryResult,
   ResponseHeaders,
 } from '@clickhouse/client-common'
 import {
+  isAbortedOrTimedOut,
+  isRetryableRequest,
   isSuccessfulResponse,
+  killQuery,
   parseError,
+  parseProgressHeader,
+  sharedConnection,
   toSearchParams,
   transformUrl,
   withCompressionHeaders,
+  withCompressionOverrides,
+  withErrorCode,
   withHttpSettings,
+  withMiddleware,
+  withResponseStatus,
+  withRetries,
 } from '@clickhouse/client-common'
-import { getAsText } from '../utils'
+import {
+  getAsBytes,
+  getAsText,
+  onStreamEnd,
+  supportsRequestStreams,
+} from '../utils'
+import {
+  compressRequestBody,
+  decompressResponse,
+  isStreamCodec,
+  type StreamCodec,
+} from './compression'
 
 type WebInsertParams<T> = Omit<
   ConnInsertParams<ReadableStream<T>>,
   'values'
 > & {
-  values: string
+  values: string | Uint8Array | ReadableStream<Uint8Array>
 }
 
-export type WebConnectionParams = ConnectionParams
+export type WebConnectionParams = ConnectionParams & {
+  /** Send the insert request body as a stream, if the runtime supports it. */
+  request_streaming: boolean
+  /** Decompress the response body, as the `fetch` implementation does not do it. */
+  manual_response_decompression: boolean
+}
 
 export class WebConnection implements Connection<ReadableStream> {
   private readonly defaultHeaders: Record<string, string>
   constructor(private readonly params: WebConnectionParams) {
+    // fails early, instead of on the first request
+    getRequestCodec(params.compression)
     this.defaultHeaders = {
       Authorization: `Basic ${btoa(`${params.username}:${params.password}`)}`,
       ...params?.http_headers,
@@ -38,28 +70,48 @@ export class WebConnection implements Connection<ReadableStream> {
   }
 
   async query(
-    params: ConnBaseQueryParams,
+    params: ConnQueryParams<ReadableStream<Uint8Array>>,
   ): Promise<ConnQueryResult<ReadableStream<Uint8Array>>> {
     const query_id = getQueryId(params.query_id)
+    const compression = this.getCompression(params)
     const clickhouse_settings = withHttpSettings(
       params.clickhouse_settings,
-      this.params.compression.decompress_response,
+      compression.decompress_response,
+      compression.response_level,
     )
+    // with the external tables, the body is the multipart form, and the query is sent in the URL
+    const externalTables = params.external_tables
     const searchParams = toSearchParams({
-      database: this.params.database,
+      database: params.database ?? this.params.database,
       clickhouse_settings,
       query_params: params.query_params,
       session_id: params.session_id,
       query_id,
+      query: externalTables !== undefined ? params.query : undefined,
+      external_tables: externalTables,
     })
-    const response = await this.request({
-      values: params.query,
-      params,
-      searchParams,
-    })
+    let response: Response
+    try {
+      response = await this.request({
+        values:
+          externalTables !== undefined
+            ? await getFormData(externalTables)
+            : params.query,
+        params,
+        searchParams,
+        op: 'Query',
+      })
+    } catch (err) {
+      this.cancelOnAbort(err, query_id, params)
+      throw err
+    }
     return {
       query_id,
-      stream: response.body || new ReadableStream<Uint8Array>(),
+      stream: this.cancelOnPrematureClose(
+        response.body || new ReadableStream<Uint8Array>(),
+        query_id,
+        params,
+      ),
       response_headers: getResponseHeaders(response),
     }
   }
@@ -67,16 +119,30 @@ export class WebConnection implements Connection<ReadableStream> {
   async exec(
     params: ConnBaseQueryParams,
   ): Promise<ConnQueryResult<ReadableStream<Uint8Array>>> {
-    const result = await this.runExec(params)
+    const query_id = getQueryId(params.query_id)
+    let result: RunExecResult
+    try {
+      result = await this.runExec({ ...params, query_id }, 'Exec')
+    } catch (err) {
+      this.cancelOnAbort(err, query_id, params)
+      throw err
+    }
     return {
       query_id: result.query_id,
-      stream: result.stream || new ReadableStream<Uint8Array>(),
+      stream: this.cancelOnPrematureClose(
+        result.stream || new ReadableStream<Uint8Array>(),
+        query_id,
+        params,
+      ),
       response_headers: result.response_headers,
     }
   }
 
   async command(params: ConnBaseQueryParams): Promise<ConnCommandResult> {
-    const { stream, query_id, response_headers } = await this.runExec(params)
+    const { stream, query_id, response_headers } = await this.runExec(
+      params,
+      'Command',
+    )
     if (stream !== null) {
       await stream.cancel()
     }
@@ -87,8 +153,9 @@ export class WebConnection implements Connection<ReadableStream> {
     params: WebInsertParams<T>,
   ): Promise<ConnInsertResult> {
     const query_id = getQueryId(params.query_id)
+    const compression = this.getCompression(params)
     const searchParams = toSearchParams({
-      database: this.params.database,
+      database: params.database ?? this.params.database,
       clickhouse_settings: params.clickhouse_settings,
       query_params: params.query_params,
       query: params.query,
@@ -96,9 +163,11 @@ export class WebConnection implements Connection<ReadableStream> {
       query_id,
     })
     const response = await this.request({
-      values: params.values,
+      values: await this.getRequestBody(params.values, compression),
       params,
       searchParams,
+      op: 'Insert',
+      enable_request_compression: compression.compress_request,
     })
     if (response.body !== null) {
       await response.text() // drain the response (it's empty anyway)
@@ -115,6 +184,7 @@ export class WebConnection implements Connection<ReadableStream> {
     try {
       const response = await this.request({
         values: 'SELECT 1 FORMAT CSV',
+        op: 'Ping',
       })
       if (response.body !== null) {
         await response.body.cancel()
@@ -131,36 +201,139 @@ export class WebConnection implements Connection<ReadableStream> {
     }
   }
 
+  /** `fetch` does not allow choosing the socket, so the requests are sent as usual. */
+  pin(): Connection<ReadableStream> {
+    return sharedConnection(this)
+  }
+
   async close(): Promise<void> {
     return
   }
 
-  private async request({
-    values,
-    params,
-    searchParams,
-    pathname,
-    method,
-  }: {
-    values: string | null
-    params?: ConnBaseQueryParams
-    searchParams?: URLSearchParams
-    pathname?: string
-    method?: 'GET' | 'POST'
-  }): Promise<Response> {
-    const url = transformUrl({
-      url: this.params.url,
-      pathname,
-      searchParams,
-    }).toString()
+  /** See {@link BaseClickHouseClientConfigOptions.cancel_on_abort}. */
+  private cancelOnAbort(
+    err: unknown,
+    query_id: string,
+    params: ConnBaseQueryParams,
+  ): void {
+    if (
+      this.params.cancel_on_abort !== undefined &&
+      isAbortedOrTimedOut(err, params.abort_signal)
+    ) {
+      void this.killQuery(query_id, params)
+    }
+  }
 
+  /** The response stream is cancelled before its end, e.g., with `ResultSet.close()`. */
+  private cancelOnPrematureClose(
+    stream: ReadableStream<Uint8Array>,
+    query_id: string,
+    params: ConnBaseQueryParams,
+  ): ReadableStream<Uint8Array> {
+    if (this.params.cancel_on_abort === undefined) {
+      return stream
+    }
+    return onStreamEnd(stream, (is_complete) => {
+      if (!is_complete) {
+        void this.killQuery(query_id, params)
+      }
+    })
+  }
+
+  private async killQuery(
+    query_id: string,
+    params: ConnBaseQueryParams,
+  ): Promise<void> {
+    await killQuery({
+      query_id,
+      mode: this.params.cancel_on_abort?.mode ?? 'ASYNC',
+      auth: params.auth,
+      http_headers: params.http_headers,
+      // not via `exec`, so a failed KILL QUERY request is not cancelled in turn
+      run: async (killParams) => {
+        const { stream } = await this.runExec(killParams, 'Exec')
+        return stream !== null ? getAsText(stream) : ''
+      },
+      log_writer: this.params.log_writer,
+    })
+  }
+
+  /** Only the values encoded as a stream (from a stream or an iterable) are sent as a streamed request body,
+   *  if it is enabled and the runtime supports it; otherwise, the whole (compressed) body is collected
+   *  before the request is sent. */
+  private async getRequestBody(
+    values: string | Uint8Array | ReadableStream<Uint8Array>,
+    compression: CompressionSettings,
+  ): Promise<string | Uint8Array | ReadableStream<Uint8Array>> {
+    const requestCodec = getRequestCodec(compression)
+    const body =
+      requestCodec !== undefined
+        ? compressRequestBody(values, requestCodec)
+        : values
+    const canStream =
+      values instanceof ReadableStream &&
+      this.params.request_streaming &&
+      supportsRequestStreams()
+    return body instanceof ReadableStream && !canStream
+      ? await getAsBytes(body)
+      : body
+  }
+
+  private async request(params: RequestParams): Promise<Response> {
+    return withMiddleware({
+      middleware: this.params.middleware,
+      op: params.op,
+      url: transformUrl({
+        url: this.params.url,
+        pathname: params.pathname,
+        searchParams: params.searchParams,
+      }),
+      headers:
+        params.params?.auth !== undefined
+          ? {
+              ...this.defaultHeaders,
+              ...params.params.http_headers,
+              Authorization: `Basic ${btoa(`${params.params.auth.username}:${params.params.auth.password}`)}`,
+            }
+          : { ...this.defaultHeaders, ...params.params?.http_headers },
+      request: (url, headers) =>
+        withRetries({
+          op: params.op,
+          settings: this.params.retry,
+          log_writer: this.params.log_writer,
+          can_retry:
+            isRetryableRequest(
+              params.op,
+              this.params.retry,
+              url.searchParams,
+            ) && !(params.values instanceof ReadableStream),
+          abort_signal: params.params?.abort_signal,
+          query_id: url.searchParams.get('query_id') ?? undefined,
+          request: () => this.sendRequest(params, url, headers),
+        }),
+      getResponseHeaders,
+      discard: (response) => {
+        if (response.body !== null) {
+          void response.body.cancel()
+        }
+      },
+      log_writer: this.params.log_writer,
+    })
+  }
+
+  private async sendRequest(
+    { values, params, method, op, enable_request_compression }: RequestParams,
+    url: URL,
+    requestHeaders: Record<string, string>,
+  ): Promise<Response> {
     const abortController = new AbortController()
+    const compression = this.getCompression(params)
 
     let isTimedOut = false
     const timeout = setTimeout(() => {
       isTimedOut = true
       abortController.abort()
-    }, this.params.request_timeout)
+    }, params?.request_timeout ?? this.params.request_timeout)
 
     let isAborted = false
     if (params?.abort_signal !== undefined) {
@@ -172,31 +345,46 @@ export class WebConnection implements Connection<ReadableStream> {
 
     try {
       const headers = withCompressionHeaders({
-        headers:
-          params?.auth !== undefined
-            ? {
-                ...this.defaultHeaders,
-                Authorization: `Basic ${btoa(`${params.auth.username}:${params.auth.password}`)}`,
-              }
-            : this.defaultHeaders,
-        enable_request_compression: false,
-        enable_response_compression:
-          this.params.compression.decompress_response,
+        headers: requestHeaders,
+        enable_request_compression,
+        enable_response_compression: compression.decompress_response,
+        request_codec: compression.request_codec,
+        response_codec: compression.response_codec,
       })
-      const response = await fetch(url, {
-        body: values,
+      const isStreamBody = values instanceof ReadableStream
+      const fetched = await fetch(url.toString(), {
+        // newer TS versions do not accept Uint8Array<ArrayBufferLike> as BodyInit
+        body: values as BodyInit | null,
         headers,
-        keepalive: this.params.keep_alive.enabled,
+        // keepalive requests cannot have a streamed body
+        keepalive: this.params.keep_alive.enabled && !isStreamBody,
         method: method ?? 'POST',
         signal: abortController.signal,
-      })
+        // required to send a ReadableStream as the request body
+        ...(isStreamBody ? { duplex: 'half' } : {}),
+      } as RequestInit)
+      const response = this.params.manual_response_decompression
+        ? decompressResponse(fetched)
+        : fetched
       clearTimeout(timeout)
       if (isSuccessfulResponse(response.status)) {
+        if (params?.on_progress !== undefined) {
+          this.reportProgress(op, response, params.on_progress)
+        }
         return response
       } else {
         return Promise.reject(
-          parseError(
-            await getAsText(response.body || new ReadableStream<Uint8Array>()),
+          withResponseStatus(
+            parseError(
+              await getAsText(
+                response.body || new ReadableStream<Uint8Array>(),
+              ),
+              {
+                query_id: url.searchParams.get('query_id') ?? undefined,
+                http_status: response.status,
+              },
+            ),
+            response.status,
           ),
         )
       }
@@ -208,6 +396,11 @@ export class WebConnection implements Connection<ReadableStream> {
       if (isTimedOut) {
         return Promise.reject(new Error('Timeout error.'))
       }
+      if (err instanceof TypeError) {
+        // the browsers do not provide any details of a network failure; the request might have reached the server,
+        // so it is treated as a dropped connection, which is failed over only for the idempotent operations
+        return Promise.reject(withErrorCode(err, 'ECONNRESET'))
+      }
       if (err instanceof Error) {
         // maybe it's a ClickHouse error
         return Promise.reject(parseError(err))
@@ -217,19 +410,57 @@ export class WebConnection implements Connection<ReadableStream> {
     }
   }
 
-  private async runExec(params: ConnBaseQueryParams): Promise<RunExecResult> {
+  private getCompression(
+    params: ConnBaseQueryParams | undefined,
+  ): CompressionSettings {
+    return withCompressionOverrides(
+      this.params.compression,
+      params?.compression,
+    )
+  }
+
+  /** fetch does not provide access to the headers before the entire response head is received,
+   *  so all the progress updates are reported at once. */
+  private reportProgress(
+    op: ConnOperation,
+    response: Response,
+    onProgress: NonNullable<ConnBaseQueryParams['on_progress']>,
+  ): void {
+    const header = response.headers.get('x-clickhouse-progress')
+    if (header === null) {
+      return
+    }
+    for (const progress of parseProgressHeader(header)) {
+      try {
+        onProgress(progress)
+      } catch (err) {
+        this.params.log_writer.error({
+          message: `${op}: on_progress callback failed.`,
+          err: err as Error,
+        })
+      }
+    }
+  }
+
+  private async runExec(
+    params: ConnBaseQueryParams,
+    op: 'Exec' | 'Command',
+  ): Promise<RunExecResult> {
     const query_id = getQueryId(params.query_id)
+    const compression = this.getCompression(params)
     const searchParams = toSearchParams({
-      database: this.params.database,
+      database: params.database ?? this.params.database,
       clickhouse_settings: params.clickhouse_settings,
       query_params: params.query_params,
       session_id: params.session_id,
       query_id,
     })
     const response = await this.request({
-      values: params.query,
+      values: await this.getRequestBody(params.query, compression),
       params,
       searchParams,
+      op,
+      enable_request_compression: compression.compress_request,
     })
     return {
       stream: response.body,
@@ -239,6 +470,27 @@ export class WebConnection implements Connection<ReadableStream> {
   }
 }
 
+/** Set if the request compression is enabled. */
+function getRequestCodec(
+  compression: CompressionSettings,
+): StreamCodec | undefined {
+  if (!compression.compress_request) {
+    return undefined
+  }
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error(
+      'Request compression is enabled, but CompressionStream is not supported by the runtime',
+    )
+  }
+  const codec = compression.request_codec ?? 'gzip'
+  if (!isStreamCodec(codec)) {
+    throw new Error(
+      `Compression codec ${codec} is not supported for the requests by the Web client. Supported codecs: gzip, deflate.`,
+    )
+  }
+  return codec
+}
+
 function getQueryId(query_id: string | undefined): string {
   return query_id || crypto.randomUUID()
 }
@@ -251,8 +503,32 @@ function getResponseHeaders(response: Response): ResponseHeaders {
   return headers
 }
 
+interface RequestParams {
+  values: string | Uint8Array | ReadableStream<Uint8Array> | FormData | null
+  op: ConnOperation
+  params?: ConnBaseQueryParams
+  searchParams?: URLSearchParams
+  pathname?: string
+  method?: 'GET' | 'POST'
+  enable_request_compression?: boolean
+}
+
 interface RunExecResult {
   stream: ReadableStream<Uint8Array> | null
   query_id: string
   response_headers: ResponseHeaders
 }
+
+/** Each external table is a "file" of the form; `fetch` sets the multipart boundary on its own.
+ *  The values encoded as a stream are collected first, as a Blob cannot be created from a stream. */
+async function getFormData(
+  tables: ConnExternalTable<ReadableStream<Uint8Array>>[],
+): Promise<FormData> {
+  const form = new FormData()
+  for (const { name, values } of tables) {
+    const data =
+      values instanceof ReadableStream ? await getAsBytes(values) : values
+    form.append(name, new Blob([data as BlobPart]), name)
+  }
+  return form
+}
@@ -1,5 +1,6 @@
 export {
   WebClickHouseClient as ClickHouseClient,
+  type WebClickHouseSession as ClickHouseSession,
   type QueryResult,
 } from './client'
 export { createClient } from './client'
@@ -9,8 +10,11 @@ export { ResultSet } from './result_set'
 /** Re-export @clickhouse/client-common types */
 export {
   type BaseClickHouseClientConfigOptions,
+  type CompressionCodec,
+  type CompressionOptions,
   type BaseQueryParams,
   type QueryParams,
+  type ExternalTable,
   type ExecParams,
   type InsertParams,
   type InsertValues,
@@ -24,6 +28,20 @@ export {
   type StreamableDataFormat,
   type StreamableJSONDataFormat,
   type SingleDocumentJSONFormat,
+  type RowBinaryDataFormat,
+  type NativeDataFormat,
+  type NativeBlock,
+  type NativeColumnValues,
+  type NativeInsertBlock,
+  type BinaryRawDataFormat,
+  type ArrowDataFormat,
+  type ColumnSchema,
+  type ParsedColumnType,
+  type ValueConverter,
+  type ValueConverters,
+  type ConvertibleColumnType,
+  InsertValidationError,
+  type InsertValidationFailure,
   type Logger,
   type LogParams,
   type ErrorLogParams,
@@ -34,9 +52,48 @@ export {
   type ResponseJSON,
   type InputJSON,
   type InputJSONObjectEachRow,
+  type ClickHouseProgress,
   type BaseResultSet,
   type PingResult,
   ClickHouseError,
+  ClickHouseErrorCodes,
+  type ClickHouseErrorType,
+  UnknownTableError,
+  QuerySyntaxError,
+  TimeoutExceededError,
+  MemoryLimitExceededError,
+  TooManySimultaneousQueriesError,
+  ReadonlyError,
+  AuthenticationFailedError,
+  sql,
+  SQLFragment,
+  SQLParam,
+  type RenderedSQL,
+  BatchInserter,
+  type BatchInserterParams,
+  type BatchInsertResult,
+  type DatabaseInfo,
+  type TableInfo,
+  type TableColumn,
+  type ColumnDefaultKind,
+  type TableEngine,
+  Migrator,
+  type MigratorParams,
+  type Migration,
+  type MigrationStep,
+  type MigrationContext,
+  type MigrationState,
+  type MigrationStatus,
+  type SessionParams,
+  type SessionRequestParams,
+  type Endpoint,
+  type LoadBalancingStrategy,
+  type LoadBalancingStrategyName,
+  type KillQueryMode,
+  type Middleware,
+  type MiddlewareRequest,
+  type MiddlewareResponse,
+  type MiddlewareError,
   ClickHouseLogLevel,
   SettingsMap,
   SupportedJSONFormats,
@@ -45,4 +102,8 @@ export {
   StreamableJSONFormats,
   SingleDocumentJSONFormats,
   RecordsJSONFormats,
+  RowBinaryFormats,
+  NativeFormats,
+  BinaryRawFormats,
+  ArrowFormats,
 } from '@clickhouse/client-common'
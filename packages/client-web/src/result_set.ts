@@ -1,20 +1,37 @@
 import type {
   BaseResultSet,
+  ClickHouseError,
+  ColumnSchema,
   DataFormat,
+  NativeBlock,
   ResponseHeaders,
   ResultJSONType,
+  ResultSetValueConverter,
   ResultStream,
   Row,
+  RowBinaryDataFormat,
 } from '@clickhouse/client-common'
 import {
+  ArrowRecordBatchSplitter,
+  isArrowFormat,
+  isBinaryRawFormat,
+  isNativeFormat,
   isNotStreamableJSONFamily,
+  isRowBinaryFormat,
   isStreamableJSONFamily,
+  isStreamErrorRow,
+  isStreamErrorTail,
+  nativeBlockToRows,
+  NativeResultDecoder,
+  parseStreamError,
+  RowBinaryResultDecoder,
+  rowBinaryRow,
 } from '@clickhouse/client-common'
 import { validateStreamFormat } from '@clickhouse/client-common'
 import { getAsText } from './utils'
 
 export class ResultSet<Format extends DataFormat | unknown>
-  implements BaseResultSet<ReadableStream<Row[]>, Format>
+  implements BaseResultSet<ReadableStream, Format>
 {
   public readonly response_headers: ResponseHeaders
   private isAlreadyConsumed = false
@@ -24,6 +41,8 @@ export class ResultSet<Format extends DataFormat | unknown>
     private readonly format: Format,
     public readonly query_id: string,
     _response_headers?: ResponseHeaders,
+    private readonly schema?: ColumnSchema,
+    private readonly value_converter?: ResultSetValueConverter,
   ) {
     this.response_headers =
       _response_headers !== undefined ? Object.freeze(_response_headers) : {}
@@ -37,10 +56,15 @@ export class ResultSet<Format extends DataFormat | unknown>
 
   /** See {@link BaseResultSet.json} */
   async json<T>(): Promise<ResultJSONType<T, Format>> {
-    // JSONEachRow, etc.
-    if (isStreamableJSONFamily(this.format as DataFormat)) {
+    // JSONEachRow, RowBinary, etc.
+    if (
+      isStreamableJSONFamily(this.format as DataFormat) ||
+      isRowBinaryFormat(this.format as DataFormat)
+    ) {
       const result: T[] = []
-      const reader = this.stream<T>().getReader()
+      const reader = (
+        this.stream<T>() as ReadableStream<Row<T, Format>[]>
+      ).getReader()
       // eslint-disable-next-line no-constant-condition
       while (true) {
         const { done, value } = await reader.read()
@@ -53,23 +77,175 @@ export class ResultSet<Format extends DataFormat | unknown>
       }
       return result as any
     }
+    // Native blocks converted to rows
+    if (isNativeFormat(this.format as DataFormat)) {
+      const result: T[] = []
+      for await (const block of this.blocks()) {
+        for (const row of nativeBlockToRows(block)) {
+          result.push(row as T)
+        }
+      }
+      return result as any
+    }
     // JSON, JSONObjectEachRow, etc.
     if (isNotStreamableJSONFamily(this.format as DataFormat)) {
       const text = await getAsText(this._stream)
-      return JSON.parse(text)
+      const result = JSON.parse(text)
+      return this.value_converter !== undefined
+        ? (this.value_converter.document(result) as any)
+        : result
     }
     // should not be called for CSV, etc.
     throw new Error(`Cannot decode ${this.format} as JSON`)
   }
 
   /** See {@link BaseResultSet.stream} */
-  stream<T>(): ResultStream<Format, ReadableStream<Row<T, Format>[]>> {
+  stream<T>(): ResultStream<
+    Format,
+    ReadableStream<Row<T, Format>[]>,
+    ReadableStream<Uint8Array>
+  > {
     this.markAsConsumed()
     validateStreamFormat(this.format)
 
+    // Parquet, Arrow, etc. cannot be split into rows
+    if (isBinaryRawFormat(this.format as DataFormat)) {
+      return this._stream as any
+    }
+
+    const transform = isRowBinaryFormat(this.format as DataFormat)
+      ? this.rowBinaryToRows()
+      : this.textToRows()
+
+    const pipeline = this._stream.pipeThrough(transform, {
+      preventClose: false,
+      preventAbort: false,
+      preventCancel: false,
+    })
+    return pipeline as any
+  }
+
+  /** See {@link BaseResultSet.blocks} */
+  blocks(): AsyncIterableIterator<NativeBlock> {
+    this.markAsConsumed()
+    if (!isNativeFormat(this.format as DataFormat)) {
+      throw new Error(
+        `Cannot decode ${this.format} as Native blocks. Use Native format instead.`,
+      )
+    }
+    return this.nativeBlocks()
+  }
+
+  /** See {@link BaseResultSet.recordBatches} */
+  recordBatches(): AsyncIterableIterator<Uint8Array> {
+    this.markAsConsumed()
+    if (!isArrowFormat(this.format as DataFormat)) {
+      throw new Error(
+        `Cannot decode ${this.format} as Arrow record batches. Use Arrow or ArrowStream format instead.`,
+      )
+    }
+    return this.arrowRecordBatches()
+  }
+
+  async close(): Promise<void> {
+    this.markAsConsumed()
+    await this._stream.cancel()
+  }
+
+  private markAsConsumed() {
+    if (this.isAlreadyConsumed) {
+      throw new Error(streamAlreadyConsumedMessage)
+    }
+    this.isAlreadyConsumed = true
+  }
+
+  private async *nativeBlocks(): AsyncIterableIterator<NativeBlock> {
+    const decoder = new NativeResultDecoder()
+    const reader = this._stream.getReader()
+    try {
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) {
+          break
+        }
+        yield* decoder.decode(value)
+      }
+    } finally {
+      reader.releaseLock()
+    }
+    yield* decoder.finish()
+  }
+
+  private async *arrowRecordBatches(): AsyncIterableIterator<Uint8Array> {
+    const splitter = new ArrowRecordBatchSplitter()
+    const reader = this._stream.getReader()
+    try {
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) {
+          break
+        }
+        yield* splitter.split(value)
+      }
+    } finally {
+      reader.releaseLock()
+    }
+    splitter.finish()
+  }
+
+  private rowBinaryToRows(): TransformStream<Uint8Array, Row[]> {
+    const decoder = new RowBinaryResultDecoder(
+      this.format as RowBinaryDataFormat,
+      this.schema,
+    )
+    return new TransformStream({
+      transform: (chunk, controller) => {
+        const rows = decoder.decode(chunk).map(rowBinaryRow)
+        if (rows.length > 0) {
+          controller.enqueue(rows)
+        }
+      },
+      flush() {
+        decoder.finish()
+      },
+    })
+  }
+
+  private textToRows(): ReadableWritablePair<Row[], Uint8Array> {
+    const query_id = this.query_id
+    const valueConverter = this.value_converter
     let decodedChunk = ''
+    let rowsReceived = 0
+    // if the query fails after the response has started, the rest of it is the exception text;
+    // the rows that might be such an exception are held back until it is clear (see isStreamErrorTail)
+    let heldRows: string[] = []
+    let streamError: ClickHouseError | null = null
     const decoder = new TextDecoder('utf-8')
-    const transform = new TransformStream({
+    const toRow = (text: string): Row =>
+      valueConverter !== undefined
+        ? valueConverter.row(text)
+        : {
+            text,
+            json<T>(): T {
+              return JSON.parse(text)
+            },
+          }
+    const processRow = (text: string, rows: Row[]) => {
+      if (heldRows.length === 0 && !isStreamErrorRow(text)) {
+        rows.push(toRow(text))
+        return
+      }
+      heldRows.push(text)
+      if (!isStreamErrorTail(heldRows)) {
+        const [row, ...rest] = heldRows
+        heldRows = []
+        rows.push(toRow(row))
+        rest.forEach((text) => processRow(text, rows))
+      }
+    }
+    const transform = new TransformStream<Uint8Array, Row[]>({
       start() {
         //
       },
@@ -77,7 +253,7 @@ export class ResultSet<Format extends DataFormat | unknown>
         if (chunk === null) {
           controller.terminate()
         }
-        decodedChunk += decoder.decode(chunk)
+        decodedChunk += decoder.decode(chunk, { stream: true })
         const rows: Row[] = []
         // eslint-disable-next-line no-constant-condition
         while (true) {
@@ -85,43 +261,59 @@ export class ResultSet<Format extends DataFormat | unknown>
           if (idx !== -1) {
             const text = decodedChunk.slice(0, idx)
             decodedChunk = decodedChunk.slice(idx + 1)
-            rows.push({
-              text,
-              json<T>(): T {
-                return JSON.parse(text)
-              },
-            })
+            processRow(text, rows)
           } else {
-            if (rows.length) {
-              controller.enqueue(rows)
-            }
             break
           }
         }
+        if (rows.length) {
+          rowsReceived += rows.length
+          controller.enqueue(rows)
+        }
       },
-      flush() {
+      flush(controller) {
+        // the exception text might not end with a newline
+        const rest = decodedChunk + decoder.decode()
         decodedChunk = ''
+        const rows: Row[] = []
+        if (rest !== '' && (heldRows.length > 0 || isStreamErrorRow(rest))) {
+          processRow(rest, rows)
+        }
+        if (rows.length) {
+          rowsReceived += rows.length
+          controller.enqueue(rows)
+        }
+        if (heldRows.length > 0) {
+          streamError = parseStreamError(
+            heldRows.join('\n'),
+            query_id,
+            rowsReceived,
+          )
+        }
       },
     })
-
-    const pipeline = this._stream.pipeThrough(transform, {
-      preventClose: false,
-      preventAbort: false,
-      preventCancel: false,
-    })
-    return pipeline as any
-  }
-
-  async close(): Promise<void> {
-    this.markAsConsumed()
-    await this._stream.cancel()
-  }
-
-  private markAsConsumed() {
-    if (this.isAlreadyConsumed) {
-      throw new Error(streamAlreadyConsumedMessage)
-    }
-    this.isAlreadyConsumed = true
+    // erroring the TransformStream would discard the rows that were not read yet,
+    // so the error is raised only when the consumer asks for more rows after them
+    const reader = transform.readable.getReader()
+    const readable = new ReadableStream<Row[]>(
+      {
+        async pull(controller) {
+          const { done, value } = await reader.read()
+          if (!done) {
+            controller.enqueue(value)
+          } else if (streamError !== null) {
+            controller.error(streamError)
+          } else {
+            controller.close()
+          }
+        },
+        cancel(reason) {
+          return reader.cancel(reason)
+        },
+      },
+      { highWaterMark: 0 },
+    )
+    return { writable: transform.writable, readable }
   }
 }
 
@@ -1,17 +1,76 @@
 import type {
+  ColumnSchema,
   DataFormat,
   InsertValues,
+  InsertValuesValidator,
+  NativeInsertBlock,
   ValuesEncoder,
 } from '@clickhouse/client-common'
-import { encodeJSON } from '@clickhouse/client-common'
+import {
+  ArrowIPCStreamWriter,
+  encodeArrowIPCStream,
+  encodeJSON,
+  isArrowFormat,
+  isIterableInsertValues,
+  isNativeFormat,
+  isRowBinaryFormat,
+  isSupportedRawFormat,
+  NativeBlockEncoder,
+  RowBinaryRowEncoder,
+} from '@clickhouse/client-common'
 import { isStream } from './stream'
 
 export class WebValuesEncoder implements ValuesEncoder<ReadableStream> {
   encodeValues<T = unknown>(
     values: InsertValues<T>,
     format: DataFormat,
-  ): string | ReadableStream {
-    throwIfStream(values)
+    schema?: ColumnSchema,
+    validator?: InsertValuesValidator,
+  ): string | Uint8Array | ReadableStream {
+    // some runtimes implement ReadableStream as an AsyncIterable, but not all of them
+    if (isStream(values) || isIterableInsertValues<T>(values)) {
+      return iterableToStream(values, format, schema, validator)
+    }
+    if (isRowBinaryFormat(format)) {
+      if (schema === undefined) {
+        throw new Error(
+          `Encoding ${format} format requires the column types schema to be provided`,
+        )
+      }
+      if (!Array.isArray(values)) {
+        throw new Error(
+          `Cannot encode values of type ${typeof values} with ${format} format`,
+        )
+      }
+      const encoder = new RowBinaryRowEncoder(format, schema)
+      values.forEach((row) => encoder.write(row))
+      return encoder.flush()
+    }
+    if (isNativeFormat(format)) {
+      if (schema === undefined) {
+        throw new Error(
+          'Encoding Native format requires the column types schema to be provided',
+        )
+      }
+      const encoder = new NativeBlockEncoder(schema)
+      if (Array.isArray(values)) {
+        values.forEach((block) => encoder.write(block))
+      } else {
+        encoder.write(values as NativeInsertBlock)
+      }
+      return encoder.flush()
+    }
+    if (isArrowFormat(format)) {
+      if (values instanceof Uint8Array) {
+        return values
+      }
+      if (Array.isArray(values)) {
+        return encodeArrowIPCStream(values)
+      }
+      throw new Error(
+        `Cannot encode values of type ${typeof values} with ${format} format`,
+      )
+    }
     // JSON* arrays
     if (Array.isArray(values)) {
       return values.map((value) => encodeJSON(value, format)).join('')
@@ -25,21 +84,168 @@ export class WebValuesEncoder implements ValuesEncoder<ReadableStream> {
     )
   }
 
-  validateInsertValues<T = unknown>(values: InsertValues<T>): void {
-    throwIfStream(values)
+  validateInsertValues<T = unknown>(
+    values: InsertValues<T>,
+    format: DataFormat,
+    validator?: InsertValuesValidator,
+  ): void {
+    if (isStream(values) || isIterableInsertValues<T>(values)) {
+      if (format === 'Arrow') {
+        throw new Error(
+          'Insert for Arrow expected "values" to be a Uint8Array, ' +
+            `got: ${isStream(values) ? 'a stream' : 'an iterable'}. Use ArrowStream format to insert multiple Arrow IPC inputs.`,
+        )
+      }
+      return
+    }
+    if (isRowBinaryFormat(format) && !Array.isArray(values)) {
+      throw new Error(
+        `Insert for ${format} expected "values" to be an array, ` +
+          `got: ${typeof values}`,
+      )
+    }
+    if (
+      isArrowFormat(format) &&
+      !(values instanceof Uint8Array) &&
+      (format === 'Arrow' || !Array.isArray(values))
+    ) {
+      throw new Error(
+        format === 'Arrow'
+          ? 'Insert for Arrow expected "values" to be a Uint8Array, ' +
+            `got: ${typeof values}. Use ArrowStream format to insert multiple Arrow IPC inputs.`
+          : 'Insert for ArrowStream expected "values" to be a Uint8Array or an array of Uint8Array, ' +
+            `got: ${typeof values}`,
+      )
+    }
     if (!Array.isArray(values) && typeof values !== 'object') {
       throw new Error(
         'Insert expected "values" to be an array or a JSON object, ' +
           `got: ${typeof values}`,
       )
     }
+    validator?.validateAll(values)
   }
 }
 
-function throwIfStream(values: unknown) {
+/** The values are accumulated until at least this amount of bytes is encoded,
+ *  so the request body is not split into tiny chunks. */
+const ChunkSize = 64 * 1024
+
+interface ChunkEncoder {
+  /** Returns the next chunk of the request body, if enough values are accumulated. */
+  write(value: unknown): Uint8Array | null
+  finish(): Uint8Array
+}
+
+/** The values are pulled from the iterable (or the stream) only when the request body is read, and encoded one by one. */
+function iterableToStream<T>(
+  values: Iterable<T> | AsyncIterable<T> | ReadableStream<T>,
+  format: DataFormat,
+  schema: ColumnSchema | undefined,
+  validator: InsertValuesValidator | undefined,
+): ReadableStream<Uint8Array> {
+  const encoder = makeChunkEncoder(format, schema, validator)
+  const iterator = getIterator(values)
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const { done, value } = await iterator.next()
+        if (done) {
+          const chunk = encoder.finish()
+          if (chunk.length > 0) {
+            controller.enqueue(chunk)
+          }
+          controller.close()
+          return
+        }
+        const chunk = encoder.write(value)
+        if (chunk !== null) {
+          controller.enqueue(chunk)
+          return
+        }
+      }
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
+
+function getIterator<T>(
+  values: Iterable<T> | AsyncIterable<T> | ReadableStream<T>,
+): Pick<AsyncIterator<T>, 'next' | 'return'> | Iterator<T> {
   if (isStream(values)) {
-    throw new Error(
-      'Streaming is not supported for inserts in the web version of the client',
-    )
+    const reader = values.getReader()
+    return {
+      next: () => reader.read() as Promise<IteratorResult<T>>,
+      return: async () => {
+        await reader.cancel()
+        return { done: true, value: undefined }
+      },
+    }
+  }
+  return Symbol.asyncIterator in values
+    ? values[Symbol.asyncIterator]()
+    : values[Symbol.iterator]()
+}
+
+function makeChunkEncoder(
+  format: DataFormat,
+  schema: ColumnSchema | undefined,
+  validator: InsertValuesValidator | undefined,
+): ChunkEncoder {
+  if (isRowBinaryFormat(format) || isNativeFormat(format)) {
+    if (schema === undefined) {
+      throw new Error(
+        `Encoding ${format} format requires the column types schema to be provided`,
+      )
+    }
+    const encoder = isNativeFormat(format)
+      ? new NativeBlockEncoder(schema)
+      : new RowBinaryRowEncoder(format, schema)
+    return {
+      write(value) {
+        encoder.write(value as NativeInsertBlock)
+        return encoder.bufferedBytes >= ChunkSize ? encoder.flush() : null
+      },
+      finish() {
+        // the header of RowBinaryWithNamesAndTypes is sent even if there were no rows
+        return encoder.bufferedBytes > 0 ? encoder.flush() : new Uint8Array()
+      },
+    }
+  }
+  if (isArrowFormat(format)) {
+    const writer = new ArrowIPCStreamWriter()
+    return {
+      write: (value) => writer.write(value as Uint8Array),
+      finish: () => writer.finish(),
+    }
+  }
+  const textEncoder = new TextEncoder()
+  // TSV/CSV/CustomSeparated formats don't require additional serialization
+  if (isSupportedRawFormat(format)) {
+    return {
+      write: (value) =>
+        typeof value === 'string'
+          ? textEncoder.encode(value)
+          : (value as Uint8Array),
+      finish: () => new Uint8Array(),
+    }
+  }
+  // JSON* formats
+  let text = ''
+  return {
+    write(value) {
+      validator?.validateNext(value)
+      text += encodeJSON(value, format)
+      if (text.length < ChunkSize) {
+        return null
+      }
+      const chunk = textEncoder.encode(text)
+      text = ''
+      return chunk
+    },
+    finish: () => textEncoder.encode(text),
   }
 }
@@ -21,3 +21,93 @@ export async function getAsText(stream: ReadableStream): Promise<string> {
   result += textDecoder.decode()
   return result
 }
+
+/** Reads the stream chunk by chunk, and concatenates the chunks into a single buffer. */
+export async function getAsBytes(
+  stream: ReadableStream<Uint8Array>,
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = []
+  let length = 0
+
+  const reader = stream.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    chunks.push(value)
+    length += value.length
+  }
+
+  const result = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+/** Calls the callback once, when the stream is either read to the end (`is_complete`), failed, or cancelled.
+ *  A ReadableStream has no events, so it is read through the returned wrapper instead. */
+export function onStreamEnd<T>(
+  stream: ReadableStream<T>,
+  callback: (is_complete: boolean) => void,
+): ReadableStream<T> {
+  const reader = stream.getReader()
+  let isFinished = false
+  const finish = (is_complete: boolean) => {
+    if (!isFinished) {
+      isFinished = true
+      callback(is_complete)
+    }
+  }
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          finish(true)
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (err) {
+        finish(false)
+        controller.error(err)
+      }
+    },
+    async cancel(reason) {
+      try {
+        await reader.cancel(reason)
+      } finally {
+        finish(false)
+      }
+    },
+  })
+}
+
+let isRequestStreamSupported: boolean | undefined
+
+/** Checks if `fetch` can send a ReadableStream as the request body (with `duplex: 'half'`).
+ *  If it cannot, the stream is either rejected, or converted into a string (and `Content-Type: text/plain` is set).
+ *  See https://developer.chrome.com/docs/capabilities/web-apis/fetch-streaming-requests#feature_detection */
+export function supportsRequestStreams(): boolean {
+  if (isRequestStreamSupported === undefined) {
+    try {
+      let isDuplexAccessed = false
+      const hasContentType = new Request('http://localhost', {
+        body: new ReadableStream(),
+        method: 'POST',
+        get duplex() {
+          isDuplexAccessed = true
+          return 'half'
+        },
+      } as RequestInit).headers.has('Content-Type')
+      isRequestStreamSupported = isDuplexAccessed && !hasContentType
+    } catch {
+      isRequestStreamSupported = false
+    }
+  }
+  return isRequestStreamSupported
+}